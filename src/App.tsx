@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { OrganizationProvider } from "@/components/OrganizationProvider";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import ErrorBoundary from "@/components/error/ErrorBoundary";
 import { useOnlineStatus } from "@/hooks/useOnlineStatus";
@@ -17,7 +18,11 @@ import JoinAsCamera from "./pages/JoinAsCamera";
 import { LiveKitCameraPage } from "./pages/LiveKitCameraPage";
 import DirectorDashboard from "./pages/DirectorDashboard";
 import ViewerPage from "./pages/ViewerPage";
+import ProgramOutput from "./pages/ProgramOutput";
+import HighlightsPage from "./pages/HighlightsPage";
+import TimelinePage from "./pages/TimelinePage";
 import UserProfile from "./pages/UserProfile";
+import AcceptInvitePage from "./pages/AcceptInvitePage";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import TermsOfService from "./pages/TermsOfService";
 
@@ -37,6 +42,7 @@ const App = () => {
           <Sonner />
           <BrowserRouter>
           <AuthProvider>
+          <OrganizationProvider>
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<AuthPage />} />
@@ -64,12 +70,22 @@ const App = () => {
                 path="/director/:eventId" 
                 element={
                   <ErrorBoundary>
-                    <ProtectedRoute>
+                    <ProtectedRoute requireEventAccess>
                       <DirectorDashboard />
                     </ProtectedRoute>
                   </ErrorBoundary>
                 } 
               />
+              <Route 
+                path="/timeline/:eventId" 
+                element={
+                  <ErrorBoundary>
+                    <ProtectedRoute>
+                      <TimelinePage />
+                    </ProtectedRoute>
+                  </ErrorBoundary>
+                } 
+              />
               <Route 
                 path="/watch/:eventId" 
                 element={
@@ -86,6 +102,16 @@ const App = () => {
                   </ErrorBoundary>
                 } 
               />
+              <Route 
+                path="/highlights/:eventId" 
+                element={
+                  <ErrorBoundary>
+                    <HighlightsPage />
+                  </ErrorBoundary>
+                } 
+              />
+              {/* Egress recorder template for composite program layouts */}
+              <Route path="/program-output/:eventId" element={<ProgramOutput />} />
               {/* Legacy RTMP route removed - all cameras now use LiveKit */}
               <Route 
                 path="/livekit-camera/:eventId" 
@@ -107,11 +133,22 @@ const App = () => {
                   </ErrorBoundary>
                 } 
               />
+              <Route 
+                path="/invite/:token" 
+                element={
+                  <ErrorBoundary>
+                    <ProtectedRoute>
+                      <AcceptInvitePage />
+                    </ProtectedRoute>
+                  </ErrorBoundary>
+                } 
+              />
               <Route path="/privacy" element={<PrivacyPolicy />} />
               <Route path="/terms" element={<TermsOfService />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
+          </OrganizationProvider>
           </AuthProvider>
         </BrowserRouter>
         {!isOnline && (
@@ -5,6 +5,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { toastService } from "@/lib/toast-service";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { NotificationsMenu } from "@/components/NotificationsMenu";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
 import { useState } from "react";
 
 const AppHeader = () => {
@@ -38,6 +40,7 @@ const AppHeader = () => {
           
           {isMobile ? (
             <div className="flex items-center space-x-2">
+              {user && <NotificationsMenu />}
               {user && (
                 <Link 
                   to="/profile" 
@@ -56,6 +59,7 @@ const AppHeader = () => {
                   <div className="flex flex-col space-y-4 mt-8">
                     {user ? (
                       <>
+                        <OrganizationSwitcher />
                         <Link 
                           to="/" 
                           className="text-foreground hover:text-primary text-lg py-2"
@@ -116,6 +120,8 @@ const AppHeader = () => {
                     <Link to="/join-camera" className="text-foreground hover:text-primary">Join as Camera</Link>
                   </div>
                   <div className="flex items-center space-x-4">
+                    <OrganizationSwitcher />
+                    <NotificationsMenu />
                     <Link 
                       to="/profile" 
                       className="flex items-center space-x-2 hover:text-primary transition-colors"
@@ -0,0 +1,62 @@
+import { RemoteVideoTrack, Participant } from 'livekit-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Monitor } from 'lucide-react';
+import { ProgramComposition } from '@/components/ProgramComposition';
+import { PROGRAM_LAYOUTS, type ProgramLayout, type ProgramTransition } from '@/lib/program-layout';
+
+interface BusMonitorProps {
+  bus: 'preview' | 'program';
+  layout: ProgramLayout | null;
+  videoTracks: Map<string, RemoteVideoTrack>;
+  participants: Participant[];
+  transition?: ProgramTransition;
+  connected: boolean;
+}
+
+const busStyles = {
+  preview: { title: 'Preview', badge: 'PVW', badgeClass: 'bg-green-600 hover:bg-green-600', ring: 'ring-green-600' },
+  program: { title: 'Program', badge: 'PGM', badgeClass: 'bg-red-600 hover:bg-red-600', ring: 'ring-red-600' }
+};
+
+export function BusMonitor({ bus, layout, videoTracks, participants, transition, connected }: BusMonitorProps) {
+  const style = busStyles[bus];
+
+  const cameraLabels = layout?.cameras.map(identity =>
+    participants.find(p => p.identity === identity)?.metadata ||
+    identity.replace('camera_', '').replace(/_/g, ' ')
+  ) || [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Monitor className="h-4 w-4" />
+            {style.title}
+          </span>
+          <Badge className={`text-xs text-white ${style.badgeClass}`}>{style.badge}</Badge>
+        </CardTitle>
+        <CardDescription className="text-xs truncate">
+          {layout
+            ? `${PROGRAM_LAYOUTS[layout.type].label} – ${cameraLabels.join(', ')}`
+            : bus === 'preview' ? 'Select a camera to line up the next shot' : 'Nothing on air yet'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className={`aspect-video rounded-lg overflow-hidden ring-2 ${style.ring}`}>
+          {connected ? (
+            <ProgramComposition layout={layout} videoTracks={videoTracks} transition={transition} showLabels />
+          ) : (
+            <div className="w-full h-full bg-black flex items-center justify-center text-white text-center">
+              <div>
+                <Monitor className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                <p className="text-sm opacity-75">Connecting to LiveKit...</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
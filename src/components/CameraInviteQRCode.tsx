@@ -0,0 +1,118 @@
+import { useEffect, useRef } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Download, Share } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+interface CameraInviteQRCodeProps {
+  joinToken: string;
+  deviceLabel: string;
+  eventName: string;
+}
+
+// QR code for a single camera slot; scanning it joins the event as that camera
+const CameraInviteQRCode = ({ joinToken, deviceLabel, eventName }: CameraInviteQRCodeProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Generate the URL that will be encoded in the QR code
+  const joinUrl = `${window.location.origin}/join-camera?invite=${joinToken}`;
+
+  useEffect(() => {
+    if (canvasRef.current && joinToken) {
+      QRCode.toCanvas(canvasRef.current, joinUrl, {
+        width: 200,
+        margin: 2,
+        color: {
+          dark: '#000000',
+          light: '#FFFFFF'
+        }
+      }, (error) => {
+        if (error) {
+          console.error('QR Code generation error:', error);
+        }
+      });
+    }
+  }, [joinUrl, joinToken]);
+
+  const downloadQRCode = () => {
+    if (canvasRef.current) {
+      const canvas = canvasRef.current;
+      const url = canvas.toDataURL('image/png');
+      const a = document.createElement('a');
+      a.download = `${eventName}-${deviceLabel}-qr-code.png`;
+      a.href = url;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+
+      toast({
+        title: "QR Code Downloaded",
+        description: "The QR code has been saved to your downloads folder.",
+      });
+    }
+  };
+
+  const shareQRCode = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title: `Join ${eventName} as ${deviceLabel}`,
+          text: `Open this link to join as ${deviceLabel}`,
+          url: joinUrl,
+        });
+      } catch (error) {
+        console.error('Error sharing:', error);
+        copyToClipboard();
+      }
+    } else {
+      copyToClipboard();
+    }
+  };
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(joinUrl).then(() => {
+      toast({
+        title: "Link Copied",
+        description: "The join link has been copied to your clipboard.",
+      });
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center space-y-2">
+        <div className="bg-white p-4 rounded-lg border">
+          <canvas ref={canvasRef} />
+        </div>
+        <p className="text-sm font-medium">{deviceLabel}</p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={downloadQRCode}
+          variant="outline"
+          size="sm"
+          className="flex-1"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+        <Button
+          onClick={shareQRCode}
+          variant="outline"
+          size="sm"
+          className="flex-1"
+        >
+          <Share className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        💡 Only share this code with the operator of {deviceLabel}. Anyone who scans it can stream as this camera until it expires or you revoke it.
+      </p>
+    </div>
+  );
+};
+
+export default CameraInviteQRCode;
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Plus, QrCode, Trash2 } from 'lucide-react';
+import CameraInviteQRCode from '@/components/CameraInviteQRCode';
+import { toastService } from '@/lib/toast-service';
+import { cameraInviteSchema } from '@/lib/validation';
+import type { CameraInvite, MintCameraInviteOptions } from '@/hooks/useCameraInvites';
+
+interface CameraInvitesCardProps {
+  eventName: string;
+  invites: CameraInvite[];
+  loading: boolean;
+  mintInvite: (options: MintCameraInviteOptions) => Promise<CameraInvite>;
+  revokeInvite: (inviteId: string) => Promise<void>;
+}
+
+const VALID_HOURS_OPTIONS = [
+  { value: 4, label: '4 hours' },
+  { value: 12, label: '12 hours' },
+  { value: 24, label: '1 day' },
+  { value: 72, label: '3 days' }
+];
+
+const getInviteStatus = (invite: CameraInvite) => {
+  if (invite.isLive) return { label: 'Live', variant: 'default' as const };
+  if (!invite.usable) return { label: invite.singleUse && invite.usedAt ? 'Used' : 'Expired', variant: 'outline' as const };
+  if (invite.usedAt) return { label: 'Joined', variant: 'secondary' as const };
+  return { label: 'Waiting', variant: 'secondary' as const };
+};
+
+// Per-slot camera invites: each QR code admits one camera, until it expires or is revoked
+export function CameraInvitesCard({ eventName, invites, loading, mintInvite, revokeInvite }: CameraInvitesCardProps) {
+  const [deviceLabel, setDeviceLabel] = useState('');
+  const [singleUse, setSingleUse] = useState(true);
+  const [validHours, setValidHours] = useState(12);
+  const [minting, setMinting] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [shownInvite, setShownInvite] = useState<CameraInvite | null>(null);
+
+  const handleMint = async () => {
+    const result = cameraInviteSchema.safeParse({ deviceLabel, validHours });
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setMinting(true);
+      const invite = await mintInvite({
+        deviceLabel: result.data.deviceLabel,
+        validHours: result.data.validHours,
+        singleUse
+      });
+      setDeviceLabel('');
+      setShownInvite(invite);
+    } catch (error) {
+      console.error('Error creating camera invite:', error);
+      toastService.error({ description: error.message || 'Failed to create camera invite.' });
+    } finally {
+      setMinting(false);
+    }
+  };
+
+  const handleRevoke = async (invite: CameraInvite) => {
+    try {
+      setPendingId(invite.id);
+      await revokeInvite(invite.id);
+      toastService.success({ description: `${invite.deviceLabel} can no longer join.` });
+    } catch (error) {
+      console.error('Error revoking camera invite:', error);
+      toastService.error({ description: error.message || 'Failed to revoke camera invite.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Camera Invites
+        </CardTitle>
+        <CardDescription>
+          Add a slot for each camera and give its operator the QR code
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && <p className="text-xs text-muted-foreground">Loading camera invites...</p>}
+
+        {!loading && invites.length === 0 && (
+          <p className="text-xs text-muted-foreground">No camera slots yet.</p>
+        )}
+
+        {invites.map(invite => {
+          const status = getInviteStatus(invite);
+          return (
+            <div key={invite.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{invite.deviceLabel}</div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Badge variant={status.variant} className="text-[10px]">{status.label}</Badge>
+                  {invite.usable && (
+                    <span className="truncate">
+                      {invite.singleUse ? 'Single use' : 'Reusable'} • until {new Date(invite.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!invite.usable}
+                  onClick={() => setShownInvite(invite)}
+                  aria-label="Show QR code"
+                >
+                  <QrCode className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pendingId === invite.id}
+                  onClick={() => handleRevoke(invite)}
+                  aria-label="Revoke camera invite"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="space-y-2 border-t pt-3">
+          <Label htmlFor="cameraSlotLabel" className="text-xs">New camera slot</Label>
+          <Input
+            id="cameraSlotLabel"
+            placeholder="Camera 2 - End Zone"
+            value={deviceLabel}
+            onChange={e => setDeviceLabel(e.target.value)}
+            className="h-8"
+          />
+          <Select value={String(validHours)} onValueChange={value => setValidHours(Number(value))}>
+            <SelectTrigger className="h-8 text-xs" aria-label="Valid for">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VALID_HOURS_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>Valid for {option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="cameraSlotSingleUse" className="text-xs">Single use</Label>
+            <Switch id="cameraSlotSingleUse" checked={singleUse} onCheckedChange={setSingleUse} />
+          </div>
+          <LoadingButton onClick={handleMint} loading={minting} size="sm" variant="outline" className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Camera Slot
+          </LoadingButton>
+        </div>
+      </CardContent>
+
+      <Dialog open={Boolean(shownInvite)} onOpenChange={open => !open && setShownInvite(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Join as {shownInvite?.deviceLabel}</DialogTitle>
+            <DialogDescription>
+              {shownInvite?.singleUse
+                ? 'This code works once, on one phone.'
+                : `This code works until ${shownInvite ? new Date(shownInvite.expiresAt).toLocaleString() : ''}.`}
+            </DialogDescription>
+          </DialogHeader>
+          {shownInvite && (
+            <CameraInviteQRCode
+              joinToken={shownInvite.token}
+              deviceLabel={shownInvite.deviceLabel ?? 'Camera'}
+              eventName={eventName}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { ChevronDown, Download, Video } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { formatClock } from '@/lib/scoreboard';
+import { useCameraRecordings, type CameraRecording } from '@/hooks/useCameraRecordings';
+
+interface CameraRecordingsListProps {
+  eventId: string;
+}
+
+const statusBadgeVariant: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  ended: 'default',
+  starting: 'outline',
+  active: 'outline',
+  ending: 'outline',
+  failed: 'destructive'
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${Math.max(1, Math.round(bytes / 1024 ** 2))} MB`;
+
+// Download list for the isolated recording of each camera; loads when expanded
+export function CameraRecordingsList({ eventId }: CameraRecordingsListProps) {
+  const [open, setOpen] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const { recordings, loading, getDownloadUrl } = useCameraRecordings({ eventId, enabled: open });
+
+  const handleDownload = async (recording: CameraRecording) => {
+    try {
+      setDownloadingId(recording.id);
+      window.location.assign(await getDownloadUrl(recording));
+    } catch (error) {
+      console.error('Error downloading camera recording:', error);
+      toastService.error({ description: error.message || 'Failed to download the recording.' });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs">
+          <Video className="h-3 w-3 mr-1" />
+          Camera recordings
+          <ChevronDown className={`h-3 w-3 ml-1 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading recordings...</p>
+        ) : recordings.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No camera recordings for this event.</p>
+        ) : (
+          recordings.map(recording => (
+            <div key={recording.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-xs">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium truncate">
+                  {recording.cameras?.device_label || recording.participant_identity}
+                </span>
+                <Badge variant={statusBadgeVariant[recording.status] || 'secondary'}>{recording.status}</Badge>
+                {recording.duration_seconds !== null && (
+                  <span className="text-muted-foreground tabular-nums">
+                    {formatClock(Math.round(recording.duration_seconds))}
+                  </span>
+                )}
+                {recording.size_bytes !== null && (
+                  <span className="text-muted-foreground">{formatSize(recording.size_bytes)}</span>
+                )}
+              </div>
+              <LoadingButton
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload(recording)}
+                loading={downloadingId === recording.id}
+                disabled={recording.status !== 'ended' || !recording.file_path}
+              >
+                <Download className="h-3 w-3 mr-1" />
+                Download
+              </LoadingButton>
+            </div>
+          ))
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+
+interface ClipPlayerProps {
+  recordingUrl: string;
+  startSeconds: number;
+  endSeconds: number;
+  className?: string;
+}
+
+// Plays one clip out of the full event recording: starts at the clip's in point and pauses at its out point
+export function ClipPlayer({ recordingUrl, startSeconds, endSeconds, className = '' }: ClipPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useHlsPlayback(videoRef, recordingUrl, { startPosition: startSeconds });
+
+  // Stop at the out point; playing again from there restarts the clip
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleTimeUpdate = () => {
+      if (video.currentTime >= endSeconds) {
+        video.pause();
+      }
+    };
+    const handlePlay = () => {
+      if (video.currentTime >= endSeconds || video.currentTime < startSeconds) {
+        video.currentTime = startSeconds;
+      }
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('play', handlePlay);
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('play', handlePlay);
+    };
+  }, [startSeconds, endSeconds]);
+
+  return (
+    <video
+      ref={videoRef}
+      className={`w-full h-full bg-black ${className}`}
+      controls
+      playsInline
+    />
+  );
+}
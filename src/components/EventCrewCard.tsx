@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mail, Trash2, UserPlus } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { eventInviteSchema } from '@/lib/validation';
+import type { EventCrewMember, EventCrewRole, EventInvite } from '@/hooks/useEventCrew';
+
+interface EventCrewCardProps {
+  members: EventCrewMember[];
+  invites: EventInvite[];
+  loading: boolean;
+  // Only the event owner adds and removes producers
+  canManageProducers: boolean;
+  invite: (email: string, role: EventCrewRole) => Promise<{ emailSent: boolean; inviteUrl: string }>;
+  revokeInvite: (inviteId: string) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
+}
+
+const CREW_ROLE_LABELS: Record<EventCrewRole, string> = {
+  producer: 'Producer',
+  director: 'Co-director'
+};
+
+// Per-event producers and co-directors, invited by email
+export function EventCrewCard({
+  members,
+  invites,
+  loading,
+  canManageProducers,
+  invite,
+  revokeInvite,
+  removeMember
+}: EventCrewCardProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<EventCrewRole>('director');
+  const [sending, setSending] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleInvite = async () => {
+    const result = eventInviteSchema.safeParse({ email, role });
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setSending(true);
+      const { emailSent, inviteUrl } = await invite(result.data.email, role);
+      setEmail('');
+
+      if (emailSent) {
+        toastService.success({ description: `Invite sent to ${result.data.email}.` });
+      } else {
+        // The invite still works; hand over the link instead
+        await navigator.clipboard.writeText(inviteUrl).catch(() => undefined);
+        toastService.info({
+          title: 'Invite created, email not sent',
+          description: 'The invite link was copied to your clipboard. Share it with them directly.'
+        });
+      }
+    } catch (error) {
+      console.error('Error inviting event crew:', error);
+      toastService.error({ description: error.message || 'Failed to send invite.' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    try {
+      setPendingId(inviteId);
+      await revokeInvite(inviteId);
+    } catch (error) {
+      console.error('Error revoking event invite:', error);
+      toastService.error({ description: error.message || 'Failed to revoke invite.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    try {
+      setPendingId(userId);
+      await removeMember(userId);
+    } catch (error) {
+      console.error('Error removing event crew member:', error);
+      toastService.error({ description: error.message || 'Failed to remove crew member.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <UserPlus className="h-4 w-4" />
+          Event Crew
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Invite co-directors to run the control room, or producers to also manage the event.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && <p className="text-xs text-muted-foreground">Loading crew...</p>}
+
+        {members.map(member => (
+          <div key={member.userId} className="flex items-center justify-between gap-2 rounded-md border p-2">
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{member.fullName || member.email || 'Unknown user'}</div>
+              <Badge variant="secondary" className="text-[10px]">{CREW_ROLE_LABELS[member.role]}</Badge>
+            </div>
+            {(member.role === 'director' || canManageProducers) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={pendingId === member.userId}
+                onClick={() => handleRemove(member.userId)}
+                aria-label="Remove crew member"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {invites.map(pendingInvite => (
+          <div key={pendingInvite.id} className="flex items-center justify-between gap-2 rounded-md border border-dashed p-2">
+            <div className="min-w-0">
+              <div className="text-sm truncate flex items-center gap-1">
+                <Mail className="h-3 w-3 shrink-0" />
+                {pendingInvite.email}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {CREW_ROLE_LABELS[pendingInvite.role]} • expires {new Date(pendingInvite.expiresAt).toLocaleDateString()}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={pendingId === pendingInvite.id}
+              onClick={() => handleRevoke(pendingInvite.id)}
+              aria-label="Revoke invite"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-2 border-t pt-3">
+          <Label htmlFor="crewEmail" className="text-xs">Invite by email</Label>
+          <Input
+            id="crewEmail"
+            type="email"
+            placeholder="codirector@example.com"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            className="h-8"
+          />
+          {canManageProducers && (
+            <Select value={role} onValueChange={value => setRole(value as EventCrewRole)}>
+              <SelectTrigger className="h-8 text-xs" aria-label="Crew role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="director">{CREW_ROLE_LABELS.director}</SelectItem>
+                <SelectItem value="producer">{CREW_ROLE_LABELS.producer}</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <LoadingButton onClick={handleInvite} loading={sending} size="sm" variant="outline" className="w-full">
+            <Mail className="h-4 w-4 mr-2" />
+            Send Invite
+          </LoadingButton>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,8 @@ import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/ca
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import LoadingButton from "@/components/ui/LoadingButton";
-import { Monitor, Play, Square, Settings, Eye, ExternalLink } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Monitor, Play, Square, Settings, Eye, ExternalLink, GanttChart } from "lucide-react";
 
 interface EventData {
   id: string;
@@ -24,6 +25,7 @@ interface EventHeaderProps {
   onStartStream: () => void;
   onEndStream: () => void;
   onAddSimulcast: () => void;
+  canAddSimulcast: boolean;
   cameraCount: number;
 }
 
@@ -35,6 +37,7 @@ const EventHeader = memo(({
   onStartStream,
   onEndStream,
   onAddSimulcast,
+  canAddSimulcast,
   cameraCount
 }: EventHeaderProps) => {
   return (
@@ -49,8 +52,8 @@ const EventHeader = memo(({
             <CardDescription className="flex items-center gap-4 flex-wrap">
               <span>Event Code: <span className="font-mono font-bold">{event.event_code}</span></span>
               <span>Sport: {event.sport}</span>
-              <Badge variant={streaming ? "default" : "secondary"}>
-                {event.status}
+              <Badge variant={event.status === "paused" ? "destructive" : streaming ? "default" : "secondary"}>
+                {event.status === "paused" ? "paused · reconnecting" : event.status}
               </Badge>
               {viewerCount > 0 && (
                 <Badge variant="outline" className="flex items-center gap-1">
@@ -71,20 +74,35 @@ const EventHeader = memo(({
                 Watch Stream
               </a>
             </Button>
+
+            <Button asChild variant="outline">
+              <Link to={`/timeline/${event.id}`}>
+                <GanttChart className="h-4 w-4 mr-2" />
+                Timeline
+              </Link>
+            </Button>
             
             {!streaming ? (
-              <Button onClick={onStartStream} disabled={loading || cameraCount === 0}>
+              <Button onClick={onStartStream} disabled={loading || cameraCount === 0 || event.status !== "scheduled"}>
                 <Play className="h-4 w-4 mr-2" />
                 Start Stream
               </Button>
             ) : (
-              <Button onClick={onEndStream} variant="destructive" disabled={loading}>
-                <Square className="h-4 w-4 mr-2" />
-                End Stream
-              </Button>
+              <>
+                {event.status === "paused" && (
+                  <Button onClick={onStartStream} disabled={loading || cameraCount === 0}>
+                    <Play className="h-4 w-4 mr-2" />
+                    Resume Stream
+                  </Button>
+                )}
+                <Button onClick={onEndStream} variant="destructive" disabled={loading}>
+                  <Square className="h-4 w-4 mr-2" />
+                  End Stream
+                </Button>
+              </>
             )}
             
-            {event.youtube_key || event.twitch_key ? (
+            {canAddSimulcast ? (
               <LoadingButton 
                 onClick={onAddSimulcast} 
                 variant="outline"
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import LoadingButton from '@/components/ui/LoadingButton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { CalendarClock, CalendarX } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toastService } from '@/lib/toast-service';
+
+interface EventLifecycleActionsProps {
+  event: {
+    id: string;
+    name: string;
+    status: string;
+    start_time?: string;
+    expected_duration?: number | null;
+  };
+  onChanged?: () => void;
+  size?: 'sm' | 'default';
+}
+
+// datetime-local inputs take local time without a zone
+const toDateTimeLocal = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const TEARDOWN_LABELS: Record<string, string> = {
+  mux: 'the Mux live stream',
+  youtube: 'the YouTube broadcast',
+  livekit: 'the LiveKit room'
+};
+
+// Reschedule and cancel buttons for a scheduled event; both go through the manage-event function
+export function EventLifecycleActions({ event, onChanged, size = 'sm' }: EventLifecycleActionsProps) {
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
+  const [startTime, setStartTime] = useState(toDateTimeLocal(event.start_time));
+  const [duration, setDuration] = useState(String(event.expected_duration ?? ''));
+  const [saving, setSaving] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  if (event.status !== 'scheduled') return null;
+
+  const invokeManageEvent = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('manage-event', {
+      body: { eventId: event.id, ...body }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  };
+
+  const handleOpenReschedule = (open: boolean) => {
+    if (open) {
+      setStartTime(toDateTimeLocal(event.start_time));
+      setDuration(String(event.expected_duration ?? ''));
+    }
+    setRescheduleOpen(open);
+  };
+
+  const handleReschedule = async () => {
+    try {
+      if (!startTime) throw new Error('Start date and time is required');
+      if (duration && parseInt(duration) < 1) throw new Error('Expected duration must be at least 1 minute');
+
+      setSaving(true);
+      const data = await invokeManageEvent({
+        action: 'reschedule',
+        startTime: new Date(startTime).toISOString(),
+        expectedDuration: duration ? parseInt(duration) : undefined
+      });
+
+      toastService.success({
+        description: data?.youtubeUpdated === false
+          ? 'Event rescheduled. The YouTube broadcast still shows the old time.'
+          : 'Event rescheduled.'
+      });
+      setRescheduleOpen(false);
+      onChanged?.();
+    } catch (error) {
+      console.error('Error rescheduling event:', error);
+      toastService.error({ description: error.message || 'Failed to reschedule the event.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      setCancelling(true);
+      const data = await invokeManageEvent({ action: 'cancel' });
+      const failures: string[] = data?.teardownFailures ?? [];
+
+      if (failures.length > 0) {
+        toastService.error({
+          title: 'Event cancelled',
+          description: `Could not remove ${failures.map(failure => TEARDOWN_LABELS[failure] ?? failure).join(' and ')}.`
+        });
+      } else {
+        toastService.success({ description: 'Event cancelled.' });
+      }
+      onChanged?.();
+    } catch (error) {
+      console.error('Error cancelling event:', error);
+      toastService.error({ description: error.message || 'Failed to cancel the event.' });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Dialog open={rescheduleOpen} onOpenChange={handleOpenReschedule}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size={size}>
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Reschedule
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reschedule {event.name}</DialogTitle>
+            <DialogDescription>
+              Camera operators with the event open see the new start time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`reschedule-start-${event.id}`}>Start Date & Time</Label>
+              <Input
+                id={`reschedule-start-${event.id}`}
+                type="datetime-local"
+                value={startTime}
+                onChange={e => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`reschedule-duration-${event.id}`}>Duration (minutes)</Label>
+              <Input
+                id={`reschedule-duration-${event.id}`}
+                type="number"
+                min="1"
+                value={duration}
+                onChange={e => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <LoadingButton onClick={handleReschedule} loading={saving}>
+              Save
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size={size} disabled={cancelling}>
+            <CalendarX className="h-4 w-4 mr-2" />
+            {cancelling ? 'Cancelling...' : 'Cancel Event'}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel {event.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes the event's Mux live stream and YouTube broadcast and disconnects any
+              camera that has joined. A cancelled event cannot be started again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Event</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel}>Cancel Event</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { CalendarClock } from 'lucide-react';
+import { EventLifecycleActions } from '@/components/EventLifecycleActions';
+import { supabase } from '@/integrations/supabase/client';
+import { toastService } from '@/lib/toast-service';
+
+interface EventSchedule {
+  id: string;
+  name: string;
+  status: string;
+  start_time?: string;
+  expected_duration?: number | null;
+  auto_start?: boolean;
+  auto_end?: boolean;
+  end_grace_minutes?: number;
+  prewarmed_at?: string | null;
+}
+
+interface EventScheduleCardProps {
+  event: EventSchedule;
+  onUpdated?: () => void;
+}
+
+const formatScheduleTime = (time: number | string) =>
+  new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Auto-start and auto-end settings applied by the event-scheduler function
+export function EventScheduleCard({ event, onUpdated }: EventScheduleCardProps) {
+  const [autoStart, setAutoStart] = useState(event.auto_start ?? false);
+  const [autoEnd, setAutoEnd] = useState(event.auto_end ?? true);
+  const [graceMinutes, setGraceMinutes] = useState(String(event.end_grace_minutes ?? 15));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAutoStart(event.auto_start ?? false);
+    setAutoEnd(event.auto_end ?? true);
+    setGraceMinutes(String(event.end_grace_minutes ?? 15));
+  }, [event.auto_start, event.auto_end, event.end_grace_minutes]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('events')
+        .update({
+          auto_start: autoStart,
+          auto_end: autoEnd,
+          end_grace_minutes: Math.max(0, parseInt(graceMinutes) || 0)
+        })
+        .eq('id', event.id);
+
+      if (error) throw error;
+      toastService.success({ description: 'Schedule settings saved.' });
+      onUpdated?.();
+    } catch (error) {
+      console.error('Error saving schedule settings:', error);
+      toastService.error({ description: error.message || 'Failed to save schedule settings.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Planned end as the scheduler sees it when the event went live on time
+  const plannedEnd = event.start_time && event.expected_duration
+    ? new Date(event.start_time).getTime() + (event.expected_duration + (parseInt(graceMinutes) || 0)) * 60 * 1000
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Schedule
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {event.start_time ? `Starts ${formatScheduleTime(event.start_time)}` : 'No start time set'}
+          {event.prewarmed_at && ' · stream ready'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-2">
+        {event.status === 'scheduled' && (
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="schedule-auto-start" className="text-xs">Start when a camera is live</Label>
+            <Switch id="schedule-auto-start" checked={autoStart} onCheckedChange={setAutoStart} />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="schedule-auto-end" className="text-xs">End after duration</Label>
+          <Switch id="schedule-auto-end" checked={autoEnd} onCheckedChange={setAutoEnd} />
+        </div>
+
+        {autoEnd && (
+          <div className="space-y-1">
+            <Label htmlFor="schedule-grace" className="text-xs">Grace period (minutes)</Label>
+            <Input
+              id="schedule-grace"
+              type="number"
+              min="0"
+              value={graceMinutes}
+              onChange={e => setGraceMinutes(e.target.value)}
+              className="h-8"
+            />
+            {plannedEnd && (
+              <p className="text-xs text-muted-foreground">Ends around {formatScheduleTime(plannedEnd)}</p>
+            )}
+          </div>
+        )}
+
+        <LoadingButton size="sm" className="w-full" onClick={handleSave} loading={saving}>
+          Save
+        </LoadingButton>
+
+        <EventLifecycleActions event={event} onChanged={onUpdated} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { SPORT_RULES } from '@/lib/sport-rules';
+import { eventTemplateSchema, streamDestinationSchema } from '@/lib/validation';
+import type { Tables } from '@/integrations/supabase/types';
+import type { EventTemplate, EventTemplateInput, TemplateDestinationInput } from '@/hooks/useEventTemplates';
+
+interface EventTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null while creating a new template
+  template: EventTemplate | null;
+  saveTemplate: (input: EventTemplateInput, templateId?: string) => Promise<Tables<'event_templates'>>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+  addDestination: (templateId: string, input: TemplateDestinationInput) => Promise<unknown>;
+  removeDestination: (templateId: string, destinationId: string) => Promise<unknown>;
+  onSaved?: (template: Tables<'event_templates'>) => void;
+}
+
+const TEAMS = ['home', 'away'] as const;
+
+const getInitialForm = (template: EventTemplate | null) => ({
+  name: template?.name ?? '',
+  sport: template?.sport ?? '',
+  expectedDuration: String(template?.expected_duration ?? 180),
+  description: template?.description ?? '',
+  autoStart: template?.auto_start ?? false,
+  autoEnd: template?.auto_end ?? true,
+  endGraceMinutes: String(template?.end_grace_minutes ?? 15),
+  home_name: template?.home_name ?? 'Home',
+  away_name: template?.away_name ?? 'Away',
+  home_color: template?.home_color ?? '#1d4ed8',
+  away_color: template?.away_color ?? '#dc2626',
+  cameraLabels: (template?.camera_labels ?? []).join(', ')
+});
+
+const emptyDestination = { name: '', rtmpUrl: '', streamKey: '' };
+
+// Create or edit a reusable event setup. Destinations can be added once the template is saved,
+// since their stream keys are stored against it on the server. The form is filled from the
+// template when the dialog mounts, so render it with a key per template.
+export function EventTemplateDialog({
+  open,
+  onOpenChange,
+  template,
+  saveTemplate,
+  deleteTemplate,
+  addDestination,
+  removeDestination,
+  onSaved
+}: EventTemplateDialogProps) {
+  const [form, setForm] = useState(getInitialForm(template));
+  const [destinationForm, setDestinationForm] = useState(emptyDestination);
+  const [saving, setSaving] = useState(false);
+  const [addingDestination, setAddingDestination] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const cameraLabels = form.cameraLabels.split(',').map(label => label.trim()).filter(Boolean);
+    const result = eventTemplateSchema.safeParse({
+      name: form.name,
+      sport: form.sport,
+      expectedDuration: parseInt(form.expectedDuration),
+      cameraLabels
+    });
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveTemplate({
+        name: form.name.trim(),
+        sport: form.sport,
+        expected_duration: parseInt(form.expectedDuration),
+        description: form.description.trim() || null,
+        auto_start: form.autoStart,
+        auto_end: form.autoEnd,
+        end_grace_minutes: Math.max(0, parseInt(form.endGraceMinutes) || 0),
+        home_name: form.home_name.trim() || 'Home',
+        away_name: form.away_name.trim() || 'Away',
+        home_color: form.home_color,
+        away_color: form.away_color,
+        camera_labels: cameraLabels
+      }, template?.id);
+
+      toastService.success({ description: template ? 'Template saved.' : 'Template created. You can now add destinations.' });
+      onSaved?.(saved);
+    } catch (error) {
+      console.error('Error saving event template:', error);
+      toastService.error({ description: error.message || 'Failed to save template.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!template) return;
+
+    try {
+      setSaving(true);
+      await deleteTemplate(template.id);
+      toastService.success({ description: 'Template deleted. Events created from it are unchanged.' });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error deleting event template:', error);
+      toastService.error({ description: error.message || 'Failed to delete template.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddDestination = async () => {
+    if (!template) return;
+
+    const result = streamDestinationSchema.safeParse(destinationForm);
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setAddingDestination(true);
+      await addDestination(template.id, destinationForm);
+      setDestinationForm(emptyDestination);
+    } catch (error) {
+      console.error('Error adding template destination:', error);
+      toastService.error({ description: error.message || 'Failed to add destination.' });
+    } finally {
+      setAddingDestination(false);
+    }
+  };
+
+  const handleRemoveDestination = async (destinationId: string) => {
+    if (!template) return;
+
+    try {
+      setPendingId(destinationId);
+      await removeDestination(template.id, destinationId);
+    } catch (error) {
+      console.error('Error removing template destination:', error);
+      toastService.error({ description: error.message || 'Failed to remove destination.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? `Edit ${template.name}` : 'New Event Template'}</DialogTitle>
+          <DialogDescription>
+            Every event created from this template starts with these settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Template Name</Label>
+            <Input
+              id="templateName"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              placeholder="Varsity Soccer Home Games"
+              maxLength={60}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateSport">Sport Type</Label>
+              <Select value={form.sport} onValueChange={value => setForm({ ...form, sport: value })}>
+                <SelectTrigger id="templateSport">
+                  <SelectValue placeholder="Select sport" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SPORT_RULES).map(([sport, rules]) => (
+                    <SelectItem key={sport} value={sport}>{rules.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateDuration">Duration (minutes)</Label>
+              <Input
+                id="templateDuration"
+                type="number"
+                min="1"
+                value={form.expectedDuration}
+                onChange={e => setForm({ ...form, expectedDuration: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription">Description (Optional)</Label>
+            <Textarea
+              id="templateDescription"
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+              className="min-h-[60px]"
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scoreboard Teams</Label>
+            {TEAMS.map(team => (
+              <div key={team} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  aria-label={`${team} color`}
+                  value={form[`${team}_color`]}
+                  onChange={e => setForm({ ...form, [`${team}_color`]: e.target.value })}
+                  className="h-8 w-8 shrink-0 cursor-pointer rounded border bg-transparent"
+                />
+                <Input
+                  value={form[`${team}_name`]}
+                  onChange={e => setForm({ ...form, [`${team}_name`]: e.target.value })}
+                  className="h-8 text-xs"
+                  maxLength={24}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="templateCameraLabels">Camera Labels</Label>
+            <Input
+              id="templateCameraLabels"
+              value={form.cameraLabels}
+              onChange={e => setForm({ ...form, cameraLabels: e.target.value })}
+              placeholder="Center Field, Home Goal, Away Goal"
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma separated. Camera operators joining the event are offered these names in order.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="templateAutoStart" className="text-xs">Start when a camera is live</Label>
+              <Switch id="templateAutoStart" checked={form.autoStart} onCheckedChange={checked => setForm({ ...form, autoStart: checked })} />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="templateAutoEnd" className="text-xs">End after duration</Label>
+              <Switch id="templateAutoEnd" checked={form.autoEnd} onCheckedChange={checked => setForm({ ...form, autoEnd: checked })} />
+            </div>
+            {form.autoEnd && (
+              <div className="space-y-1">
+                <Label htmlFor="templateGrace" className="text-xs">Grace period (minutes)</Label>
+                <Input
+                  id="templateGrace"
+                  type="number"
+                  min="0"
+                  value={form.endGraceMinutes}
+                  onChange={e => setForm({ ...form, endGraceMinutes: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            )}
+          </div>
+
+          {template && (
+            <div className="space-y-2 border-t pt-4">
+              <Label>Streaming Destinations</Label>
+              {template.event_template_destinations.length === 0 && (
+                <p className="text-xs text-muted-foreground">No destinations yet.</p>
+              )}
+              {template.event_template_destinations.map(destination => (
+                <div key={destination.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{destination.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono break-all">
+                      {destination.rtmp_url}
+                      {destination.stream_key_hint && ` • key …${destination.stream_key_hint}`}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pendingId === destination.id}
+                    onClick={() => handleRemoveDestination(destination.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Input
+                aria-label="Destination name"
+                placeholder="Club YouTube channel"
+                value={destinationForm.name}
+                onChange={e => setDestinationForm({ ...destinationForm, name: e.target.value })}
+              />
+              <Input
+                aria-label="RTMP(S) URL"
+                placeholder="rtmp://a.rtmp.youtube.com/live2"
+                value={destinationForm.rtmpUrl}
+                onChange={e => setDestinationForm({ ...destinationForm, rtmpUrl: e.target.value })}
+              />
+              <Input
+                aria-label="Stream key"
+                placeholder="Stream key"
+                type="password"
+                autoComplete="off"
+                value={destinationForm.streamKey}
+                onChange={e => setDestinationForm({ ...destinationForm, streamKey: e.target.value })}
+              />
+              <LoadingButton onClick={handleAddDestination} loading={addingDestination} size="sm" variant="outline" className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Destination
+              </LoadingButton>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {template && (
+            <Button variant="outline" onClick={handleDelete} disabled={saving}>
+              Delete Template
+            </Button>
+          )}
+          <LoadingButton onClick={handleSave} loading={saving}>
+            {template ? 'Save Template' : 'Create Template'}
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
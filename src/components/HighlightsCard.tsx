@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Star, Trash2, ExternalLink } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import type { Highlight } from '@/hooks/useHighlights';
+
+interface HighlightsCardProps {
+  eventId: string;
+  highlights: Highlight[];
+  loading: boolean;
+  markHighlight: (label?: string) => Promise<void>;
+  removeHighlight: (id: string) => Promise<void>;
+}
+
+// Only the latest marks are listed; the full set becomes clips on the highlights page
+const VISIBLE_HIGHLIGHTS = 8;
+
+const formatMarkTime = (markedAt: string) =>
+  new Date(markedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export function HighlightsCard({
+  eventId,
+  highlights,
+  loading,
+  markHighlight,
+  removeHighlight
+}: HighlightsCardProps) {
+  const [label, setLabel] = useState('');
+  const [marking, setMarking] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleMark = async () => {
+    try {
+      setMarking(true);
+      await markHighlight(label);
+      setLabel('');
+    } catch (error) {
+      console.error('Error marking highlight:', error);
+      toastService.error({ description: error.message || 'Failed to mark highlight.' });
+    } finally {
+      setMarking(false);
+    }
+  };
+
+  const handleRemove = async (highlight: Highlight) => {
+    try {
+      setPendingId(highlight.id);
+      await removeHighlight(highlight.id);
+    } catch (error) {
+      console.error('Error removing highlight:', error);
+      toastService.error({ description: error.message || 'Failed to remove highlight.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Star className="h-4 w-4" />
+          Highlights
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Mark moments as they happen. Clips are cut from the recording when the stream ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleMark();
+            }}
+            placeholder="Label (optional)"
+            maxLength={100}
+            className="h-8 text-xs"
+          />
+          <LoadingButton size="sm" onClick={handleMark} loading={marking}>
+            Mark
+          </LoadingButton>
+        </div>
+
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading highlights...</p>
+        ) : highlights.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No highlights marked yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {highlights.slice(0, VISIBLE_HIGHLIGHTS).map(highlight => (
+              <li key={highlight.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-muted-foreground tabular-nums">{formatMarkTime(highlight.marked_at)}</span>
+                <span className="flex-1 truncate">{highlight.label || 'Highlight'}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleRemove(highlight)}
+                  disabled={pendingId === highlight.id}
+                  aria-label="Remove highlight"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button variant="outline" size="sm" className="w-full" asChild>
+          <Link to={`/highlights/${eventId}`}>
+            <ExternalLink className="h-4 w-4 mr-2" />
+            Highlights Page
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
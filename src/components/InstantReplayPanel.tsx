@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { History, Play, Square, X } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { REPLAY_BUFFER_OPTIONS, type ReplayClip } from '@/lib/replay-buffer';
+import { DEFAULT_REPLAY_SPEED, REPLAY_SPEEDS } from '@/lib/replay-renderer';
+
+interface InstantReplayPanelProps {
+  cameras: { identity: string; label: string }[];
+  // Camera to mark by default, usually the one on program
+  defaultCamera?: string;
+  supported: boolean;
+  bufferSeconds: number;
+  onBufferSecondsChange: (seconds: number) => void;
+  cuedClip: ReplayClip | null;
+  onClipChange: (clip: ReplayClip) => void;
+  playing: boolean;
+  onMark: (identity: string) => Promise<unknown>;
+  onPlay: (speed: number) => Promise<void>;
+  onStop: () => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const formatOffset = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export function InstantReplayPanel({
+  cameras,
+  defaultCamera,
+  supported,
+  bufferSeconds,
+  onBufferSecondsChange,
+  cuedClip,
+  onClipChange,
+  playing,
+  onMark,
+  onPlay,
+  onStop,
+  onClear,
+  disabled = false
+}: InstantReplayPanelProps) {
+  const [camera, setCamera] = useState(defaultCamera || '');
+  const [speed, setSpeed] = useState(DEFAULT_REPLAY_SPEED);
+  const [marking, setMarking] = useState(false);
+
+  useEffect(() => {
+    if (!camera || !cameras.some(option => option.identity === camera)) {
+      setCamera(defaultCamera || cameras[0]?.identity || '');
+    }
+  }, [camera, cameras, defaultCamera]);
+
+  const handleMark = async () => {
+    try {
+      setMarking(true);
+      await onMark(camera);
+    } catch (error) {
+      console.error('Error marking replay:', error);
+      toastService.error({ description: error.message || 'Failed to mark replay.' });
+    } finally {
+      setMarking(false);
+    }
+  };
+
+  const handlePlay = async () => {
+    try {
+      await onPlay(speed);
+    } catch (error) {
+      console.error('Error playing replay:', error);
+      toastService.error({ description: error.message || 'Failed to play replay.' });
+    }
+  };
+
+  if (!supported) {
+    return null;
+  }
+
+  // In and out points are shown relative to the moment the replay was marked
+  const clipStart = cuedClip?.segments[0]?.startedAt || 0;
+  const clipEnd = cuedClip?.outAt || 0;
+  const cuedLabel = cameras.find(option => option.identity === cuedClip?.identity)?.label;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Instant Replay
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Every camera keeps its last {bufferSeconds} seconds. Mark a replay, trim it, then play it to program.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[140px] space-y-1">
+            <Label className="text-xs">Camera</Label>
+            <Select value={camera} onValueChange={setCamera} disabled={disabled || playing}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Select camera" />
+              </SelectTrigger>
+              <SelectContent>
+                {cameras.map(option => (
+                  <SelectItem key={option.identity} value={option.identity}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-24 space-y-1">
+            <Label className="text-xs">Buffer</Label>
+            <Select
+              value={String(bufferSeconds)}
+              onValueChange={value => onBufferSecondsChange(Number(value))}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPLAY_BUFFER_OPTIONS.map(seconds => (
+                  <SelectItem key={seconds} value={String(seconds)}>{seconds}s</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <LoadingButton
+            size="sm"
+            onClick={handleMark}
+            loading={marking}
+            disabled={disabled || playing || !camera}
+          >
+            Mark Replay
+          </LoadingButton>
+        </div>
+
+        {cuedClip && (
+          <div className="space-y-4 rounded-md border p-3">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium">{cuedLabel || cuedClip.identity}</span>
+              <span className="text-muted-foreground">
+                In -{formatOffset(clipEnd - cuedClip.inAt)} · Out -{formatOffset(clipEnd - cuedClip.outAt)} ·{' '}
+                {formatOffset(cuedClip.outAt - cuedClip.inAt)}
+              </span>
+            </div>
+            <Slider
+              min={0}
+              max={clipEnd - clipStart}
+              step={100}
+              minStepsBetweenThumbs={5}
+              value={[cuedClip.inAt - clipStart, cuedClip.outAt - clipStart]}
+              onValueChange={([inOffset, outOffset]) =>
+                onClipChange({ ...cuedClip, inAt: clipStart + inOffset, outAt: clipStart + outOffset })
+              }
+              disabled={playing}
+            />
+
+            <div className="space-y-1">
+              <Label className="text-xs">Speed</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={String(speed)}
+                onValueChange={value => value && setSpeed(Number(value))}
+                className="justify-start"
+                disabled={playing}
+              >
+                {REPLAY_SPEEDS.map(option => (
+                  <ToggleGroupItem key={option} value={String(option)} className="text-xs">
+                    {option * 100}%
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="flex gap-2">
+              {playing ? (
+                <Button variant="outline" size="sm" className="flex-1" onClick={onStop}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Back to Live
+                </Button>
+              ) : (
+                <Button variant="destructive" size="sm" className="flex-1" onClick={handlePlay} disabled={disabled}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Play to Program
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={onClear} disabled={playing} aria-label="Clear replay">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,8 +2,26 @@ import React, { useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RemoteVideoTrack, Participant } from 'livekit-client';
-import { Video, VideoOff, Radio, Users } from 'lucide-react';
+import {
+  Video,
+  VideoOff,
+  Radio,
+  Users,
+  Mic,
+  MicOff,
+  SwitchCamera,
+  Flashlight,
+  Sun,
+  Focus,
+  Loader2,
+  Check,
+  AlertCircle
+} from 'lucide-react';
+import { CAMERA_COMMAND_LABELS, CAMERA_QUALITY_PRESETS, findQualityPreset, type CameraCommand } from '@/lib/camera-control';
+import type { CameraControlStatus } from '@/hooks/useCameraControl';
+import { OperatorMessagePopover } from '@/components/OperatorMessagePopover';
 
 interface LiveCameraCardProps {
   participant: Participant;
@@ -12,6 +30,13 @@ interface LiveCameraCardProps {
   isActive: boolean;
   onSelect: () => void;
   onActivate: () => void;
+  // Position in the camera grid, used by number-key and MIDI shortcuts
+  cameraNumber?: number;
+  // Remote control of the camera phone; the controls are hidden without it
+  control?: CameraControlStatus;
+  onCommand?: (command: CameraCommand) => void;
+  // Sends a message to this camera's operator
+  onSendMessage?: (text: string) => Promise<void>;
 }
 
 export function LiveCameraCard({ 
@@ -20,7 +45,11 @@ export function LiveCameraCard({
   isSelected, 
   isActive,
   onSelect, 
-  onActivate 
+  onActivate,
+  cameraNumber,
+  control,
+  onCommand,
+  onSendMessage
 }: LiveCameraCardProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
 
@@ -50,15 +79,23 @@ export function LiveCameraCard({
 
   return (
     <Card className={`cursor-pointer transition-all duration-200 ${
-      isSelected ? 'ring-2 ring-primary' : ''
-    } ${isActive ? 'border-green-500 border-2' : ''}`}>
+      isSelected ? 'ring-2 ring-green-600' : ''
+    } ${isActive ? 'border-red-600 border-2' : ''}`}>
       <CardHeader className="pb-2">
         <CardTitle className="text-sm flex items-center justify-between">
-          <span className="truncate">{cameraLabel}</span>
+          <span className="truncate">
+            {cameraNumber && <span className="font-mono text-muted-foreground mr-1">{cameraNumber}</span>}
+            {cameraLabel}
+          </span>
           <div className="flex items-center gap-1">
             {isActive && (
               <Badge variant="destructive" className="text-xs animate-pulse">
-                ACTIVE
+                PGM
+              </Badge>
+            )}
+            {isSelected && (
+              <Badge className="text-xs bg-green-600 hover:bg-green-600 text-white">
+                PVW
               </Badge>
             )}
             {isLive ? (
@@ -100,7 +137,7 @@ export function LiveCameraCard({
           
           {/* Selection overlay */}
           {isSelected && (
-            <div className="absolute inset-0 bg-primary/20 border-2 border-primary rounded-lg" />
+            <div className="absolute inset-0 bg-green-600/20 border-2 border-green-600 rounded-lg" />
           )}
         </div>
 
@@ -119,6 +156,11 @@ export function LiveCameraCard({
           </div>
         </div>
 
+        {/* Remote Camera Control */}
+        {control && onCommand && (
+          <CameraControlRow control={control} onCommand={onCommand} />
+        )}
+
         {/* Action Buttons */}
         <div className="flex gap-2">
           <Button
@@ -128,7 +170,7 @@ export function LiveCameraCard({
             className="flex-1"
           >
             <Video className="w-3 h-3 mr-1" />
-            {isSelected ? 'Selected' : 'Select'}
+            {isSelected ? 'In Preview' : 'Preview'}
           </Button>
           
           <Button
@@ -138,10 +180,117 @@ export function LiveCameraCard({
             disabled={!isLive}
             className="flex-1"
           >
-            {isActive ? 'Active' : 'Set Active'}
+            {isActive ? 'On Program' : 'Cut to Program'}
           </Button>
+
+          {onSendMessage && (
+            <OperatorMessagePopover recipient={cameraLabel} onSend={onSendMessage} />
+          )}
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function CameraControlRow({ control, onCommand }: { control: CameraControlStatus; onCommand: (command: CameraCommand) => void }) {
+  const { state, pending, lastResult } = control;
+  // Controls stay disabled until the camera reports its state
+  const disabled = !state || Boolean(pending);
+  const qualityPreset = state ? findQualityPreset(state) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <Button
+          variant={state && !state.microphoneEnabled ? "secondary" : "outline"}
+          size="sm"
+          className="h-7 px-2"
+          disabled={disabled}
+          onClick={() => onCommand({ type: 'set_microphone', enabled: !state?.microphoneEnabled })}
+          aria-label={state?.microphoneEnabled ? 'Mute camera microphone' : 'Unmute camera microphone'}
+        >
+          {state && !state.microphoneEnabled ? <MicOff className="w-3 h-3" /> : <Mic className="w-3 h-3" />}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 px-2"
+          disabled={disabled}
+          onClick={() => onCommand({ type: 'flip_camera' })}
+          aria-label="Flip camera"
+        >
+          <SwitchCamera className="w-3 h-3" />
+        </Button>
+        <Button
+          variant={state?.torch ? "default" : "outline"}
+          size="sm"
+          className="h-7 px-2"
+          disabled={disabled || !state.supports.torch}
+          onClick={() => onCommand({ type: 'set_torch', enabled: !state?.torch })}
+          aria-label="Toggle torch"
+        >
+          <Flashlight className="w-3 h-3" />
+        </Button>
+        <Button
+          variant={state?.exposureLocked ? "default" : "outline"}
+          size="sm"
+          className="h-7 px-2"
+          disabled={disabled || !state.supports.exposureLock}
+          onClick={() => onCommand({ type: 'set_exposure_lock', locked: !state?.exposureLocked })}
+          aria-label="Toggle exposure lock"
+        >
+          <Sun className="w-3 h-3" />
+        </Button>
+        <Button
+          variant={state?.focusLocked ? "default" : "outline"}
+          size="sm"
+          className="h-7 px-2"
+          disabled={disabled || !state.supports.focusLock}
+          onClick={() => onCommand({ type: 'set_focus_lock', locked: !state?.focusLocked })}
+          aria-label="Toggle focus lock"
+        >
+          <Focus className="w-3 h-3" />
+        </Button>
+        <Select
+          value={qualityPreset ?? ''}
+          disabled={disabled}
+          onValueChange={key => {
+            const preset = CAMERA_QUALITY_PRESETS[key];
+            onCommand({ type: 'set_quality', width: preset.width, height: preset.height, frameRate: preset.frameRate });
+          }}
+        >
+          <SelectTrigger className="h-7 flex-1 text-xs" aria-label="Camera quality">
+            <SelectValue placeholder={state?.height ? `${state.height}p ${Math.round(state.frameRate ?? 0)}fps` : 'Quality'} />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CAMERA_QUALITY_PRESETS).map(([key, preset]) => (
+              <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Acknowledgement of the last command */}
+      <div className="flex items-center gap-1 text-xs min-h-4">
+        {pending ? (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {pending.commandType === 'get_state' ? 'Connecting to camera...' : `${CAMERA_COMMAND_LABELS[pending.commandType]}...`}
+          </span>
+        ) : lastResult?.ok ? (
+          <span className="flex items-center gap-1 text-green-600">
+            <Check className="w-3 h-3" />
+            {CAMERA_COMMAND_LABELS[lastResult.commandType]} applied
+          </span>
+        ) : lastResult ? (
+          <span className="flex items-center gap-1 text-red-600 truncate">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            {CAMERA_COMMAND_LABELS[lastResult.commandType]}: {lastResult.error || 'Failed'}
+          </span>
+        ) : !state ? (
+          <span className="text-muted-foreground">Remote control unavailable</span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
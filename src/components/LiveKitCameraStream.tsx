@@ -2,8 +2,13 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Video, VideoOff, Mic, MicOff, Loader2, Users, Signal } from 'lucide-react';
-import { useLiveKitRoom } from '@/hooks/useLiveKitRoom';
+import { Video, VideoOff, Mic, MicOff, Loader2, Users, Signal, MessageSquare, X } from 'lucide-react';
+import { useLiveKitRoom, type CameraSession } from '@/hooks/useLiveKitRoom';
+import { useCameraCommandHandler } from '@/hooks/useCameraCommandHandler';
+import { useOperatorCueReceiver } from '@/hooks/useOperatorCueReceiver';
+import { useTalkback } from '@/hooks/useTalkback';
+import { TalkbackCard } from '@/components/TalkbackCard';
+import { CAMERA_COMMAND_LABELS, type CameraCommand } from '@/lib/camera-control';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Track } from 'livekit-client';
@@ -11,6 +16,8 @@ import { Track } from 'livekit-client';
 interface LiveKitCameraStreamProps {
   eventId: string;
   deviceLabel: string;
+  // Set when the phone joined with a camera slot invite, which already registered it
+  cameraSession?: CameraSession;
   onStreamStart?: () => void;
   onStreamStop?: () => void;
 }
@@ -18,6 +25,7 @@ interface LiveKitCameraStreamProps {
 export function LiveKitCameraStream({ 
   eventId, 
   deviceLabel, 
+  cameraSession,
   onStreamStart, 
   onStreamStop 
 }: LiveKitCameraStreamProps) {
@@ -44,8 +52,20 @@ export function LiveKitCameraStream({
     eventId,
     participantName: deviceLabel,
     participantIdentity: cameraIdentity,
+    cameraSession,
     autoConnect: false
   });
+
+  // Crew intercom with the director, in its own LiveKit room so it stays out of the program
+  const talkbackRoom = useLiveKitRoom({
+    eventId,
+    participantName: deviceLabel,
+    participantIdentity: cameraIdentity,
+    cameraSession,
+    talkback: true,
+    autoConnect: false
+  });
+  const talkback = useTalkback({ room: talkbackRoom.room });
   
   const { toast } = useToast();
 
@@ -68,8 +88,12 @@ export function LiveKitCameraStream({
           videoRef.current.srcObject = stream;
         }
 
-        // Register camera in database
-        await registerCameraInDatabase();
+        // Register camera in database; invited cameras were registered when they joined
+        if (cameraSession) {
+          setCameraRegistered(true);
+        } else {
+          await registerCameraInDatabase();
+        }
         
       } catch (error) {
         console.error('Failed to access camera:', error);
@@ -133,27 +157,17 @@ export function LiveKitCameraStream({
 
   const registerCameraInDatabase = async () => {
     try {
-      // First get the event to retrieve the event code
-      const { data: eventData, error: eventError } = await supabase
-        .from('events')
-        .select('event_code')
-        .eq('id', eventId)
-        .single();
-
-      if (eventError || !eventData) {
-        throw new Error('Could not find event');
-      }
-
-      const { error } = await supabase.functions.invoke('register-camera', {
+      // Only the event's crew can register a camera without an invite
+      const { data, error } = await supabase.functions.invoke('register-camera', {
         body: {
           eventId,
-          eventCode: eventData.event_code,
           deviceLabel,
           identity: cameraIdentity
         }
       });
 
       if (error) throw error;
+      if (data?.error) throw new Error(data.error);
       
       setCameraRegistered(true);
       toast({
@@ -245,8 +259,43 @@ export function LiveKitCameraStream({
     }
   };
 
+  const setMicrophoneEnabled = useCallback((enabled: boolean) => {
+    const audioTrack = streamRef.current?.getAudioTracks()[0];
+    if (audioTrack) {
+      audioTrack.enabled = enabled;
+      setIsAudioEnabled(enabled);
+    }
+  }, []);
+
+  // Let the operator know when the director changes their camera remotely
+  const handleRemoteCommand = useCallback((command: CameraCommand) => {
+    toast({
+      title: "Changed by director",
+      description: command.type === 'set_microphone'
+        ? `Microphone ${command.enabled ? 'on' : 'off'}`
+        : CAMERA_COMMAND_LABELS[command.type],
+    });
+  }, [toast]);
+
+  useCameraCommandHandler({
+    room,
+    streamRef,
+    videoRef,
+    microphoneEnabled: isAudioEnabled,
+    setMicrophoneEnabled,
+    onCommandApplied: handleRemoteCommand
+  });
+
+  // The token service may scope the identity, so prefer the one the room assigned
+  const { tallyState, message: directorMessage, dismissMessage } = useOperatorCueReceiver({
+    room,
+    cameraIdentity: localParticipant?.identity || cameraIdentity
+  });
+
   return (
-    <Card className="w-full max-w-2xl mx-auto">
+    <Card className={`w-full max-w-2xl mx-auto ${
+      tallyState === 'program' ? 'ring-4 ring-red-600' : tallyState === 'preview' ? 'ring-4 ring-green-600' : ''
+    }`}>
       <CardHeader>
         <CardTitle className="flex items-center justify-between text-sm sm:text-base">
           <span>{deviceLabel} - LiveKit Camera</span>
@@ -287,6 +336,37 @@ export function LiveKitCameraStream({
               <VideoOff className="w-8 h-8 sm:w-12 sm:h-12 text-muted-foreground" />
             </div>
           )}
+
+          {/* Tally light */}
+          {tallyState === 'program' && (
+            <Badge variant="destructive" className="absolute top-2 left-2 text-xs sm:text-sm animate-pulse">
+              ON AIR
+            </Badge>
+          )}
+          {tallyState === 'preview' && (
+            <Badge className="absolute top-2 left-2 text-xs sm:text-sm bg-green-600 hover:bg-green-600 text-white">
+              PREVIEW
+            </Badge>
+          )}
+
+          {/* Director message */}
+          {directorMessage && (
+            <div className="absolute inset-x-2 bottom-2 flex items-start gap-2 rounded-md bg-black/80 p-3 text-white">
+              <MessageSquare className="w-5 h-5 shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-white/70">{directorMessage.from}</p>
+                <p className="text-base sm:text-lg font-semibold break-words">{directorMessage.text}</p>
+              </div>
+              <button
+                type="button"
+                onClick={dismissMessage}
+                className="shrink-0 text-white/70 hover:text-white"
+                aria-label="Dismiss message"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Controls - Mobile optimized */}
@@ -351,6 +431,18 @@ export function LiveKitCameraStream({
             </div>
           </div>
         )}
+
+        {/* Talkback with the director */}
+        {cameraRegistered && (
+          <TalkbackCard
+            {...talkback}
+            participants={talkbackRoom.participants}
+            isConnected={talkbackRoom.isConnected}
+            isConnecting={talkbackRoom.isConnecting}
+            onJoin={talkbackRoom.connectToRoom}
+            onLeave={talkbackRoom.disconnectFromRoom}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -1,21 +1,31 @@
-import { useEffect, useRef, useState } from 'react';
-import { useParams } from 'react-router-dom';
-import { Room, RoomEvent, Participant, RemoteVideoTrack, RemoteTrackPublication } from 'livekit-client';
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { Room, RoomEvent, Participant } from 'livekit-client';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Play, Users, Wifi, Monitor } from 'lucide-react';
+import { Play, Users, Wifi, Monitor, LogIn } from 'lucide-react';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { ProgramComposition } from '@/components/ProgramComposition';
+import { ScoreboardOverlay } from '@/components/ScoreboardOverlay';
+import { useProgramLayout, useRoomVideoTracks } from '@/hooks/useProgramFeed';
+import { useScoreboard } from '@/hooks/useScoreboard';
+import { useAuth } from '@/hooks/useAuth';
+import { isProgramSource, resolveLayout } from '@/lib/program-layout';
 
 export default function LiveKitViewer() {
   const { eventId } = useParams<{ eventId: string }>();
+  const location = useLocation();
+  const { user, loading: authLoading } = useAuth();
   const [room, setRoom] = useState<Room | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
-  const [activeParticipant, setActiveParticipant] = useState<Participant | null>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
   const [loading, setLoading] = useState(true);
+  const { layout: programLayout, transition } = useProgramLayout({ eventId: eventId || '', room });
+  const videoTracks = useRoomVideoTracks(room);
+  const { scoreboard, rules: sportRules } = useScoreboard({ eventId: eventId || '' });
 
   useEffect(() => {
     if (!eventId) {
@@ -23,6 +33,13 @@ export default function LiveKitViewer() {
       return;
     }
 
+    // livekit-token only issues viewer tokens to signed-in users
+    if (authLoading) return;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
     const connectToRoom = async () => {
       try {
         setLoading(true);
@@ -84,52 +101,12 @@ export default function LiveKitViewer() {
 
         newRoom.on(RoomEvent.TrackSubscribed, (track, publication, participant) => {
           console.log('Track subscribed:', track.kind, 'from', participant.identity);
-          if (track.kind === 'video' && track instanceof RemoteVideoTrack) {
-            // If this is the first camera or the active camera, show it
-            if (!activeParticipant || participant.identity === activeParticipant.identity) {
-              setActiveParticipant(participant);
-              attachVideoTrack(track);
-            }
-          }
+          updateParticipants(newRoom);
         });
 
         newRoom.on(RoomEvent.TrackUnsubscribed, (track, publication, participant) => {
           console.log('Track unsubscribed:', track.kind, 'from', participant.identity);
-          if (participant.identity === activeParticipant?.identity) {
-            // Find another camera to show
-            const cameraParticipants = Array.from(newRoom.remoteParticipants.values()).filter(p => 
-              p.identity.startsWith('camera_') && p.videoTrackPublications.size > 0
-            );
-            if (cameraParticipants.length > 0) {
-              const nextParticipant = cameraParticipants[0];
-              setActiveParticipant(nextParticipant);
-              const videoTrack = nextParticipant.videoTrackPublications.values().next().value?.track;
-              if (videoTrack instanceof RemoteVideoTrack) {
-                attachVideoTrack(videoTrack);
-              }
-            } else {
-              setActiveParticipant(null);
-            }
-          }
-        });
-
-        newRoom.on(RoomEvent.DataReceived, (payload, participant) => {
-          try {
-            const data = JSON.parse(new TextDecoder().decode(payload));
-            if (data.type === 'layout_update' && data.activeCamera) {
-              // Switch to the active camera specified by director
-              const targetParticipant = newRoom.remoteParticipants.get(data.activeCamera);
-              if (targetParticipant) {
-                setActiveParticipant(targetParticipant);
-                const videoTrack = targetParticipant.videoTrackPublications.values().next().value?.track;
-                if (videoTrack instanceof RemoteVideoTrack) {
-                  attachVideoTrack(videoTrack);
-                }
-              }
-            }
-          } catch (error) {
-            console.error('Error parsing data message:', error);
-          }
+          updateParticipants(newRoom);
         });
 
         await newRoom.connect(tokenData.wsUrl, tokenData.token);
@@ -151,44 +128,10 @@ export default function LiveKitViewer() {
         room.disconnect();
       }
     };
-  }, [eventId]);
+  }, [eventId, authLoading, user?.id]);
 
   const updateParticipants = (currentRoom: Room) => {
-    const allParticipants = Array.from(currentRoom.remoteParticipants.values());
-    setParticipants(allParticipants);
-
-    // Auto-select the first camera if none is selected
-    if (!activeParticipant) {
-      const cameraParticipants = allParticipants.filter(p => 
-        p.identity.startsWith('camera_') && p.videoTrackPublications.size > 0
-      );
-      if (cameraParticipants.length > 0) {
-        const firstCamera = cameraParticipants[0];
-        setActiveParticipant(firstCamera);
-        const videoTrack = firstCamera.videoTrackPublications.values().next().value?.track;
-        if (videoTrack instanceof RemoteVideoTrack) {
-          attachVideoTrack(videoTrack);
-        }
-      }
-    }
-  };
-
-  const attachVideoTrack = (track: RemoteVideoTrack) => {
-    if (videoRef.current) {
-      track.attach(videoRef.current);
-      // Enable reliable autoplay: start muted, then allow user to unmute
-      try {
-        videoRef.current.muted = true;
-        const p = videoRef.current.play();
-        if (p && typeof (p as any).catch === 'function') {
-          (p as Promise<void>).catch(() => {
-            // Autoplay might still be blocked on some browsers until user gesture
-          });
-        }
-      } catch (e) {
-        // ignore
-      }
-    }
+    setParticipants(Array.from(currentRoom.remoteParticipants.values()));
   };
 
   if (loading) {
@@ -202,6 +145,21 @@ export default function LiveKitViewer() {
     );
   }
 
+  if (!user) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-black">
+        <div className="text-center text-white">
+          <LogIn className="h-16 w-16 mx-auto mb-4 opacity-50" />
+          <p className="text-lg font-medium mb-2">Sign in to watch live</p>
+          <p className="text-sm opacity-75 mb-4">The low-latency stream is available to signed-in viewers.</p>
+          <Button asChild variant="secondary">
+            <Link to="/auth" state={{ from: location }}>Sign In</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-black">
@@ -215,19 +173,18 @@ export default function LiveKitViewer() {
   }
 
   const cameraParticipants = participants.filter(p => p.identity.startsWith('camera_'));
+  const liveCameras = participants
+    .filter(p => isProgramSource(p.identity) && videoTracks.has(p.identity))
+    .map(p => p.identity);
+  const layout = resolveLayout(programLayout, liveCameras);
+  const mainParticipant = cameraParticipants.find(p => p.identity === layout?.cameras[0]);
 
   return (
     <div className="w-full h-full bg-black relative">
       {/* Video Player */}
       <div className="w-full h-full">
-        {activeParticipant && cameraParticipants.length > 0 ? (
-          <video
-            ref={videoRef}
-            className="w-full h-full object-cover"
-            autoPlay
-            playsInline
-            muted
-          />
+        {layout ? (
+          <ProgramComposition layout={layout} videoTracks={videoTracks} transition={transition} />
         ) : (
           <div className="w-full h-full flex items-center justify-center">
             <div className="text-center text-white">
@@ -247,7 +204,7 @@ export default function LiveKitViewer() {
 
       {/* Status Overlay */}
       {isConnected && (
-        <div className="absolute top-4 left-4 flex gap-2">
+        <div className="absolute top-4 left-4 z-20 flex gap-2">
           <Badge variant="destructive" className="bg-red-600 animate-pulse">
             <Wifi className="h-3 w-3 mr-1" />
             LIVE
@@ -261,12 +218,15 @@ export default function LiveKitViewer() {
         </div>
       )}
 
+      {/* Scoreboard */}
+      {layout && <ScoreboardOverlay scoreboard={scoreboard} rules={sportRules} className="absolute top-4 right-4 z-20" />}
+
       {/* Active Camera Info */}
-      {activeParticipant && (
-        <div className="absolute bottom-4 left-4">
+      {mainParticipant && (
+        <div className="absolute bottom-4 left-4 z-20">
           <Badge variant="outline" className="bg-black/50 text-white border-white/20">
             <Monitor className="h-3 w-3 mr-1" />
-            {activeParticipant.metadata || activeParticipant.identity.replace('camera_', '').replace(/_/g, ' ')}
+            {mainParticipant.metadata || mainParticipant.identity.replace('camera_', '').replace(/_/g, ' ')}
           </Badge>
         </div>
       )}
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toastService } from '@/lib/toast-service';
+import { useNotifications } from '@/hooks/useNotifications';
+
+const formatNotificationTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Header bell listing the signed-in user's recent notifications; opening it marks them read
+export function NotificationsMenu() {
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, markAllRead } = useNotifications();
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen || unreadCount === 0) return;
+
+    try {
+      await markAllRead();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      toastService.error({ description: error.message || 'Failed to update notifications.' });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] rounded-full bg-destructive px-1 text-[10px] leading-4 text-destructive-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-2 text-sm font-medium">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet.</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            {notifications.map(notification => {
+              const content = (
+                <>
+                  <div className="flex items-start justify-between gap-2">
+                    <span className={`text-sm ${notification.read_at ? '' : 'font-medium'}`}>{notification.title}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatNotificationTime(notification.created_at)}
+                    </span>
+                  </div>
+                  {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                </>
+              );
+
+              // Notifications open their own link, such as an invite, or else the event's dashboard
+              const link = notification.link ?? (notification.event_id ? `/director/${notification.event_id}` : null);
+
+              return link ? (
+                <Link
+                  key={notification.id}
+                  to={link}
+                  onClick={() => setOpen(false)}
+                  className="block border-b px-4 py-3 last:border-b-0 hover:bg-muted"
+                >
+                  {content}
+                </Link>
+              ) : (
+                <div key={notification.id} className="border-b px-4 py-3 last:border-b-0">
+                  {content}
+                </div>
+              );
+            })}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { MessageSquare, Send } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { CANNED_OPERATOR_MESSAGES, OPERATOR_MESSAGE_MAX_LENGTH } from '@/lib/operator-cues';
+
+interface OperatorMessagePopoverProps {
+  // Who receives the message, e.g. a camera label or "all cameras"
+  recipient: string;
+  onSend: (text: string) => Promise<void>;
+  disabled?: boolean;
+  triggerLabel?: string;
+}
+
+// Quick canned cues or free text for camera operators, shown on their phones
+export function OperatorMessagePopover({ recipient, onSend, disabled, triggerLabel }: OperatorMessagePopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const send = async (message: string) => {
+    if (!message.trim()) return;
+
+    try {
+      setSending(true);
+      await onSend(message);
+      setText('');
+      setOpen(false);
+      toastService.success({ description: `Sent "${message.trim()}" to ${recipient}.` });
+    } catch (error) {
+      console.error('Error sending operator message:', error);
+      toastService.error({ description: error.message || 'Failed to send message.' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={triggerLabel ? undefined : 'px-2'}
+          disabled={disabled}
+          aria-label={`Message ${recipient}`}
+        >
+          <MessageSquare className={triggerLabel ? 'w-4 h-4 mr-2' : 'w-3 h-3'} />
+          {triggerLabel}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <p className="text-xs text-muted-foreground">Message {recipient}</p>
+        <div className="flex flex-wrap gap-1">
+          {CANNED_OPERATOR_MESSAGES.map(cue => (
+            <Button
+              key={cue}
+              variant="secondary"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={sending}
+              onClick={() => send(cue)}
+            >
+              {cue}
+            </Button>
+          ))}
+        </div>
+        <form
+          className="flex gap-1"
+          onSubmit={e => {
+            e.preventDefault();
+            send(text);
+          }}
+        >
+          <Input
+            value={text}
+            onChange={e => setText(e.target.value)}
+            maxLength={OPERATOR_MESSAGE_MAX_LENGTH}
+            placeholder="Type a message"
+            className="h-8 text-xs"
+          />
+          <Button type="submit" size="sm" className="h-8 px-2" disabled={sending || !text.trim()} aria-label="Send message">
+            <Send className="w-3 h-3" />
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
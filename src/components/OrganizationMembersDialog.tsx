@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { UserPlus, Trash2 } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { organizationMemberSchema } from '@/lib/validation';
+import { ASSIGNABLE_ROLES, ORG_ROLE_LABELS, type OrgRole } from '@/lib/org-roles';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization, type Organization } from '@/hooks/useOrganization';
+import { useOrganizationMembers } from '@/hooks/useOrganizationMembers';
+
+interface OrganizationMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organization: Organization;
+}
+
+export function OrganizationMembersDialog({ open, onOpenChange, organization }: OrganizationMembersDialogProps) {
+  const { user } = useAuth();
+  const { refetch: refetchOrganizations, setActiveOrganizationId } = useOrganization();
+  const { members, loading, addMember, updateRole, removeMember } = useOrganizationMembers({
+    organizationId: organization.id
+  });
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrgRole>('camera_operator');
+  const [adding, setAdding] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const assignableRoles = ASSIGNABLE_ROLES[organization.role];
+  const canManage = (memberRole: OrgRole) => assignableRoles.includes(memberRole);
+
+  const handleAdd = async () => {
+    const result = organizationMemberSchema.safeParse({ email });
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setAdding(true);
+      await addMember(result.data.email, role);
+      setEmail('');
+      toastService.success({ description: `${result.data.email} added as ${ORG_ROLE_LABELS[role]}.` });
+    } catch (error) {
+      console.error('Error adding organization member:', error);
+      toastService.error({ description: error.message || 'Failed to add member.' });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, nextRole: OrgRole) => {
+    try {
+      setPendingId(userId);
+      await updateRole(userId, nextRole);
+      if (userId === user?.id) {
+        await refetchOrganizations();
+      }
+    } catch (error) {
+      console.error('Error updating organization member:', error);
+      toastService.error({ description: error.message || 'Failed to update member.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    try {
+      setPendingId(userId);
+      await removeMember(userId);
+
+      // Leaving drops the organization from the switcher
+      if (userId === user?.id) {
+        setActiveOrganizationId(null);
+        await refetchOrganizations();
+        onOpenChange(false);
+        toastService.success({ description: `You left ${organization.name}.` });
+      }
+    } catch (error) {
+      console.error('Error removing organization member:', error);
+      toastService.error({ description: error.message || 'Failed to remove member.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{organization.name} Members</DialogTitle>
+          <DialogDescription>
+            Owners and producers create and manage events. Directors run the control room, and camera operators join with their devices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {loading && <p className="text-sm text-muted-foreground">Loading members...</p>}
+          {members.map(member => {
+            const isSelf = member.userId === user?.id;
+            const editable = canManage(member.role) && !isSelf;
+
+            return (
+              <div key={member.userId} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {member.fullName || member.email || 'Unknown user'}
+                    {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                  </div>
+                  {member.fullName && member.email && (
+                    <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {editable ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={value => handleRoleChange(member.userId, value as OrgRole)}
+                      disabled={pendingId === member.userId}
+                    >
+                      <SelectTrigger className="h-8 w-[150px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assignableRoles.map(assignableRole => (
+                          <SelectItem key={assignableRole} value={assignableRole}>{ORG_ROLE_LABELS[assignableRole]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-muted-foreground px-2">{ORG_ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(editable || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pendingId === member.userId}
+                      onClick={() => handleRemove(member.userId)}
+                      aria-label={isSelf ? 'Leave organization' : 'Remove member'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {assignableRoles.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="memberEmail">Add Member</Label>
+            <Input
+              id="memberEmail"
+              type="email"
+              placeholder="teammate@example.com"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+            />
+            <Select value={role} onValueChange={value => setRole(value as OrgRole)}>
+              <SelectTrigger aria-label="Member role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignableRoles.map(assignableRole => (
+                  <SelectItem key={assignableRole} value={assignableRole}>{ORG_ROLE_LABELS[assignableRole]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">The person needs to have signed up with this email first.</p>
+            <LoadingButton onClick={handleAdd} loading={adding} size="sm" variant="outline" className="w-full">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add Member
+            </LoadingButton>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { OrganizationContext, type Organization } from '@/hooks/useOrganization';
+
+const ACTIVE_ORGANIZATION_KEY = 'activeOrganizationId';
+
+export function OrganizationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeOrganizationId, setActiveId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_ORGANIZATION_KEY)
+  );
+
+  const loadOrganizations = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, organizations(*)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      setOrganizations(
+        (data || [])
+          .filter(membership => membership.organizations)
+          .map(membership => ({ ...membership.organizations, role: membership.role }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      console.error('[Organizations] Error loading organizations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadOrganizations();
+  }, [loadOrganizations]);
+
+  const setActiveOrganizationId = useCallback((organizationId: string | null) => {
+    if (organizationId) {
+      localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+    } else {
+      localStorage.removeItem(ACTIVE_ORGANIZATION_KEY);
+    }
+    setActiveId(organizationId);
+  }, []);
+
+  // The caller becomes the first owner in the same transaction
+  const createOrganization = useCallback(async (name: string) => {
+    const { data, error } = await supabase.rpc('create_organization', { _name: name.trim() });
+    if (error) throw error;
+
+    await loadOrganizations();
+    setActiveOrganizationId(data.id);
+    return data;
+  }, [loadOrganizations, setActiveOrganizationId]);
+
+  // A stored organization the user has since left falls back to the personal workspace
+  const activeOrganization = organizations.find(organization => organization.id === activeOrganizationId) ?? null;
+
+  const value = {
+    organizations,
+    loading,
+    activeOrganization,
+    activeRole: activeOrganization?.role ?? null,
+    setActiveOrganizationId,
+    createOrganization,
+    refetch: loadOrganizations
+  };
+
+  return <OrganizationContext.Provider value={value}>{children}</OrganizationContext.Provider>;
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Building2, Check, ChevronDown, Plus, User, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import LoadingButton from '@/components/ui/LoadingButton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { toastService } from '@/lib/toast-service';
+import { organizationNameSchema } from '@/lib/validation';
+import { useOrganization } from '@/hooks/useOrganization';
+import { ORG_ROLE_LABELS } from '@/lib/org-roles';
+import { OrganizationMembersDialog } from '@/components/OrganizationMembersDialog';
+
+// Header menu for choosing the workspace new events are created in and listed from
+export function OrganizationSwitcher() {
+  const { organizations, activeOrganization, setActiveOrganizationId, createOrganization } = useOrganization();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    const result = organizationNameSchema.safeParse(name);
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setCreating(true);
+      await createOrganization(result.data);
+      setName('');
+      setCreateOpen(false);
+      toastService.success({ description: `${result.data} created. Add your crew from Manage Members.` });
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toastService.error({ description: error.message || 'Failed to create organization.' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[200px]">
+            {activeOrganization ? <Building2 className="h-4 w-4 mr-2 shrink-0" /> : <User className="h-4 w-4 mr-2 shrink-0" />}
+            <span className="truncate">{activeOrganization?.name ?? 'Personal'}</span>
+            <ChevronDown className="h-3 w-3 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Workspace</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => setActiveOrganizationId(null)}>
+            <User className="h-4 w-4 mr-2" />
+            <span className="flex-1">Personal</span>
+            {!activeOrganization && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {organizations.map(organization => (
+            <DropdownMenuItem key={organization.id} onSelect={() => setActiveOrganizationId(organization.id)}>
+              <Building2 className="h-4 w-4 mr-2 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{organization.name}</div>
+                <div className="text-xs text-muted-foreground">{ORG_ROLE_LABELS[organization.role]}</div>
+              </div>
+              {activeOrganization?.id === organization.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {activeOrganization && (
+            <DropdownMenuItem onSelect={() => setMembersOpen(true)}>
+              <Users className="h-4 w-4 mr-2" />
+              Manage Members
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Organization
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+            <DialogDescription>
+              Events created in an organization are shared with its members. You start as its owner.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="organizationName">Name</Label>
+            <Input
+              id="organizationName"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Riverside High Athletics"
+              maxLength={80}
+            />
+          </div>
+          <DialogFooter>
+            <LoadingButton onClick={handleCreate} loading={creating}>
+              Create Organization
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Keyed so the member list reloads when switching organizations */}
+      {activeOrganization && membersOpen && (
+        <OrganizationMembersDialog
+          key={activeOrganization.id}
+          open={membersOpen}
+          onOpenChange={setMembersOpen}
+          organization={activeOrganization}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { RemoteVideoTrack } from 'livekit-client';
+import { Monitor } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CUT_TRANSITION,
+  getLayoutTiles,
+  getLayoutKey,
+  type ProgramLayout,
+  type ProgramTransition
+} from '@/lib/program-layout';
+
+interface ProgramCompositionProps {
+  layout: ProgramLayout | null;
+  videoTracks: Map<string, RemoteVideoTrack>;
+  // Transition used when `layout` changes
+  transition?: ProgramTransition;
+  className?: string;
+  showLabels?: boolean;
+}
+
+interface TransitionState {
+  outgoing: ProgramLayout | null;
+  outgoingOpacity: number;
+  blackOpacity: number;
+  durationMs: number;
+}
+
+const IDLE_STATE: TransitionState = { outgoing: null, outgoingOpacity: 1, blackOpacity: 0, durationMs: 0 };
+
+const formatCameraLabel = (identity: string) => identity.replace('camera_', '').replace(/_/g, ' ');
+
+const ProgramTileVideo = ({ track }: { track: RemoteVideoTrack }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    track.attach(video);
+    // Start muted so autoplay is allowed; viewers can unmute with a gesture
+    video.muted = true;
+    video.play().catch(() => {
+      // Autoplay might still be blocked on some browsers until user gesture
+    });
+
+    return () => {
+      track.detach(video);
+    };
+  }, [track]);
+
+  return <video ref={videoRef} className="w-full h-full object-cover" autoPlay muted playsInline />;
+};
+
+const CompositionLayer = ({
+  layout,
+  videoTracks,
+  showLabels
+}: {
+  layout: ProgramLayout;
+  videoTracks: Map<string, RemoteVideoTrack>;
+  showLabels: boolean;
+}) => (
+  <>
+    {getLayoutTiles(layout).map(tile => {
+      const track = videoTracks.get(tile.identity);
+
+      return (
+        <div
+          key={tile.identity}
+          className={cn('absolute overflow-hidden bg-black', tile.inset && 'z-10 rounded-md border-2 border-white/80 shadow-lg')}
+          style={{
+            left: `${tile.left}%`,
+            top: `${tile.top}%`,
+            width: `${tile.width}%`,
+            height: `${tile.height}%`,
+          }}
+        >
+          {track ? (
+            <ProgramTileVideo track={track} />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-white/50">
+              <Monitor className="h-8 w-8" />
+            </div>
+          )}
+          {showLabels && (
+            <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+              {formatCameraLabel(tile.identity)}
+            </span>
+          )}
+        </div>
+      );
+    })}
+  </>
+);
+
+export function ProgramComposition({
+  layout,
+  videoTracks,
+  transition = CUT_TRANSITION,
+  className,
+  showLabels = false
+}: ProgramCompositionProps) {
+  const [transitionState, setTransitionState] = useState<TransitionState>(IDLE_STATE);
+  const previousRef = useRef(layout);
+  // Only a layout with different content starts a transition; the transition sent with it is read at that moment
+  const layoutRef = useRef(layout);
+  const transitionRef = useRef(transition);
+  layoutRef.current = layout;
+  transitionRef.current = transition;
+  const layoutKey = getLayoutKey(layout);
+
+  // Layout effect so the outgoing layer is in place before the new layout is painted
+  useLayoutEffect(() => {
+    const layout = layoutRef.current;
+    const transition = transitionRef.current;
+    const previous = previousRef.current;
+    previousRef.current = layout;
+
+    if (transition.type === 'cut' || !previous || !layout || getLayoutKey(previous) === layoutKey) {
+      setTransitionState(IDLE_STATE);
+      return;
+    }
+
+    const { durationMs } = transition;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let frame = 0;
+
+    // Show the outgoing layout on top first, then animate from the next frame on
+    setTransitionState({ ...IDLE_STATE, outgoing: previous });
+    frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => {
+        if (transition.type === 'mix') {
+          setTransitionState({ ...IDLE_STATE, outgoing: previous, outgoingOpacity: 0, durationMs });
+          timers.push(setTimeout(() => setTransitionState(IDLE_STATE), durationMs));
+        } else {
+          // Dip to black: fade the outgoing shot to black, then fade the new one up from black
+          setTransitionState({ ...IDLE_STATE, outgoing: previous, blackOpacity: 1, durationMs: durationMs / 2 });
+          timers.push(setTimeout(() => {
+            setTransitionState({ ...IDLE_STATE, durationMs: durationMs / 2 });
+          }, durationMs / 2));
+        }
+      });
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      timers.forEach(clearTimeout);
+    };
+  }, [layoutKey]);
+
+  const { outgoing, outgoingOpacity, blackOpacity, durationMs } = transitionState;
+
+  return (
+    <div className={cn('relative w-full h-full bg-black overflow-hidden', className)}>
+      {layout && (
+        <div className="absolute inset-0">
+          <CompositionLayer layout={layout} videoTracks={videoTracks} showLabels={showLabels} />
+        </div>
+      )}
+      {outgoing && (
+        <div
+          className="absolute inset-0 z-20"
+          style={{ opacity: outgoingOpacity, transition: `opacity ${durationMs}ms linear` }}
+        >
+          <CompositionLayer layout={outgoing} videoTracks={videoTracks} showLabels={showLabels} />
+        </div>
+      )}
+      <div
+        className="absolute inset-0 z-30 bg-black pointer-events-none"
+        style={{ opacity: blackOpacity, transition: `opacity ${durationMs}ms linear` }}
+      />
+    </div>
+  );
+}
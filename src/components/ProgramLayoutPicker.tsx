@@ -0,0 +1,125 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Square, PictureInPicture2, Columns2, Grid2x2, LayoutTemplate } from 'lucide-react';
+import {
+  PIP_POSITIONS,
+  PROGRAM_LAYOUTS,
+  assignLayoutSlot,
+  changeLayoutType,
+  type PipPosition,
+  type ProgramLayout,
+  type ProgramLayoutType
+} from '@/lib/program-layout';
+
+interface ProgramLayoutPickerProps {
+  layout: ProgramLayout;
+  cameras: { identity: string; label: string }[];
+  onChange: (layout: ProgramLayout) => void;
+  // Layouts the program egress can compose; the others are shown but cannot be picked
+  supportedLayouts?: ProgramLayoutType[];
+  disabled?: boolean;
+}
+
+const layoutIcons: Record<ProgramLayoutType, typeof Square> = {
+  single: Square,
+  pip: PictureInPicture2,
+  side_by_side: Columns2,
+  grid: Grid2x2
+};
+
+export function ProgramLayoutPicker({ layout, cameras, onChange, supportedLayouts, disabled = false }: ProgramLayoutPickerProps) {
+  const handleTypeChange = (type: string) => {
+    if (!type || type === layout.type) return;
+    onChange(changeLayoutType(layout, type as ProgramLayoutType, cameras.map(camera => camera.identity)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <LayoutTemplate className="h-4 w-4" />
+          Program Layout
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Composition lined up on preview; Take sends it to viewers and every destination
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-2">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={layout.type}
+          onValueChange={handleTypeChange}
+          disabled={disabled}
+          className="justify-start flex-wrap"
+        >
+          {(Object.keys(PROGRAM_LAYOUTS) as ProgramLayoutType[]).map(type => {
+            const Icon = layoutIcons[type];
+            const supported = !supportedLayouts || supportedLayouts.includes(type);
+            return (
+              <ToggleGroupItem
+                key={type}
+                value={type}
+                size="sm"
+                aria-label={PROGRAM_LAYOUTS[type].label}
+                disabled={!supported}
+                title={supported ? undefined : 'Needs the custom egress template (LIVEKIT_EGRESS_TEMPLATE_URL)'}
+              >
+                <Icon className="h-4 w-4 mr-1" />
+                <span className="text-xs">{PROGRAM_LAYOUTS[type].label}</span>
+              </ToggleGroupItem>
+            );
+          })}
+        </ToggleGroup>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {PROGRAM_LAYOUTS[layout.type].slots.map((slotLabel, slot) => (
+            <div key={slotLabel} className="space-y-1">
+              <Label className="text-xs">{slotLabel}</Label>
+              <Select
+                value={layout.cameras[slot] || ''}
+                onValueChange={identity => onChange(assignLayoutSlot(layout, slot, identity))}
+                disabled={disabled || cameras.length === 0}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Choose camera" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cameras.map(camera => (
+                    <SelectItem key={camera.identity} value={camera.identity} className="text-xs">
+                      {camera.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          {layout.type === 'pip' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Inset position</Label>
+              <Select
+                value={layout.pipPosition || 'bottom_right'}
+                onValueChange={position => onChange({ ...layout, pipPosition: position as PipPosition })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PIP_POSITIONS) as PipPosition[]).map(position => (
+                    <SelectItem key={position} value={position} className="text-xs">
+                      {PIP_POSITIONS[position]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatClock } from '@/lib/scoreboard';
+import { getTimelineCameras, type ProgramTimeline } from '@/lib/program-timeline';
+
+interface ProgramTimelineBarProps {
+  timeline: ProgramTimeline;
+}
+
+const CAMERA_COLORS = [
+  'bg-blue-500',
+  'bg-emerald-500',
+  'bg-amber-500',
+  'bg-rose-500',
+  'bg-violet-500',
+  'bg-cyan-500',
+  'bg-lime-500',
+  'bg-orange-500',
+];
+
+const formatOffset = (seconds: number) => formatClock(Math.floor(seconds));
+
+// Program timeline drawn to scale, one colour per camera
+export function ProgramTimelineBar({ timeline }: ProgramTimelineBarProps) {
+  const cameras = getTimelineCameras(timeline);
+  const colors = new Map(cameras.map(({ id }, index) => [id, CAMERA_COLORS[index % CAMERA_COLORS.length]]));
+  const toPercent = (seconds: number) => `${(seconds / timeline.durationSeconds) * 100}%`;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-10 w-full overflow-hidden rounded-md bg-muted">
+        {timeline.segments.map(segment => (
+          <Tooltip key={`${segment.cameraId}-${segment.startSeconds}`}>
+            <TooltipTrigger asChild>
+              <div
+                className={`absolute inset-y-0 border-r border-background ${colors.get(segment.cameraId)}`}
+                style={{
+                  left: toPercent(segment.startSeconds),
+                  width: toPercent(segment.endSeconds - segment.startSeconds)
+                }}
+              />
+            </TooltipTrigger>
+            <TooltipContent>
+              {segment.cameraLabel}: {formatOffset(segment.startSeconds)} – {formatOffset(segment.endSeconds)}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>0:00</span>
+        <span>{formatOffset(timeline.durationSeconds)}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {cameras.map(({ id, label }) => (
+          <span key={id} className="flex items-center gap-1.5">
+            <span className={`h-3 w-3 rounded-sm ${colors.get(id)}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
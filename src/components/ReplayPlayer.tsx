@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+import { Star } from 'lucide-react';
+import { useHlsPlayback } from '@/hooks/useHlsPlayback';
+import { formatClock } from '@/lib/scoreboard';
+import { getMuxPlaybackId, getMuxThumbnailUrl } from '@/lib/mux';
+import { getChapterAt, type ReplayChapter } from '@/lib/replay-chapters';
+
+interface ReplayPlayerProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  recordingUrl: string;
+  chapters: ReplayChapter[];
+  // Used until the player knows the duration itself
+  durationSeconds?: number | null;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+// Scrubbing previews are requested at this granularity so neighbouring positions share an image
+const THUMBNAIL_STEP_SECONDS = 5;
+
+const formatTime = (seconds: number) => formatClock(Math.floor(seconds));
+
+// Recording playback with a chapter-marked scrub bar that previews frames on hover
+export function ReplayPlayer({ videoRef, recordingUrl, chapters, durationSeconds, onTimeUpdate }: ReplayPlayerProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [duration, setDuration] = useState(durationSeconds || 0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [hoverSeconds, setHoverSeconds] = useState<number | null>(null);
+  const playbackId = getMuxPlaybackId(recordingUrl);
+
+  useHlsPlayback(videoRef, recordingUrl, { autoPlay: false });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleDurationChange = () => {
+      if (Number.isFinite(video.duration) && video.duration > 0) setDuration(video.duration);
+    };
+    const handleTimeUpdate = () => {
+      setCurrentTime(video.currentTime);
+      onTimeUpdate?.(video.currentTime);
+    };
+
+    video.addEventListener('durationchange', handleDurationChange);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => {
+      video.removeEventListener('durationchange', handleDurationChange);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+    };
+  }, [videoRef, onTimeUpdate]);
+
+  const getSecondsAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || !duration) return 0;
+    return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const seek = (seconds: number) => {
+    if (videoRef.current) videoRef.current.currentTime = seconds;
+  };
+
+  const toPercent = (seconds: number) => `${duration ? (seconds / duration) * 100 : 0}%`;
+  const hoverChapter = hoverSeconds !== null ? getChapterAt(chapters, hoverSeconds) : null;
+
+  return (
+    <div className="bg-black">
+      <div className="aspect-video">
+        <video ref={videoRef} className="w-full h-full" controls playsInline />
+      </div>
+
+      <div className="px-4 pt-5 pb-3">
+        <div
+          ref={barRef}
+          className="relative h-2 cursor-pointer rounded-full bg-white/20 touch-none"
+          onPointerMove={e => setHoverSeconds(getSecondsAt(e.clientX))}
+          onPointerLeave={() => setHoverSeconds(null)}
+          onPointerDown={e => seek(getSecondsAt(e.clientX))}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+        >
+          <div className="absolute inset-y-0 left-0 rounded-full bg-red-600" style={{ width: toPercent(currentTime) }} />
+
+          {chapters.map(chapter =>
+            chapter.kind === 'highlight' ? (
+              <Star
+                key={`highlight-${chapter.seconds}`}
+                className="absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 fill-amber-400 text-amber-400"
+                style={{ left: toPercent(chapter.seconds) }}
+              />
+            ) : (
+              <div
+                key={`camera-${chapter.seconds}`}
+                className="absolute inset-y-0 w-0.5 bg-black/60"
+                style={{ left: toPercent(chapter.seconds) }}
+              />
+            )
+          )}
+
+          {hoverSeconds !== null && (
+            <div
+              className="pointer-events-none absolute bottom-4 z-10 -translate-x-1/2 rounded-md bg-black/90 p-1 text-center text-xs text-white"
+              style={{ left: toPercent(hoverSeconds) }}
+            >
+              {playbackId && (
+                <img
+                  src={getMuxThumbnailUrl(
+                    playbackId,
+                    Math.floor(hoverSeconds / THUMBNAIL_STEP_SECONDS) * THUMBNAIL_STEP_SECONDS
+                  )}
+                  alt=""
+                  className="mb-1 h-[90px] w-40 rounded object-cover"
+                />
+              )}
+              {hoverChapter && <div className="max-w-[10rem] truncate">{hoverChapter.title}</div>}
+              <div className="tabular-nums">{formatTime(hoverSeconds)}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-2 flex justify-between text-xs text-white/70 tabular-nums">
+          <span>{formatTime(currentTime)}</span>
+          <span>{formatTime(duration)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trophy, Play, Pause, RotateCcw, Minus, Plus, Undo2 } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { useScoreboard, useGameClock } from '@/hooks/useScoreboard';
+import { formatClock, parseClock, type ScoreboardTeam } from '@/lib/scoreboard';
+import { formatTennisPoints, getSportState, isMatchOver, type Pitch } from '@/lib/sport-rules';
+
+interface ScoreboardControlsProps {
+  eventId: string;
+}
+
+const TEAMS: ScoreboardTeam[] = ['home', 'away'];
+
+const PITCHES: { pitch: Pitch; label: string }[] = [
+  { pitch: 'ball', label: 'Ball' },
+  { pitch: 'strike', label: 'Strike' },
+  { pitch: 'foul', label: 'Foul' },
+  { pitch: 'out', label: 'Out' }
+];
+
+export function ScoreboardControls({ eventId }: ScoreboardControlsProps) {
+  const {
+    scoreboard,
+    rules,
+    loading,
+    updateScoreboard,
+    applyScoring,
+    adjustScore,
+    startClock,
+    stopClock,
+    setClock,
+    resetClock,
+    resetShotClock
+  } = useScoreboard({ eventId });
+  const { seconds: clockSeconds, shotClockSeconds } = useGameClock(scoreboard);
+  const [names, setNames] = useState({ home: 'Home', away: 'Away' });
+  const [clockInput, setClockInput] = useState('');
+  const [durationInput, setDurationInput] = useState('');
+
+  const homeName = scoreboard?.home_name;
+  const awayName = scoreboard?.away_name;
+  const durationSeconds = scoreboard?.clock_duration_seconds;
+
+  // Resync the text fields when another director changes them
+  useEffect(() => {
+    if (homeName === undefined) return;
+    setNames({ home: homeName, away: awayName });
+    setDurationInput(formatClock(durationSeconds));
+  }, [homeName, awayName, durationSeconds]);
+
+  // Every control shares the same error handling; RLS rejects writes from non-owners
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating scoreboard:', error);
+      toastService.error({ description: error.message || 'Failed to update scoreboard.' });
+    }
+  };
+
+  const saveName = (team: ScoreboardTeam) => {
+    const name = names[team].trim();
+    if (!name || name === scoreboard?.[`${team}_name`]) return;
+    run(() => updateScoreboard({ [`${team}_name`]: name }));
+  };
+
+  const handleSetClock = () => {
+    const seconds = parseClock(clockInput);
+    if (seconds === null) {
+      toastService.error({ description: 'Enter the clock as mm:ss.' });
+      return;
+    }
+    run(async () => {
+      await setClock(seconds);
+      setClockInput('');
+    });
+  };
+
+  const saveDuration = () => {
+    const seconds = parseClock(durationInput);
+    if (seconds === null || seconds === scoreboard?.clock_duration_seconds) return;
+    run(() => updateScoreboard({ clock_duration_seconds: seconds }));
+  };
+
+  const period = scoreboard?.period ?? 1;
+  const clockRunning = scoreboard?.clock_running || false;
+  const direction = scoreboard?.clock_direction || 'up';
+  const state = getSportState(scoreboard);
+  const setBased = rules.scoring === 'volleyball' || rules.scoring === 'tennis';
+  const matchOver = isMatchOver(rules, scoreboard);
+  const correction = rules.scoreIncrements[0];
+
+  // Set sports score rally by rally; others add fixed increments (runs, goals, baskets)
+  const renderScoreButtons = (team: ScoreboardTeam) => {
+    if (setBased) {
+      return (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-2 text-xs"
+          onClick={() => run(() => applyScoring({ type: 'point', team }))}
+          disabled={loading || matchOver}
+        >
+          Point
+        </Button>
+      );
+    }
+
+    return (
+      <>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => run(() => adjustScore(team, -correction))}
+          disabled={loading || !scoreboard?.[`${team}_score`]}
+          aria-label={`Decrease ${team} score`}
+        >
+          <Minus className="h-3 w-3" />
+        </Button>
+        {rules.scoreIncrements.map(points => (
+          <Button
+            key={points}
+            variant="outline"
+            size="sm"
+            className="h-8 px-2 text-xs"
+            onClick={() => run(() => adjustScore(team, points))}
+            disabled={loading}
+          >
+            +{points}
+          </Button>
+        ))}
+      </>
+    );
+  };
+
+  const renderScore = (team: ScoreboardTeam) => {
+    const score = scoreboard?.[`${team}_score`] ?? 0;
+    if (rules.scoring === 'volleyball') return `${score} · ${state.points[team]}`;
+    if (rules.scoring === 'tennis') return `${score} · ${state.games[team]} · ${formatTennisPoints(state, team)}`;
+    return score;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Trophy className="h-4 w-4" />
+          Scoreboard
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Shown over the program feed for viewers and streaming destinations
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="scoreboard-visible" className="text-xs">Show on stream</Label>
+          <Switch
+            id="scoreboard-visible"
+            checked={scoreboard?.visible ?? false}
+            onCheckedChange={visible => run(() => updateScoreboard({ visible }))}
+            disabled={loading}
+          />
+        </div>
+
+        {TEAMS.map(team => (
+          <div key={team} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                aria-label={`${team} color`}
+                value={scoreboard?.[`${team}_color`] || (team === 'home' ? '#1d4ed8' : '#dc2626')}
+                onChange={event => run(() => updateScoreboard({ [`${team}_color`]: event.target.value }))}
+                className="h-8 w-8 shrink-0 cursor-pointer rounded border bg-transparent"
+                disabled={loading}
+              />
+              <Input
+                value={names[team]}
+                onChange={event => setNames(current => ({ ...current, [team]: event.target.value }))}
+                onBlur={() => saveName(team)}
+                onKeyDown={event => event.key === 'Enter' && saveName(team)}
+                className="h-8 text-xs"
+                maxLength={24}
+                disabled={loading}
+              />
+              <span className="min-w-[2rem] text-center font-mono font-bold whitespace-nowrap">{renderScore(team)}</span>
+            </div>
+            <div className="flex flex-wrap justify-end gap-1">{renderScoreButtons(team)}</div>
+          </div>
+        ))}
+
+        {rules.scoring === 'baseball' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">{state.half === 'top' ? 'Top' : 'Bottom'} {period}</Label>
+              <span className="font-mono text-sm">
+                {state.balls}-{state.strikes}, {state.outs} out{state.outs === 1 ? '' : 's'}
+              </span>
+            </div>
+            <div className="grid grid-cols-4 gap-1">
+              {PITCHES.map(({ pitch, label }) => (
+                <Button
+                  key={pitch}
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => run(() => applyScoring({ type: 'pitch', pitch }))}
+                  disabled={loading}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">{rules.periodName}</Label>
+          {setBased ? (
+            <span className="font-mono font-bold">
+              {matchOver ? 'Final' : period}
+            </span>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => run(() => updateScoreboard({ period: period - 1 }))}
+                disabled={loading || period <= 1}
+                aria-label={`Previous ${rules.periodName.toLowerCase()}`}
+              >
+                <Minus className="h-3 w-3" />
+              </Button>
+              <span className="w-8 text-center font-mono font-bold">{period}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => run(() => updateScoreboard({ period: period + 1 }))}
+                disabled={loading || (!rules.extraPeriods && period >= rules.periods)}
+                aria-label={`Next ${rules.periodName.toLowerCase()}`}
+              >
+                <Plus className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => run(() => applyScoring({ type: 'undo' }))}
+          disabled={loading || !state.previous}
+        >
+          <Undo2 className="h-4 w-4 mr-1" />
+          Undo last score
+        </Button>
+
+        {rules.clock && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Game Clock</Label>
+              <span className="font-mono text-lg font-bold tabular-nums">{formatClock(clockSeconds)}</span>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={clockRunning ? 'secondary' : 'default'}
+                size="sm"
+                className="flex-1"
+                onClick={() => run(clockRunning ? stopClock : startClock)}
+                disabled={loading}
+              >
+                {clockRunning ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                {clockRunning ? 'Stop' : 'Start'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => run(resetClock)} disabled={loading}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Reset
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={clockInput}
+                onChange={event => setClockInput(event.target.value)}
+                onKeyDown={event => event.key === 'Enter' && handleSetClock()}
+                placeholder="mm:ss"
+                className="h-8 text-xs font-mono"
+                disabled={loading}
+              />
+              <Button variant="outline" size="sm" onClick={handleSetClock} disabled={loading || !clockInput}>
+                Set
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Select
+                value={direction}
+                onValueChange={value => run(() => updateScoreboard({ clock_direction: value }))}
+                disabled={loading || clockRunning}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="up">Count up</SelectItem>
+                  <SelectItem value="down">Count down</SelectItem>
+                </SelectContent>
+              </Select>
+              {direction === 'down' && (
+                <Input
+                  value={durationInput}
+                  onChange={event => setDurationInput(event.target.value)}
+                  onBlur={saveDuration}
+                  onKeyDown={event => event.key === 'Enter' && saveDuration()}
+                  aria-label="Period length"
+                  placeholder="Period length"
+                  className="h-8 text-xs font-mono"
+                  disabled={loading}
+                />
+              )}
+            </div>
+            {rules.shotClockResets.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Label className="text-xs flex-1">Shot Clock</Label>
+                <span className="font-mono font-bold tabular-nums">{shotClockSeconds ?? '--'}</span>
+                {rules.shotClockResets.map(seconds => (
+                  <Button
+                    key={seconds}
+                    variant="outline"
+                    size="sm"
+                    className="h-8 px-2 text-xs"
+                    onClick={() => run(() => resetShotClock(seconds))}
+                    disabled={loading}
+                  >
+                    {seconds}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
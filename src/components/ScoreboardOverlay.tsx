@@ -0,0 +1,67 @@
+import { cn } from '@/lib/utils';
+import { useGameClock } from '@/hooks/useScoreboard';
+import { formatClock, type Scoreboard, type ScoreboardTeam } from '@/lib/scoreboard';
+import { formatPeriod, formatTennisPoints, getSportState, type SportRules } from '@/lib/sport-rules';
+
+interface ScoreboardOverlayProps {
+  scoreboard: Scoreboard | null;
+  rules: SportRules;
+  className?: string;
+}
+
+// Score bug drawn over the program feed, for viewers and the egress template alike
+export function ScoreboardOverlay({ scoreboard, rules, className }: ScoreboardOverlayProps) {
+  const { seconds: clockSeconds, shotClockSeconds } = useGameClock(scoreboard);
+
+  if (!scoreboard?.visible) return null;
+
+  const state = getSportState(scoreboard);
+  const teams: { team: ScoreboardTeam; name: string; color: string }[] = [
+    { team: 'home', name: scoreboard.home_name, color: scoreboard.home_color },
+    { team: 'away', name: scoreboard.away_name, color: scoreboard.away_color }
+  ];
+
+  // Set sports show sets won followed by the running score of the current set or game
+  const renderCurrent = (team: ScoreboardTeam) => {
+    if (rules.scoring === 'volleyball') return state.points[team];
+    if (rules.scoring === 'tennis') return `${state.games[team]} · ${formatTennisPoints(state, team)}`;
+    return null;
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex items-stretch overflow-hidden rounded-md bg-black/75 text-white shadow-lg font-semibold text-sm tabular-nums',
+        className
+      )}
+    >
+      {teams.map(({ team, name, color }) => (
+        <div key={team} className="flex items-stretch">
+          <div className="w-1.5" style={{ backgroundColor: color }} />
+          <span className="px-2 py-1 max-w-[9rem] truncate uppercase tracking-wide">{name}</span>
+          <span className="px-2 py-1 bg-white/10 min-w-[2rem] text-center">{scoreboard[`${team}_score`]}</span>
+          {renderCurrent(team) !== null && (
+            <span className="px-2 py-1 bg-white/20 min-w-[2rem] text-center">{renderCurrent(team)}</span>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center gap-2 px-2 py-1 border-l border-white/20">
+        <span className="text-xs text-white/70">{formatPeriod(rules, scoreboard)}</span>
+        {rules.scoring === 'baseball' && (
+          <span className="text-xs">
+            {state.balls}-{state.strikes} · {state.outs} out{state.outs === 1 ? '' : 's'}
+          </span>
+        )}
+        {rules.scoring === 'tennis' && state.tiebreak && <span className="text-xs text-yellow-300">TB</span>}
+        {rules.clock && (
+          <span className={cn(!scoreboard.clock_running && 'text-white/70')}>{formatClock(clockSeconds)}</span>
+        )}
+        {shotClockSeconds !== null && (
+          <span className={cn('px-1 rounded bg-white/10 text-xs', shotClockSeconds <= 5 && 'text-red-400')}>
+            {shotClockSeconds}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Radio, Plus, Trash2 } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { streamDestinationSchema } from '@/lib/validation';
+import type { StreamDestination, StreamDestinationInput } from '@/hooks/useStreamDestinations';
+
+interface StreamDestinationsCardProps {
+  destinations: StreamDestination[];
+  loading: boolean;
+  streaming: boolean;
+  addDestination: (input: StreamDestinationInput) => Promise<void>;
+  updateDestination: (id: string, updates: Partial<StreamDestinationInput>) => Promise<void>;
+  removeDestination: (id: string) => Promise<void>;
+}
+
+const statusBadgeVariant: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  active: 'default',
+  connecting: 'outline',
+  error: 'destructive',
+  idle: 'secondary'
+};
+
+const emptyForm = { name: '', rtmpUrl: '', streamKey: '' };
+
+export function StreamDestinationsCard({
+  destinations,
+  loading,
+  streaming,
+  addDestination,
+  updateDestination,
+  removeDestination
+}: StreamDestinationsCardProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    const result = streamDestinationSchema.safeParse(form);
+    if (!result.success) {
+      toastService.error({ description: result.error.errors[0].message });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await addDestination(form);
+      setForm(emptyForm);
+      toastService.success({ title: 'Destination added', description: `${form.name} will receive the program feed.` });
+    } catch (error) {
+      console.error('Error adding destination:', error);
+      toastService.error({ description: error.message || 'Failed to add destination.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (destination: StreamDestination, enabled: boolean) => {
+    try {
+      setPendingId(destination.id);
+      await updateDestination(destination.id, { enabled });
+    } catch (error) {
+      console.error('Error updating destination:', error);
+      toastService.error({ description: error.message || 'Failed to update destination.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (destination: StreamDestination) => {
+    try {
+      setPendingId(destination.id);
+      await removeDestination(destination.id);
+    } catch (error) {
+      console.error('Error removing destination:', error);
+      toastService.error({ description: error.message || 'Failed to remove destination.' });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Radio className="h-4 w-4" />
+          Streaming Destinations
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Channels that receive the program feed for this event
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-2">
+        {!loading && destinations.length === 0 && (
+          <p className="text-xs text-muted-foreground">No destinations yet.</p>
+        )}
+
+        {destinations.map((destination) => (
+          <div key={destination.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium truncate">{destination.name}</span>
+              <Badge variant={statusBadgeVariant[destination.status] || 'secondary'} className="text-xs">
+                {destination.status}
+              </Badge>
+            </div>
+            <div className="text-xs text-muted-foreground font-mono break-all">
+              {destination.rtmp_url}
+              {destination.stream_key_hint && ` • key …${destination.stream_key_hint}`}
+            </div>
+            {destination.last_error && (
+              <div className="text-xs text-destructive">{destination.last_error}</div>
+            )}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`destination-${destination.id}`}
+                  checked={destination.enabled}
+                  disabled={streaming || pendingId === destination.id}
+                  onCheckedChange={(checked) => handleToggle(destination, checked)}
+                />
+                <Label htmlFor={`destination-${destination.id}`} className="text-xs">
+                  {destination.enabled ? 'Enabled' : 'Disabled'}
+                </Label>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={streaming || pendingId === destination.id}
+                onClick={() => handleRemove(destination)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {!streaming && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="destinationName" className="text-xs">Name</Label>
+              <Input
+                id="destinationName"
+                placeholder="Club YouTube channel"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="destinationUrl" className="text-xs">RTMP(S) URL</Label>
+              <Input
+                id="destinationUrl"
+                placeholder="rtmp://a.rtmp.youtube.com/live2"
+                value={form.rtmpUrl}
+                onChange={e => setForm({ ...form, rtmpUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="destinationKey" className="text-xs">Stream Key</Label>
+              <Input
+                id="destinationKey"
+                type="password"
+                autoComplete="off"
+                value={form.streamKey}
+                onChange={e => setForm({ ...form, streamKey: e.target.value })}
+              />
+            </div>
+            <LoadingButton onClick={handleAdd} loading={saving} size="sm" className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Destination
+            </LoadingButton>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
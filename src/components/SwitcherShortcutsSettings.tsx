@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Keyboard, Piano, X } from 'lucide-react';
+import { toastService } from '@/lib/toast-service';
+import { useSwitcherKeymap } from '@/hooks/useSwitcherKeymap';
+import { useSwitcherInputs } from '@/hooks/useSwitcherInputs';
+import {
+  DEFAULT_SWITCHER_KEYMAP,
+  SWITCHER_ACTIONS,
+  describeAction,
+  formatBinding,
+  getBindingForAction,
+  setBinding,
+  type BindingSource,
+  type SwitcherActionId,
+  type SwitcherKeymap
+} from '@/lib/switcher-controls';
+
+interface RecordingTarget {
+  source: BindingSource;
+  actionId: SwitcherActionId;
+}
+
+const midiStatusText = {
+  pending: 'Checking for MIDI devices...',
+  unsupported: 'This browser does not support Web MIDI',
+  denied: 'MIDI access was blocked',
+  ready: 'No MIDI devices connected'
+};
+
+export function SwitcherShortcutsSettings() {
+  const { keymap, saving, saveKeymap } = useSwitcherKeymap();
+  const [draft, setDraft] = useState<SwitcherKeymap>(keymap);
+  const [recording, setRecording] = useState<RecordingTarget | null>(null);
+
+  useEffect(() => {
+    setDraft(keymap);
+  }, [keymap]);
+
+  // While recording, the next key press or MIDI pad/knob becomes the binding; Escape cancels
+  const { midiStatus, midiInputs } = useSwitcherInputs({
+    enabled: true,
+    onInput: (source, binding) => {
+      if (!recording || recording.source !== source) return false;
+
+      if (binding !== 'Escape') {
+        setDraft(current => setBinding(current, source, recording.actionId, binding));
+      }
+      setRecording(null);
+      return true;
+    }
+  });
+
+  const handleSave = async () => {
+    try {
+      await saveKeymap(draft);
+      toastService.success({ title: 'Shortcuts saved', description: 'Your switcher shortcuts have been updated.' });
+    } catch (error) {
+      console.error('Error saving shortcuts:', error);
+      toastService.error({ description: error.message || 'Failed to save shortcuts.' });
+    }
+  };
+
+  const renderBindingCell = (source: BindingSource, actionId: SwitcherActionId) => {
+    const binding = getBindingForAction(draft, source, actionId);
+    const isRecording = recording?.source === source && recording.actionId === actionId;
+
+    return (
+      <div className="flex items-center gap-1">
+        <Button
+          variant={isRecording ? 'default' : 'outline'}
+          size="sm"
+          className="h-7 min-w-[96px] text-xs font-mono"
+          onClick={() => setRecording(isRecording ? null : { source, actionId })}
+        >
+          {isRecording
+            ? source === 'keyboard' ? 'Press a key' : 'Hit a pad'
+            : binding ? formatBinding(binding) : 'Unassigned'}
+        </Button>
+        {binding && !isRecording && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => setDraft(current => setBinding(current, source, actionId, null))}
+            aria-label="Clear binding"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5" />
+          Switcher Shortcuts
+        </CardTitle>
+        <CardDescription>
+          Keyboard and MIDI controls for the director dashboard. Camera numbers follow the order of the camera grid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Piano className="h-4 w-4" />
+          {midiInputs.length > 0
+            ? midiInputs.map(name => <Badge key={name} variant="secondary">{name}</Badge>)
+            : midiStatusText[midiStatus]}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Action</TableHead>
+              <TableHead>Keyboard</TableHead>
+              <TableHead>MIDI</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SWITCHER_ACTIONS.map(actionId => (
+              <TableRow key={actionId}>
+                <TableCell className="text-sm">{describeAction(actionId)}</TableCell>
+                <TableCell>{renderBindingCell('keyboard', actionId)}</TableCell>
+                <TableCell>{renderBindingCell('midi', actionId)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setDraft(DEFAULT_SWITCHER_KEYMAP)}>
+            Reset to Defaults
+          </Button>
+          <LoadingButton onClick={handleSave} loading={saving}>
+            Save Shortcuts
+          </LoadingButton>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import LoadingButton from '@/components/ui/LoadingButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Participant } from 'livekit-client';
+import { Headphones, Mic, PhoneOff, Volume2, VolumeX } from 'lucide-react';
+import { isTalkbackCamera, isTalkbackDirector } from '@/lib/talkback';
+import type { useTalkback } from '@/hooks/useTalkback';
+
+type TalkbackControls = ReturnType<typeof useTalkback>;
+
+interface TalkbackCardProps extends TalkbackControls {
+  // Everyone in the talkback room, including this device
+  participants: Participant[];
+  isConnected: boolean;
+  isConnecting: boolean;
+  onJoin: () => void;
+  onLeave: () => void;
+}
+
+const getParticipantLabel = (participant: Participant) => participant.name || participant.identity;
+
+// Push-to-talk crew intercom, for the director dashboard and camera phones
+export function TalkbackCard({
+  participants,
+  isConnected,
+  isConnecting,
+  onJoin,
+  onLeave,
+  isDirector,
+  microphoneReady,
+  talking,
+  startTalking,
+  stopTalking,
+  target,
+  setTarget,
+  getChannel,
+  setChannel,
+  canHear,
+  speakers
+}: TalkbackCardProps) {
+  const remoteParticipants = participants.filter(participant => !participant.isLocal);
+  // Directors hear the whole crew; camera operators only hear directors
+  const channels = isDirector
+    ? remoteParticipants
+    : remoteParticipants.filter(participant => isTalkbackDirector(participant.identity));
+  const cameras = remoteParticipants.filter(participant => isTalkbackCamera(participant.identity));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Headphones className="h-4 w-4" />
+          Talkback
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {isDirector
+            ? 'Push to talk to your camera operators'
+            : 'Push to talk to the director. Wear headphones so talkback stays out of your camera audio.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!isConnected ? (
+          <LoadingButton onClick={onJoin} loading={isConnecting} size="sm" variant="outline" className="w-full">
+            <Headphones className="h-4 w-4 mr-2" />
+            Join Talkback
+          </LoadingButton>
+        ) : (
+          <>
+            {isDirector && (
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger className="h-8 text-xs" aria-label="Talk to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All cameras</SelectItem>
+                  {cameras.map(camera => (
+                    <SelectItem key={camera.identity} value={camera.identity}>
+                      {getParticipantLabel(camera)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button
+              variant={talking ? 'destructive' : 'default'}
+              className="w-full select-none touch-none"
+              disabled={!microphoneReady}
+              onPointerDown={startTalking}
+              onPointerUp={stopTalking}
+              onPointerLeave={() => talking && stopTalking()}
+              onContextMenu={e => e.preventDefault()}
+            >
+              <Mic className="h-4 w-4 mr-2" />
+              {!microphoneReady ? 'Microphone unavailable' : talking ? 'Talking...' : 'Hold to Talk'}
+            </Button>
+
+            {channels.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {isDirector ? 'No camera operators on talkback yet.' : 'No director on talkback yet.'}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {channels.map(participant => {
+                  const channel = getChannel(participant.identity);
+                  const speaking = speakers.includes(participant.identity);
+                  return (
+                    <div key={participant.identity} className="space-y-1 rounded-md border p-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className={`h-2 w-2 shrink-0 rounded-full ${speaking ? 'bg-green-600' : 'bg-muted'}`} />
+                          <span className="text-xs font-medium truncate">{getParticipantLabel(participant)}</span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => setChannel(participant.identity, { muted: !channel.muted })}
+                          aria-label={channel.muted ? 'Unmute channel' : 'Mute channel'}
+                        >
+                          {channel.muted ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+                        </Button>
+                      </div>
+                      <Slider
+                        value={[Math.round(channel.volume * 100)]}
+                        max={100}
+                        step={5}
+                        disabled={channel.muted}
+                        onValueChange={([volume]) => setChannel(participant.identity, { volume: volume / 100 })}
+                        aria-label={`${getParticipantLabel(participant)} volume`}
+                      />
+                      {!canHear(participant.identity) && (
+                        <p className="text-[10px] text-muted-foreground">Talking to another camera</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <Button variant="ghost" size="sm" className="w-full" onClick={onLeave}>
+              <PhoneOff className="h-4 w-4 mr-2" />
+              Leave Talkback
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Scissors, ArrowRightLeft, Keyboard } from 'lucide-react';
+import {
+  CUT_TRANSITION,
+  MAX_TRANSITION_MS,
+  MIN_TRANSITION_MS,
+  TRANSITIONS,
+  type ProgramTransition,
+  type TransitionType
+} from '@/lib/program-layout';
+
+interface TransitionControlsProps {
+  settings: ProgramTransition;
+  onSettingsChange: (settings: ProgramTransition) => void;
+  onTake: (transition: ProgramTransition) => void;
+  disabled?: boolean;
+  // Connected MIDI control surfaces, shown next to the hotkey hint
+  midiInputs?: string[];
+}
+
+// Timed transitions only; a plain cut is always available from the Cut button
+const TIMED_TRANSITIONS = (Object.keys(TRANSITIONS) as TransitionType[]).filter(type => type !== 'cut');
+
+export function TransitionControls({
+  settings,
+  onSettingsChange,
+  onTake,
+  disabled = false,
+  midiInputs = []
+}: TransitionControlsProps) {
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Transition</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={settings.type}
+              onValueChange={type => type && onSettingsChange({ ...settings, type: type as TransitionType })}
+              className="justify-start"
+            >
+              {TIMED_TRANSITIONS.map(type => (
+                <ToggleGroupItem key={type} value={type} className="text-xs">
+                  {TRANSITIONS[type]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="flex-1 min-w-[160px] space-y-2">
+            <Label className="text-xs">Duration: {(settings.durationMs / 1000).toFixed(1)}s</Label>
+            <Slider
+              min={MIN_TRANSITION_MS}
+              max={MAX_TRANSITION_MS}
+              step={100}
+              value={[settings.durationMs]}
+              onValueChange={([durationMs]) => onSettingsChange({ ...settings, durationMs })}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => onTake(CUT_TRANSITION)}
+            disabled={disabled}
+          >
+            <Scissors className="h-4 w-4 mr-2" />
+            Cut
+          </Button>
+          <Button
+            variant="destructive"
+            className="flex-1"
+            onClick={() => onTake(settings)}
+            disabled={disabled}
+          >
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Take ({TRANSITIONS[settings.type]})
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground flex items-center gap-1 flex-wrap">
+          <Keyboard className="h-3 w-3" />
+          Default keys: 1–9 preview, Shift+1–9 cut to program, Space cut, Enter take. Customize in your profile.
+          {midiInputs.length > 0 && ` MIDI: ${midiInputs.join(', ')}`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,23 +1,43 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation, useParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useEventRole } from '@/hooks/useEventRole';
 import { Card, CardContent } from '@/components/ui/card';
 import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRoles?: string[];
+  // Require the owner, producer or director role on the route's :eventId
+  requireEventAccess?: boolean;
   fallbackPath?: string;
 }
 
+const AccessDenied = () => (
+  <div className="min-h-screen bg-background flex items-center justify-center">
+    <Card className="max-w-md">
+      <CardContent className="text-center py-12">
+        <h3 className="text-lg font-semibold mb-2">Access Denied</h3>
+        <p className="text-muted-foreground">
+          You don't have the required permissions to access this page.
+        </p>
+      </CardContent>
+    </Card>
+  </div>
+);
+
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
   requiredRoles = [], 
+  requireEventAccess = false,
   fallbackPath = '/auth' 
 }) => {
   const { user, loading, userRoles } = useAuth();
+  const location = useLocation();
+  const { eventId } = useParams();
+  const eventRole = useEventRole(requireEventAccess ? eventId : undefined);
 
-  if (loading) {
+  if (loading || (requireEventAccess && eventRole.loading)) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Card>
@@ -31,27 +51,21 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   }
 
   if (!user) {
-    return <Navigate to={fallbackPath} replace />;
+    // Sign-in returns here, so links like event invites survive it
+    return <Navigate to={fallbackPath} replace state={{ from: location }} />;
   }
 
   if (requiredRoles.length > 0) {
     const hasRequiredRole = requiredRoles.some(role => userRoles.includes(role));
     if (!hasRequiredRole) {
-      return (
-        <div className="min-h-screen bg-background flex items-center justify-center">
-          <Card className="max-w-md">
-            <CardContent className="text-center py-12">
-              <h3 className="text-lg font-semibold mb-2">Access Denied</h3>
-              <p className="text-muted-foreground">
-                You don't have the required permissions to access this page.
-              </p>
-            </CardContent>
-          </Card>
-        </div>
-      );
+      return <AccessDenied />;
     }
   }
 
+  if (requireEventAccess && !eventRole.canDirect) {
+    return <AccessDenied />;
+  }
+
   return <>{children}</>;
 };
 
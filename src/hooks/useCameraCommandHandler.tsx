@@ -0,0 +1,214 @@
+import { useEffect, useRef, useCallback, type MutableRefObject, type RefObject } from 'react';
+import { Room, RoomEvent, Track, type RemoteParticipant } from 'livekit-client';
+import {
+  applyExposureLock,
+  applyFocusLock,
+  applyTorch,
+  getDeviceSupport,
+  isDirectorParticipant,
+  parseCameraCommandMessage,
+  type CameraCommand,
+  type CameraCommandAck,
+  type CameraControlState,
+  type FacingMode
+} from '@/lib/camera-control';
+
+interface UseCameraCommandHandlerProps {
+  room: Room | null;
+  streamRef: MutableRefObject<MediaStream | null>;
+  videoRef: RefObject<HTMLVideoElement>;
+  microphoneEnabled: boolean;
+  setMicrophoneEnabled: (enabled: boolean) => void;
+  // Called after a command from the director changed something on this phone
+  onCommandApplied?: (command: CameraCommand) => void;
+}
+
+// Camera side of remote camera control: applies the director's commands to the local
+// camera and microphone and acknowledges each with the resulting state
+export const useCameraCommandHandler = ({
+  room,
+  streamRef,
+  videoRef,
+  microphoneEnabled,
+  setMicrophoneEnabled,
+  onCommandApplied
+}: UseCameraCommandHandlerProps) => {
+  const microphoneRef = useRef(microphoneEnabled);
+  const facingModeRef = useRef<FacingMode>('environment');
+  const torchRef = useRef(false);
+  const exposureLockedRef = useRef(false);
+  const focusLockedRef = useRef(false);
+  // Commands run one at a time, so a flip never races a quality change
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const onCommandAppliedRef = useRef(onCommandApplied);
+
+  useEffect(() => {
+    microphoneRef.current = microphoneEnabled;
+  }, [microphoneEnabled]);
+
+  useEffect(() => {
+    onCommandAppliedRef.current = onCommandApplied;
+  }, [onCommandApplied]);
+
+  const getVideoTrack = useCallback(() => streamRef.current?.getVideoTracks()[0], [streamRef]);
+
+  const getState = useCallback((): CameraControlState => {
+    const videoTrack = getVideoTrack();
+    const settings = videoTrack?.getSettings() ?? {};
+    return {
+      microphoneEnabled: microphoneRef.current,
+      facingMode: (settings.facingMode as FacingMode) || facingModeRef.current,
+      width: settings.width ?? null,
+      height: settings.height ?? null,
+      frameRate: settings.frameRate ?? null,
+      torch: torchRef.current,
+      exposureLocked: exposureLockedRef.current,
+      focusLocked: focusLockedRef.current,
+      supports: getDeviceSupport(videoTrack)
+    };
+  }, [getVideoTrack]);
+
+  // Swaps in the other camera: the published LiveKit track keeps its name and source
+  const flipCamera = useCallback(async () => {
+    const stream = streamRef.current;
+    const currentTrack = getVideoTrack();
+    if (!stream || !currentTrack || !room) throw new Error('Camera is not streaming');
+
+    const settings = currentTrack.getSettings();
+    const nextFacingMode: FacingMode = facingModeRef.current === 'environment' ? 'user' : 'environment';
+    const constraints = (facingMode: FacingMode) => ({
+      video: {
+        facingMode,
+        width: { ideal: settings.width },
+        height: { ideal: settings.height },
+        frameRate: { ideal: settings.frameRate }
+      },
+      audio: false
+    });
+
+    const swapVideoTrack = async (nextTrack: MediaStreamTrack) => {
+      stream.removeTrack(currentTrack);
+      stream.addTrack(nextTrack);
+      await room.localParticipant.getTrackPublication(Track.Source.Camera)?.videoTrack?.replaceTrack(
+        nextTrack,
+        { userProvidedTrack: true }
+      );
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+    };
+
+    // Many phones cannot open both cameras at once
+    currentTrack.stop();
+    try {
+      const nextStream = await navigator.mediaDevices.getUserMedia(constraints(nextFacingMode));
+      await swapVideoTrack(nextStream.getVideoTracks()[0]);
+    } catch (error) {
+      console.error('[CameraControl] Error flipping camera:', error);
+      // Go back to the camera we had
+      const previousStream = await navigator.mediaDevices.getUserMedia(constraints(facingModeRef.current));
+      await swapVideoTrack(previousStream.getVideoTracks()[0]);
+      throw new Error(`Could not switch to the ${nextFacingMode === 'user' ? 'front' : 'back'} camera`);
+    }
+
+    facingModeRef.current = nextFacingMode;
+    // The new camera starts with its own torch, exposure and focus settings
+    torchRef.current = false;
+    exposureLockedRef.current = false;
+    focusLockedRef.current = false;
+  }, [room, streamRef, videoRef, getVideoTrack]);
+
+  const applyCommand = useCallback(async (command: CameraCommand) => {
+    const videoTrack = getVideoTrack();
+    const supports = getDeviceSupport(videoTrack);
+
+    switch (command.type) {
+      case 'get_state':
+        return;
+      case 'set_microphone':
+        microphoneRef.current = command.enabled;
+        setMicrophoneEnabled(command.enabled);
+        return;
+      case 'flip_camera':
+        await flipCamera();
+        return;
+      case 'set_quality':
+        if (!videoTrack) throw new Error('Camera is not streaming');
+        await videoTrack.applyConstraints({
+          width: { ideal: command.width },
+          height: { ideal: command.height },
+          frameRate: { ideal: command.frameRate }
+        });
+        return;
+      case 'set_torch':
+        if (!supports.torch) throw new Error('This camera has no torch');
+        await applyTorch(videoTrack, command.enabled);
+        torchRef.current = command.enabled;
+        return;
+      case 'set_exposure_lock':
+        if (!supports.exposureLock) throw new Error('This camera cannot lock exposure');
+        await applyExposureLock(videoTrack, command.locked);
+        exposureLockedRef.current = command.locked;
+        return;
+      case 'set_focus_lock':
+        if (!supports.focusLock) throw new Error('This camera cannot lock focus');
+        await applyFocusLock(videoTrack, command.locked);
+        focusLockedRef.current = command.locked;
+        return;
+      default:
+        throw new Error('Unsupported command');
+    }
+  }, [getVideoTrack, setMicrophoneEnabled, flipCamera]);
+
+  useEffect(() => {
+    if (!room) return;
+
+    const handleData = (payload: Uint8Array, participant?: RemoteParticipant) => {
+      let message;
+      try {
+        message = parseCameraCommandMessage(JSON.parse(new TextDecoder().decode(payload)));
+      } catch (error) {
+        console.error('Error parsing data message:', error);
+        return;
+      }
+      if (!message || !isDirectorParticipant(participant)) return;
+
+      queueRef.current = queueRef.current.then(async () => {
+        let error: string | undefined;
+        try {
+          await applyCommand(message.command);
+          if (message.command.type !== 'get_state') {
+            onCommandAppliedRef.current?.(message.command);
+          }
+        } catch (commandError) {
+          console.error('[CameraControl] Error applying command:', message.command, commandError);
+          error = commandError instanceof Error ? commandError.message : 'Command failed';
+        }
+
+        const ack: CameraCommandAck = {
+          type: 'camera_command_ack',
+          commandId: message.commandId,
+          commandType: message.command.type,
+          ok: !error,
+          error,
+          state: getState(),
+          timestamp: Date.now()
+        };
+
+        try {
+          await room.localParticipant.publishData(new TextEncoder().encode(JSON.stringify(ack)), {
+            reliable: true,
+            destinationIdentities: [participant.identity]
+          });
+        } catch (ackError) {
+          console.error('[CameraControl] Error sending acknowledgement:', ackError);
+        }
+      });
+    };
+
+    room.on(RoomEvent.DataReceived, handleData);
+    return () => {
+      room.off(RoomEvent.DataReceived, handleData);
+    };
+  }, [room, applyCommand, getState]);
+};
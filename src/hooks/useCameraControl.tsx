@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Room, RoomEvent, type RemoteParticipant } from 'livekit-client';
+import {
+  CAMERA_COMMAND_TIMEOUT_MS,
+  createCameraCommandMessage,
+  parseCameraCommandAck,
+  type CameraCommand,
+  type CameraCommandType,
+  type CameraControlState
+} from '@/lib/camera-control';
+
+interface UseCameraControlProps {
+  room: Room | null;
+}
+
+export interface CameraCommandResult {
+  commandType: CameraCommandType;
+  ok: boolean;
+  error?: string;
+  at: number;
+}
+
+// What the director knows about one camera: its last reported state, the command waiting
+// for an acknowledgement and how the previous command went
+export interface CameraControlStatus {
+  state: CameraControlState | null;
+  pending: { commandId: string; commandType: CameraCommandType } | null;
+  lastResult: CameraCommandResult | null;
+}
+
+const EMPTY_STATUS: CameraControlStatus = { state: null, pending: null, lastResult: null };
+
+const isCameraParticipant = (participant: RemoteParticipant) => participant.identity.startsWith('camera_');
+
+// Director side of remote camera control: sends commands to camera phones and tracks
+// their acknowledgements per camera identity
+export const useCameraControl = ({ room }: UseCameraControlProps) => {
+  const [statuses, setStatuses] = useState<Record<string, CameraControlStatus>>({});
+  const timeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const updateStatus = useCallback((identity: string, update: (status: CameraControlStatus) => CameraControlStatus) => {
+    setStatuses(prev => ({ ...prev, [identity]: update(prev[identity] ?? EMPTY_STATUS) }));
+  }, []);
+
+  const sendCommand = useCallback(async (identity: string, command: CameraCommand) => {
+    if (!room) return;
+
+    const message = createCameraCommandMessage(command);
+    // Only the most recent command is tracked; an ack for an older one still updates the state
+    clearTimeout(timeoutsRef.current[identity]);
+    updateStatus(identity, status => ({
+      ...status,
+      pending: { commandId: message.commandId, commandType: command.type }
+    }));
+
+    try {
+      await room.localParticipant.publishData(new TextEncoder().encode(JSON.stringify(message)), {
+        reliable: true,
+        destinationIdentities: [identity]
+      });
+    } catch (error) {
+      console.error('[CameraControl] Error sending command:', error);
+      updateStatus(identity, status => ({
+        ...status,
+        pending: null,
+        lastResult: { commandType: command.type, ok: false, error: 'Could not reach camera', at: Date.now() }
+      }));
+      return;
+    }
+
+    timeoutsRef.current[identity] = setTimeout(() => {
+      updateStatus(identity, status => status.pending?.commandId !== message.commandId ? status : {
+        ...status,
+        pending: null,
+        lastResult: { commandType: command.type, ok: false, error: 'No response from camera', at: Date.now() }
+      });
+    }, CAMERA_COMMAND_TIMEOUT_MS);
+  }, [room, updateStatus]);
+
+  useEffect(() => {
+    if (!room) return;
+
+    const handleData = (payload: Uint8Array, participant?: RemoteParticipant) => {
+      if (!participant || !isCameraParticipant(participant)) return;
+
+      let ack;
+      try {
+        ack = parseCameraCommandAck(JSON.parse(new TextDecoder().decode(payload)));
+      } catch (error) {
+        console.error('Error parsing data message:', error);
+        return;
+      }
+      if (!ack) return;
+
+      const identity = participant.identity;
+      updateStatus(identity, status => {
+        const isPending = status.pending?.commandId === ack.commandId;
+        if (isPending) {
+          clearTimeout(timeoutsRef.current[identity]);
+        }
+        return {
+          state: ack.state,
+          pending: isPending ? null : status.pending,
+          // State refreshes are not shown as results
+          lastResult: ack.commandType === 'get_state'
+            ? status.lastResult
+            : { commandType: ack.commandType, ok: ack.ok, error: ack.error, at: ack.timestamp }
+        };
+      });
+    };
+
+    // Ask each camera what it is doing as soon as it is in the room
+    const requestState = (participant: RemoteParticipant) => {
+      if (isCameraParticipant(participant)) {
+        sendCommand(participant.identity, { type: 'get_state' });
+      }
+    };
+
+    const handleConnected = () => {
+      room.remoteParticipants.forEach(requestState);
+    };
+
+    const handleDisconnected = (participant: RemoteParticipant) => {
+      clearTimeout(timeoutsRef.current[participant.identity]);
+      setStatuses(prev => {
+        const { [participant.identity]: _removed, ...rest } = prev;
+        return rest;
+      });
+    };
+
+    room
+      .on(RoomEvent.DataReceived, handleData)
+      .on(RoomEvent.ParticipantConnected, requestState)
+      .on(RoomEvent.ParticipantDisconnected, handleDisconnected)
+      .on(RoomEvent.Connected, handleConnected);
+
+    if (room.state === 'connected') {
+      handleConnected();
+    }
+
+    return () => {
+      room
+        .off(RoomEvent.DataReceived, handleData)
+        .off(RoomEvent.ParticipantConnected, requestState)
+        .off(RoomEvent.ParticipantDisconnected, handleDisconnected)
+        .off(RoomEvent.Connected, handleConnected);
+    };
+  }, [room, sendCommand, updateStatus]);
+
+  useEffect(() => {
+    const timeouts = timeoutsRef.current;
+    return () => {
+      Object.values(timeouts).forEach(clearTimeout);
+    };
+  }, []);
+
+  const getStatus = useCallback((identity: string) => statuses[identity] ?? EMPTY_STATUS, [statuses]);
+
+  return {
+    getStatus,
+    sendCommand
+  };
+};
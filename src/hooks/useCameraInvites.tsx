@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface CameraInvite {
+  id: string;
+  cameraId: string;
+  deviceLabel: string | null;
+  token: string;
+  singleUse: boolean;
+  expiresAt: string;
+  usedAt: string | null;
+  isLive: boolean;
+  // False once it has expired, or a single-use invite has been used
+  usable: boolean;
+  createdAt: string;
+}
+
+export interface MintCameraInviteOptions {
+  deviceLabel: string;
+  singleUse: boolean;
+  validHours: number;
+}
+
+interface UseCameraInvitesProps {
+  eventId: string;
+}
+
+export const useCameraInvites = ({ eventId }: UseCameraInvitesProps) => {
+  const [invites, setInvites] = useState<CameraInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Invite tokens are secrets, so they are only read and written through the edge function
+  const invokeCameraTokens = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('camera-tokens', {
+      body: { eventId, ...body }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  }, [eventId]);
+
+  const loadInvites = useCallback(async () => {
+    if (!eventId) return;
+
+    try {
+      const data = await invokeCameraTokens({ action: 'list' });
+      setInvites(data.invites || []);
+    } catch (error) {
+      console.error('[CameraInvites] Error loading camera invites:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, invokeCameraTokens]);
+
+  const mintInvite = useCallback(async (options: MintCameraInviteOptions) => {
+    const data = await invokeCameraTokens({ action: 'mint', ...options });
+    await loadInvites();
+    return data.invite as CameraInvite;
+  }, [invokeCameraTokens, loadInvites]);
+
+  // Also disconnects the camera if it is on air
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    await invokeCameraTokens({ action: 'revoke', inviteId });
+    await loadInvites();
+  }, [invokeCameraTokens, loadInvites]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  // Camera slots go live as phones join
+  useEffect(() => {
+    if (!eventId) return;
+
+    const channel = supabase
+      .channel(`camera_invites_${eventId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'cameras',
+        filter: `event_id=eq.${eventId}`
+      }, () => {
+        loadInvites();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, loadInvites]);
+
+  return {
+    invites,
+    loading,
+    mintInvite,
+    revokeInvite,
+    refetch: loadInvites
+  };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CameraRecording = Tables<'camera_recordings'> & {
+  cameras: { device_label: string } | null;
+};
+
+// Storage bucket the ISO egresses upload to
+const ISO_RECORDINGS_BUCKET = 'iso-recordings';
+// Download links are short-lived; a new one is signed for every click
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 10;
+
+interface UseCameraRecordingsProps {
+  eventId: string;
+  enabled?: boolean;
+}
+
+// Isolated recordings of each camera for an event, readable by the event owner
+export const useCameraRecordings = ({ eventId, enabled = true }: UseCameraRecordingsProps) => {
+  const [recordings, setRecordings] = useState<CameraRecording[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadRecordings = useCallback(async () => {
+    if (!eventId || !enabled) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('camera_recordings')
+        .select('*, cameras(device_label)')
+        .eq('event_id', eventId)
+        .order('started_at');
+
+      if (error) throw error;
+      setRecordings(data || []);
+    } catch (error) {
+      console.error('[CameraRecordings] Error loading recordings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, enabled]);
+
+  useEffect(() => {
+    loadRecordings();
+  }, [loadRecordings]);
+
+  const getDownloadUrl = useCallback(async (recording: CameraRecording) => {
+    if (!recording.file_path) throw new Error('This recording has no file yet');
+
+    const { data, error } = await supabase.storage
+      .from(ISO_RECORDINGS_BUCKET)
+      .createSignedUrl(recording.file_path, DOWNLOAD_URL_TTL_SECONDS, { download: true });
+
+    if (error) throw error;
+    return data.signedUrl;
+  }, []);
+
+  return {
+    recordings,
+    loading,
+    getDownloadUrl,
+    refetch: loadRecordings
+  };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PROGRAM_LAYOUTS, type ProgramLayoutType } from '@/lib/program-layout';
+
+interface UseEgressLayoutsProps {
+  eventId: string;
+}
+
+const ALL_LAYOUTS = Object.keys(PROGRAM_LAYOUTS) as ProgramLayoutType[];
+
+// Layout types the program egress can compose. Without the custom egress template, LiveKit's
+// built-in templates cover only some of them. Until livekit-egress answers, every layout is
+// offered; the egress still rejects the others.
+export const useEgressLayouts = ({ eventId }: UseEgressLayoutsProps) => {
+  const [supportedLayouts, setSupportedLayouts] = useState<ProgramLayoutType[]>(ALL_LAYOUTS);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadLayouts = async () => {
+      try {
+        const { data, error } = await supabase.functions.invoke('livekit-egress', {
+          body: { eventId, action: 'layouts' }
+        });
+
+        if (error) throw error;
+        if (Array.isArray(data?.layouts)) {
+          setSupportedLayouts(data.layouts);
+        }
+      } catch (error) {
+        console.error('[EgressLayouts] Error loading supported layouts:', error);
+      }
+    };
+
+    loadLayouts();
+  }, [eventId]);
+
+  return { supportedLayouts };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { OrgRole } from '@/lib/org-roles';
+
+export type EventCrewRole = Extract<OrgRole, 'producer' | 'director'>;
+
+export interface EventCrewMember {
+  userId: string;
+  role: EventCrewRole;
+  email: string | null;
+  fullName: string | null;
+  joinedAt: string;
+}
+
+export interface EventInvite {
+  id: string;
+  email: string;
+  role: EventCrewRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface UseEventCrewProps {
+  eventId: string;
+  // Only owners and producers can see the crew and its invites
+  enabled: boolean;
+}
+
+export const useEventCrew = ({ eventId, enabled }: UseEventCrewProps) => {
+  const [members, setMembers] = useState<EventCrewMember[]>([]);
+  const [invites, setInvites] = useState<EventInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Invites are emailed and members' profiles are private, so everything goes through the edge function
+  const invokeInvites = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('event-invites', {
+      body: { eventId, ...body }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  }, [eventId]);
+
+  const loadCrew = useCallback(async () => {
+    if (!eventId || !enabled) return;
+
+    try {
+      const data = await invokeInvites({ action: 'list' });
+      setMembers(data.members || []);
+      setInvites(data.invites || []);
+    } catch (error) {
+      console.error('[EventCrew] Error loading crew:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, enabled, invokeInvites]);
+
+  // Resolves with whether the email went out and the link to share otherwise
+  const invite = useCallback(async (email: string, role: EventCrewRole) => {
+    const data = await invokeInvites({ action: 'invite', email, role });
+    await loadCrew();
+    return { emailSent: Boolean(data.emailSent), inviteUrl: data.inviteUrl as string };
+  }, [invokeInvites, loadCrew]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    await invokeInvites({ action: 'revoke', inviteId });
+    await loadCrew();
+  }, [invokeInvites, loadCrew]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    await invokeInvites({ action: 'removeMember', userId });
+    await loadCrew();
+  }, [invokeInvites, loadCrew]);
+
+  useEffect(() => {
+    loadCrew();
+  }, [loadCrew]);
+
+  return {
+    members,
+    invites,
+    loading,
+    invite,
+    revokeInvite,
+    removeMember,
+    refetch: loadCrew
+  };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { OrgRole } from '@/lib/org-roles';
+
+// The signed-in user's role on an event, from its owner, organization or event crew.
+// Null when they have none.
+export const useEventRole = (eventId: string | undefined) => {
+  const { user } = useAuth();
+  // Remember which event and user the role belongs to, so a change shows as loading
+  // straight away instead of briefly reporting the previous role
+  const [loaded, setLoaded] = useState<{ key: string; role: OrgRole | null } | null>(null);
+  const key = eventId && user ? `${eventId}:${user.id}` : null;
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+
+    supabase
+      .rpc('get_event_role', { _event_id: eventId, _user_id: user.id })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('[EventRole] Error loading event role:', error);
+        }
+        setLoaded({ key, role: data ?? null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, eventId, user]);
+
+  const role = key && loaded?.key === key ? loaded.role : null;
+
+  return {
+    role,
+    loading: Boolean(key) && loaded?.key !== key,
+    // Running the control room
+    canDirect: role === 'owner' || role === 'producer' || role === 'director',
+    // Changing the event itself and its crew
+    canManage: role === 'owner' || role === 'producer'
+  };
+};
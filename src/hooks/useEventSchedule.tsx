@@ -0,0 +1,75 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+interface EventSchedule {
+  status: string;
+  start_time: string;
+}
+
+interface UseEventScheduleProps {
+  eventId: string;
+}
+
+// Status and start time of an event, kept current so camera operators hear about
+// cancellations and new start times while their page is open. Cancellations arrive as a
+// broadcast from manage-event, since events RLS hides cancelled events from camera operators.
+export const useEventSchedule = ({ eventId }: UseEventScheduleProps) => {
+  const [schedule, setSchedule] = useState<EventSchedule | null>(null);
+  const [rescheduled, setRescheduled] = useState(false);
+  const startTimeRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadSchedule = async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('status, start_time')
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[EventSchedule] Error loading event:', error);
+        return;
+      }
+      startTimeRef.current = data?.start_time ?? null;
+      setSchedule(data);
+    };
+
+    loadSchedule();
+
+    const applySchedule = (updated: EventSchedule) => {
+      if (startTimeRef.current && startTimeRef.current !== updated.start_time) {
+        setRescheduled(true);
+      }
+      startTimeRef.current = updated.start_time;
+      setSchedule({ status: updated.status, start_time: updated.start_time });
+    };
+
+    const channel = supabase
+      .channel(`event_schedule_${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'events',
+          filter: `id=eq.${eventId}`,
+        },
+        (payload) => applySchedule(payload.new as EventSchedule)
+      )
+      .on('broadcast', { event: 'schedule_update' }, ({ payload }) => applySchedule(payload as EventSchedule))
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId]);
+
+  return {
+    status: schedule?.status ?? null,
+    startTime: schedule?.start_time ?? null,
+    cancelled: schedule?.status === 'cancelled',
+    rescheduled
+  };
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type EventTemplateDestination = Tables<'event_template_destinations'>;
+
+export type EventTemplate = Tables<'event_templates'> & {
+  event_template_destinations: EventTemplateDestination[];
+};
+
+export type EventTemplateInput = Omit<TablesInsert<'event_templates'>, 'id' | 'owner_id' | 'created_at' | 'updated_at'>;
+
+export interface TemplateDestinationInput {
+  name: string;
+  rtmpUrl: string;
+  streamKey: string;
+  enabled?: boolean;
+}
+
+interface UseEventTemplatesProps {
+  userId: string | undefined;
+}
+
+export const useEventTemplates = ({ userId }: UseEventTemplatesProps) => {
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTemplates = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('event_templates')
+        .select('*, event_template_destinations(*)')
+        .eq('owner_id', userId)
+        .order('name');
+
+      if (error) throw error;
+      setTemplates((data || []) as EventTemplate[]);
+    } catch (error) {
+      console.error('[EventTemplates] Error loading templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  // Template fields are written directly; RLS limits them to the owner
+  const saveTemplate = useCallback(async (input: EventTemplateInput, templateId?: string) => {
+    const { data, error } = templateId
+      ? await supabase.from('event_templates').update(input).eq('id', templateId).select().single()
+      : await supabase.from('event_templates').insert({ ...input, owner_id: userId }).select().single();
+
+    if (error) throw error;
+
+    await loadTemplates();
+    return data;
+  }, [userId, loadTemplates]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    const { error } = await supabase.from('event_templates').delete().eq('id', templateId);
+    if (error) throw error;
+
+    await loadTemplates();
+  }, [loadTemplates]);
+
+  // Destination stream keys never reach the client, so those writes go through the edge function
+  const invokeTemplates = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('event-templates', { body });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+
+    await loadTemplates();
+    return data;
+  }, [loadTemplates]);
+
+  const addDestination = useCallback((templateId: string, input: TemplateDestinationInput) =>
+    invokeTemplates({ action: 'addDestination', templateId, ...input }), [invokeTemplates]);
+
+  const removeDestination = useCallback((templateId: string, destinationId: string) =>
+    invokeTemplates({ action: 'removeDestination', templateId, destinationId }), [invokeTemplates]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  return {
+    templates,
+    loading,
+    saveTemplate,
+    deleteTemplate,
+    addDestination,
+    removeDestination,
+    refetch: loadTemplates
+  };
+};
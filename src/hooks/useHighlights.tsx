@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Highlight = Tables<'highlights'>;
+export type EventClip = Tables<'event_clips'>;
+
+interface UseHighlightsProps {
+  eventId: string;
+}
+
+// Highlights marked live by the director; clips are cut from them once the recording is ready
+export const useHighlights = ({ eventId }: UseHighlightsProps) => {
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHighlights = useCallback(async () => {
+    if (!eventId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('highlights')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('marked_at', { ascending: false });
+
+      if (error) throw error;
+      setHighlights(data || []);
+    } catch (error) {
+      console.error('[Highlights] Error loading highlights:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  // The mark time is taken here rather than after the round trip, so it matches what was on program
+  const markHighlight = useCallback(async (label?: string, cameraId?: string | null) => {
+    const { error } = await supabase
+      .from('highlights')
+      .insert({
+        event_id: eventId,
+        camera_id: cameraId || null,
+        label: label?.trim() || null,
+        marked_at: new Date().toISOString()
+      });
+
+    if (error) throw error;
+    await loadHighlights();
+  }, [eventId, loadHighlights]);
+
+  const removeHighlight = useCallback(async (highlightId: string) => {
+    const { error } = await supabase
+      .from('highlights')
+      .delete()
+      .eq('id', highlightId);
+
+    if (error) throw error;
+    await loadHighlights();
+  }, [loadHighlights]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    loadHighlights();
+
+    // Highlights marked by another director
+    const channel = supabase
+      .channel(`highlights_${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'highlights',
+          filter: `event_id=eq.${eventId}`,
+        },
+        () => {
+          loadHighlights();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, loadHighlights]);
+
+  return {
+    highlights,
+    loading,
+    markHighlight,
+    removeHighlight
+  };
+};
+
+// Published clips for an event, in recording order
+export const useEventClips = ({ eventId }: UseHighlightsProps) => {
+  const [clips, setClips] = useState<EventClip[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadClips = useCallback(async () => {
+    if (!eventId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('event_clips')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('start_seconds');
+
+      if (error) throw error;
+      setClips(data || []);
+    } catch (error) {
+      console.error('[Highlights] Error loading clips:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadClips();
+  }, [loadClips]);
+
+  return {
+    clips,
+    loading
+  };
+};
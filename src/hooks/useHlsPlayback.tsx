@@ -0,0 +1,47 @@
+import { useEffect, type RefObject } from 'react';
+import Hls from 'hls.js';
+
+interface HlsPlaybackOptions {
+  // Seconds into the stream to start from
+  startPosition?: number;
+  autoPlay?: boolean;
+}
+
+// Plays an HLS recording in a video element: hls.js where supported, native HLS on Safari
+export const useHlsPlayback = (
+  videoRef: RefObject<HTMLVideoElement>,
+  url: string | null | undefined,
+  { startPosition = 0, autoPlay = true }: HlsPlaybackOptions = {}
+) => {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !url) return;
+
+    let hls: Hls | null = null;
+
+    if (Hls.isSupported()) {
+      hls = new Hls({ startPosition });
+      hls.loadSource(url);
+      hls.attachMedia(video);
+      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+        if (autoPlay) video.play().catch(() => {});
+      });
+      hls.on(Hls.Events.ERROR, (event, data) => {
+        console.error('HLS Error:', data);
+      });
+    } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      // Safari native HLS support
+      video.src = url;
+      video.addEventListener('loadedmetadata', () => {
+        video.currentTime = startPosition;
+        if (autoPlay) video.play().catch(() => {});
+      }, { once: true });
+    }
+
+    return () => {
+      hls?.destroy();
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, [videoRef, url, startPosition, autoPlay]);
+};
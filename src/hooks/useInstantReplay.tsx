@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Room, Track, type RemoteVideoTrack } from 'livekit-client';
+import { supabase } from '@/integrations/supabase/client';
+import { REPLAY_IDENTITY } from '@/lib/program-layout';
+import {
+  CameraReplayBuffer,
+  DEFAULT_REPLAY_BUFFER_SECONDS,
+  isReplaySupported,
+  type ReplayClip
+} from '@/lib/replay-buffer';
+import { ReplayRenderer } from '@/lib/replay-renderer';
+
+interface UseInstantReplayProps {
+  eventId: string;
+  // Camera feeds in the director's room, keyed by participant identity
+  videoTracks: Map<string, RemoteVideoTrack>;
+  enabled: boolean;
+}
+
+// Default clip length when a replay is marked: the last few seconds before the mark
+const DEFAULT_CLIP_SECONDS = 8;
+
+// Rolling replay buffers for every camera, and the replay source that plays clips into the room
+export const useInstantReplay = ({ eventId, videoTracks, enabled }: UseInstantReplayProps) => {
+  const [bufferSeconds, setBufferSeconds] = useState(DEFAULT_REPLAY_BUFFER_SECONDS);
+  const [cuedClip, setCuedClip] = useState<ReplayClip | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const buffersRef = useRef(new Map<string, { track: MediaStreamTrack; buffer: CameraReplayBuffer }>());
+  const rendererRef = useRef<ReplayRenderer | null>(null);
+  const replayRoomRef = useRef<Room | null>(null);
+  const bufferSecondsRef = useRef(bufferSeconds);
+  bufferSecondsRef.current = bufferSeconds;
+  const supported = isReplaySupported();
+
+  // Keep one buffer per camera feed, replacing it when the camera republishes
+  useEffect(() => {
+    if (!enabled || !supported) return;
+
+    const buffers = buffersRef.current;
+    videoTracks.forEach((videoTrack, identity) => {
+      if (identity === REPLAY_IDENTITY) return;
+
+      const existing = buffers.get(identity);
+      if (existing?.track === videoTrack.mediaStreamTrack) return;
+
+      existing?.buffer.stop();
+      const buffer = new CameraReplayBuffer(videoTrack.mediaStreamTrack, bufferSecondsRef.current);
+      buffer.start();
+      buffers.set(identity, { track: videoTrack.mediaStreamTrack, buffer });
+    });
+
+    buffers.forEach(({ buffer }, identity) => {
+      if (!videoTracks.has(identity)) {
+        buffer.stop();
+        buffers.delete(identity);
+      }
+    });
+  }, [videoTracks, enabled, supported]);
+
+  useEffect(() => {
+    buffersRef.current.forEach(({ buffer }) => buffer.setBufferSeconds(bufferSeconds));
+  }, [bufferSeconds]);
+
+  useEffect(() => {
+    const buffers = buffersRef.current;
+    return () => {
+      buffers.forEach(({ buffer }) => buffer.stop());
+      buffers.clear();
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+      replayRoomRef.current?.disconnect();
+      replayRoomRef.current = null;
+    };
+  }, []);
+
+  // The replay source joins the room as its own participant so it can go to program like a camera
+  const publishReplaySource = useCallback(async () => {
+    if (replayRoomRef.current) return;
+
+    const { data, error } = await supabase.functions.invoke('livekit-token', {
+      body: {
+        eventId,
+        participantName: 'Instant Replay',
+        participantIdentity: REPLAY_IDENTITY
+      }
+    });
+
+    if (error) throw new Error(error.message);
+    if (!data?.success) throw new Error(data?.error || 'Failed to get LiveKit token');
+
+    const renderer = rendererRef.current || new ReplayRenderer();
+    rendererRef.current = renderer;
+
+    const room = new Room();
+    await room.connect(data.wsUrl, data.token);
+    await room.localParticipant.publishTrack(renderer.track, {
+      name: 'replay',
+      source: Track.Source.Camera
+    });
+    replayRoomRef.current = room;
+  }, [eventId]);
+
+  const unpublishReplaySource = useCallback(() => {
+    replayRoomRef.current?.disconnect();
+    replayRoomRef.current = null;
+  }, []);
+
+  // Marks a replay on a camera: closes the buffer up to now and cues the last few seconds.
+  // The replay source is published right away so viewers are subscribed before it goes to program.
+  const markReplay = useCallback(async (identity: string) => {
+    const entry = buffersRef.current.get(identity);
+    if (!entry) throw new Error('No replay buffer for this camera yet');
+
+    const [segments] = await Promise.all([entry.buffer.flush(), publishReplaySource()]);
+    if (segments.length === 0) throw new Error('The replay buffer is still filling');
+
+    const outAt = segments[segments.length - 1].endedAt;
+    const clip: ReplayClip = {
+      identity,
+      segments,
+      inAt: Math.max(segments[0].startedAt, outAt - DEFAULT_CLIP_SECONDS * 1000),
+      outAt
+    };
+    setCuedClip(clip);
+    return clip;
+  }, [publishReplaySource]);
+
+  // Plays the cued clip on the replay source. `onAir` puts the replay source on program while it
+  // still shows the replay slate; the returned promise resolves once it is safe to cut back to live.
+  const playReplay = useCallback(async (speed: number, onAir: () => Promise<void>) => {
+    if (!cuedClip) return;
+
+    await publishReplaySource();
+    const renderer = rendererRef.current!;
+
+    setPlaying(true);
+    try {
+      await onAir();
+      await renderer.play(cuedClip, speed);
+    } finally {
+      setPlaying(false);
+    }
+  }, [cuedClip, publishReplaySource]);
+
+  const stopReplay = useCallback(() => {
+    rendererRef.current?.cancel();
+  }, []);
+
+  const clearReplay = useCallback(() => {
+    setCuedClip(null);
+    unpublishReplaySource();
+  }, [unpublishReplaySource]);
+
+  return {
+    supported,
+    bufferSeconds,
+    setBufferSeconds,
+    cuedClip,
+    setCuedClip,
+    playing,
+    markReplay,
+    playReplay,
+    stopReplay,
+    clearReplay
+  };
+};
@@ -23,10 +23,26 @@ interface LiveKitRoomState {
   localParticipant: LocalParticipant | null;
 }
 
+// Tokens from livekit-token are short-lived; access is re-checked this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+const TOKEN_RETRY_MS = 30_000;
+
+const getRefreshDelay = (expiresAt: string) =>
+  Math.max(new Date(expiresAt).getTime() - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+
+export interface CameraSession {
+  cameraId: string;
+  sessionToken: string;
+}
+
 interface UseLiveKitRoomOptions {
   eventId: string;
   participantName: string;
   participantIdentity: string;
+  // Camera phones that joined with a slot invite publish through their camera session
+  cameraSession?: CameraSession;
+  // Join the event's crew talkback room instead of the program room
+  talkback?: boolean;
   autoConnect?: boolean;
 }
 
@@ -34,6 +50,8 @@ export function useLiveKitRoom({
   eventId, 
   participantName, 
   participantIdentity,
+  cameraSession,
+  talkback = false,
   autoConnect = false 
 }: UseLiveKitRoomOptions) {
   const [state, setState] = useState<LiveKitRoomState>({
@@ -46,8 +64,84 @@ export function useLiveKitRoom({
   });
 
   const roomRef = useRef<Room | null>(null);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Role the current connection's token was issued for
+  const roleRef = useRef<string | null>(null);
   const { toast } = useToast();
 
+  const clearRefreshTimer = useCallback(() => {
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = null;
+    }
+  }, []);
+
+  // Resolves with the token response, or rejects with `accessDenied` set when the caller
+  // no longer has a role in the room (signed out, removed from the crew, camera invite revoked)
+  const requestToken = useCallback(async () => {
+    const { data, error } = await supabase.functions.invoke('livekit-token', {
+      body: {
+        eventId,
+        participantName,
+        participantIdentity,
+        cameraId: cameraSession?.cameraId,
+        cameraSessionToken: cameraSession?.sessionToken,
+        talkback
+      }
+    });
+
+    if (error) {
+      const status = (error as { context?: Response }).context?.status;
+      throw Object.assign(new Error(error.message), { accessDenied: status === 401 || status === 403 });
+    }
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to get LiveKit token');
+    }
+
+    return data;
+  }, [eventId, participantName, participantIdentity, cameraSession?.cameraId, cameraSession?.sessionToken, talkback]);
+
+  // LiveKit keeps an open connection's own credentials fresh, so this re-checks access with
+  // livekit-token before each token expires. It leaves the room once access is denied, and
+  // rejoins with the new token when the role changed, since grants only apply on connect.
+  const scheduleTokenRefresh = useCallback((delay: number) => {
+    clearRefreshTimer();
+    refreshTimerRef.current = setTimeout(async () => {
+      try {
+        const data = await requestToken();
+        const room = roomRef.current;
+        if (room && data.role !== roleRef.current) {
+          console.warn('LiveKit role changed, rejoining room:', { from: roleRef.current, to: data.role });
+          await room.disconnect();
+          await room.connect(data.wsUrl, data.token);
+          roleRef.current = data.role;
+          toast({
+            title: "Role Changed",
+            description: `You rejoined the room as ${data.role}.`,
+          });
+        }
+        scheduleTokenRefresh(getRefreshDelay(data.expiresAt));
+      } catch (error) {
+        if (!error.accessDenied) {
+          console.error('Failed to refresh LiveKit token, retrying:', error);
+          scheduleTokenRefresh(TOKEN_RETRY_MS);
+          return;
+        }
+
+        console.warn('LiveKit access revoked, leaving room');
+        await roomRef.current?.disconnect();
+        roomRef.current = null;
+        setState(prev => ({ ...prev, error: 'Your access to this room has ended' }));
+        toast({
+          title: "Disconnected",
+          description: "Your access to this room has ended.",
+          variant: "destructive",
+        });
+      }
+    }, delay);
+  }, [clearRefreshTimer, requestToken, toast]);
+
   // Update participants list
   const updateParticipants = useCallback((room: Room) => {
     const allParticipants = [
@@ -70,25 +164,12 @@ export function useLiveKitRoom({
       console.log('Requesting LiveKit token for:', { eventId, participantName, participantIdentity });
       
       // Get JWT token from our edge function
-      const { data, error } = await supabase.functions.invoke('livekit-token', {
-        body: {
-          eventId,
-          participantName,
-          participantIdentity
-        }
-      });
-
-      if (error) {
-        throw new Error(error.message);
-      }
-
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to get LiveKit token');
-      }
+      const data = await requestToken();
 
       console.log('Got LiveKit credentials:', { 
         wsUrl: data.wsUrl, 
         roomName: data.roomName,
+        role: data.role,
         hasToken: !!data.token 
       });
 
@@ -106,6 +187,7 @@ export function useLiveKitRoom({
       });
 
       roomRef.current = room;
+      roleRef.current = data.role;
 
       // Set up event listeners
       room.on(RoomEvent.Connected, () => {
@@ -127,6 +209,7 @@ export function useLiveKitRoom({
 
       room.on(RoomEvent.Disconnected, () => {
         console.log('Disconnected from LiveKit room');
+        clearRefreshTimer();
         setState(prev => ({ 
           ...prev, 
           isConnected: false, 
@@ -192,6 +275,7 @@ export function useLiveKitRoom({
         participantName
       });
       await room.connect(data.wsUrl, data.token);
+      scheduleTokenRefresh(getRefreshDelay(data.expiresAt));
 
     } catch (error) {
       console.error('Failed to connect to LiveKit room:', error);
@@ -209,15 +293,16 @@ export function useLiveKitRoom({
         variant: "destructive",
       });
     }
-  }, [eventId, participantName, participantIdentity, toast, updateParticipants]);
+  }, [eventId, participantName, participantIdentity, requestToken, scheduleTokenRefresh, clearRefreshTimer, toast, updateParticipants]);
 
   // Disconnect from room
   const disconnectFromRoom = useCallback(async () => {
+    clearRefreshTimer();
     if (roomRef.current) {
       await roomRef.current.disconnect();
       roomRef.current = null;
     }
-  }, []);
+  }, [clearRefreshTimer]);
 
   // Auto-connect if specified
   useEffect(() => {
@@ -226,11 +311,12 @@ export function useLiveKitRoom({
     }
 
     return () => {
+      clearRefreshTimer();
       if (roomRef.current) {
         roomRef.current.disconnect();
       }
     };
-  }, [autoConnect, eventId, participantName, participantIdentity, connectToRoom]);
+  }, [autoConnect, eventId, participantName, participantIdentity, connectToRoom, clearRefreshTimer]);
 
   // Send data message to room
   const sendDataMessage = useCallback(async (data: any, options?: { reliable?: boolean }) => {
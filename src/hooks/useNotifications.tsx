@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+
+export type Notification = Tables<'notifications'>;
+
+// The header menu only shows recent notifications
+const NOTIFICATION_LIMIT = 20;
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const userId = user?.id;
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('[Notifications] Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+    await loadNotifications();
+  }, [userId, loadNotifications]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    loadNotifications();
+
+    // The scheduler and webhooks insert notifications server-side
+    const channel = supabase
+      .channel(`notifications_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          loadNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadNotifications]);
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAllRead,
+    refetch: loadNotifications
+  };
+};
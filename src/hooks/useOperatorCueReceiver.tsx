@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Room, RoomEvent, type RemoteParticipant } from 'livekit-client';
+import { isDirectorParticipant } from '@/lib/camera-control';
+import {
+  getTallyState,
+  parseOperatorMessage,
+  parseTallyMessage,
+  type OperatorMessage,
+  type TallyMessage
+} from '@/lib/operator-cues';
+
+interface UseOperatorCueReceiverProps {
+  room: Room | null;
+  cameraIdentity: string;
+}
+
+// Long enough to read at a glance while operating the camera
+const MESSAGE_DISPLAY_MS = 15000;
+const MESSAGE_VIBRATION_PATTERN = [200, 100, 200];
+
+// Camera side of operator cues: the tally state of this camera and the latest director message
+export const useOperatorCueReceiver = ({ room, cameraIdentity }: UseOperatorCueReceiverProps) => {
+  const [tally, setTally] = useState<TallyMessage | null>(null);
+  const [message, setMessage] = useState<OperatorMessage | null>(null);
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const dismissMessage = useCallback(() => {
+    clearTimeout(hideTimerRef.current);
+    setMessage(null);
+  }, []);
+
+  useEffect(() => {
+    if (!room) return;
+
+    const handleData = (payload: Uint8Array, participant?: RemoteParticipant) => {
+      if (!isDirectorParticipant(participant)) return;
+
+      let data;
+      try {
+        data = JSON.parse(new TextDecoder().decode(payload));
+      } catch (error) {
+        console.error('Error parsing data message:', error);
+        return;
+      }
+
+      const tallyMessage = parseTallyMessage(data);
+      if (tallyMessage) {
+        // Reliable messages can still arrive out of order across directors
+        setTally(current => current && current.timestamp > tallyMessage.timestamp ? current : tallyMessage);
+        return;
+      }
+
+      const operatorMessage = parseOperatorMessage(data);
+      if (operatorMessage) {
+        setMessage(operatorMessage);
+        navigator.vibrate?.(MESSAGE_VIBRATION_PATTERN);
+        clearTimeout(hideTimerRef.current);
+        hideTimerRef.current = setTimeout(() => setMessage(null), MESSAGE_DISPLAY_MS);
+      }
+    };
+
+    // Tally is stale once we leave the room
+    const handleDisconnected = () => setTally(null);
+
+    room
+      .on(RoomEvent.DataReceived, handleData)
+      .on(RoomEvent.Disconnected, handleDisconnected);
+    return () => {
+      room
+        .off(RoomEvent.DataReceived, handleData)
+        .off(RoomEvent.Disconnected, handleDisconnected);
+    };
+  }, [room]);
+
+  useEffect(() => {
+    return () => clearTimeout(hideTimerRef.current);
+  }, []);
+
+  return {
+    tallyState: getTallyState(cameraIdentity, tally),
+    message,
+    dismissMessage
+  };
+};
@@ -0,0 +1,50 @@
+import { useEffect, useCallback } from 'react';
+import { Room } from 'livekit-client';
+import { createOperatorMessage, createTallyMessage } from '@/lib/operator-cues';
+import type { ProgramLayout } from '@/lib/program-layout';
+
+interface UseOperatorCuesProps {
+  room: Room | null;
+  previewLayout: ProgramLayout | null;
+  programLayout: ProgramLayout | null;
+  // Camera identities in the room; tally is re-sent when one joins
+  cameraIdentities: string[];
+}
+
+const publishToCameras = async (room: Room, payload: object, cameraIdentities: string[]) => {
+  await room.localParticipant.publishData(new TextEncoder().encode(JSON.stringify(payload)), {
+    reliable: true,
+    destinationIdentities: cameraIdentities
+  });
+};
+
+// Director side of operator cues: keeps every camera's tally light in step with the
+// switcher and sends messages to camera operators
+export const useOperatorCues = ({ room, previewLayout, programLayout, cameraIdentities }: UseOperatorCuesProps) => {
+  const cameraKey = cameraIdentities.join(',');
+
+  useEffect(() => {
+    if (!room || !cameraKey) return;
+
+    const tally = createTallyMessage(
+      programLayout?.cameras.filter(Boolean) ?? [],
+      previewLayout?.cameras.filter(Boolean) ?? []
+    );
+    publishToCameras(room, tally, cameraKey.split(',')).catch(error => {
+      console.error('[OperatorCues] Error sending tally:', error);
+    });
+  }, [room, previewLayout, programLayout, cameraKey]);
+
+  // Sends to one camera, or every camera when no identity is given
+  const sendOperatorMessage = useCallback(async (text: string, cameraIdentity?: string) => {
+    const targets = cameraIdentity ? [cameraIdentity] : cameraKey.split(',').filter(Boolean);
+    if (!room || !text.trim() || targets.length === 0) return;
+
+    const message = createOperatorMessage(text, room.localParticipant.name || 'Director');
+    await publishToCameras(room, message, targets);
+  }, [room, cameraKey]);
+
+  return {
+    sendOperatorMessage
+  };
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { Tables } from '@/integrations/supabase/types';
+import type { OrgRole } from '@/lib/org-roles';
+
+export type Organization = Tables<'organizations'> & {
+  role: OrgRole;
+};
+
+interface OrganizationContextType {
+  organizations: Organization[];
+  loading: boolean;
+  // Null while working in the personal workspace
+  activeOrganization: Organization | null;
+  activeRole: OrgRole | null;
+  setActiveOrganizationId: (organizationId: string | null) => void;
+  createOrganization: (name: string) => Promise<Tables<'organizations'>>;
+  refetch: () => Promise<void>;
+}
+
+// Provided by OrganizationProvider
+export const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export function useOrganization() {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+}
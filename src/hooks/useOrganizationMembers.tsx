@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { OrgRole } from '@/lib/org-roles';
+
+export interface OrganizationMember {
+  userId: string;
+  role: OrgRole;
+  email: string | null;
+  fullName: string | null;
+  avatarUrl: string | null;
+  joinedAt: string;
+}
+
+interface UseOrganizationMembersProps {
+  organizationId: string | undefined;
+}
+
+// Member emails and names come from private profiles, so every call goes through the edge function
+export const useOrganizationMembers = ({ organizationId }: UseOrganizationMembersProps) => {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const invokeMembers = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('organization-members', {
+      body: { organizationId, ...body }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  }, [organizationId]);
+
+  const loadMembers = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      const data = await invokeMembers({ action: 'list' });
+      setMembers(data.members || []);
+    } catch (error) {
+      console.error('[OrganizationMembers] Error loading members:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, invokeMembers]);
+
+  const addMember = useCallback(async (email: string, role: OrgRole) => {
+    await invokeMembers({ action: 'add', email, role });
+    await loadMembers();
+  }, [invokeMembers, loadMembers]);
+
+  const updateRole = useCallback(async (userId: string, role: OrgRole) => {
+    await invokeMembers({ action: 'updateRole', userId, role });
+    await loadMembers();
+  }, [invokeMembers, loadMembers]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    await invokeMembers({ action: 'remove', userId });
+    await loadMembers();
+  }, [invokeMembers, loadMembers]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  return {
+    members,
+    loading,
+    addMember,
+    updateRole,
+    removeMember,
+    refetch: loadMembers
+  };
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Room, RoomEvent, RemoteVideoTrack } from 'livekit-client';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CUT_TRANSITION,
+  isProgramLayout,
+  parseLayoutMessage,
+  type ProgramLayoutUpdate
+} from '@/lib/program-layout';
+
+interface UseProgramLayoutProps {
+  eventId: string;
+  room: Room | null;
+}
+
+// Current program layout and the transition into it: the persisted layout first,
+// then live `layout_update` messages from the director
+export const useProgramLayout = ({ eventId, room }: UseProgramLayoutProps) => {
+  const [update, setUpdate] = useState<ProgramLayoutUpdate | null>(null);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let cancelled = false;
+
+    const loadLayout = async () => {
+      // Through the public event RPC: the egress template loads this as an anonymous client
+      const { data, error } = await supabase.rpc('get_public_event', { _event_id: eventId });
+
+      if (error) {
+        console.error('Error loading program layout:', error);
+        return;
+      }
+
+      const storedLayout = data?.[0]?.program_layout;
+      if (!cancelled && isProgramLayout(storedLayout)) {
+        setUpdate(current => current || { layout: storedLayout, transition: CUT_TRANSITION });
+      }
+    };
+
+    loadLayout();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!room) return;
+
+    const handleData = (payload: Uint8Array) => {
+      try {
+        const message = JSON.parse(new TextDecoder().decode(payload));
+        const nextUpdate = parseLayoutMessage(message);
+        if (nextUpdate) {
+          setUpdate(nextUpdate);
+        }
+      } catch (error) {
+        console.error('Error parsing data message:', error);
+      }
+    };
+
+    room.on(RoomEvent.DataReceived, handleData);
+    return () => {
+      room.off(RoomEvent.DataReceived, handleData);
+    };
+  }, [room]);
+
+  return {
+    layout: update?.layout || null,
+    transition: update?.transition || CUT_TRANSITION
+  };
+};
+
+const collectVideoTracks = (room: Room) => {
+  const tracks = new Map<string, RemoteVideoTrack>();
+
+  room.remoteParticipants.forEach(participant => {
+    participant.videoTrackPublications.forEach(publication => {
+      if (publication.track instanceof RemoteVideoTrack && publication.isSubscribed) {
+        tracks.set(participant.identity, publication.track);
+      }
+    });
+  });
+
+  return tracks;
+};
+
+// Subscribed video tracks keyed by participant identity, kept in sync with the room
+export const useRoomVideoTracks = (room: Room | null) => {
+  const [videoTracks, setVideoTracks] = useState<Map<string, RemoteVideoTrack>>(new Map());
+
+  useEffect(() => {
+    if (!room) return;
+
+    const refresh = () => setVideoTracks(collectVideoTracks(room));
+
+    refresh();
+    room
+      .on(RoomEvent.TrackSubscribed, refresh)
+      .on(RoomEvent.TrackUnsubscribed, refresh)
+      .on(RoomEvent.ParticipantDisconnected, refresh);
+
+    return () => {
+      room
+        .off(RoomEvent.TrackSubscribed, refresh)
+        .off(RoomEvent.TrackUnsubscribed, refresh)
+        .off(RoomEvent.ParticipantDisconnected, refresh);
+    };
+  }, [room]);
+
+  return videoTracks;
+};
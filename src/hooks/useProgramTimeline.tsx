@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { buildProgramTimeline, type SwitchLog, type TimelineCamera } from '@/lib/program-timeline';
+
+type TimelineEvent = Pick<
+  Tables<'events'>,
+  'id' | 'name' | 'sport' | 'status' | 'recording_started_at' | 'ended_at'
+>;
+
+interface UseProgramTimelineProps {
+  eventId: string;
+}
+
+// Loads an event's switch log and rebuilds the program timeline from it
+export const useProgramTimeline = ({ eventId }: UseProgramTimelineProps) => {
+  const [event, setEvent] = useState<TimelineEvent | null>(null);
+  const [cameras, setCameras] = useState<TimelineCamera[]>([]);
+  const [switchLogs, setSwitchLogs] = useState<SwitchLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    if (!eventId) return;
+
+    try {
+      setError(null);
+      const [eventResult, camerasResult, logsResult] = await Promise.all([
+        supabase
+          .from('events')
+          .select('id, name, sport, status, recording_started_at, ended_at')
+          .eq('id', eventId)
+          .single(),
+        supabase
+          .from('cameras')
+          .select('id, device_label')
+          .eq('event_id', eventId),
+        supabase
+          .from('switch_logs')
+          .select('camera_id, timestamp')
+          .eq('event_id', eventId)
+          .order('timestamp')
+      ]);
+
+      if (eventResult.error) throw eventResult.error;
+      if (camerasResult.error) throw camerasResult.error;
+      if (logsResult.error) throw logsResult.error;
+
+      setEvent(eventResult.data);
+      setCameras(camerasResult.data || []);
+      setSwitchLogs(logsResult.data || []);
+    } catch (error) {
+      console.error('[ProgramTimeline] Error loading timeline:', error);
+      setError(error.message || 'Failed to load timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  // The recording start lines the timeline up with the event recording when there is one.
+  // Events that ended without an end time stop at their last switch.
+  const timeline = useMemo(() => {
+    if (!event) return null;
+
+    return buildProgramTimeline(switchLogs, cameras, {
+      startedAt: event.recording_started_at,
+      endedAt: event.ended_at || (event.status === 'live' ? null : switchLogs[switchLogs.length - 1]?.timestamp)
+    });
+  }, [event, cameras, switchLogs]);
+
+  return {
+    event,
+    timeline,
+    loading,
+    error,
+    refetch: loadTimeline
+  };
+};
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type PublicEvent = Database['public']['Functions']['get_public_event']['Returns'][number];
+
+interface UsePublicEventProps {
+  eventId: string;
+}
+
+// Public details of an event, including the recording of an ended event, for viewers who
+// cannot read the event row itself
+export const usePublicEvent = ({ eventId }: UsePublicEventProps) => {
+  const [event, setEvent] = useState<PublicEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadEvent = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_public_event', { _event_id: eventId });
+
+        if (error) throw error;
+        setEvent(data?.[0] ?? null);
+      } catch (error) {
+        console.error('[PublicEvent] Error loading event:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvent();
+  }, [eventId]);
+
+  return {
+    event,
+    loading
+  };
+};
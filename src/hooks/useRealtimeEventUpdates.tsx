@@ -19,6 +19,15 @@ interface EventData {
   streaming_type?: string;
   telegram_channel_id?: string;
   telegram_invite_link?: string;
+  recording_url?: string | null;
+  recording_started_at?: string | null;
+  recording_duration_seconds?: number | null;
+  start_time?: string;
+  expected_duration?: number | null;
+  auto_start?: boolean;
+  auto_end?: boolean;
+  end_grace_minutes?: number;
+  prewarmed_at?: string | null;
 }
 
 interface Camera {
@@ -148,6 +157,8 @@ export const useRealtimeEventUpdates = ({
     if (oldEvent.status !== updatedEvent.status) {
       if (updatedEvent.status === 'live') {
         toastService.event.streamStarted();
+      } else if (updatedEvent.status === 'paused') {
+        toastService.event.streamPaused();
       } else if (updatedEvent.status === 'ended') {
         toastService.event.streamEnded();
       }
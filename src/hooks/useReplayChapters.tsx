@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { buildReplayChapters, type ReplayMarker } from '@/lib/replay-chapters';
+
+interface UseReplayChaptersProps {
+  eventId: string;
+  // Null until the recording's start time and length are known
+  recordingStartedAt: string | null;
+  recordingDurationSeconds: number | null;
+}
+
+// Chapter markers for an ended event's recording
+export const useReplayChapters = ({ eventId, recordingStartedAt, recordingDurationSeconds }: UseReplayChaptersProps) => {
+  const [markers, setMarkers] = useState<ReplayMarker[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadMarkers = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_replay_markers', { _event_id: eventId });
+
+        if (error) throw error;
+        setMarkers(data || []);
+      } catch (error) {
+        console.error('[ReplayChapters] Error loading replay markers:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMarkers();
+  }, [eventId]);
+
+  const chapters = useMemo(() => {
+    if (!recordingStartedAt || !recordingDurationSeconds) return [];
+    return buildReplayChapters(markers, {
+      startedAt: recordingStartedAt,
+      durationSeconds: recordingDurationSeconds
+    });
+  }, [markers, recordingStartedAt, recordingDurationSeconds]);
+
+  return {
+    chapters,
+    loading
+  };
+};
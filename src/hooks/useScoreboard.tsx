@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getClockSeconds,
+  getShotClockSeconds,
+  type Scoreboard,
+  type ScoreboardChanges,
+  type ScoreboardTeam
+} from '@/lib/scoreboard';
+import {
+  applyScoringAction,
+  getScoreboardDefaults,
+  getSportRules,
+  validateScoreboardChanges,
+  type ScoringAction
+} from '@/lib/sport-rules';
+
+type ClockAction = 'start' | 'stop' | 'set' | 'reset' | 'shot_set';
+
+interface UseScoreboardProps {
+  eventId: string;
+}
+
+// Event scoreboard kept in sync over Supabase realtime; writes are limited to the event owner by RLS.
+// Scoring follows the rules for the event's sport.
+export const useScoreboard = ({ eventId }: UseScoreboardProps) => {
+  const [scoreboard, setScoreboard] = useState<Scoreboard | null>(null);
+  const [sport, setSport] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const rules = useMemo(() => getSportRules(sport), [sport]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const loadScoreboard = async () => {
+      const [scoreboardResult, eventResult] = await Promise.all([
+        supabase
+          .from('event_scoreboards')
+          .select('*')
+          .eq('event_id', eventId)
+          .maybeSingle(),
+        // The program output overlay reads the sport as an anonymous client
+        supabase.rpc('get_public_event', { _event_id: eventId })
+      ]);
+
+      if (scoreboardResult.error) {
+        console.error('Error loading scoreboard:', scoreboardResult.error);
+      } else {
+        setScoreboard(scoreboardResult.data);
+      }
+      if (eventResult.error) {
+        console.error('Error loading event sport:', eventResult.error);
+      } else {
+        setSport(eventResult.data?.[0]?.sport || null);
+      }
+      setLoading(false);
+    };
+
+    loadScoreboard();
+
+    const channel = supabase
+      .channel(`event_scoreboard_${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_scoreboards',
+          filter: `event_id=eq.${eventId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            setScoreboard(null);
+          } else {
+            setScoreboard(payload.new as Scoreboard);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId]);
+
+  // Creates the scoreboard with the sport's defaults on first use
+  const updateScoreboard = useCallback(async (changes: ScoreboardChanges) => {
+    const validationError = validateScoreboardChanges(rules, changes);
+    if (validationError) throw new Error(validationError);
+
+    const { data, error } = await supabase
+      .from('event_scoreboards')
+      .upsert(
+        { event_id: eventId, ...(scoreboard ? {} : getScoreboardDefaults(rules)), ...changes },
+        { onConflict: 'event_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    setScoreboard(data);
+  }, [eventId, rules, scoreboard]);
+
+  // Throws with a readable message when the action isn't possible for the sport or current state
+  const applyScoring = useCallback(async (action: ScoringAction) => {
+    const current = scoreboard || ({ ...getScoreboardDefaults(rules), home_score: 0, away_score: 0, period: 1 } as Scoreboard);
+    await updateScoreboard(applyScoringAction(rules, current, action));
+  }, [rules, scoreboard, updateScoreboard]);
+
+  const adjustScore = useCallback((team: ScoreboardTeam, points: number) =>
+    applyScoring({ type: 'score', team, points }), [applyScoring]);
+
+  // Clock changes go through the database so start/stop times come from server time
+  const controlClock = useCallback(async (action: ClockAction, seconds?: number) => {
+    if (!scoreboard) {
+      await updateScoreboard({});
+    }
+
+    const { data, error } = await supabase.rpc('control_scoreboard_clock', {
+      _event_id: eventId,
+      _action: action,
+      _seconds: seconds
+    });
+
+    if (error) throw error;
+    setScoreboard(data);
+  }, [eventId, scoreboard, updateScoreboard]);
+
+  const startClock = useCallback(() => controlClock('start'), [controlClock]);
+
+  const stopClock = useCallback(() => controlClock('stop'), [controlClock]);
+
+  const setClock = useCallback((seconds: number) =>
+    controlClock('set', Math.max(0, Math.floor(seconds))), [controlClock]);
+
+  const resetClock = useCallback(() => controlClock('reset'), [controlClock]);
+
+  const resetShotClock = useCallback((seconds: number) => controlClock('shot_set', seconds), [controlClock]);
+
+  return {
+    scoreboard,
+    rules,
+    loading,
+    updateScoreboard,
+    applyScoring,
+    adjustScore,
+    startClock,
+    stopClock,
+    setClock,
+    resetClock,
+    resetShotClock
+  };
+};
+
+// Ticking game and shot clock values for display
+export const useGameClock = (scoreboard: Scoreboard | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!scoreboard?.clock_running) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [scoreboard]);
+
+  return {
+    seconds: scoreboard ? getClockSeconds(scoreboard, now) : 0,
+    shotClockSeconds: scoreboard ? getShotClockSeconds(scoreboard, now) : null
+  };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type StreamDestination = Tables<'stream_destinations'>;
+
+export interface StreamDestinationInput {
+  name: string;
+  rtmpUrl: string;
+  streamKey: string;
+  enabled?: boolean;
+}
+
+interface UseStreamDestinationsProps {
+  eventId: string;
+}
+
+export const useStreamDestinations = ({ eventId }: UseStreamDestinationsProps) => {
+  const [destinations, setDestinations] = useState<StreamDestination[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadDestinations = useCallback(async () => {
+    if (!eventId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('stream_destinations')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at');
+
+      if (error) throw error;
+      setDestinations(data || []);
+    } catch (error) {
+      console.error('[StreamDestinations] Error loading destinations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  // Stream keys never reach the client, so every write goes through the edge function
+  const invokeDestinations = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('stream-destinations', {
+      body: { eventId, ...body }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+
+    await loadDestinations();
+    return data;
+  }, [eventId, loadDestinations]);
+
+  const addDestination = useCallback((input: StreamDestinationInput) => 
+    invokeDestinations({ action: 'create', ...input }), [invokeDestinations]);
+
+  const updateDestination = useCallback((destinationId: string, updates: Partial<StreamDestinationInput>) =>
+    invokeDestinations({ action: 'update', destinationId, ...updates }), [invokeDestinations]);
+
+  const removeDestination = useCallback((destinationId: string) =>
+    invokeDestinations({ action: 'delete', destinationId }), [invokeDestinations]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    loadDestinations();
+
+    // Health updates from the Mux and LiveKit webhooks arrive as row updates
+    const channel = supabase
+      .channel(`stream_destinations_${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'stream_destinations',
+          filter: `event_id=eq.${eventId}`,
+        },
+        () => {
+          loadDestinations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, loadDestinations]);
+
+  return {
+    destinations,
+    loading,
+    addDestination,
+    updateDestination,
+    removeDestination,
+    refetch: loadDestinations
+  };
+};
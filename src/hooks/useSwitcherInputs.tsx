@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getKeyboardBinding, getMidiBinding, type BindingSource } from '@/lib/switcher-controls';
+
+export type MidiStatus = 'pending' | 'unsupported' | 'denied' | 'ready';
+
+// Minimal shape of the Web MIDI API used here, so a simulated MIDI access can be passed in
+export interface MidiInputLike {
+  id: string;
+  name?: string | null;
+  onmidimessage: ((event: { data: Uint8Array | null }) => void) | null;
+}
+
+export interface MidiAccessLike {
+  inputs: { forEach: (callback: (input: MidiInputLike) => void) => void };
+  onstatechange: ((event: unknown) => void) | null;
+}
+
+interface UseSwitcherInputsProps {
+  // Return true when the input was handled, so the browser default (e.g. Space scrolling) is suppressed
+  onInput: (source: BindingSource, binding: string) => boolean | void;
+  enabled?: boolean;
+  requestMidiAccess?: () => Promise<MidiAccessLike>;
+}
+
+const defaultRequestMidiAccess = () =>
+  navigator.requestMIDIAccess() as unknown as Promise<MidiAccessLike>;
+
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const useSwitcherInputs = ({
+  onInput,
+  enabled = true,
+  requestMidiAccess
+}: UseSwitcherInputsProps) => {
+  const [midiStatus, setMidiStatus] = useState<MidiStatus>('pending');
+  const [midiInputs, setMidiInputs] = useState<string[]>([]);
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
+
+  // Entry point for raw MIDI bytes from a device or a simulated input
+  const handleMidiMessage = useCallback((data: ArrayLike<number>) => {
+    const binding = getMidiBinding(data);
+    if (binding) {
+      onInputRef.current('midi', binding);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || isEditableTarget(event.target)) return;
+
+      const binding = getKeyboardBinding(event);
+      if (binding && onInputRef.current('keyboard', binding)) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const request = requestMidiAccess ||
+      (typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator ? defaultRequestMidiAccess : null);
+
+    if (!request) {
+      setMidiStatus('unsupported');
+      return;
+    }
+
+    let access: MidiAccessLike | null = null;
+    let cancelled = false;
+
+    const attachInputs = () => {
+      if (!access) return;
+
+      const names: string[] = [];
+      access.inputs.forEach(input => {
+        input.onmidimessage = event => {
+          if (event.data) handleMidiMessage(event.data);
+        };
+        names.push(input.name || input.id);
+      });
+      setMidiInputs(names);
+    };
+
+    request()
+      .then(midiAccess => {
+        if (cancelled) return;
+        access = midiAccess;
+        // Re-attach when controllers are plugged in or removed
+        access.onstatechange = attachInputs;
+        attachInputs();
+        setMidiStatus('ready');
+      })
+      .catch(error => {
+        console.warn('MIDI access unavailable:', error);
+        if (!cancelled) setMidiStatus('denied');
+      });
+
+    return () => {
+      cancelled = true;
+      if (access) {
+        access.onstatechange = null;
+        access.inputs.forEach(input => {
+          input.onmidimessage = null;
+        });
+      }
+    };
+  }, [enabled, requestMidiAccess, handleMidiMessage]);
+
+  return {
+    midiStatus,
+    midiInputs,
+    handleMidiMessage
+  };
+};
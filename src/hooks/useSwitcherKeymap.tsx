@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
+import { DEFAULT_SWITCHER_KEYMAP, normalizeKeymap, type SwitcherKeymap } from '@/lib/switcher-controls';
+
+// The director's switcher keymap, stored on their profile
+export const useSwitcherKeymap = () => {
+  const { user, profile } = useAuth();
+  const [keymap, setKeymap] = useState<SwitcherKeymap>(DEFAULT_SWITCHER_KEYMAP);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setKeymap(normalizeKeymap(profile.switcher_keymap));
+    }
+  }, [profile]);
+
+  const saveKeymap = useCallback(async (nextKeymap: SwitcherKeymap) => {
+    if (!user) throw new Error('You must be signed in to save shortcuts');
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          switcher_keymap: nextKeymap as unknown as Json,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', user.id);
+
+      if (error) throw error;
+      setKeymap(nextKeymap);
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  return {
+    keymap,
+    saving,
+    saveKeymap
+  };
+};
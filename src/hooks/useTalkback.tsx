@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Room,
+  RoomEvent,
+  Track,
+  createLocalAudioTrack,
+  type LocalAudioTrack,
+  type Participant,
+  type RemoteAudioTrack,
+  type RemoteParticipant,
+  type RemoteTrack
+} from 'livekit-client';
+import { isDirectorParticipant } from '@/lib/camera-control';
+import {
+  DEFAULT_TALKBACK_CHANNEL,
+  TALKBACK_TRACK_NAME,
+  canHearTalkback,
+  createTalkbackTargetMessage,
+  isTalkbackDirector,
+  parseTalkbackTargetMessage,
+  type TalkbackChannel,
+  type TalkbackTarget
+} from '@/lib/talkback';
+
+interface UseTalkbackProps {
+  // The event's talkback room, from useLiveKitRoom with `talkback` set
+  room: Room | null;
+}
+
+// Push-to-talk intercom for the crew: publishes a muted microphone that is live only while
+// talking, and plays the other crew members with per-channel mute and volume
+export const useTalkback = ({ room }: UseTalkbackProps) => {
+  const [talking, setTalking] = useState(false);
+  const [microphoneReady, setMicrophoneReady] = useState(false);
+  const [target, setTargetState] = useState<TalkbackTarget>('all');
+  const [channels, setChannels] = useState<Record<string, TalkbackChannel>>({});
+  const [audioTracks, setAudioTracks] = useState<Record<string, RemoteAudioTrack>>({});
+  const [directorTargets, setDirectorTargets] = useState<Record<string, TalkbackTarget>>({});
+  const [speakers, setSpeakers] = useState<string[]>([]);
+  const microphoneRef = useRef<LocalAudioTrack | null>(null);
+  const targetRef = useRef<TalkbackTarget>('all');
+
+  const localIdentity = room?.localParticipant.identity ?? '';
+  const isDirector = isTalkbackDirector(localIdentity);
+
+  const sendTarget = useCallback(async (nextTarget: TalkbackTarget, destinationIdentities?: string[]) => {
+    if (!room) return;
+    try {
+      await room.localParticipant.publishData(
+        new TextEncoder().encode(JSON.stringify(createTalkbackTargetMessage(nextTarget))),
+        { reliable: true, destinationIdentities }
+      );
+    } catch (error) {
+      console.error('[Talkback] Error sending talkback target:', error);
+    }
+  }, [room]);
+
+  // Publish the intercom microphone, muted until push-to-talk
+  useEffect(() => {
+    if (!room) return;
+
+    let cancelled = false;
+    let microphone: LocalAudioTrack | null = null;
+
+    const publishMicrophone = async () => {
+      try {
+        microphone = await createLocalAudioTrack({ echoCancellation: true, noiseSuppression: true });
+        if (cancelled) {
+          microphone.stop();
+          return;
+        }
+        await microphone.mute();
+        await room.localParticipant.publishTrack(microphone, {
+          name: TALKBACK_TRACK_NAME,
+          source: Track.Source.Microphone
+        });
+        microphoneRef.current = microphone;
+        setMicrophoneReady(true);
+      } catch (error) {
+        console.error('[Talkback] Error publishing microphone:', error);
+      }
+    };
+
+    publishMicrophone();
+
+    return () => {
+      cancelled = true;
+      microphoneRef.current = null;
+      if (microphone) {
+        room.localParticipant.unpublishTrack(microphone).catch(error => {
+          console.error('[Talkback] Error unpublishing microphone:', error);
+        });
+        microphone.stop();
+      }
+      setMicrophoneReady(false);
+      setTalking(false);
+    };
+  }, [room]);
+
+  useEffect(() => {
+    if (!room) return;
+
+    const handleTrackSubscribed = (track: RemoteTrack, _publication: unknown, participant: RemoteParticipant) => {
+      if (track.kind !== Track.Kind.Audio) return;
+      // Detached audio elements still play; nothing needs to be rendered
+      track.attach();
+      setAudioTracks(prev => ({ ...prev, [participant.identity]: track as RemoteAudioTrack }));
+    };
+
+    const handleTrackUnsubscribed = (track: RemoteTrack, _publication: unknown, participant: RemoteParticipant) => {
+      if (track.kind !== Track.Kind.Audio) return;
+      track.detach();
+      setAudioTracks(prev => {
+        const { [participant.identity]: _removed, ...rest } = prev;
+        return rest;
+      });
+    };
+
+    const handleData = (payload: Uint8Array, participant?: RemoteParticipant) => {
+      if (!participant || !isDirectorParticipant(participant)) return;
+
+      let message;
+      try {
+        message = parseTalkbackTargetMessage(JSON.parse(new TextDecoder().decode(payload)));
+      } catch (error) {
+        console.error('Error parsing data message:', error);
+        return;
+      }
+      if (!message) return;
+
+      setDirectorTargets(prev => ({ ...prev, [participant.identity]: message.target }));
+    };
+
+    const handleSpeakersChanged = (activeSpeakers: Participant[]) => {
+      setSpeakers(activeSpeakers.map(speaker => speaker.identity));
+    };
+
+    // Crew members who join later need to know who this director is talking to
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      if (isTalkbackDirector(room.localParticipant.identity)) {
+        sendTarget(targetRef.current, [participant.identity]);
+      }
+    };
+
+    room
+      .on(RoomEvent.TrackSubscribed, handleTrackSubscribed)
+      .on(RoomEvent.TrackUnsubscribed, handleTrackUnsubscribed)
+      .on(RoomEvent.DataReceived, handleData)
+      .on(RoomEvent.ActiveSpeakersChanged, handleSpeakersChanged)
+      .on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+
+    if (isTalkbackDirector(room.localParticipant.identity)) {
+      sendTarget(targetRef.current);
+    }
+
+    return () => {
+      room
+        .off(RoomEvent.TrackSubscribed, handleTrackSubscribed)
+        .off(RoomEvent.TrackUnsubscribed, handleTrackUnsubscribed)
+        .off(RoomEvent.DataReceived, handleData)
+        .off(RoomEvent.ActiveSpeakersChanged, handleSpeakersChanged)
+        .off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+      setAudioTracks({});
+      setDirectorTargets({});
+      setSpeakers([]);
+    };
+  }, [room, sendTarget]);
+
+  // Silence channels that are muted here, and directors who are talking to another camera
+  useEffect(() => {
+    Object.entries(audioTracks).forEach(([identity, track]) => {
+      const channel = channels[identity] ?? DEFAULT_TALKBACK_CHANNEL;
+      const audible = canHearTalkback(localIdentity, identity, directorTargets) && !channel.muted;
+      track.setVolume(audible ? channel.volume : 0);
+    });
+  }, [audioTracks, channels, directorTargets, localIdentity]);
+
+  const startTalking = useCallback(async () => {
+    const microphone = microphoneRef.current;
+    if (!microphone) return;
+    // Pressing to talk is a user gesture, which lets the browser play incoming talkback too
+    room?.startAudio();
+    await microphone.unmute();
+    setTalking(true);
+  }, [room]);
+
+  const stopTalking = useCallback(async () => {
+    const microphone = microphoneRef.current;
+    if (!microphone) return;
+    await microphone.mute();
+    setTalking(false);
+  }, []);
+
+  const setTarget = useCallback((nextTarget: TalkbackTarget) => {
+    targetRef.current = nextTarget;
+    setTargetState(nextTarget);
+    sendTarget(nextTarget);
+  }, [sendTarget]);
+
+  const setChannel = useCallback((identity: string, update: Partial<TalkbackChannel>) => {
+    setChannels(prev => ({
+      ...prev,
+      [identity]: { ...(prev[identity] ?? DEFAULT_TALKBACK_CHANNEL), ...update }
+    }));
+  }, []);
+
+  const getChannel = useCallback((identity: string) => channels[identity] ?? DEFAULT_TALKBACK_CHANNEL, [channels]);
+
+  // Whether this device hears the crew member at all, before its own mute and volume
+  const canHear = useCallback(
+    (identity: string) => canHearTalkback(localIdentity, identity, directorTargets),
+    [localIdentity, directorTargets]
+  );
+
+  return {
+    isDirector,
+    microphoneReady,
+    talking,
+    startTalking,
+    stopTalking,
+    target,
+    setTarget,
+    getChannel,
+    setChannel,
+    canHear,
+    speakers
+  };
+};
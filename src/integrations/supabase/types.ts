@@ -14,6 +14,132 @@ export type Database = {
   }
   public: {
     Tables: {
+      camera_join_tokens: {
+        Row: {
+          camera_id: string
+          created_at: string
+          created_by: string | null
+          event_id: string
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          session_token: string | null
+          single_use: boolean
+          token: string
+          used_at: string | null
+        }
+        Insert: {
+          camera_id: string
+          created_at?: string
+          created_by?: string | null
+          event_id: string
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          session_token?: string | null
+          single_use?: boolean
+          token: string
+          used_at?: string | null
+        }
+        Update: {
+          camera_id?: string
+          created_at?: string
+          created_by?: string | null
+          event_id?: string
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          session_token?: string | null
+          single_use?: boolean
+          token?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camera_join_tokens_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camera_join_tokens_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camera_recordings: {
+        Row: {
+          camera_id: string | null
+          created_at: string
+          duration_seconds: number | null
+          egress_id: string
+          ended_at: string | null
+          error: string | null
+          event_id: string
+          file_path: string | null
+          id: string
+          participant_identity: string
+          size_bytes: number | null
+          started_at: string | null
+          status: string
+          track_sid: string
+          updated_at: string
+        }
+        Insert: {
+          camera_id?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          egress_id: string
+          ended_at?: string | null
+          error?: string | null
+          event_id: string
+          file_path?: string | null
+          id?: string
+          participant_identity: string
+          size_bytes?: number | null
+          started_at?: string | null
+          status?: string
+          track_sid: string
+          updated_at?: string
+        }
+        Update: {
+          camera_id?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          egress_id?: string
+          ended_at?: string | null
+          error?: string | null
+          event_id?: string
+          file_path?: string | null
+          id?: string
+          participant_identity?: string
+          size_bytes?: number | null
+          started_at?: string | null
+          status?: string
+          track_sid?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camera_recordings_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camera_recordings_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cameras: {
         Row: {
           created_at: string
@@ -22,58 +148,492 @@ export type Database = {
           id: string
           is_active: boolean
           is_live: boolean
+          operator_id: string | null
           stream_key: string
           stream_url: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
-          device_label: string
-          event_id: string
+          device_label: string
+          event_id: string
+          id?: string
+          is_active?: boolean
+          is_live?: boolean
+          operator_id?: string | null
+          stream_key: string
+          stream_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          device_label?: string
+          event_id?: string
+          id?: string
+          is_active?: boolean
+          is_live?: boolean
+          operator_id?: string | null
+          stream_key?: string
+          stream_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cameras_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      egress_sessions: {
+        Row: {
+          created_at: string
+          egress_id: string
+          ended_at: string | null
+          error: string | null
+          event_id: string
+          id: string
+          started_at: string | null
+          status: string
+          target_urls: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          egress_id: string
+          ended_at?: string | null
+          error?: string | null
+          event_id: string
+          id?: string
+          started_at?: string | null
+          status?: string
+          target_urls?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          egress_id?: string
+          ended_at?: string | null
+          error?: string | null
+          event_id?: string
+          id?: string
+          started_at?: string | null
+          status?: string
+          target_urls?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "egress_sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_clips: {
+        Row: {
+          created_at: string
+          end_seconds: number
+          event_id: string
+          highlight_id: string | null
+          id: string
+          start_seconds: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          end_seconds: number
+          event_id: string
+          highlight_id?: string | null
+          id?: string
+          start_seconds: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          end_seconds?: number
+          event_id?: string
+          highlight_id?: string | null
+          id?: string
+          start_seconds?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_clips_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_clips_highlight_id_fkey"
+            columns: ["highlight_id"]
+            isOneToOne: true
+            referencedRelation: "highlights"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_invites: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          event_id: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["org_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          event_id: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role: Database["public"]["Enums"]["org_role"]
+          token: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          event_id?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["org_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_invites_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_members: {
+        Row: {
+          created_at: string
+          event_id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          invited_by?: string | null
+          role: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_members_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_scoreboards: {
+        Row: {
+          away_color: string
+          away_name: string
+          away_score: number
+          clock_direction: string
+          clock_duration_seconds: number
+          clock_running: boolean
+          clock_seconds: number
+          clock_started_at: string | null
+          created_at: string
+          event_id: string
+          home_color: string
+          home_name: string
+          home_score: number
+          period: number
+          shot_clock_seconds: number | null
+          shot_clock_started_at: string | null
+          sport_state: Json
+          updated_at: string
+          visible: boolean
+        }
+        Insert: {
+          away_color?: string
+          away_name?: string
+          away_score?: number
+          clock_direction?: string
+          clock_duration_seconds?: number
+          clock_running?: boolean
+          clock_seconds?: number
+          clock_started_at?: string | null
+          created_at?: string
+          event_id: string
+          home_color?: string
+          home_name?: string
+          home_score?: number
+          period?: number
+          shot_clock_seconds?: number | null
+          shot_clock_started_at?: string | null
+          sport_state?: Json
+          updated_at?: string
+          visible?: boolean
+        }
+        Update: {
+          away_color?: string
+          away_name?: string
+          away_score?: number
+          clock_direction?: string
+          clock_duration_seconds?: number
+          clock_running?: boolean
+          clock_seconds?: number
+          clock_started_at?: string | null
+          created_at?: string
+          event_id?: string
+          home_color?: string
+          home_name?: string
+          home_score?: number
+          period?: number
+          shot_clock_seconds?: number | null
+          shot_clock_started_at?: string | null
+          sport_state?: Json
+          updated_at?: string
+          visible?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_scoreboards_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_series: {
+        Row: {
+          created_at: string
+          first_start_time: string
+          frequency: string
+          id: string
+          name: string
+          occurrences: number
+          owner_id: string
+          repeat_interval: number
+          template_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          first_start_time: string
+          frequency: string
+          id?: string
+          name: string
+          occurrences: number
+          owner_id: string
+          repeat_interval?: number
+          template_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          first_start_time?: string
+          frequency?: string
+          id?: string
+          name?: string
+          occurrences?: number
+          owner_id?: string
+          repeat_interval?: number
+          template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_series_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "event_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_template_destination_keys: {
+        Row: {
+          created_at: string
+          destination_id: string
+          stream_key: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          destination_id: string
+          stream_key: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          destination_id?: string
+          stream_key?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_template_destination_keys_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: true
+            referencedRelation: "event_template_destinations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_template_destinations: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          name: string
+          rtmp_url: string
+          stream_key_hint: string | null
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          rtmp_url: string
+          stream_key_hint?: string | null
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          rtmp_url?: string
+          stream_key_hint?: string | null
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_template_destinations_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "event_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_templates: {
+        Row: {
+          auto_end: boolean
+          auto_start: boolean
+          away_color: string
+          away_name: string
+          camera_labels: string[]
+          created_at: string
+          description: string | null
+          end_grace_minutes: number
+          expected_duration: number
+          home_color: string
+          home_name: string
+          id: string
+          name: string
+          owner_id: string
+          sport: string
+          updated_at: string
+        }
+        Insert: {
+          auto_end?: boolean
+          auto_start?: boolean
+          away_color?: string
+          away_name?: string
+          camera_labels?: string[]
+          created_at?: string
+          description?: string | null
+          end_grace_minutes?: number
+          expected_duration?: number
+          home_color?: string
+          home_name?: string
           id?: string
-          is_active?: boolean
-          is_live?: boolean
-          stream_key: string
-          stream_url?: string | null
+          name: string
+          owner_id: string
+          sport: string
           updated_at?: string
         }
         Update: {
+          auto_end?: boolean
+          auto_start?: boolean
+          away_color?: string
+          away_name?: string
+          camera_labels?: string[]
           created_at?: string
-          device_label?: string
-          event_id?: string
+          description?: string | null
+          end_grace_minutes?: number
+          expected_duration?: number
+          home_color?: string
+          home_name?: string
           id?: string
-          is_active?: boolean
-          is_live?: boolean
-          stream_key?: string
-          stream_url?: string | null
+          name?: string
+          owner_id?: string
+          sport?: string
           updated_at?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "cameras_event_id_fkey"
-            columns: ["event_id"]
-            isOneToOne: false
-            referencedRelation: "events"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       events: {
         Row: {
+          auto_end: boolean
+          auto_start: boolean
+          camera_labels: string[]
           created_at: string
+          end_grace_minutes: number
+          ended_at: string | null
           event_code: string
           expected_duration: number | null
           id: string
           mux_stream_id: string | null
           name: string
+          organization_id: string | null
           owner_id: string | null
+          prewarmed_at: string | null
+          program_layout: Json | null
           program_url: string | null
+          recording_duration_seconds: number | null
           recording_enabled: boolean | null
+          recording_started_at: string | null
           recording_url: string | null
+          series_id: string | null
           sport: string
           start_time: string
           status: Database["public"]["Enums"]["event_status"]
           streaming_type: string | null
+          template_id: string | null
           updated_at: string
           viewer_count: number | null
           youtube_broadcast_id: string | null
@@ -81,20 +641,32 @@ export type Database = {
           youtube_stream_key: string | null
         }
         Insert: {
+          auto_end?: boolean
+          auto_start?: boolean
+          camera_labels?: string[]
           created_at?: string
+          end_grace_minutes?: number
+          ended_at?: string | null
           event_code: string
           expected_duration?: number | null
           id?: string
           mux_stream_id?: string | null
           name: string
+          organization_id?: string | null
           owner_id?: string | null
+          prewarmed_at?: string | null
+          program_layout?: Json | null
           program_url?: string | null
+          recording_duration_seconds?: number | null
           recording_enabled?: boolean | null
+          recording_started_at?: string | null
           recording_url?: string | null
+          series_id?: string | null
           sport: string
           start_time: string
           status?: Database["public"]["Enums"]["event_status"]
           streaming_type?: string | null
+          template_id?: string | null
           updated_at?: string
           viewer_count?: number | null
           youtube_broadcast_id?: string | null
@@ -102,26 +674,223 @@ export type Database = {
           youtube_stream_key?: string | null
         }
         Update: {
+          auto_end?: boolean
+          auto_start?: boolean
+          camera_labels?: string[]
           created_at?: string
+          end_grace_minutes?: number
+          ended_at?: string | null
           event_code?: string
           expected_duration?: number | null
           id?: string
           mux_stream_id?: string | null
           name?: string
+          organization_id?: string | null
           owner_id?: string | null
+          prewarmed_at?: string | null
+          program_layout?: Json | null
           program_url?: string | null
+          recording_duration_seconds?: number | null
           recording_enabled?: boolean | null
+          recording_started_at?: string | null
           recording_url?: string | null
+          series_id?: string | null
           sport?: string
           start_time?: string
           status?: Database["public"]["Enums"]["event_status"]
           streaming_type?: string | null
+          template_id?: string | null
           updated_at?: string
           viewer_count?: number | null
           youtube_broadcast_id?: string | null
           youtube_stream_id?: string | null
           youtube_stream_key?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "event_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "event_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      highlights: {
+        Row: {
+          camera_id: string | null
+          created_at: string
+          event_id: string
+          id: string
+          label: string | null
+          marked_at: string
+        }
+        Insert: {
+          camera_id?: string | null
+          created_at?: string
+          event_id: string
+          id?: string
+          label?: string | null
+          marked_at?: string
+        }
+        Update: {
+          camera_id?: string | null
+          created_at?: string
+          event_id?: string
+          id?: string
+          label?: string | null
+          marked_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "highlights_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "highlights_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mux_webhook_deliveries: {
+        Row: {
+          event_type: string
+          id: string
+          object_id: string | null
+          processed_at: string
+        }
+        Insert: {
+          event_type: string
+          id: string
+          object_id?: string | null
+          processed_at?: string
+        }
+        Update: {
+          event_type?: string
+          id?: string
+          object_id?: string | null
+          processed_at?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          event_id: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
       profiles: {
@@ -131,6 +900,7 @@ export type Database = {
           email: string
           full_name: string | null
           id: string
+          switcher_keymap: Json | null
           updated_at: string
         }
         Insert: {
@@ -139,6 +909,7 @@ export type Database = {
           email: string
           full_name?: string | null
           id: string
+          switcher_keymap?: Json | null
           updated_at?: string
         }
         Update: {
@@ -147,6 +918,7 @@ export type Database = {
           email?: string
           full_name?: string | null
           id?: string
+          switcher_keymap?: Json | null
           updated_at?: string
         }
         Relationships: []
@@ -187,6 +959,85 @@ export type Database = {
         }
         Relationships: []
       }
+      stream_destination_keys: {
+        Row: {
+          created_at: string
+          destination_id: string
+          stream_key: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          destination_id: string
+          stream_key: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          destination_id?: string
+          stream_key?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stream_destination_keys_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: true
+            referencedRelation: "stream_destinations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stream_destinations: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          event_id: string
+          id: string
+          last_error: string | null
+          mux_simulcast_target_id: string | null
+          name: string
+          rtmp_url: string
+          status: string
+          stream_key_hint: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          event_id: string
+          id?: string
+          last_error?: string | null
+          mux_simulcast_target_id?: string | null
+          name: string
+          rtmp_url: string
+          status?: string
+          stream_key_hint?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          event_id?: string
+          id?: string
+          last_error?: string | null
+          mux_simulcast_target_id?: string | null
+          name?: string
+          rtmp_url?: string
+          status?: string
+          stream_key_hint?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stream_destinations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       switch_logs: {
         Row: {
           camera_id: string
@@ -280,6 +1131,89 @@ export type Database = {
         Args: { event_id: string; user_id: string }
         Returns: boolean
       }
+      can_manage_event: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_transition_event_status: {
+        Args: {
+          _from: Database["public"]["Enums"]["event_status"]
+          _to: Database["public"]["Enums"]["event_status"]
+        }
+        Returns: boolean
+      }
+      control_scoreboard_clock: {
+        Args: { _event_id: string; _action: string; _seconds?: number }
+        Returns: {
+          away_color: string
+          away_name: string
+          away_score: number
+          clock_direction: string
+          clock_duration_seconds: number
+          clock_running: boolean
+          clock_seconds: number
+          clock_started_at: string | null
+          created_at: string
+          event_id: string
+          home_color: string
+          home_name: string
+          home_score: number
+          period: number
+          shot_clock_seconds: number | null
+          shot_clock_started_at: string | null
+          sport_state: Json
+          updated_at: string
+          visible: boolean
+        }
+      }
+      create_organization: {
+        Args: { _name: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+      }
+      get_event_role: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: Database["public"]["Enums"]["org_role"]
+      }
+      get_org_role: {
+        Args: { _org_id: string; _user_id: string }
+        Returns: Database["public"]["Enums"]["org_role"]
+      }
+      get_public_event: {
+        Args: { _event_id: string }
+        Returns: {
+          id: string
+          name: string
+          program_layout: Json
+          recording_duration_seconds: number
+          recording_started_at: string
+          recording_url: string
+          sport: string
+          status: Database["public"]["Enums"]["event_status"]
+        }[]
+      }
+      get_replay_markers: {
+        Args: { _event_id: string }
+        Returns: {
+          camera_id: string
+          kind: string
+          label: string
+          marked_at: string
+        }[]
+      }
+      has_org_role: {
+        Args: {
+          _org_id: string
+          _user_id: string
+          _roles: Database["public"]["Enums"]["org_role"][]
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -287,6 +1221,49 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_event_member: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: boolean
+      }
+      transition_event_status: {
+        Args: {
+          _event_id: string
+          _status: Database["public"]["Enums"]["event_status"]
+        }
+        Returns: {
+          auto_end: boolean
+          auto_start: boolean
+          camera_labels: string[]
+          created_at: string
+          end_grace_minutes: number
+          ended_at: string | null
+          event_code: string
+          expected_duration: number | null
+          id: string
+          mux_stream_id: string | null
+          name: string
+          organization_id: string | null
+          owner_id: string | null
+          prewarmed_at: string | null
+          program_layout: Json | null
+          program_url: string | null
+          recording_duration_seconds: number | null
+          recording_enabled: boolean | null
+          recording_started_at: string | null
+          recording_url: string | null
+          series_id: string | null
+          sport: string
+          start_time: string
+          status: Database["public"]["Enums"]["event_status"]
+          streaming_type: string | null
+          template_id: string | null
+          updated_at: string
+          viewer_count: number | null
+          youtube_broadcast_id: string | null
+          youtube_stream_id: string | null
+          youtube_stream_key: string | null
+        }
+      }
       validate_event_code: {
         Args: { code: string }
         Returns: boolean
@@ -294,7 +1271,8 @@ export type Database = {
     }
     Enums: {
       app_role: "admin" | "event_creator" | "director" | "viewer"
-      event_status: "scheduled" | "live" | "ended" | "cancelled"
+      event_status: "scheduled" | "live" | "paused" | "ended" | "cancelled"
+      org_role: "owner" | "producer" | "director" | "camera_operator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -423,7 +1401,8 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "event_creator", "director", "viewer"],
-      event_status: ["scheduled", "live", "ended", "cancelled"],
+      event_status: ["scheduled", "live", "paused", "ended", "cancelled"],
+      org_role: ["owner", "producer", "director", "camera_operator"],
     },
   },
 } as const
@@ -0,0 +1,143 @@
+// Remote camera control: commands the director sends to a camera phone over LiveKit data
+// messages, and the acknowledgements the phone sends back with its current state
+
+export type FacingMode = 'user' | 'environment';
+
+export type CameraCommand =
+  | { type: 'get_state' }
+  | { type: 'set_microphone'; enabled: boolean }
+  | { type: 'flip_camera' }
+  | { type: 'set_quality'; width: number; height: number; frameRate: number }
+  | { type: 'set_torch'; enabled: boolean }
+  | { type: 'set_exposure_lock'; locked: boolean }
+  | { type: 'set_focus_lock'; locked: boolean };
+
+export type CameraCommandType = CameraCommand['type'];
+
+// What the camera is doing now and what its device supports
+export interface CameraControlState {
+  microphoneEnabled: boolean;
+  facingMode: FacingMode;
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+  torch: boolean;
+  exposureLocked: boolean;
+  focusLocked: boolean;
+  supports: {
+    torch: boolean;
+    exposureLock: boolean;
+    focusLock: boolean;
+  };
+}
+
+// Payload of a `camera_command` data message, sent only to the target camera
+export interface CameraCommandMessage {
+  type: 'camera_command';
+  commandId: string;
+  command: CameraCommand;
+  timestamp: number;
+}
+
+// Payload of a `camera_command_ack` data message, sent only to the director who asked
+export interface CameraCommandAck {
+  type: 'camera_command_ack';
+  commandId: string;
+  commandType: CameraCommandType;
+  ok: boolean;
+  error?: string;
+  state: CameraControlState;
+  timestamp: number;
+}
+
+export interface CameraQualityPreset {
+  label: string;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const CAMERA_QUALITY_PRESETS: Record<string, CameraQualityPreset> = {
+  '1080p30': { label: '1080p 30fps', width: 1920, height: 1080, frameRate: 30 },
+  '720p60': { label: '720p 60fps', width: 1280, height: 720, frameRate: 60 },
+  '720p30': { label: '720p 30fps', width: 1280, height: 720, frameRate: 30 },
+  '480p30': { label: '480p 30fps', width: 854, height: 480, frameRate: 30 },
+};
+
+export const CAMERA_COMMAND_LABELS: Record<CameraCommandType, string> = {
+  get_state: 'Status',
+  set_microphone: 'Microphone',
+  flip_camera: 'Flip camera',
+  set_quality: 'Quality',
+  set_torch: 'Torch',
+  set_exposure_lock: 'Exposure lock',
+  set_focus_lock: 'Focus lock',
+};
+
+// How long the director waits for an acknowledgement before reporting the camera unresponsive
+export const CAMERA_COMMAND_TIMEOUT_MS = 8000;
+
+export const createCameraCommandMessage = (command: CameraCommand): CameraCommandMessage => ({
+  type: 'camera_command',
+  commandId: crypto.randomUUID(),
+  command,
+  timestamp: Date.now(),
+});
+
+export const parseCameraCommandMessage = (message: { type?: string; commandId?: unknown; command?: { type?: unknown } }) =>
+  message.type === 'camera_command' && typeof message.commandId === 'string' && typeof message.command?.type === 'string'
+    ? message as CameraCommandMessage
+    : null;
+
+export const parseCameraCommandAck = (message: { type?: string; commandId?: unknown; state?: unknown }) =>
+  message.type === 'camera_command_ack' && typeof message.commandId === 'string' && !!message.state
+    ? message as CameraCommandAck
+    : null;
+
+// Only directors can both subscribe and publish data; camera grants cannot subscribe and
+// viewer grants cannot publish data, so cameras use this to ignore other cameras
+export const isDirectorParticipant = (participant: { permissions?: { canSubscribe?: boolean; canPublishData?: boolean } } | undefined) =>
+  Boolean(participant?.permissions?.canSubscribe && participant.permissions.canPublishData);
+
+// Quality preset matching the camera's current settings, if any
+export const findQualityPreset = (state: Pick<CameraControlState, 'height' | 'frameRate'>) =>
+  Object.keys(CAMERA_QUALITY_PRESETS).find(key => {
+    const preset = CAMERA_QUALITY_PRESETS[key];
+    return preset.height === state.height && preset.frameRate === Math.round(state.frameRate ?? 0);
+  }) ?? null;
+
+// Image capture constraints (torch, exposure and focus modes) are not in the DOM typings yet
+type ImageCaptureCapabilities = MediaTrackCapabilities & {
+  torch?: boolean;
+  exposureMode?: string[];
+  focusMode?: string[];
+};
+
+const getImageCapabilities = (track: MediaStreamTrack | undefined): ImageCaptureCapabilities =>
+  (track?.getCapabilities?.() ?? {}) as ImageCaptureCapabilities;
+
+export const getDeviceSupport = (track: MediaStreamTrack | undefined): CameraControlState['supports'] => {
+  const capabilities = getImageCapabilities(track);
+  return {
+    torch: Boolean(capabilities.torch),
+    exposureLock: Boolean(capabilities.exposureMode?.includes('manual')),
+    focusLock: Boolean(capabilities.focusMode?.some(mode => mode === 'manual' || mode === 'single-shot')),
+  };
+};
+
+export const applyTorch = (track: MediaStreamTrack, enabled: boolean) =>
+  track.applyConstraints({ advanced: [{ torch: enabled } as MediaTrackConstraintSet] });
+
+export const applyExposureLock = (track: MediaStreamTrack, locked: boolean) =>
+  track.applyConstraints({
+    advanced: [{ exposureMode: locked ? 'manual' : 'continuous' } as MediaTrackConstraintSet],
+  });
+
+// Locks focus where it is now: manual if the device has it, otherwise a single autofocus pass
+export const applyFocusLock = (track: MediaStreamTrack, locked: boolean) => {
+  const focusModes = getImageCapabilities(track).focusMode ?? [];
+  const lockedMode = focusModes.includes('manual') ? 'manual' : 'single-shot';
+  return track.applyConstraints({
+    advanced: [{ focusMode: locked ? lockedMode : 'continuous' } as MediaTrackConstraintSet],
+  });
+};
@@ -0,0 +1,23 @@
+// Start times for a recurring schedule, e.g. every league game of a season
+
+export type SeriesFrequency = 'daily' | 'weekly';
+
+export interface SeriesSchedule {
+  firstStart: Date;
+  frequency: SeriesFrequency;
+  // Every N days or weeks
+  repeatInterval: number;
+  occurrences: number;
+}
+
+// Each start keeps the local time of day of the first one, so a 7pm game stays at 7pm
+// across a daylight saving change
+export const getSeriesStartTimes = ({ firstStart, frequency, repeatInterval, occurrences }: SeriesSchedule): Date[] => {
+  const stepDays = (frequency === 'weekly' ? 7 : 1) * Math.max(1, repeatInterval);
+
+  return Array.from({ length: Math.max(0, occurrences) }, (_, index) => {
+    const start = new Date(firstStart);
+    start.setDate(start.getDate() + index * stepDays);
+    return start;
+  });
+};
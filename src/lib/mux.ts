@@ -0,0 +1,10 @@
+// Helpers for Mux-hosted recordings
+
+const MUX_STREAM_URL = /^https:\/\/stream\.mux\.com\/([^/.?]+)\.m3u8/;
+
+// Playback id of a `https://stream.mux.com/<playback id>.m3u8` URL, or null for other hosts
+export const getMuxPlaybackId = (url: string | null | undefined) => url?.match(MUX_STREAM_URL)?.[1] ?? null;
+
+// Still frame from a Mux recording at the given time, used for scrubbing previews
+export const getMuxThumbnailUrl = (playbackId: string, seconds: number, width = 160) =>
+  `https://image.mux.com/${playbackId}/thumbnail.jpg?time=${Math.max(0, Math.floor(seconds))}&width=${width}`;
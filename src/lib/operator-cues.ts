@@ -0,0 +1,67 @@
+// Cues for camera operators over LiveKit data messages: tally (is this camera on program or
+// preview) and short messages from the director
+
+export type TallyState = 'program' | 'preview' | 'off';
+
+// Payload of a `tally_update` data message: the cameras on each bus
+export interface TallyMessage {
+  type: 'tally_update';
+  program: string[];
+  preview: string[];
+  timestamp: number;
+}
+
+// Payload of an `operator_message` data message, sent to one camera or all of them
+export interface OperatorMessage {
+  type: 'operator_message';
+  messageId: string;
+  text: string;
+  from: string;
+  timestamp: number;
+}
+
+export const OPERATOR_MESSAGE_MAX_LENGTH = 120;
+
+export const CANNED_OPERATOR_MESSAGES = [
+  'Stand by',
+  'You are next',
+  'Zoom in',
+  'Zoom out',
+  'Follow the ball',
+  'Hold steady',
+  'Reframe',
+  'Find the coach',
+];
+
+// Program wins over preview: a camera on both buses is on air
+export const getTallyState = (identity: string, tally: Pick<TallyMessage, 'program' | 'preview'> | null): TallyState => {
+  if (!tally) return 'off';
+  if (tally.program.includes(identity)) return 'program';
+  if (tally.preview.includes(identity)) return 'preview';
+  return 'off';
+};
+
+export const createTallyMessage = (program: string[], preview: string[]): TallyMessage => ({
+  type: 'tally_update',
+  program,
+  preview,
+  timestamp: Date.now(),
+});
+
+export const createOperatorMessage = (text: string, from: string): OperatorMessage => ({
+  type: 'operator_message',
+  messageId: crypto.randomUUID(),
+  text: text.trim().slice(0, OPERATOR_MESSAGE_MAX_LENGTH),
+  from,
+  timestamp: Date.now(),
+});
+
+export const parseTallyMessage = (message: { type?: string; program?: unknown; preview?: unknown }) =>
+  message.type === 'tally_update' && Array.isArray(message.program) && Array.isArray(message.preview)
+    ? message as TallyMessage
+    : null;
+
+export const parseOperatorMessage = (message: { type?: string; messageId?: unknown; text?: unknown }) =>
+  message.type === 'operator_message' && typeof message.messageId === 'string' && typeof message.text === 'string'
+    ? message as OperatorMessage
+    : null;
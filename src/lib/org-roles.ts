@@ -0,0 +1,18 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type OrgRole = Database['public']['Enums']['org_role'];
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Owner',
+  producer: 'Producer',
+  director: 'Director',
+  camera_operator: 'Camera Operator'
+};
+
+// Mirrors the organization-members function: owners assign any role, producers staff directors and camera operators
+export const ASSIGNABLE_ROLES: Record<OrgRole, OrgRole[]> = {
+  owner: ['owner', 'producer', 'director', 'camera_operator'],
+  producer: ['director', 'camera_operator'],
+  director: [],
+  camera_operator: []
+};
@@ -0,0 +1,214 @@
+// Program output layouts shared by the director, viewers and the egress template
+
+export type ProgramLayoutType = 'single' | 'pip' | 'side_by_side' | 'grid';
+
+export type PipPosition = 'top_left' | 'top_right' | 'bottom_left' | 'bottom_right';
+
+export interface ProgramLayout {
+  type: ProgramLayoutType;
+  // Camera participant identities in slot order, main camera first
+  cameras: string[];
+  pipPosition?: PipPosition;
+}
+
+export type TransitionType = 'cut' | 'mix' | 'dip_to_black';
+
+export interface ProgramTransition {
+  type: TransitionType;
+  durationMs: number;
+}
+
+// Payload of a `layout_update` data message
+export interface ProgramLayoutUpdate {
+  layout: ProgramLayout;
+  transition: ProgramTransition;
+}
+
+export interface LayoutTile {
+  identity: string;
+  // Position and size as percentages of the 16:9 program frame
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  inset: boolean;
+}
+
+export const PROGRAM_LAYOUTS: Record<ProgramLayoutType, { label: string; slots: string[] }> = {
+  single: { label: 'Single', slots: ['Camera'] },
+  pip: { label: 'Picture-in-Picture', slots: ['Main', 'Inset'] },
+  side_by_side: { label: 'Side by Side', slots: ['Left', 'Right'] },
+  grid: { label: '2x2 Grid', slots: ['Top left', 'Top right', 'Bottom left', 'Bottom right'] },
+};
+
+export const PIP_POSITIONS: Record<PipPosition, string> = {
+  top_left: 'Top left',
+  top_right: 'Top right',
+  bottom_left: 'Bottom left',
+  bottom_right: 'Bottom right',
+};
+
+export const TRANSITIONS: Record<TransitionType, string> = {
+  cut: 'Cut',
+  mix: 'Mix',
+  dip_to_black: 'Dip to black',
+};
+
+export const MIN_TRANSITION_MS = 200;
+export const MAX_TRANSITION_MS = 3000;
+
+export const CUT_TRANSITION: ProgramTransition = { type: 'cut', durationMs: 0 };
+
+// Participant that publishes instant replays from the director dashboard
+export const REPLAY_IDENTITY = 'replay';
+
+const PIP_SIZE = 28;
+const PIP_MARGIN = 3;
+
+export const createSingleLayout = (identity: string): ProgramLayout => ({
+  type: 'single',
+  cameras: [identity],
+});
+
+// Participants whose video can go to program: cameras and the replay source
+export const isProgramSource = (identity: string) =>
+  identity.startsWith('camera_') || identity === REPLAY_IDENTITY;
+
+export const isProgramLayout = (value: unknown): value is ProgramLayout => {
+  if (!value || typeof value !== 'object') return false;
+
+  const layout = value as Partial<ProgramLayout>;
+  return (
+    typeof layout.type === 'string' &&
+    layout.type in PROGRAM_LAYOUTS &&
+    Array.isArray(layout.cameras) &&
+    layout.cameras.every(camera => typeof camera === 'string') &&
+    (layout.pipPosition === undefined || layout.pipPosition in PIP_POSITIONS)
+  );
+};
+
+export const isProgramTransition = (value: unknown): value is ProgramTransition => {
+  if (!value || typeof value !== 'object') return false;
+
+  const transition = value as Partial<ProgramTransition>;
+  return (
+    typeof transition.type === 'string' &&
+    transition.type in TRANSITIONS &&
+    typeof transition.durationMs === 'number' &&
+    transition.durationMs >= 0 &&
+    transition.durationMs <= MAX_TRANSITION_MS
+  );
+};
+
+// Reads a `layout_update` data message, including the legacy single-camera form without a transition
+export const parseLayoutMessage = (message: {
+  type?: string;
+  layout?: unknown;
+  activeCamera?: string;
+  transition?: unknown;
+}): ProgramLayoutUpdate | null => {
+  if (message.type !== 'layout_update') return null;
+
+  const layout = isProgramLayout(message.layout)
+    ? message.layout
+    : message.activeCamera ? createSingleLayout(message.activeCamera) : null;
+
+  if (!layout) return null;
+
+  return {
+    layout,
+    transition: isProgramTransition(message.transition) ? message.transition : CUT_TRANSITION,
+  };
+};
+
+// Stable key for comparing layouts by content
+export const getLayoutKey = (layout: ProgramLayout | null) =>
+  layout ? `${layout.type}:${layout.pipPosition || ''}:${layout.cameras.join(',')}` : '';
+
+// Switches the layout to a new layout type, keeping the cameras already assigned to its slots
+export const changeLayoutType = (layout: ProgramLayout, type: ProgramLayoutType, available: string[]): ProgramLayout => {
+  const slotCount = PROGRAM_LAYOUTS[type].slots.length;
+  const cameras = [...layout.cameras];
+
+  for (const identity of available) {
+    if (cameras.length >= slotCount) break;
+    if (!cameras.includes(identity)) cameras.push(identity);
+  }
+
+  return {
+    type,
+    cameras: cameras.slice(0, slotCount),
+    pipPosition: type === 'pip' ? layout.pipPosition || 'bottom_right' : undefined,
+  };
+};
+
+// Puts a camera in the given slot, swapping it with the slot it already occupied
+export const assignLayoutSlot = (layout: ProgramLayout, slot: number, identity: string): ProgramLayout => {
+  const cameras = [...layout.cameras];
+  const previousSlot = cameras.indexOf(identity);
+
+  if (previousSlot !== -1) {
+    cameras[previousSlot] = cameras[slot];
+  }
+  cameras[slot] = identity;
+
+  return { ...layout, cameras: cameras.filter(Boolean) };
+};
+
+// Drops cameras that have left the room; falls back to the first available camera
+export const resolveLayout = (layout: ProgramLayout | null, available: string[]): ProgramLayout | null => {
+  const cameras = layout?.cameras.filter(identity => available.includes(identity)) || [];
+
+  if (layout && cameras.length > 0) {
+    return { ...layout, cameras };
+  }
+
+  // Fall back to a camera; the replay source is only on program while a replay plays
+  const fallback = available.find(identity => identity !== REPLAY_IDENTITY);
+  return fallback ? createSingleLayout(fallback) : null;
+};
+
+export const getLayoutTiles = (layout: ProgramLayout): LayoutTile[] => {
+  const [main, second] = layout.cameras;
+
+  switch (layout.type) {
+    case 'pip': {
+      const tiles: LayoutTile[] = [{ identity: main, left: 0, top: 0, width: 100, height: 100, inset: false }];
+      if (second) {
+        const position = layout.pipPosition || 'bottom_right';
+        tiles.push({
+          identity: second,
+          left: position.endsWith('left') ? PIP_MARGIN : 100 - PIP_SIZE - PIP_MARGIN,
+          top: position.startsWith('top') ? PIP_MARGIN : 100 - PIP_SIZE - PIP_MARGIN,
+          width: PIP_SIZE,
+          height: PIP_SIZE,
+          inset: true,
+        });
+      }
+      return tiles;
+    }
+
+    case 'side_by_side':
+      return layout.cameras.slice(0, 2).map((identity, index) => ({
+        identity,
+        left: index * 50,
+        top: 0,
+        width: 50,
+        height: 100,
+        inset: false,
+      }));
+
+    case 'grid':
+      return layout.cameras.slice(0, 4).map((identity, index) => ({
+        identity,
+        left: (index % 2) * 50,
+        top: Math.floor(index / 2) * 50,
+        width: 50,
+        height: 50,
+        inset: false,
+      }));
+
+    default:
+      return main ? [{ identity: main, left: 0, top: 0, width: 100, height: 100, inset: false }] : [];
+  }
+};
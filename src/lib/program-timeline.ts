@@ -0,0 +1,89 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// Which camera was on program when, rebuilt from the switch log after the fact
+
+export type SwitchLog = Pick<Tables<'switch_logs'>, 'camera_id' | 'timestamp'>;
+
+export interface TimelineCamera {
+  id: string;
+  device_label: string;
+}
+
+export interface TimelineSegment {
+  cameraId: string;
+  cameraLabel: string;
+  // Offsets in seconds from the start of the timeline
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface ProgramTimeline {
+  startedAt: string;
+  durationSeconds: number;
+  segments: TimelineSegment[];
+}
+
+interface TimelineRange {
+  // Defaults to the first switch
+  startedAt?: string | null;
+  // Defaults to now, for an event that is still on air
+  endedAt?: string | null;
+}
+
+// Builds the program timeline from the event's switches. Switches to the camera already on
+// program are folded into one segment; stretches before the first switch are left as a gap.
+export const buildProgramTimeline = (
+  switchLogs: SwitchLog[],
+  cameras: TimelineCamera[],
+  range: TimelineRange = {},
+): ProgramTimeline | null => {
+  const logs = [...switchLogs].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+  if (logs.length === 0) return null;
+
+  const startedAt = new Date(range.startedAt || logs[0].timestamp).getTime();
+  const endedAt = range.endedAt ? new Date(range.endedAt).getTime() : Date.now();
+  if (endedAt <= startedAt) return null;
+
+  const labels = new Map(cameras.map(camera => [camera.id, camera.device_label]));
+  const segments: TimelineSegment[] = [];
+
+  logs.forEach((log, index) => {
+    const cutAt = Math.max(new Date(log.timestamp).getTime(), startedAt);
+    const nextCutAt = index < logs.length - 1 ? new Date(logs[index + 1].timestamp).getTime() : endedAt;
+    const segmentEnd = Math.min(nextCutAt, endedAt);
+    if (segmentEnd <= cutAt) return;
+
+    const startSeconds = (cutAt - startedAt) / 1000;
+    const endSeconds = (segmentEnd - startedAt) / 1000;
+    const previous = segments[segments.length - 1];
+
+    if (previous?.cameraId === log.camera_id && previous.endSeconds === startSeconds) {
+      previous.endSeconds = endSeconds;
+      return;
+    }
+
+    segments.push({
+      cameraId: log.camera_id,
+      cameraLabel: labels.get(log.camera_id) || 'Unknown camera',
+      startSeconds,
+      endSeconds,
+    });
+  });
+
+  return {
+    startedAt: new Date(startedAt).toISOString(),
+    durationSeconds: (endedAt - startedAt) / 1000,
+    segments,
+  };
+};
+
+// Cameras that appear on the timeline, in order of first use
+export const getTimelineCameras = (timeline: ProgramTimeline) => {
+  const cameras = new Map<string, string>();
+  timeline.segments.forEach(segment => {
+    if (!cameras.has(segment.cameraId)) cameras.set(segment.cameraId, segment.cameraLabel);
+  });
+  return [...cameras].map(([id, label]) => ({ id, label }));
+};
@@ -0,0 +1,127 @@
+// Rolling recording of a camera feed for instant replay
+
+export interface ReplaySegment {
+  blob: Blob;
+  // Wall-clock times (ms) covered by the segment
+  startedAt: number;
+  endedAt: number;
+}
+
+// A marked replay: the recorded segments plus in/out points in wall-clock time
+export interface ReplayClip {
+  identity: string;
+  segments: ReplaySegment[];
+  inAt: number;
+  outAt: number;
+}
+
+export const REPLAY_BUFFER_OPTIONS = [10, 20, 30, 60];
+export const DEFAULT_REPLAY_BUFFER_SECONDS = 30;
+
+// Each segment is a self-contained recording, so old ones can be dropped without breaking playback
+const SEGMENT_MS = 4000;
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+export const isReplaySupported = () => typeof MediaRecorder !== 'undefined';
+
+const getMimeType = () => MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export class CameraReplayBuffer {
+  private segments: ReplaySegment[] = [];
+  private recorder: MediaRecorder | null = null;
+  private recorderStartedAt = 0;
+  private rollTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingStop: Promise<void> | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly track: MediaStreamTrack,
+    private bufferSeconds = DEFAULT_REPLAY_BUFFER_SECONDS
+  ) {}
+
+  start() {
+    this.stopped = false;
+    this.startRecorder();
+    this.rollTimer = setInterval(() => {
+      this.roll();
+    }, SEGMENT_MS);
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.rollTimer) {
+      clearInterval(this.rollTimer);
+      this.rollTimer = null;
+    }
+    if (this.recorder?.state === 'recording') {
+      this.recorder.stop();
+    }
+    this.recorder = null;
+    this.segments = [];
+  }
+
+  setBufferSeconds(seconds: number) {
+    this.bufferSeconds = seconds;
+    this.prune();
+  }
+
+  // Oldest moment that can still be replayed
+  getBufferStart() {
+    return this.segments[0]?.startedAt ?? this.recorderStartedAt;
+  }
+
+  // Closes the segment in progress so everything up to now is replayable
+  async flush() {
+    await this.roll();
+    return [...this.segments];
+  }
+
+  private startRecorder() {
+    if (this.stopped || this.track.readyState === 'ended') return;
+
+    const mimeType = getMimeType();
+    const recorder = new MediaRecorder(new MediaStream([this.track]), mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    this.pendingStop = new Promise(resolve => {
+      recorder.onstop = () => {
+        if (chunks.length > 0 && !this.stopped) {
+          this.segments.push({
+            blob: new Blob(chunks, { type: recorder.mimeType || mimeType }),
+            startedAt,
+            endedAt: Date.now()
+          });
+          this.prune();
+        }
+        resolve();
+      };
+    });
+
+    recorder.start();
+    this.recorder = recorder;
+    this.recorderStartedAt = startedAt;
+  }
+
+  private async roll() {
+    const previous = this.recorder;
+    const previousStop = this.pendingStop;
+
+    this.startRecorder();
+
+    if (previous?.state === 'recording') {
+      previous.stop();
+      await previousStop;
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - this.bufferSeconds * 1000;
+    this.segments = this.segments.filter(segment => segment.endedAt >= cutoff);
+  }
+}
@@ -0,0 +1,54 @@
+import type { Database } from '@/integrations/supabase/types';
+import { buildProgramTimeline } from '@/lib/program-timeline';
+
+// Chapter markers for the replay of an ended event, from its switch log and highlights
+
+export type ReplayMarker = Database['public']['Functions']['get_replay_markers']['Returns'][number];
+
+export interface ReplayChapter {
+  kind: 'camera' | 'highlight';
+  title: string;
+  // Offset into the recording
+  seconds: number;
+}
+
+interface RecordingSpan {
+  startedAt: string;
+  durationSeconds: number;
+}
+
+// Camera chapters follow the program timeline, so repeated switches to one camera make a single
+// chapter; highlights become chapters of their own. Markers outside the recording are dropped.
+export const buildReplayChapters = (markers: ReplayMarker[], recording: RecordingSpan): ReplayChapter[] => {
+  const startedAt = new Date(recording.startedAt).getTime();
+  const endedAt = new Date(startedAt + recording.durationSeconds * 1000).toISOString();
+
+  const switches = markers.filter(marker => marker.kind === 'switch' && marker.camera_id);
+  const cameras = switches.map(marker => ({ id: marker.camera_id, device_label: marker.label }));
+  const timeline = buildProgramTimeline(
+    switches.map(marker => ({ camera_id: marker.camera_id, timestamp: marker.marked_at })),
+    cameras,
+    { startedAt: recording.startedAt, endedAt },
+  );
+
+  const cameraChapters: ReplayChapter[] = (timeline?.segments || []).map(segment => ({
+    kind: 'camera',
+    title: segment.cameraLabel,
+    seconds: segment.startSeconds,
+  }));
+
+  const highlightChapters: ReplayChapter[] = markers
+    .filter(marker => marker.kind === 'highlight')
+    .map(marker => ({
+      kind: 'highlight' as const,
+      title: marker.label || 'Highlight',
+      seconds: (new Date(marker.marked_at).getTime() - startedAt) / 1000,
+    }))
+    .filter(chapter => chapter.seconds >= 0 && chapter.seconds <= recording.durationSeconds);
+
+  return [...cameraChapters, ...highlightChapters].sort((a, b) => a.seconds - b.seconds);
+};
+
+// Chapter playing at the given time: the last one that started at or before it
+export const getChapterAt = (chapters: ReplayChapter[], seconds: number) =>
+  [...chapters].reverse().find(chapter => chapter.seconds <= seconds) ?? null;
@@ -0,0 +1,168 @@
+import type { ReplayClip } from '@/lib/replay-buffer';
+
+// Draws replays onto a canvas whose stream is published to the room as the replay source
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 0.75, 1];
+export const DEFAULT_REPLAY_SPEED = 0.5;
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+// Half the bumper wipes across to cover the frame, the other half wipes off
+const BUMPER_MS = 900;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class ReplayRenderer {
+  readonly track: MediaStreamTrack;
+  private readonly canvas: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D;
+  private readonly video: HTMLVideoElement;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  // Bumper band position: 0 off the left edge, 1 covering the frame, 2 off the right edge.
+  // Starts covered, so a cued replay source shows the replay slate.
+  private bumperProgress = 1;
+  private speed = 1;
+  private cancelled = false;
+
+  constructor(private readonly accentColor = '#dc2626') {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = WIDTH;
+    this.canvas.height = HEIGHT;
+    this.context = this.canvas.getContext('2d')!;
+    this.video = document.createElement('video');
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.track = this.canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+    this.startDrawing();
+  }
+
+  // Plays the clip at the given speed between bumpers; resolves once the outgoing bumper covers the frame
+  async play(clip: ReplayClip, speed: number) {
+    this.cancelled = false;
+    this.speed = speed;
+    // Start from black rather than the last frame of the previous replay
+    this.video.removeAttribute('src');
+    this.video.load();
+
+    // Already covered when replays run back to back
+    if (this.bumperProgress !== 1) {
+      await this.animateBumper(0, 1);
+    }
+    let first = true;
+    for (const segment of clip.segments) {
+      if (segment.endedAt <= clip.inAt || segment.startedAt >= clip.outAt) continue;
+
+      const from = Math.max(0, clip.inAt - segment.startedAt) / 1000;
+      const to = (Math.min(clip.outAt, segment.endedAt) - segment.startedAt) / 1000;
+      const playing = this.playSegment(segment.blob, from, to);
+
+      if (first) {
+        await wait(100);
+        await this.animateBumper(1, 2);
+        first = false;
+      }
+      await playing;
+      if (this.cancelled) break;
+    }
+    await this.animateBumper(0, 1);
+  }
+
+  // Stops playback; the pending play() resolves with the frame covered
+  cancel() {
+    this.cancelled = true;
+    this.video.pause();
+  }
+
+  dispose() {
+    this.cancel();
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer);
+      this.drawTimer = null;
+    }
+    this.track.stop();
+    this.video.removeAttribute('src');
+  }
+
+  private startDrawing() {
+    if (this.drawTimer) return;
+    // An interval rather than requestAnimationFrame so replays keep rendering in a background tab
+    this.drawTimer = setInterval(() => this.draw(), 1000 / FRAME_RATE);
+  }
+
+  private playSegment(blob: Blob, from: number, to: number) {
+    return new Promise<void>(resolve => {
+      const url = URL.createObjectURL(blob);
+      const finish = () => {
+        this.video.removeEventListener('timeupdate', handleTimeUpdate);
+        this.video.removeEventListener('ended', finish);
+        this.video.removeEventListener('error', finish);
+        this.video.pause();
+        URL.revokeObjectURL(url);
+        resolve();
+      };
+      const handleTimeUpdate = () => {
+        if (this.cancelled || this.video.currentTime >= to) finish();
+      };
+
+      this.video.addEventListener('timeupdate', handleTimeUpdate);
+      this.video.addEventListener('ended', finish);
+      this.video.addEventListener('error', finish);
+      this.video.src = url;
+      this.video.currentTime = from;
+      this.video.playbackRate = this.speed;
+      this.video.play().catch(finish);
+    });
+  }
+
+  private async animateBumper(from: number, to: number) {
+    const startedAt = Date.now();
+    const duration = BUMPER_MS / 2;
+
+    while (Date.now() - startedAt < duration) {
+      this.bumperProgress = from + (to - from) * ((Date.now() - startedAt) / duration);
+      await wait(1000 / FRAME_RATE);
+    }
+    this.bumperProgress = to;
+  }
+
+  private draw() {
+    const { context } = this;
+
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, WIDTH, HEIGHT);
+    if (this.video.readyState >= 2) {
+      context.drawImage(this.video, 0, 0, WIDTH, HEIGHT);
+    }
+
+    // Replay bug while the clip is showing
+    if (this.bumperProgress > 1.5 || this.bumperProgress < 0.5) {
+      context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      context.fillRect(WIDTH - 220, 30, 190, 44);
+      context.fillStyle = '#fff';
+      context.font = 'bold 24px sans-serif';
+      context.textBaseline = 'middle';
+      context.fillText(this.speed < 1 ? `REPLAY ${this.speed}x` : 'REPLAY', WIDTH - 205, 52);
+    }
+
+    // Bumper band, skewed like a wipe, with the replay title
+    const x = (this.bumperProgress - 1) * (WIDTH + 600) - 100;
+    if (this.bumperProgress > 0 && this.bumperProgress < 2) {
+      context.save();
+      context.fillStyle = this.accentColor;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x + WIDTH + 400, 0);
+      context.lineTo(x + WIDTH + 200, HEIGHT);
+      context.lineTo(x - 200, HEIGHT);
+      context.closePath();
+      context.fill();
+      context.fillStyle = '#fff';
+      context.font = 'bold 96px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText('REPLAY', x + WIDTH / 2 + 100, HEIGHT / 2);
+      context.restore();
+    }
+  }
+}
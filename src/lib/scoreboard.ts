@@ -0,0 +1,52 @@
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+
+export type Scoreboard = Tables<'event_scoreboards'>;
+
+// Clock state is changed through control_scoreboard_clock, not direct writes
+export type ScoreboardChanges = Omit<
+  TablesUpdate<'event_scoreboards'>,
+  'event_id' | 'clock_started_at' | 'clock_running' | 'clock_seconds' | 'shot_clock_seconds' | 'shot_clock_started_at'
+>;
+
+export type ScoreboardTeam = 'home' | 'away';
+
+// Current game clock in whole seconds; a running clock advances from clock_started_at
+export const getClockSeconds = (scoreboard: Scoreboard, now = Date.now()) => {
+  if (!scoreboard.clock_running || !scoreboard.clock_started_at) {
+    return scoreboard.clock_seconds;
+  }
+
+  const elapsed = Math.max(0, Math.floor((now - new Date(scoreboard.clock_started_at).getTime()) / 1000));
+  return scoreboard.clock_direction === 'down'
+    ? Math.max(0, scoreboard.clock_seconds - elapsed)
+    : scoreboard.clock_seconds + elapsed;
+};
+
+// Shot clock counts down while the game clock runs; null when the sport has no shot clock
+export const getShotClockSeconds = (scoreboard: Scoreboard, now = Date.now()) => {
+  if (scoreboard.shot_clock_seconds === null) return null;
+  if (!scoreboard.clock_running || !scoreboard.shot_clock_started_at) {
+    return scoreboard.shot_clock_seconds;
+  }
+
+  const elapsed = Math.max(0, Math.floor((now - new Date(scoreboard.shot_clock_started_at).getTime()) / 1000));
+  return Math.max(0, scoreboard.shot_clock_seconds - elapsed);
+};
+
+export const formatClock = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${hours > 0 ? String(minutes).padStart(2, '0') : minutes}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Parses `mm:ss`, `h:mm:ss` or plain seconds; null when the value is not a valid clock
+export const parseClock = (value: string) => {
+  const parts = value.trim().split(':');
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) {
+    return null;
+  }
+
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
@@ -0,0 +1,372 @@
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import type { Scoreboard, ScoreboardChanges, ScoreboardTeam } from '@/lib/scoreboard';
+
+// Scoring rules for the sports offered when creating an event (`events.sport`)
+export type SportId = 'soccer' | 'basketball' | 'football' | 'baseball' | 'tennis' | 'volleyball' | 'other';
+
+// Free points in fixed increments, or scores derived from rallies, tennis points or pitches
+export type ScoringMode = 'points' | 'volleyball' | 'tennis' | 'baseball';
+
+export interface SportRules {
+  label: string;
+  scoring: ScoringMode;
+  periodName: string;
+  periodAbbreviation: string;
+  // Regulation periods; for volleyball and tennis, the number of sets in a best-of match
+  periods: number;
+  // Whether play can go past the regulation periods (overtime, extra innings)
+  extraPeriods: boolean;
+  // Label for periods past regulation; without one they keep counting up
+  overtimeAbbreviation?: string;
+  clock: { direction: 'up' | 'down'; periodSeconds: number } | null;
+  // Shot clock reset values, full reset first; empty when the sport has no shot clock
+  shotClockResets: number[];
+  scoreIncrements: number[];
+}
+
+export const SPORT_RULES: Record<SportId, SportRules> = {
+  soccer: {
+    label: 'Soccer',
+    scoring: 'points',
+    periodName: 'Half',
+    periodAbbreviation: 'H',
+    periods: 2,
+    extraPeriods: true,
+    overtimeAbbreviation: 'ET',
+    clock: { direction: 'up', periodSeconds: 45 * 60 },
+    shotClockResets: [],
+    scoreIncrements: [1]
+  },
+  basketball: {
+    label: 'Basketball',
+    scoring: 'points',
+    periodName: 'Quarter',
+    periodAbbreviation: 'Q',
+    periods: 4,
+    extraPeriods: true,
+    overtimeAbbreviation: 'OT',
+    clock: { direction: 'down', periodSeconds: 10 * 60 },
+    shotClockResets: [24, 14],
+    scoreIncrements: [1, 2, 3]
+  },
+  football: {
+    label: 'Football',
+    scoring: 'points',
+    periodName: 'Quarter',
+    periodAbbreviation: 'Q',
+    periods: 4,
+    extraPeriods: true,
+    overtimeAbbreviation: 'OT',
+    clock: { direction: 'down', periodSeconds: 15 * 60 },
+    shotClockResets: [],
+    // Extra point, safety or two-point conversion, field goal, touchdown
+    scoreIncrements: [1, 2, 3, 6]
+  },
+  baseball: {
+    label: 'Baseball',
+    scoring: 'baseball',
+    periodName: 'Inning',
+    periodAbbreviation: '',
+    periods: 9,
+    extraPeriods: true,
+    clock: null,
+    shotClockResets: [],
+    scoreIncrements: [1]
+  },
+  tennis: {
+    label: 'Tennis',
+    scoring: 'tennis',
+    periodName: 'Set',
+    periodAbbreviation: 'Set ',
+    periods: 3,
+    extraPeriods: false,
+    clock: null,
+    shotClockResets: [],
+    scoreIncrements: []
+  },
+  volleyball: {
+    label: 'Volleyball',
+    scoring: 'volleyball',
+    periodName: 'Set',
+    periodAbbreviation: 'Set ',
+    periods: 5,
+    extraPeriods: false,
+    clock: null,
+    shotClockResets: [],
+    scoreIncrements: []
+  },
+  other: {
+    label: 'Other',
+    scoring: 'points',
+    periodName: 'Period',
+    periodAbbreviation: 'P',
+    periods: 1,
+    extraPeriods: true,
+    clock: { direction: 'up', periodSeconds: 0 },
+    shotClockResets: [],
+    scoreIncrements: [1]
+  }
+};
+
+export const getSportRules = (sport: string | null | undefined): SportRules =>
+  SPORT_RULES[sport as SportId] || SPORT_RULES.other;
+
+interface TeamCount {
+  home: number;
+  away: number;
+}
+
+// Scoring state that doesn't fit the generic scoreboard columns, stored on `sport_state`.
+// For volleyball and tennis, home_score/away_score hold sets won.
+export interface SportState {
+  // Completed sets: volleyball points or tennis games per team
+  sets: TeamCount[];
+  // Current set: volleyball points or tennis points in the current game
+  points: TeamCount;
+  games: TeamCount;
+  tiebreak: boolean;
+  half: 'top' | 'bottom';
+  balls: number;
+  strikes: number;
+  outs: number;
+  // Scoreboard before the last scoring action, for a single-step undo
+  previous?: ScoringSnapshot | null;
+}
+
+interface ScoringSnapshot {
+  home_score: number;
+  away_score: number;
+  period: number;
+  sport_state: Omit<SportState, 'previous'>;
+}
+
+export type Pitch = 'ball' | 'strike' | 'foul' | 'out';
+
+export type ScoringAction =
+  | { type: 'score'; team: ScoreboardTeam; points: number }
+  | { type: 'point'; team: ScoreboardTeam }
+  | { type: 'pitch'; pitch: Pitch }
+  | { type: 'undo' };
+
+const INITIAL_SPORT_STATE: SportState = {
+  sets: [],
+  points: { home: 0, away: 0 },
+  games: { home: 0, away: 0 },
+  tiebreak: false,
+  half: 'top',
+  balls: 0,
+  strikes: 0,
+  outs: 0,
+  previous: null
+};
+
+export const getSportState = (scoreboard: Scoreboard | null): SportState => {
+  const stored = scoreboard?.sport_state;
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return INITIAL_SPORT_STATE;
+  return { ...INITIAL_SPORT_STATE, ...(stored as unknown as Partial<SportState>) };
+};
+
+// Column values for a new scoreboard, so the clock and state start out right for the sport
+export const getScoreboardDefaults = (rules: SportRules): Omit<TablesInsert<'event_scoreboards'>, 'event_id'> => ({
+  clock_direction: rules.clock?.direction || 'up',
+  clock_duration_seconds: rules.clock?.direction === 'down' ? rules.clock.periodSeconds : 0,
+  clock_seconds: rules.clock?.direction === 'down' ? rules.clock.periodSeconds : 0,
+  shot_clock_seconds: rules.shotClockResets[0] ?? null,
+  sport_state: INITIAL_SPORT_STATE as unknown as Json
+});
+
+const otherTeam = (team: ScoreboardTeam): ScoreboardTeam => (team === 'home' ? 'away' : 'home');
+
+const setsWon = (sets: TeamCount[], team: ScoreboardTeam) =>
+  sets.filter(set => set[team] > set[otherTeam(team)]).length;
+
+const setsToWin = (rules: SportRules) => Math.ceil(rules.periods / 2);
+
+export const isMatchOver = (rules: SportRules, scoreboard: Scoreboard | null) => {
+  if (rules.scoring !== 'volleyball' && rules.scoring !== 'tennis') return false;
+  const { sets } = getSportState(scoreboard);
+  return setsWon(sets, 'home') >= setsToWin(rules) || setsWon(sets, 'away') >= setsToWin(rules);
+};
+
+// Reached the target with a two-point (or two-game) lead
+const hasWon = (count: TeamCount, team: ScoreboardTeam, target: number) =>
+  count[team] >= target && count[team] - count[otherTeam(team)] >= 2;
+
+// Closes the current set and moves to the next one unless the match is decided
+const completeSet = (rules: SportRules, scoreboard: Scoreboard, state: SportState, set: TeamCount) => {
+  const sets = [...state.sets, set];
+  const matchOver = setsWon(sets, 'home') >= setsToWin(rules) || setsWon(sets, 'away') >= setsToWin(rules);
+
+  return {
+    changes: {
+      home_score: setsWon(sets, 'home'),
+      away_score: setsWon(sets, 'away'),
+      period: matchOver ? scoreboard.period : scoreboard.period + 1
+    },
+    state: { ...state, sets, points: { home: 0, away: 0 }, games: { home: 0, away: 0 }, tiebreak: false }
+  };
+};
+
+const scoreVolleyballPoint = (rules: SportRules, scoreboard: Scoreboard, state: SportState, team: ScoreboardTeam) => {
+  const points = { ...state.points, [team]: state.points[team] + 1 };
+  // The deciding set is played to 15
+  const target = scoreboard.period >= rules.periods ? 15 : 25;
+
+  if (hasWon(points, team, target)) {
+    return completeSet(rules, scoreboard, state, points);
+  }
+  return { changes: {}, state: { ...state, points } };
+};
+
+const scoreTennisPoint = (rules: SportRules, scoreboard: Scoreboard, state: SportState, team: ScoreboardTeam) => {
+  const points = { ...state.points, [team]: state.points[team] + 1 };
+
+  if (!hasWon(points, team, state.tiebreak ? 7 : 4)) {
+    return { changes: {}, state: { ...state, points } };
+  }
+
+  const games = { ...state.games, [team]: state.games[team] + 1 };
+  if (state.tiebreak || hasWon(games, team, 6)) {
+    return completeSet(rules, scoreboard, state, games);
+  }
+
+  return {
+    changes: {},
+    state: { ...state, points: { home: 0, away: 0 }, games, tiebreak: games.home === 6 && games.away === 6 }
+  };
+};
+
+const recordPitch = (scoreboard: Scoreboard, state: SportState, pitch: Pitch) => {
+  const newCount = { balls: 0, strikes: 0 };
+  let { balls, strikes, outs } = state;
+
+  if (pitch === 'ball') {
+    balls += 1;
+    // Ball four is a walk
+    if (balls === 4) ({ balls, strikes } = newCount);
+  } else if (pitch === 'foul') {
+    // A foul can't be strike three
+    strikes = Math.min(2, strikes + 1);
+  } else {
+    const strikeout = pitch === 'strike' && strikes === 2;
+    if (pitch === 'strike' && !strikeout) {
+      strikes += 1;
+    } else {
+      outs += 1;
+      ({ balls, strikes } = newCount);
+    }
+  }
+
+  if (outs < 3) {
+    return { changes: {}, state: { ...state, balls, strikes, outs } };
+  }
+
+  // Third out ends the half inning; the inning advances after the bottom half
+  return {
+    changes: state.half === 'bottom' ? { period: scoreboard.period + 1 } : {},
+    state: { ...state, ...newCount, outs: 0, half: state.half === 'top' ? 'bottom' : 'top' } as SportState
+  };
+};
+
+const scorePoints = (rules: SportRules, scoreboard: Scoreboard, state: SportState, team: ScoreboardTeam, points: number) => {
+  if (!rules.scoreIncrements.includes(Math.abs(points))) {
+    throw new Error(`${rules.label} scores change by ${rules.scoreIncrements.join(', ')}`);
+  }
+  if (rules.scoring === 'baseball' && points > 0 && team !== (state.half === 'top' ? 'away' : 'home')) {
+    throw new Error('Only the batting team can score');
+  }
+
+  const score = scoreboard[`${team}_score`] + points;
+  if (score < 0) {
+    throw new Error("Score can't go below zero");
+  }
+  return { changes: { [`${team}_score`]: score }, state };
+};
+
+// Scoreboard changes for a scoring action, or an error when the action is impossible for the sport
+export const applyScoringAction = (
+  rules: SportRules,
+  scoreboard: Scoreboard,
+  action: ScoringAction
+): ScoreboardChanges => {
+  const { previous, ...state } = getSportState(scoreboard);
+
+  if (action.type === 'undo') {
+    if (!previous) throw new Error('Nothing to undo');
+    return {
+      home_score: previous.home_score,
+      away_score: previous.away_score,
+      period: previous.period,
+      sport_state: { ...previous.sport_state, previous: null } as unknown as Json
+    };
+  }
+
+  let result: { changes: ScoreboardChanges; state: SportState };
+  if (action.type === 'score' && (rules.scoring === 'points' || rules.scoring === 'baseball')) {
+    result = scorePoints(rules, scoreboard, state, action.team, action.points);
+  } else if (action.type === 'point' && (rules.scoring === 'volleyball' || rules.scoring === 'tennis')) {
+    if (isMatchOver(rules, scoreboard)) throw new Error('The match is over');
+    result = rules.scoring === 'volleyball'
+      ? scoreVolleyballPoint(rules, scoreboard, state, action.team)
+      : scoreTennisPoint(rules, scoreboard, state, action.team);
+  } else if (action.type === 'pitch' && rules.scoring === 'baseball') {
+    result = recordPitch(scoreboard, state, action.pitch);
+  } else {
+    throw new Error(`${rules.label} doesn't use that kind of scoring`);
+  }
+
+  const snapshot: ScoringSnapshot = {
+    home_score: scoreboard.home_score,
+    away_score: scoreboard.away_score,
+    period: scoreboard.period,
+    sport_state: state
+  };
+
+  return {
+    ...result.changes,
+    sport_state: { ...result.state, previous: snapshot } as unknown as Json
+  };
+};
+
+// Checks direct edits (period steppers, team details) against the sport's rules
+export const validateScoreboardChanges = (rules: SportRules, changes: ScoreboardChanges) => {
+  if (changes.period !== undefined) {
+    if (changes.period < 1) return 'Period must be at least 1';
+    if (!rules.extraPeriods && changes.period > rules.periods) {
+      return `${rules.label} has at most ${rules.periods} ${rules.periodName.toLowerCase()}s`;
+    }
+  }
+
+  for (const team of ['home', 'away'] as ScoreboardTeam[]) {
+    const score = changes[`${team}_score`];
+    if (score !== undefined && score < 0) return "Score can't go below zero";
+  }
+
+  return null;
+};
+
+export const formatPeriod = (rules: SportRules, scoreboard: Scoreboard) => {
+  if (rules.scoring === 'baseball') {
+    return `${getSportState(scoreboard).half === 'top' ? '▲' : '▼'}${scoreboard.period}`;
+  }
+
+  const overtime = scoreboard.period - rules.periods;
+  if (overtime > 0 && rules.overtimeAbbreviation) {
+    return overtime > 1 ? `${rules.overtimeAbbreviation}${overtime}` : rules.overtimeAbbreviation;
+  }
+  return `${rules.periodAbbreviation}${scoreboard.period}`;
+};
+
+const TENNIS_POINTS = ['0', '15', '30', '40'];
+
+// Current game score for one player: 0/15/30/40/AD, or the raw count in a tiebreak
+export const formatTennisPoints = (state: SportState, team: ScoreboardTeam) => {
+  const own = state.points[team];
+  if (state.tiebreak) return String(own);
+
+  const other = state.points[otherTeam(team)];
+  if (own >= 3 && other >= 3) {
+    return own > other ? 'AD' : '40';
+  }
+  return TENNIS_POINTS[Math.min(own, 3)];
+};
@@ -0,0 +1,182 @@
+// Keyboard and MIDI bindings for the director's switcher
+
+// Action ids: `preview:<n>` / `program:<n>` address the nth camera in the director's camera grid
+export type SwitcherActionId =
+  | `preview:${number}`
+  | `program:${number}`
+  | 'cut'
+  | 'take'
+  | 'start_stream'
+  | 'end_stream'
+  | 'highlight';
+
+export type SwitcherAction =
+  | { kind: 'preview'; camera: number }
+  | { kind: 'program'; camera: number }
+  | { kind: 'cut' }
+  | { kind: 'take' }
+  | { kind: 'start_stream' }
+  | { kind: 'end_stream' }
+  | { kind: 'highlight' };
+
+export type BindingSource = 'keyboard' | 'midi';
+
+// Bindings map an input to an action: keyboard bindings look like `Shift+Digit1`,
+// MIDI bindings like `note:36` or `cc:20` (any channel)
+export interface SwitcherKeymap {
+  keyboard: Record<string, SwitcherActionId>;
+  midi: Record<string, SwitcherActionId>;
+}
+
+export const MAX_HOTKEY_CAMERAS = 9;
+
+export const SWITCHER_ACTIONS: SwitcherActionId[] = [
+  ...Array.from({ length: MAX_HOTKEY_CAMERAS }, (_, index) => `preview:${index + 1}` as SwitcherActionId),
+  ...Array.from({ length: MAX_HOTKEY_CAMERAS }, (_, index) => `program:${index + 1}` as SwitcherActionId),
+  'cut',
+  'take',
+  'start_stream',
+  'end_stream',
+  'highlight',
+];
+
+const buildDefaultKeymap = (): SwitcherKeymap => {
+  const keyboard: Record<string, SwitcherActionId> = {
+    Space: 'cut',
+    Enter: 'take',
+    KeyH: 'highlight',
+  };
+  const midi: Record<string, SwitcherActionId> = {
+    'note:50': 'cut',
+    'note:51': 'take',
+  };
+
+  for (let camera = 1; camera <= MAX_HOTKEY_CAMERAS; camera++) {
+    keyboard[`Digit${camera}`] = `preview:${camera}`;
+    keyboard[`Shift+Digit${camera}`] = `program:${camera}`;
+  }
+
+  // 16-pad controllers usually send notes 36-51: top rows preview, lower rows program
+  for (let camera = 1; camera <= 8; camera++) {
+    midi[`note:${35 + camera}`] = `preview:${camera}`;
+  }
+  for (let camera = 1; camera <= 6; camera++) {
+    midi[`note:${43 + camera}`] = `program:${camera}`;
+  }
+
+  return { keyboard, midi };
+};
+
+export const DEFAULT_SWITCHER_KEYMAP: SwitcherKeymap = buildDefaultKeymap();
+
+const isSwitcherActionId = (value: unknown): value is SwitcherActionId =>
+  typeof value === 'string' && SWITCHER_ACTIONS.includes(value as SwitcherActionId);
+
+const sanitizeBindings = (value: unknown) => {
+  const bindings: Record<string, SwitcherActionId> = {};
+  if (!value || typeof value !== 'object') return bindings;
+
+  for (const [binding, action] of Object.entries(value)) {
+    if (isSwitcherActionId(action)) {
+      bindings[binding] = action;
+    }
+  }
+  return bindings;
+};
+
+// Keymap stored on the user's profile, falling back to the defaults for a missing source
+export const normalizeKeymap = (value: unknown): SwitcherKeymap => {
+  if (!value || typeof value !== 'object') return DEFAULT_SWITCHER_KEYMAP;
+
+  const stored = value as Partial<Record<BindingSource, unknown>>;
+  return {
+    keyboard: stored.keyboard ? sanitizeBindings(stored.keyboard) : DEFAULT_SWITCHER_KEYMAP.keyboard,
+    midi: stored.midi ? sanitizeBindings(stored.midi) : DEFAULT_SWITCHER_KEYMAP.midi,
+  };
+};
+
+export const parseSwitcherAction = (actionId: SwitcherActionId): SwitcherAction => {
+  const [kind, camera] = actionId.split(':');
+
+  if (kind === 'preview' || kind === 'program') {
+    return { kind, camera: Number(camera) };
+  }
+  return { kind: kind as 'cut' | 'take' | 'start_stream' | 'end_stream' | 'highlight' };
+};
+
+export const describeAction = (actionId: SwitcherActionId) => {
+  const action = parseSwitcherAction(actionId);
+
+  switch (action.kind) {
+    case 'preview':
+      return `Preview camera ${action.camera}`;
+    case 'program':
+      return `Cut camera ${action.camera} to program`;
+    case 'cut':
+      return 'Cut preview to program';
+    case 'take':
+      return 'Take preview with transition';
+    case 'start_stream':
+      return 'Start stream';
+    case 'end_stream':
+      return 'End stream';
+    case 'highlight':
+      return 'Mark highlight';
+  }
+};
+
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+// Binding for a key press, or null for a bare modifier key
+export const getKeyboardBinding = (event: Pick<KeyboardEvent, 'code' | 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'>) => {
+  if (!event.code || MODIFIER_CODES.includes(event.code)) return null;
+
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.metaKey && 'Meta',
+    event.shiftKey && 'Shift',
+  ].filter(Boolean);
+
+  return [...modifiers, event.code].join('+');
+};
+
+// Binding for a raw MIDI message; only presses (note on, controller at or above half) trigger actions
+export const getMidiBinding = (data: ArrayLike<number>) => {
+  if (data.length < 3) return null;
+
+  const status = data[0] & 0xf0;
+  const number = data[1];
+  const value = data[2];
+
+  if (status === 0x90 && value > 0) return `note:${number}`;
+  if (status === 0xb0 && value >= 64) return `cc:${number}`;
+  return null;
+};
+
+export const formatBinding = (binding: string) => {
+  if (binding.startsWith('note:')) return `Note ${binding.slice(5)}`;
+  if (binding.startsWith('cc:')) return `CC ${binding.slice(3)}`;
+  return binding.replace(/Digit|Key/g, '');
+};
+
+// Binds an input to an action, replacing whatever that input or action was bound to before
+export const setBinding = (
+  keymap: SwitcherKeymap,
+  source: BindingSource,
+  actionId: SwitcherActionId,
+  binding: string | null
+): SwitcherKeymap => {
+  const bindings = Object.fromEntries(
+    Object.entries(keymap[source]).filter(([key, action]) => action !== actionId && key !== binding)
+  );
+
+  if (binding) {
+    bindings[binding] = actionId;
+  }
+
+  return { ...keymap, [source]: bindings };
+};
+
+export const getBindingForAction = (keymap: SwitcherKeymap, source: BindingSource, actionId: SwitcherActionId) =>
+  Object.entries(keymap[source]).find(([, action]) => action === actionId)?.[0] || null;
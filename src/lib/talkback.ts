@@ -0,0 +1,50 @@
+// Crew talkback: push-to-talk intercom in a LiveKit room of its own, so it never reaches the
+// program mix, egress or viewers. Directors pick which cameras hear them with data messages.
+
+export const TALKBACK_TRACK_NAME = 'talkback';
+
+// Every camera, or a single camera identity
+export type TalkbackTarget = 'all' | string;
+
+// Payload of a `talkback_target` data message
+export interface TalkbackTargetMessage {
+  type: 'talkback_target';
+  target: TalkbackTarget;
+  timestamp: number;
+}
+
+// How one remote crew member sounds on this device
+export interface TalkbackChannel {
+  muted: boolean;
+  // 0 to 1
+  volume: number;
+}
+
+export const DEFAULT_TALKBACK_CHANNEL: TalkbackChannel = { muted: false, volume: 1 };
+
+export const isTalkbackDirector = (identity: string) => identity.startsWith('director_');
+
+export const isTalkbackCamera = (identity: string) => identity.startsWith('camera_');
+
+export const createTalkbackTargetMessage = (target: TalkbackTarget): TalkbackTargetMessage => ({
+  type: 'talkback_target',
+  target,
+  timestamp: Date.now(),
+});
+
+export const parseTalkbackTargetMessage = (message: { type?: string; target?: unknown }) =>
+  message.type === 'talkback_target' && typeof message.target === 'string'
+    ? message as TalkbackTargetMessage
+    : null;
+
+// Directors hear everyone; cameras hear directors who are talking to them, never other cameras
+export const canHearTalkback = (
+  localIdentity: string,
+  remoteIdentity: string,
+  directorTargets: Record<string, TalkbackTarget>
+) => {
+  if (isTalkbackDirector(localIdentity)) return true;
+  if (!isTalkbackDirector(remoteIdentity)) return false;
+  const target = directorTargets[remoteIdentity] ?? 'all';
+  return target === 'all' || target === localIdentity;
+};
@@ -0,0 +1,132 @@
+import { getTimelineCameras, type ProgramTimeline } from '@/lib/program-timeline';
+
+// Edit decision lists for re-conforming the camera recordings to the program cut.
+// Source timecode assumes each camera's recording starts with the timeline, at 01:00:00:00
+// like the record side, so editors can relink each reel to its camera's recording.
+
+export const EXPORT_FRAME_RATES = [24, 25, 30];
+export const DEFAULT_EXPORT_FRAME_RATE = 30;
+
+const TIMECODE_START_SECONDS = 3600;
+// CMX3600 reel names are at most eight characters
+const MAX_REEL_LENGTH = 8;
+
+const toFrames = (seconds: number, frameRate: number) => Math.round(seconds * frameRate);
+
+// Non-drop-frame timecode, HH:MM:SS:FF
+export const formatTimecode = (frames: number, frameRate: number) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const totalSeconds = Math.floor(frames / frameRate);
+
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+    frames % frameRate,
+  ].map(pad).join(':');
+};
+
+// One unique reel name per camera, from its label where possible
+const buildReelNames = (timeline: ProgramTimeline) => {
+  const reels = new Map<string, string>();
+
+  getTimelineCameras(timeline).forEach(({ id, label }, index) => {
+    const fromLabel = label.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, MAX_REEL_LENGTH);
+    const taken = [...reels.values()];
+    reels.set(id, fromLabel && !taken.includes(fromLabel) ? fromLabel : `CAM${index + 1}`);
+  });
+
+  return reels;
+};
+
+// Frame-aligned edits; a segment that rounds down to nothing is dropped
+const getEdits = (timeline: ProgramTimeline, frameRate: number) =>
+  timeline.segments
+    .map(segment => ({
+      ...segment,
+      startFrame: toFrames(segment.startSeconds, frameRate),
+      endFrame: toFrames(segment.endSeconds, frameRate),
+    }))
+    .filter(edit => edit.endFrame > edit.startFrame);
+
+export const exportEdl = (title: string, timeline: ProgramTimeline, frameRate = DEFAULT_EXPORT_FRAME_RATE) => {
+  const reels = buildReelNames(timeline);
+  const offset = TIMECODE_START_SECONDS * frameRate;
+  const lines = [`TITLE: ${title.replace(/[\r\n]+/g, ' ').slice(0, 70)}`, 'FCM: NON-DROP FRAME', ''];
+
+  getEdits(timeline, frameRate).forEach((edit, index) => {
+    const inPoint = formatTimecode(offset + edit.startFrame, frameRate);
+    const outPoint = formatTimecode(offset + edit.endFrame, frameRate);
+
+    lines.push(
+      `${String(index + 1).padStart(3, '0')}  ${reels.get(edit.cameraId)!.padEnd(MAX_REEL_LENGTH)} V     C        ${inPoint} ${outPoint} ${inPoint} ${outPoint}`,
+      `* FROM CLIP NAME: ${edit.cameraLabel}`,
+      '',
+    );
+  });
+
+  return lines.join('\n');
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Suggested file name for a camera's recording; editors relink the assets to the real files
+const getMediaFileName = (label: string) => `${label.replace(/[^\w-]+/g, '_')}.mp4`;
+
+export const exportFcpxml = (title: string, timeline: ProgramTimeline, frameRate = DEFAULT_EXPORT_FRAME_RATE) => {
+  const time = (frames: number) => `${frames}/${frameRate}s`;
+  const offset = TIMECODE_START_SECONDS * frameRate;
+  const durationFrames = toFrames(timeline.durationSeconds, frameRate);
+  const cameras = getTimelineCameras(timeline);
+  const assetIds = new Map(cameras.map(({ id }, index) => [id, `r${index + 2}`]));
+
+  const assets = cameras.map(({ id, label }) =>
+    [
+      `    <asset id="${assetIds.get(id)}" name="${escapeXml(label)}" start="${time(offset)}" duration="${time(durationFrames)}" hasVideo="1" hasAudio="1" format="r1">`,
+      `      <media-rep kind="original-media" src="${escapeXml(getMediaFileName(label))}"/>`,
+      '    </asset>',
+    ].join('\n'),
+  );
+
+  // The spine is contiguous, so stretches with nothing on program become gaps
+  const spine: string[] = [];
+  let position = 0;
+  getEdits(timeline, frameRate).forEach(edit => {
+    if (edit.startFrame > position) {
+      spine.push(`            <gap name="Gap" offset="${time(offset + position)}" duration="${time(edit.startFrame - position)}"/>`);
+    }
+    spine.push(
+      `            <asset-clip ref="${assetIds.get(edit.cameraId)}" name="${escapeXml(edit.cameraLabel)}" offset="${time(offset + edit.startFrame)}" start="${time(offset + edit.startFrame)}" duration="${time(edit.endFrame - edit.startFrame)}"/>`,
+    );
+    position = edit.endFrame;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" name="FFVideoFormat1080p${frameRate}" frameDuration="1/${frameRate}s" width="1920" height="1080"/>`,
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${escapeXml(title)}">`,
+    `      <project name="${escapeXml(title)} Program">`,
+    `        <sequence format="r1" tcStart="${time(offset)}" tcFormat="NDF" duration="${time(position)}">`,
+    '          <spine>',
+    ...spine,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+};
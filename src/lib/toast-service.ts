@@ -79,11 +79,22 @@ export const toastService = {
       duration: 8000,
     }),
 
+    seriesCreated: (count: number) => toastService.success({
+      title: 'Series created',
+      description: `${count} events were scheduled. Each one has its own event code.`,
+      duration: 8000,
+    }),
+
     streamStarted: () => toastService.success({
       title: 'Stream started',
       description: 'Your live stream is now active and broadcasting!',
     }),
 
+    streamPaused: () => toastService.error({
+      title: 'Stream interrupted',
+      description: 'The program output dropped. Resume the stream or end the event.',
+    }),
+
     streamEnded: () => toastService.info({
       title: 'Stream ended',
       description: 'The live stream has been stopped successfully.',
@@ -106,7 +117,7 @@ export const toastService = {
 
     simulcastConfigured: () => toastService.success({
       title: 'Simulcast configured',
-      description: 'YouTube and Twitch streaming targets have been set up.',
+      description: 'Streaming destinations have been set up.',
     }),
   },
 
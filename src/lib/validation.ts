@@ -54,6 +54,69 @@ export const cameraRegistrationSchema = z.object({
     .regex(/^[a-zA-Z0-9\s\-]+$/, 'Device label contains invalid characters')
 });
 
+// Camera invite validation
+export const cameraInviteSchema = z.object({
+  deviceLabel: z.string()
+    .trim()
+    .min(3, 'Camera label must be at least 3 characters')
+    .max(50, 'Camera label must not exceed 50 characters')
+    .regex(/^[a-zA-Z0-9\s-]+$/, 'Camera label contains invalid characters'),
+  validHours: z.number()
+    .int()
+    .min(1, 'Camera invites must be valid for at least 1 hour')
+    .max(72, 'Camera invites can be valid for at most 72 hours')
+});
+
+// Simulcast destination validation
+export const streamDestinationSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Destination name is required')
+    .max(60, 'Destination name must not exceed 60 characters'),
+  rtmpUrl: z.string()
+    .trim()
+    .regex(/^rtmps?:\/\/[^\s/]+(\/\S*)?$/i, 'Destination URL must start with rtmp:// or rtmps://'),
+  streamKey: z.string()
+    .trim()
+    .min(1, 'Stream key is required')
+});
+
+// Event template validation
+export const eventTemplateSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Template name is required')
+    .max(60, 'Template name must not exceed 60 characters'),
+  sport: z.string()
+    .min(1, 'Sport type is required'),
+  expectedDuration: z.number()
+    .int()
+    .min(1, 'Expected duration must be at least 1 minute'),
+  cameraLabels: z.array(
+    z.string().max(50, 'Camera labels must not exceed 50 characters')
+  ).max(12, 'A template can have at most 12 camera labels')
+});
+
+// Organization validation
+export const organizationNameSchema = z.string()
+  .trim()
+  .min(1, 'Organization name is required')
+  .max(80, 'Organization name must not exceed 80 characters');
+
+export const organizationMemberSchema = z.object({
+  email: z.string()
+    .trim()
+    .email('Enter a valid email address')
+});
+
+// Event crew invite validation
+export const eventInviteSchema = z.object({
+  email: z.string()
+    .trim()
+    .email('Enter a valid email address'),
+  role: z.enum(['producer', 'director'])
+});
+
 // Sanitization utilities
 export const sanitizeInput = (input: string): string => {
   return input
@@ -118,4 +181,5 @@ export const securityHeaders = {
 };
 
 export type CreateEventData = z.infer<typeof createEventSchema>;
+export type StreamDestinationData = z.infer<typeof streamDestinationSchema>;
 export type CameraRegistrationData = z.infer<typeof cameraRegistrationSchema>;
\ No newline at end of file
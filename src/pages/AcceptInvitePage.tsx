@@ -0,0 +1,172 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import LoadingButton from "@/components/ui/LoadingButton";
+import { Loader2, UserPlus } from "lucide-react";
+import AppHeader from "@/components/AppHeader";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toastService } from "@/lib/toast-service";
+
+interface InviteDetails {
+  eventId: string;
+  eventName: string;
+  startTime: string;
+  role: "producer" | "director";
+  email: string;
+  emailMatches: boolean;
+  expired: boolean;
+  accepted: boolean;
+}
+
+const ROLE_DESCRIPTIONS = {
+  producer: "As producer you can run the control room, manage the event's schedule and invite co-directors.",
+  director: "As co-director you can switch cameras, run the scoreboard and mark highlights."
+};
+
+// Landing page for emailed event invites
+const AcceptInvitePage = () => {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const { user, signOut } = useAuth();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        const { data, error } = await supabase.functions.invoke("event-invites", {
+          body: { action: "get", inviteToken: token }
+        });
+
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+        setInvite(data.invite);
+      } catch (error) {
+        console.error("Error loading event invite:", error);
+        setError(error.message || "This invite could not be loaded.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true);
+      const { data, error } = await supabase.functions.invoke("event-invites", {
+        body: { action: "accept", inviteToken: token }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toastService.success({ description: `You joined ${invite?.eventName}.` });
+      navigate(`/director/${data.eventId}`);
+    } catch (error) {
+      console.error("Error accepting event invite:", error);
+      toastService.error({ description: error.message || "Failed to accept invite." });
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const handleSwitchAccount = async () => {
+    try {
+      await signOut();
+      navigate("/auth", { state: { from: { pathname: `/invite/${token}` } } });
+    } catch (error) {
+      console.error("Error signing out:", error);
+      toastService.error({ description: "Failed to sign out. Please try again." });
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          <span>Loading invite...</span>
+        </div>
+      );
+    }
+
+    if (error || !invite) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">{error || "This invite could not be loaded."}</p>
+          <Button asChild variant="outline" className="w-full">
+            <Link to="/">Back to Home</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (invite.accepted) {
+      return (
+        <Button asChild className="w-full">
+          <Link to={`/director/${invite.eventId}`}>Open Director Dashboard</Link>
+        </Button>
+      );
+    }
+
+    if (invite.expired) {
+      return <p className="text-sm text-muted-foreground">This invite has expired. Ask the event's producer for a new one.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[invite.role]}</p>
+        <p className="text-sm text-muted-foreground">
+          Starts {new Date(invite.startTime).toLocaleString()}
+        </p>
+        {invite.emailMatches ? (
+          <LoadingButton onClick={handleAccept} loading={accepting} className="w-full">
+            Accept Invite
+          </LoadingButton>
+        ) : (
+          <>
+            <p className="text-sm">
+              This invite was sent to <span className="font-medium">{invite.email}</span>, but you are signed in as{" "}
+              <span className="font-medium">{user?.email}</span>.
+            </p>
+            <Button variant="outline" onClick={handleSwitchAccount} className="w-full">
+              Sign in as {invite.email}
+            </Button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+      <div className="p-4">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5" />
+                {invite ? `Join ${invite.eventName}` : "Event Invite"}
+              </CardTitle>
+              {invite && (
+                <CardDescription>
+                  You've been invited as {invite.role === "producer" ? "producer" : "co-director"}.
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>{renderBody()}</CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitePage;
@@ -7,21 +7,35 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "@/hooks/use-toast";
 import { toastService } from "@/lib/toast-service";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { useOnlineStatus } from "@/hooks/useOnlineStatus";
-import { Loader2, ArrowLeft } from "lucide-react";
+import { Loader2, ArrowLeft, Pencil, Plus } from "lucide-react";
 import { Link } from "react-router-dom";
 import AppHeader from "@/components/AppHeader";
+import { EventTemplateDialog } from "@/components/EventTemplateDialog";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useEventTemplates } from "@/hooks/useEventTemplates";
+import { getSeriesStartTimes, type SeriesFrequency } from "@/lib/event-series";
+import { getScoreboardDefaults, getSportRules } from "@/lib/sport-rules";
+import type { Tables } from "@/integrations/supabase/types";
 const CreateEvent = () => {
   const navigate = useNavigate();
   const {
-    session
+    session,
+    user
   } = useAuth();
+  const {
+    activeOrganization,
+    activeRole
+  } = useOrganization();
+  // Directors and camera operators work on events their organization's producers set up
+  const canCreateInOrganization = !activeOrganization || activeRole === 'owner' || activeRole === 'producer';
   const {
     handleAsyncError
   } = useErrorHandler();
@@ -36,9 +50,57 @@ const CreateEvent = () => {
     dateTime: "",
     expectedDuration: "180",
     description: "",
-    thumbnail: null as File | null
+    thumbnail: null as File | null,
+    autoStart: false,
+    autoEnd: true,
+    endGraceMinutes: "15"
   });
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
+  const {
+    templates,
+    saveTemplate,
+    deleteTemplate,
+    addDestination,
+    removeDestination
+  } = useEventTemplates({
+    userId: user?.id
+  });
+  const [templateId, setTemplateId] = useState("");
+  // Template being edited; null with the dialog open means a new template
+  const [templateDialog, setTemplateDialog] = useState<{
+    open: boolean;
+    templateId: string | null;
+  }>({
+    open: false,
+    templateId: null
+  });
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    frequency: "weekly" as SeriesFrequency,
+    repeatInterval: "1",
+    occurrences: "10"
+  });
+  const editingTemplate = templates.find(template => template.id === templateDialog.templateId) ?? null;
+  const seriesStartTimes = recurrence.enabled && formData.dateTime ? getSeriesStartTimes({
+    firstStart: new Date(formData.dateTime),
+    frequency: recurrence.frequency,
+    repeatInterval: parseInt(recurrence.repeatInterval) || 1,
+    occurrences: parseInt(recurrence.occurrences) || 0
+  }) : [];
+
+  // Fills the form from a template; the rest of the template is applied by create-event
+  const applyTemplate = (template: Tables<"event_templates">) => {
+    setTemplateId(template.id);
+    setFormData(prev => ({
+      ...prev,
+      sportType: template.sport,
+      expectedDuration: String(template.expected_duration),
+      description: template.description ?? prev.description,
+      autoStart: template.auto_start,
+      autoEnd: template.auto_end,
+      endGraceMinutes: String(template.end_grace_minutes)
+    }));
+  };
 
   // Set default datetime to current local time
   useEffect(() => {
@@ -73,6 +135,9 @@ const CreateEvent = () => {
         navigate('/auth');
         throw new Error('Authentication required');
       }
+      if (!canCreateInOrganization) {
+        throw new Error(`Only owners and producers can create events in ${activeOrganization.name}`);
+      }
 
       // Validate required fields
       if (!formData.eventName.trim()) {
@@ -87,6 +152,9 @@ const CreateEvent = () => {
       if (!formData.expectedDuration || parseInt(formData.expectedDuration) < 1) {
         throw new Error('Expected duration must be at least 1 minute');
       }
+      if (recurrence.enabled && seriesStartTimes.length < 2) {
+        throw new Error('A recurring series needs at least 2 events');
+      }
 
       // Generate unique event code
       const eventCode = Math.random().toString(36).substring(2, 8).toUpperCase();
@@ -102,19 +170,46 @@ const CreateEvent = () => {
         body: {
           name: formData.eventName.trim(),
           sport: formData.sportType,
-          startTime: formData.dateTime,
+          // datetime-local values are local time; send an absolute time for the scheduler
+          startTime: new Date(formData.dateTime).toISOString(),
           expectedDuration: parseInt(formData.expectedDuration),
           eventCode,
           streamingType: 'livekit', // Always use LiveKit now
           description: formData.description.trim() || undefined,
-          thumbnail: formData.thumbnail
+          thumbnail: formData.thumbnail,
+          autoStart: formData.autoStart,
+          autoEnd: formData.autoEnd,
+          endGraceMinutes: parseInt(formData.endGraceMinutes) || 0,
+          templateId: templateId || undefined,
+          organizationId: activeOrganization?.id,
+          // The template's scoreboard starts with the clock and state for this sport
+          scoreboardDefaults: templateId ? getScoreboardDefaults(getSportRules(formData.sportType)) : undefined,
+          series: recurrence.enabled ? {
+            frequency: recurrence.frequency,
+            repeatInterval: parseInt(recurrence.repeatInterval) || 1,
+            startTimes: seriesStartTimes.map(start => start.toISOString())
+          } : undefined
         }
       });
       if (error) throw error;
-      toastService.event.created(eventCode);
+      if (data?.error) throw new Error(data.error);
+      if (recurrence.enabled) {
+        toastService.event.seriesCreated(data.events.length);
+        if (data.failures?.length) {
+          toastService.error({
+            title: `${data.failures.length} events could not be created`,
+            description: data.failures.map((failure: { startTime: string }) => new Date(failure.startTime).toLocaleString()).join(', ')
+          });
+        }
+        return {
+          seriesId: data.seriesId
+        };
+      }
+      // The server picks a new code if this one was already taken
+      toastService.event.created(data.eventCode);
       return {
         eventId: data.eventId,
-        eventCode
+        eventCode: data.eventCode
       };
     }, {
       title: "Failed to create event",
@@ -122,6 +217,8 @@ const CreateEvent = () => {
     });
     if (data?.eventId) {
       navigate(`/director/${data.eventId}`);
+    } else if (data?.seriesId) {
+      navigate('/profile');
     }
     setLoading(false);
     
@@ -139,11 +236,44 @@ const CreateEvent = () => {
           <CardHeader>
             <CardTitle>Create Sports Event</CardTitle>
             <CardDescription>
-              Set up a new multi-camera sports streaming event
+              {activeOrganization ? `Set up a new multi-camera sports streaming event for ${activeOrganization.name}` : "Set up a new multi-camera sports streaming event"}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="template">Template (Optional)</Label>
+                <div className="flex gap-2">
+                  <Select value={templateId} onValueChange={id => {
+                    const template = templates.find(item => item.id === id);
+                    if (template) applyTemplate(template);
+                  }}>
+                    <SelectTrigger id="template" className="flex-1 min-w-0">
+                      <SelectValue placeholder={templates.length ? "Start from a template" : "No templates yet"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  {templateId && <Button type="button" variant="outline" size="icon" aria-label="Edit template" onClick={() => setTemplateDialog({
+                    open: true,
+                    templateId
+                  })}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>}
+                  <Button type="button" variant="outline" size="sm" onClick={() => setTemplateDialog({
+                    open: true,
+                    templateId: null
+                  })} className="whitespace-nowrap">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Template
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Templates also set the scoreboard teams, streaming destinations and camera names.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="eventName">Event Name</Label>
                 <Input id="eventName" value={formData.eventName} onChange={e => setFormData({
@@ -325,9 +455,103 @@ const CreateEvent = () => {
               </div>
 
               <div className="space-y-4">
-                
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="autoStart">Start automatically</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Go live at the start time as soon as a camera is live.
+                    </p>
+                  </div>
+                  <Switch id="autoStart" checked={formData.autoStart} onCheckedChange={checked => setFormData({
+                    ...formData,
+                    autoStart: checked
+                  })} />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="autoEnd">End automatically</Label>
+                    <p className="text-sm text-muted-foreground">
+                      End the stream once the duration plus a grace period has passed.
+                    </p>
+                  </div>
+                  <Switch id="autoEnd" checked={formData.autoEnd} onCheckedChange={checked => setFormData({
+                    ...formData,
+                    autoEnd: checked
+                  })} />
+                </div>
+
+                {formData.autoEnd && (
+                  <div className="space-y-2">
+                    <Label htmlFor="endGraceMinutes">Grace period (minutes)</Label>
+                    <Input id="endGraceMinutes" type="number" value={formData.endGraceMinutes} onChange={e => setFormData({
+                      ...formData,
+                      endGraceMinutes: e.target.value
+                    })} placeholder="15" min="0" />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="recurring">Recurring series</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Create every game of a season at once, each with its own event code.
+                    </p>
+                  </div>
+                  <Switch id="recurring" checked={recurrence.enabled} onCheckedChange={checked => setRecurrence({
+                    ...recurrence,
+                    enabled: checked
+                  })} />
+                </div>
+
+                {recurrence.enabled && (
+                  <>
+                    <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-3'}`}>
+                      <div className="space-y-2">
+                        <Label htmlFor="frequency">Repeats</Label>
+                        <Select value={recurrence.frequency} onValueChange={value => setRecurrence({
+                          ...recurrence,
+                          frequency: value as SeriesFrequency
+                        })}>
+                          <SelectTrigger id="frequency">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="weekly">Weekly</SelectItem>
+                            <SelectItem value="daily">Daily</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="repeatInterval">Every</Label>
+                        <Input id="repeatInterval" type="number" value={recurrence.repeatInterval} onChange={e => setRecurrence({
+                          ...recurrence,
+                          repeatInterval: e.target.value
+                        })} min="1" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="occurrences">Number of events</Label>
+                        <Input id="occurrences" type="number" value={recurrence.occurrences} onChange={e => setRecurrence({
+                          ...recurrence,
+                          occurrences: e.target.value
+                        })} min="2" max="40" />
+                      </div>
+                    </div>
+                    {seriesStartTimes.length > 1 && (
+                      <p className="text-sm text-muted-foreground">
+                        {seriesStartTimes.length} events from {seriesStartTimes[0].toLocaleDateString()} to {seriesStartTimes[seriesStartTimes.length - 1].toLocaleDateString()}, named "{formData.eventName.trim() || 'Event'} #1" onwards.
+                      </p>
+                    )}
+                  </>
+                )}
               </div>
 
+              {!canCreateInOrganization && <p className="text-sm text-muted-foreground">
+                  You are a {activeRole === 'director' ? 'director' : 'camera operator'} in {activeOrganization.name}. Ask an owner or producer to create events, or switch to your personal workspace.
+                </p>}
+
               <div className={`flex gap-4 ${isMobile ? 'flex-col' : ''}`}>
                 <Button asChild variant="outline" className="flex-1">
                   <Link to="/">
@@ -335,8 +559,8 @@ const CreateEvent = () => {
                     Back to Home
                   </Link>
                 </Button>
-                <LoadingButton type="submit" className="flex-1" loading={loading} loadingText="Creating Event..." disabled={!isOnline}>
-                  {!isOnline ? 'Offline - Cannot Create Event' : 'Create Event'}
+                <LoadingButton type="submit" className="flex-1" loading={loading} loadingText={recurrence.enabled ? "Creating Events..." : "Creating Event..."} disabled={!isOnline || !canCreateInOrganization}>
+                  {!isOnline ? 'Offline - Cannot Create Event' : recurrence.enabled ? `Create ${seriesStartTimes.length} Events` : 'Create Event'}
                 </LoadingButton>
               </div>
             </form>
@@ -344,6 +568,21 @@ const CreateEvent = () => {
         </Card>
         </div>
       </div>
+
+      {templateDialog.open && <EventTemplateDialog key={templateDialog.templateId ?? "new"} open={templateDialog.open} onOpenChange={open => setTemplateDialog({
+        ...templateDialog,
+        open
+      })} template={editingTemplate} saveTemplate={saveTemplate} deleteTemplate={async id => {
+        await deleteTemplate(id);
+        if (id === templateId) setTemplateId("");
+      }} addDestination={addDestination} removeDestination={removeDestination} onSaved={saved => {
+        applyTemplate(saved);
+        // A new template stays open so destinations can be added to it
+        setTemplateDialog({
+          open: !templateDialog.templateId,
+          templateId: saved.id
+        });
+      }} />}
     </div>
   );
 };
@@ -17,12 +17,45 @@ import { useRealtimePresence } from "@/hooks/useRealtimePresence";
 import { useRealtimeEventUpdates } from "@/hooks/useRealtimeEventUpdates";
 import { useRealtimeCleanup } from "@/hooks/useRealtimeCleanup";
 import { useLiveKitRoom } from "@/hooks/useLiveKitRoom";
+import { useStreamDestinations } from "@/hooks/useStreamDestinations";
+import { useProgramLayout } from "@/hooks/useProgramFeed";
+import { useEgressLayouts } from "@/hooks/useEgressLayouts";
+import { useSwitcherKeymap } from "@/hooks/useSwitcherKeymap";
+import { useSwitcherInputs } from "@/hooks/useSwitcherInputs";
+import { useInstantReplay } from "@/hooks/useInstantReplay";
+import { useHighlights } from "@/hooks/useHighlights";
+import { parseSwitcherAction, type SwitcherAction } from "@/lib/switcher-controls";
+import {
+  CUT_TRANSITION,
+  REPLAY_IDENTITY,
+  assignLayoutSlot,
+  createSingleLayout,
+  type ProgramLayout,
+  type ProgramTransition
+} from "@/lib/program-layout";
 import { LiveCameraCard } from "@/components/LiveCameraCard";
+import { BusMonitor } from "@/components/BusMonitor";
+import { TransitionControls } from "@/components/TransitionControls";
+import { ProgramLayoutPicker } from "@/components/ProgramLayoutPicker";
+import { InstantReplayPanel } from "@/components/InstantReplayPanel";
 import { LiveKitCameraStream } from "@/components/LiveKitCameraStream";
 import EventHeader from "@/components/EventHeader";
-import EventQRCode from "@/components/EventQRCode";
+import { CameraInvitesCard } from "@/components/CameraInvitesCard";
+import { StreamDestinationsCard } from "@/components/StreamDestinationsCard";
+import { ScoreboardControls } from "@/components/ScoreboardControls";
+import { HighlightsCard } from "@/components/HighlightsCard";
+import { EventScheduleCard } from "@/components/EventScheduleCard";
+import { EventCrewCard } from "@/components/EventCrewCard";
 import AppHeader from "@/components/AppHeader";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useEventRole } from "@/hooks/useEventRole";
+import { useEventCrew } from "@/hooks/useEventCrew";
+import { useCameraInvites } from "@/hooks/useCameraInvites";
+import { useCameraControl } from "@/hooks/useCameraControl";
+import { useOperatorCues } from "@/hooks/useOperatorCues";
+import { OperatorMessagePopover } from "@/components/OperatorMessagePopover";
+import { useTalkback } from "@/hooks/useTalkback";
+import { TalkbackCard } from "@/components/TalkbackCard";
 
 interface Camera {
   id: string;
@@ -56,8 +89,11 @@ const DirectorDashboard = () => {
   const { handleAsyncError } = useErrorHandler();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedCameraId, setSelectedCameraId] = useState<string | null>(null);
-  const [activeCameraIdentity, setActiveCameraIdentity] = useState<string | null>(null);
+  // Preview bus lines up the next shot; the program bus is what is on air
+  const [previewLayout, setPreviewLayout] = useState<ProgramLayout | null>(null);
+  const [programLayout, setProgramLayout] = useState<ProgramLayout | null>(null);
+  const [programTransition, setProgramTransition] = useState<ProgramTransition>(CUT_TRANSITION);
+  const [transitionSettings, setTransitionSettings] = useState<ProgramTransition>({ type: 'mix', durationMs: 1000 });
   const [showDirectorCamera, setShowDirectorCamera] = useState(false);
   const isMobile = useIsMobile();
   
@@ -81,6 +117,23 @@ const DirectorDashboard = () => {
     interval: 30000 // Clean up every 30 seconds
   });
 
+  // Per-event simulcast destinations
+  const streamDestinations = useStreamDestinations({
+    eventId: eventId || ''
+  });
+
+  // The route already requires a directing role; owners and producers also manage the crew
+  const eventRole = useEventRole(eventId);
+  const eventCrew = useEventCrew({
+    eventId: eventId || '',
+    enabled: eventRole.canManage
+  });
+
+  // Per-slot camera invites shown as QR codes
+  const cameraInvites = useCameraInvites({
+    eventId: eventId || ''
+  });
+
   // LiveKit room integration for director
   const {
     room,
@@ -99,6 +152,27 @@ const DirectorDashboard = () => {
     autoConnect: false
   });
 
+  // Layout already on program, e.g. after a reload or from another director
+  const { layout: sharedLayout } = useProgramLayout({ eventId: eventId || '', room });
+  const { supportedLayouts } = useEgressLayouts({ eventId: eventId || '' });
+  const cameraControl = useCameraControl({ room });
+
+  // Crew intercom, in its own LiveKit room so it stays out of the program
+  const talkbackRoom = useLiveKitRoom({
+    eventId: eventId || '',
+    participantName: 'Director',
+    participantIdentity: `director_${currentUserId}`,
+    talkback: true,
+    autoConnect: false
+  });
+  const talkback = useTalkback({ room: talkbackRoom.room });
+
+  useEffect(() => {
+    if (sharedLayout) {
+      setProgramLayout(sharedLayout);
+    }
+  }, [sharedLayout]);
+
   // Filter camera participants (include director camera)
   const cameraParticipants = useMemo(() => {
     return participants.filter(p => 
@@ -106,6 +180,14 @@ const DirectorDashboard = () => {
     );
   }, [participants]);
 
+  // Tally lights and messages on the camera operators' phones
+  const { sendOperatorMessage } = useOperatorCues({
+    room,
+    previewLayout,
+    programLayout,
+    cameraIdentities: cameraParticipants.map(participant => participant.identity)
+  });
+
   // Get video tracks for camera participants
   const videoTracks = useMemo(() => {
     const tracks = getParticipantVideoTracks();
@@ -139,7 +221,8 @@ const DirectorDashboard = () => {
   
   
   // Calculate streaming status
-  const streaming = useMemo(() => event?.status === 'live', [event?.status]);
+  // A paused event is still on air from the director's point of view: it can be resumed or ended
+  const streaming = useMemo(() => event?.status === 'live' || event?.status === 'paused', [event?.status]);
 
   // Auto-connect to LiveKit room when event is loaded
   useEffect(() => {
@@ -154,74 +237,113 @@ const DirectorDashboard = () => {
     }
   }, [event, roomConnected, roomConnecting, connectToRoom, eventId]);
 
-  // Auto-select first camera when cameras connect
+  // Auto-preview first camera when cameras connect
   useEffect(() => {
-    if (cameraParticipants.length > 0 && !selectedCameraId) {
+    if (cameraParticipants.length > 0 && !previewLayout) {
       const firstCamera = cameraParticipants[0];
       console.log('Auto-selecting first camera:', firstCamera.identity);
-      setSelectedCameraId(firstCamera.identity);
+      setPreviewLayout(createSingleLayout(firstCamera.identity));
     }
-  }, [cameraParticipants.length, selectedCameraId]);
+  }, [cameraParticipants.length, previewLayout]);
 
-  // Handle camera selection from LiveKit participants
+  // Selecting a camera puts it in the main slot of the preview layout
   const handleCameraSelect = useCallback((participantIdentity: string) => {
-    setSelectedCameraId(participantIdentity);
-    console.log('Selected camera participant:', participantIdentity);
+    setPreviewLayout(current =>
+      current ? assignLayoutSlot(current, 0, participantIdentity) : createSingleLayout(participantIdentity)
+    );
+    console.log('Selected camera participant for preview:', participantIdentity);
   }, []);
 
-  // Set active camera and notify through LiveKit data channel
-  const setActiveCamera = useCallback(async (participantIdentity: string) => {
+  // Put a layout on program: viewers and the egress template follow the data message,
+  // livekit-egress persists it and updates any running egress
+  const applyProgramLayout = useCallback(async (layout: ProgramLayout, transition: ProgramTransition) => {
+    setProgramLayout(layout);
+    setProgramTransition(transition);
+
+    await sendDataMessage({
+      type: 'layout_update',
+      activeCamera: layout.cameras[0],
+      layout,
+      transition,
+      timestamp: Date.now()
+    });
+
     try {
-      setActiveCameraIdentity(participantIdentity);
-      
-      // Send layout update through LiveKit data channel
-      await sendDataMessage({
-        type: 'layout_update',
-        activeCamera: participantIdentity,
-        timestamp: Date.now()
+      await supabase.functions.invoke('livekit-egress', {
+        body: { 
+          eventId,
+          action: 'update_layout',
+          layout
+        }
       });
+    } catch (layoutError) {
+      console.warn('Layout update failed:', layoutError);
+      // Don't block the UI for layout update failures
+    }
+  }, [eventId, sendDataMessage]);
 
-      // Update LiveKit egress layout in real-time
-      if (streaming) {
-        try {
-          await supabase.functions.invoke('livekit-egress', {
-            body: { 
-              eventId,
-              action: 'update_layout',
-              activeCamera: participantIdentity
-            }
-          });
-        } catch (layoutError) {
-          console.warn('Layout update failed:', layoutError);
-          // Don't block the UI for layout update failures
-        }
-      }
+  // Camera row behind a LiveKit participant identity
+  const findCameraRecord = useCallback((participantIdentity: string) => {
+    return cameras.find(cam => 
+      cam.device_label.toLowerCase().replace(/\s+/g, '_') === participantIdentity.replace('camera_', '')
+    );
+  }, [cameras]);
 
-      // Also update database for persistence
-      const cameraRecord = cameras.find(cam => 
-        cam.device_label.toLowerCase().replace(/\s+/g, '_') === participantIdentity.replace('camera_', '')
-      );
+  // Mark the main program camera active and log the switch
+  const recordCameraSwitch = useCallback(async (participantIdentity: string) => {
+    const cameraRecord = findCameraRecord(participantIdentity);
 
-      if (cameraRecord) {
-        // Deactivate all cameras first
-        await supabase
-          .from('cameras')
-          .update({ is_active: false })
-          .eq('event_id', eventId);
-
-        // Activate selected camera
-        await supabase
-          .from('cameras')
-          .update({ is_active: true })
-          .eq('id', cameraRecord.id);
-
-        // Log the switch
-        await supabase.functions.invoke('switch-camera', {
-          body: { eventId, cameraId: cameraRecord.id }
-        });
+    if (!cameraRecord) return;
+
+    // Deactivate all cameras first
+    await supabase
+      .from('cameras')
+      .update({ is_active: false })
+      .eq('event_id', eventId);
+
+    // Activate selected camera
+    await supabase
+      .from('cameras')
+      .update({ is_active: true })
+      .eq('id', cameraRecord.id);
+
+    // Log the switch
+    await supabase.functions.invoke('switch-camera', {
+      body: { eventId, cameraId: cameraRecord.id }
+    });
+  }, [eventId, findCameraRecord]);
+
+  // Take preview to program; the outgoing program shot drops back to preview
+  const takePreview = useCallback(async (transition: ProgramTransition) => {
+    if (!previewLayout) return;
+
+    try {
+      const outgoingLayout = programLayout;
+      await applyProgramLayout(previewLayout, transition);
+      setPreviewLayout(outgoingLayout || previewLayout);
+
+      if (previewLayout.cameras[0] !== programLayout?.cameras[0]) {
+        await recordCameraSwitch(previewLayout.cameras[0]);
       }
+    } catch (error) {
+      console.error('Error taking preview to program:', error);
+      toastService.error({
+        description: "Failed to switch camera. Please try again.",
+      });
+    }
+  }, [previewLayout, programLayout, applyProgramLayout, recordCameraSwitch]);
+
+  // Hot cut: put a camera straight into the main program slot, bypassing preview
+  const setActiveCamera = useCallback(async (participantIdentity: string) => {
+    try {
+      await applyProgramLayout(
+        programLayout
+          ? assignLayoutSlot(programLayout, 0, participantIdentity)
+          : createSingleLayout(participantIdentity),
+        CUT_TRANSITION
+      );
 
-      setSelectedCameraId(participantIdentity);
+      await recordCameraSwitch(participantIdentity);
       
       const participant = participants.find(p => p.identity === participantIdentity);
       if (participant) {
@@ -233,7 +355,7 @@ const DirectorDashboard = () => {
         description: "Failed to switch camera. Please try again.",
       });
     }
-  }, [eventId, cameras, participants, sendDataMessage, streaming]);
+  }, [participants, programLayout, applyProgramLayout, recordCameraSwitch]);
 
   const startStream = useCallback(async () => {
     try {
@@ -353,6 +475,88 @@ const DirectorDashboard = () => {
     }
   }, [eventId]);
 
+  // Rolling replay buffers for every camera feed
+  const {
+    playReplay: playReplayClip,
+    setCuedClip: setReplayClip,
+    setBufferSeconds: setReplayBufferSeconds,
+    markReplay,
+    stopReplay,
+    clearReplay,
+    ...instantReplay
+  } = useInstantReplay({
+    eventId: eventId || '',
+    videoTracks,
+    enabled: roomConnected
+  });
+
+  // The replay cuts to program behind its bumper, then program cuts back to the live layout
+  const playReplay = useCallback(async (speed: number) => {
+    const liveLayout = programLayout;
+
+    try {
+      await playReplayClip(speed, () =>
+        applyProgramLayout(createSingleLayout(REPLAY_IDENTITY), CUT_TRANSITION)
+      );
+    } finally {
+      if (liveLayout) {
+        await applyProgramLayout(liveLayout, CUT_TRANSITION);
+      }
+    }
+  }, [programLayout, playReplayClip, applyProgramLayout]);
+
+  // Highlights are tagged with whichever camera is on program when marked
+  const { markHighlight: saveHighlight, ...highlights } = useHighlights({ eventId: eventId || '' });
+
+  const markHighlight = useCallback(async (label?: string) => {
+    const programCamera = programLayout ? findCameraRecord(programLayout.cameras[0]) : null;
+    await saveHighlight(label, programCamera?.id);
+  }, [programLayout, findCameraRecord, saveHighlight]);
+
+  // Hotkeys and MIDI control surface, using the director's saved keymap
+  const { keymap } = useSwitcherKeymap();
+
+  const handleSwitcherAction = useCallback((action: SwitcherAction) => {
+    const cameraIdentity = 'camera' in action ? cameraParticipants[action.camera - 1]?.identity : null;
+
+    switch (action.kind) {
+      case 'preview':
+        if (cameraIdentity) handleCameraSelect(cameraIdentity);
+        break;
+      case 'program':
+        if (cameraIdentity) setActiveCamera(cameraIdentity);
+        break;
+      case 'cut':
+        takePreview(CUT_TRANSITION);
+        break;
+      case 'take':
+        takePreview(transitionSettings);
+        break;
+      case 'start_stream':
+        if (!streaming && !loading) startStream();
+        break;
+      case 'end_stream':
+        if (streaming && !loading) endStream();
+        break;
+      case 'highlight':
+        markHighlight()
+          .then(() => toastService.success({ description: 'Highlight marked.' }))
+          .catch(error => toastService.error({ description: error.message || 'Failed to mark highlight.' }));
+        break;
+    }
+  }, [cameraParticipants, handleCameraSelect, setActiveCamera, takePreview, transitionSettings, streaming, loading, startStream, endStream, markHighlight]);
+
+  const { midiStatus, midiInputs } = useSwitcherInputs({
+    enabled: roomConnected,
+    onInput: (source, binding) => {
+      const actionId = keymap[source][binding];
+      if (!actionId) return false;
+
+      handleSwitcherAction(parseSwitcherAction(actionId));
+      return true;
+    }
+  });
+
 
   if (dataLoading && !event) {
     return <LoadingSpinner fullScreen text="Loading director dashboard..." />;
@@ -411,20 +615,32 @@ const DirectorDashboard = () => {
             onStartStream={startStream}
             onEndStream={endStream}
             onAddSimulcast={addSimulcastTargets}
+            canAddSimulcast={streamDestinations.destinations.some(destination => destination.enabled)}
             cameraCount={cameraParticipants.length}
           />
         )}
 
-        {/* QR Code and Camera Grid */}
+        {/* Camera Invites and Camera Grid */}
         <div className={`grid gap-6 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-4'}`}>
-          {/* QR Code Section */}
+          {/* Camera Invites Section */}
           {event && (
             <div className={isMobile ? 'order-2' : 'lg:col-span-1'}>
-              <EventQRCode 
-                eventCode={event.event_code} 
-                eventName={event.name} 
+              <CameraInvitesCard
+                {...cameraInvites}
+                eventName={event.name}
               />
               
+              <div className="mt-4">
+                <TalkbackCard
+                  {...talkback}
+                  participants={talkbackRoom.participants}
+                  isConnected={talkbackRoom.isConnected}
+                  isConnecting={talkbackRoom.isConnecting}
+                  onJoin={talkbackRoom.connectToRoom}
+                  onLeave={talkbackRoom.disconnectFromRoom}
+                />
+              </div>
+
               {/* Director Camera Section */}
               <Card className="mt-4">
                 <CardHeader>
@@ -444,72 +660,108 @@ const DirectorDashboard = () => {
                   </Button>
                 </CardContent>
               </Card>
+
+              {eventRole.canManage && (event.status === "scheduled" || streaming) && (
+                <div className="mt-4">
+                  <EventScheduleCard event={event} onUpdated={() => refetch?.event?.()} />
+                </div>
+              )}
+
+              {eventRole.canManage && (
+                <div className="mt-4">
+                  <EventCrewCard
+                    {...eventCrew}
+                    canManageProducers={eventRole.role === "owner"}
+                  />
+                </div>
+              )}
+
+              <div className="mt-4">
+                <StreamDestinationsCard
+                  {...streamDestinations}
+                  streaming={streaming}
+                />
+              </div>
+
+              <div className="mt-4">
+                <ScoreboardControls eventId={event.id} />
+              </div>
+
+              <div className="mt-4">
+                <HighlightsCard
+                  eventId={event.id}
+                  {...highlights}
+                  markHighlight={markHighlight}
+                />
+              </div>
             </div>
           )}
           
           {/* Live Camera Grid */}
           <div className={`space-y-4 ${isMobile ? 'order-1' : 'lg:col-span-3'}`}>
-            {/* Main Program Feed Display */}
-            {selectedCameraId && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Monitor className="h-5 w-5" />
-                    Live Program Feed
-                  </CardTitle>
-                  <CardDescription>
-                    Currently showing: {
-                      participants.find(p => p.identity === selectedCameraId)?.metadata || 
-                      selectedCameraId.replace('camera_', '').replace(/_/g, ' ')
-                    }
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="aspect-video bg-black rounded-lg flex items-center justify-center relative overflow-hidden">
-                    {videoTracks.get(selectedCameraId) ? (
-                      <video
-                        className="w-full h-full object-cover"
-                        ref={(video) => {
-                          const track = videoTracks.get(selectedCameraId);
-                          console.log('DirectorDashboard video ref callback:', { 
-                            hasVideo: !!video, 
-                            hasTrack: !!track,
-                            selectedCameraId,
-                            trackSid: track?.sid
-                          });
-                          if (video && track) {
-                            track.attach(video);
-                            // Ensure autoplay works across browsers
-                            try {
-                              video.muted = true;
-                              const p = video.play();
-                              if (p && typeof (p as any).catch === 'function') {
-                                (p as Promise<void>).catch(err => {
-                                  console.warn('Program feed autoplay prevented; waiting for user gesture', err);
-                                });
-                              }
-                            } catch (e) {
-                              console.warn('Error calling video.play()', e);
-                            }
-                            console.log('Successfully attached track to video element');
-                          }
-                        }}
-                        autoPlay
-                        muted
-                        playsInline
-                      />
-                    ) : (
-                      <div className="text-white text-center">
-                        <Monitor className="h-16 w-16 mx-auto mb-4 opacity-50" />
-                        <p className="text-lg font-medium">Program Feed</p>
-                        <p className="text-sm opacity-75">
-                          {roomConnected ? 'Select a camera to see live video' : 'Connecting to LiveKit...'}
-                        </p>
-                      </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
+            {/* Preview and Program buses */}
+            {(previewLayout || programLayout) && (
+              <>
+                <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+                  <BusMonitor
+                    bus="preview"
+                    layout={previewLayout}
+                    videoTracks={videoTracks}
+                    participants={participants}
+                    connected={roomConnected}
+                  />
+                  <BusMonitor
+                    bus="program"
+                    layout={programLayout}
+                    transition={programTransition}
+                    videoTracks={videoTracks}
+                    participants={participants}
+                    connected={roomConnected}
+                  />
+                </div>
+
+                <TransitionControls
+                  settings={transitionSettings}
+                  onSettingsChange={setTransitionSettings}
+                  onTake={takePreview}
+                  disabled={!roomConnected || !previewLayout}
+                  midiInputs={midiStatus === 'ready' ? midiInputs : []}
+                />
+              </>
+            )}
+
+            {cameraParticipants.length > 0 && previewLayout && (
+              <ProgramLayoutPicker
+                layout={previewLayout}
+                cameras={cameraParticipants.map(participant => ({
+                  identity: participant.identity,
+                  label: participant.metadata || participant.identity.replace('camera_', '').replace(/_/g, ' ')
+                }))}
+                onChange={setPreviewLayout}
+                supportedLayouts={supportedLayouts}
+                disabled={!roomConnected}
+              />
+            )}
+
+            {cameraParticipants.length > 0 && (
+              <InstantReplayPanel
+                cameras={cameraParticipants.map(participant => ({
+                  identity: participant.identity,
+                  label: participant.metadata || participant.identity.replace('camera_', '').replace(/_/g, ' ')
+                }))}
+                defaultCamera={programLayout?.cameras.find(identity => identity !== REPLAY_IDENTITY)}
+                supported={instantReplay.supported}
+                bufferSeconds={instantReplay.bufferSeconds}
+                onBufferSecondsChange={setReplayBufferSeconds}
+                cuedClip={instantReplay.cuedClip}
+                onClipChange={setReplayClip}
+                playing={instantReplay.playing}
+                onMark={markReplay}
+                onPlay={playReplay}
+                onStop={stopReplay}
+                onClear={clearReplay}
+                disabled={!roomConnected}
+              />
             )}
 
             <div className="flex items-center justify-between">
@@ -517,6 +769,12 @@ const DirectorDashboard = () => {
                 <Users className="h-6 w-6" />
                 Live Cameras ({cameraParticipants.length})
               </h2>
+              <OperatorMessagePopover
+                recipient="all cameras"
+                triggerLabel="Message All"
+                disabled={!roomConnected || cameraParticipants.length === 0}
+                onSend={(text) => sendOperatorMessage(text)}
+              />
             </div>
 
             {!roomConnected ? (
@@ -535,21 +793,25 @@ const DirectorDashboard = () => {
                   <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                   <h3 className="text-lg font-semibold mb-2">No Cameras Connected</h3>
                   <p className="text-muted-foreground mb-4">
-                    Camera operators can scan the QR code or use event code <span className="font-mono font-bold">{event?.event_code}</span> to connect.
+                    Add a camera slot and have its operator scan the slot's QR code to connect.
                   </p>
                 </CardContent>
               </Card>
             ) : (
               <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'}`}>
-                {cameraParticipants.map((participant) => (
+                {cameraParticipants.map((participant, index) => (
                   <LiveCameraCard
                     key={participant.identity}
+                    cameraNumber={index + 1}
                     participant={participant}
                     videoTrack={videoTracks.get(participant.identity) || null}
-                    isSelected={selectedCameraId === participant.identity}
-                    isActive={activeCameraIdentity === participant.identity}
+                    isSelected={previewLayout?.cameras.includes(participant.identity) || false}
+                    isActive={programLayout?.cameras.includes(participant.identity) || false}
                     onSelect={() => handleCameraSelect(participant.identity)}
                     onActivate={() => setActiveCamera(participant.identity)}
+                    control={cameraControl.getStatus(participant.identity)}
+                    onCommand={(command) => cameraControl.sendCommand(participant.identity, command)}
+                    onSendMessage={(text) => sendOperatorMessage(text, participant.identity)}
                   />
                 ))}
               </div>
@@ -0,0 +1,153 @@
+import { useParams, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Film, Play, Share } from "lucide-react";
+import { toastService } from "@/lib/toast-service";
+import { useEventClips, type EventClip } from "@/hooks/useHighlights";
+import { usePublicEvent } from "@/hooks/usePublicEvent";
+import { ClipPlayer } from "@/components/ClipPlayer";
+import { formatClock } from "@/lib/scoreboard";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import ErrorMessage from "@/components/error/ErrorMessage";
+import AppHeader from "@/components/AppHeader";
+import { useIsMobile } from "@/hooks/use-mobile";
+
+const HighlightsPage = () => {
+  const { eventId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Highlights are usually watched after the event has ended, when only its public details are readable
+  const { event, loading: eventLoading } = usePublicEvent({ eventId: eventId || "" });
+  const { clips, loading: clipsLoading } = useEventClips({ eventId: eventId || "" });
+  const isMobile = useIsMobile();
+
+  // The selected clip lives in the URL so shared links open straight onto it
+  const selectedClip = clips.find(clip => clip.id === searchParams.get("clip")) || clips[0];
+
+  const selectClip = (clip: EventClip) => {
+    setSearchParams({ clip: clip.id }, { replace: true });
+  };
+
+  const shareClip = async (clip: EventClip) => {
+    const clipUrl = `${window.location.origin}/highlights/${eventId}?clip=${clip.id}`;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title: `${clip.title} - ${event?.name}`,
+          url: clipUrl,
+        });
+        return;
+      } catch (error) {
+        // Dismissing the share sheet is not an error worth a clipboard fallback
+        if (error.name === "AbortError") return;
+        console.error("Error sharing:", error);
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(clipUrl);
+      toastService.success({ title: "Link Copied", description: "The clip link has been copied to your clipboard." });
+    } catch (error) {
+      console.error("Error copying clip link:", error);
+      toastService.error({ description: "Failed to copy the clip link." });
+    }
+  };
+
+  if (eventLoading || clipsLoading) {
+    return <LoadingSpinner fullScreen text="Loading highlights..." />;
+  }
+
+  if (!event) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <ErrorMessage
+          title="Unable to load highlights"
+          message="Event not found"
+          onRetry={() => window.location.reload()}
+          className="max-w-md"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+      <div className="container mx-auto px-4 py-6">
+        <div className={`grid gap-6 ${isMobile ? "grid-cols-1" : "grid-cols-1 lg:grid-cols-3"}`}>
+          <div className={`space-y-4 ${isMobile ? "" : "lg:col-span-2"}`}>
+            <div className="aspect-video bg-black rounded-lg overflow-hidden">
+              {selectedClip && event.recording_url ? (
+                <ClipPlayer
+                  key={selectedClip.id}
+                  recordingUrl={event.recording_url}
+                  startSeconds={selectedClip.start_seconds}
+                  endSeconds={selectedClip.end_seconds}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <div className="text-center text-white">
+                    <Film className="h-16 w-16 mx-auto mb-4 opacity-50" />
+                    <h3 className="text-xl font-semibold mb-2">No Highlights Yet</h3>
+                    <p className="opacity-75">
+                      Clips appear here once the event recording is ready.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-4">
+                  <span>{selectedClip?.title || event.name}</span>
+                  {selectedClip && (
+                    <Button variant="outline" size="sm" onClick={() => shareClip(selectedClip)}>
+                      <Share className="h-4 w-4 mr-2" />
+                      Share
+                    </Button>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {event.name} · Sport: {event.sport}
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Film className="h-5 w-5" />
+                Highlights
+              </CardTitle>
+              <CardDescription>
+                {clips.length} clip{clips.length === 1 ? "" : "s"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {clips.map(clip => (
+                <button
+                  key={clip.id}
+                  type="button"
+                  onClick={() => selectClip(clip)}
+                  className={`w-full flex items-center gap-3 rounded-md border p-3 text-left text-sm transition-colors hover:bg-muted ${
+                    clip.id === selectedClip?.id ? "border-primary bg-muted" : ""
+                  }`}
+                >
+                  <Play className="h-4 w-4 shrink-0" />
+                  <span className="flex-1 truncate">{clip.title}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {formatClock(Math.floor(clip.start_seconds))}
+                  </span>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HighlightsPage;
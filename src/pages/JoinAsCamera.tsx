@@ -18,6 +18,14 @@ import { Camera, Video, VideoOff, Loader2 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import QrReader from 'react-qr-scanner';
 
+interface CameraInvite {
+  eventId: string;
+  eventName: string;
+  eventStatus: string;
+  deviceLabel: string;
+  usable: boolean;
+}
+
 const JoinAsCamera = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -36,15 +44,62 @@ const [cameraError, setCameraError] = useState<string | null>(null);
 const [activeTab, setActiveTab] = useState<'manual' | 'qr'>('manual');
 const [isScanning, setIsScanning] = useState(false);
 const [scanError, setScanError] = useState<string | null>(null);
+  // Camera slot invite from a director's QR code
+  const [joinToken, setJoinToken] = useState<string | null>(null);
+  const [cameraInvite, setCameraInvite] = useState<CameraInvite | null>(null);
 
-  // Set event code from URL parameters on mount
+  // Set event code or camera invite from URL parameters on mount
   useEffect(() => {
+    const inviteFromUrl = searchParams.get('invite');
+    if (inviteFromUrl) {
+      setJoinToken(inviteFromUrl);
+      return;
+    }
+
     const codeFromUrl = searchParams.get('code');
     if (codeFromUrl) {
       setEventCode(codeFromUrl.toUpperCase());
     }
   }, [searchParams]);
 
+  // Look up the camera slot as soon as an invite is known
+  useEffect(() => {
+    if (!joinToken) return;
+
+    const resolveInvite = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.functions.invoke('camera-tokens', {
+          body: { action: 'resolve', joinToken }
+        });
+
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        if (!data.invite.usable) {
+          setCameraInvite(null);
+          toastService.error({
+            description: "This camera invite has expired or was already used. Ask the director for a new QR code."
+          });
+          return;
+        }
+
+        setCameraInvite(data.invite);
+        setDeviceLabel(data.invite.deviceLabel);
+      } catch (error) {
+        console.error('Error resolving camera invite:', error);
+        setCameraInvite(null);
+        toastService.error({
+          description: "This camera invite is not valid. Ask the director for a new QR code."
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    resolveInvite();
+  }, [joinToken]);
+
   // Auto-validate when event code is set from QR code
   useEffect(() => {
     if (eventCode && searchParams.get('code') && !eventData) {
@@ -102,21 +157,26 @@ const startVideoPreview = async () => {
     }
   };
 
-  const generateDeviceLabel = async (eventId: string) => {
+  const generateDeviceLabel = async (eventId: string, cameraLabels: string[] = []) => {
     try {
-      // Get count of existing cameras for this event
-      const { count, error } = await supabase
+      // Get existing cameras for this event
+      const { data: cameras, error } = await supabase
         .from('cameras')
-        .select('*', { count: 'exact', head: true })
+        .select('device_label')
         .eq('event_id', eventId);
 
       if (error) {
         console.error('Error counting cameras:', error);
-        return "Camera 1"; // Default fallback
+        return cameraLabels[0] || "Camera 1"; // Default fallback
       }
 
+      // Events created from a template name their cameras; take the first one not yet joined
+      const takenLabels = new Set((cameras || []).map(camera => camera.device_label));
+      const nextTemplateLabel = cameraLabels.find(label => !takenLabels.has(label));
+      if (nextTemplateLabel) return nextTemplateLabel;
+
       // Generate next camera number
-      const nextCameraNumber = (count || 0) + 1;
+      const nextCameraNumber = (cameras?.length || 0) + 1;
       return `Camera ${nextCameraNumber}`;
     } catch (error) {
       console.error('Error generating device label:', error);
@@ -164,7 +224,7 @@ const validateEventCode = async (codeOverride?: string) => {
       setEventCode(codeToUse);
       
       // Auto-generate device label
-      const generatedLabel = await generateDeviceLabel(data.id);
+      const generatedLabel = await generateDeviceLabel(data.id, data.camera_labels);
       setDeviceLabel(generatedLabel);
       
       console.log('Event found with streaming type:', data.streaming_type);
@@ -184,6 +244,15 @@ const validateEventCode = async (codeOverride?: string) => {
   };
 
 // QR helpers and handlers
+  const extractJoinToken = (text: string): string | null => {
+    if (!text) return null;
+    try {
+      return new URL(text).searchParams.get('invite');
+    } catch {
+      return null;
+    }
+  };
+
   const extractEventCode = (text: string): string | null => {
     if (!text) return null;
     try {
@@ -210,6 +279,16 @@ const validateEventCode = async (codeOverride?: string) => {
   const handleScan = (data: any) => {
     if (!data) return;
     const text = typeof data === 'string' ? data : (data?.text || '');
+    const scannedToken = extractJoinToken(text);
+    if (scannedToken) {
+      setJoinToken(scannedToken);
+      toastService.success({ title: 'QR scanned', description: 'Camera invite detected' });
+      handleTabChange('manual');
+      setIsScanning(false);
+      if (!stream) startVideoPreview();
+      return;
+    }
+
     const code = extractEventCode(text);
     if (code) {
       setEventCode(code);
@@ -228,6 +307,43 @@ const validateEventCode = async (codeOverride?: string) => {
     setScanError(err?.message || 'Unable to access camera for scanning');
   };
 
+  const joinWithInvite = async () => {
+    if (!cameraInvite || !joinToken) return;
+
+    setLoading(true);
+    try {
+      // The invite decides the event and camera slot; the session lets this phone publish as that slot
+      const { data, error } = await supabase.functions.invoke('register-camera', {
+        body: { joinToken }
+      });
+
+      if (error) {
+        // Dead invites come back as 404, 410 or 403 with the reason in the body
+        const body = await (error as { context?: Response }).context?.json().catch(() => null);
+        throw new Error(body?.error || error.message);
+      }
+      if (data?.error) throw new Error(data.error);
+
+      toastService.event.cameraConnected(data.deviceLabel);
+
+      navigate(`/livekit-camera/${data.eventId}`, {
+        state: {
+          eventName: cameraInvite.eventName,
+          deviceLabel: data.deviceLabel,
+          eventId: data.eventId,
+          cameraId: data.cameraId,
+          sessionToken: data.sessionToken
+        }
+      });
+    } catch (error) {
+      console.error('Error joining with camera invite:', error);
+      toastService.error({
+        description: error.message || "Failed to join with this camera invite. Please try again.",
+      });
+      setLoading(false);
+    }
+  };
+
   const registerCamera = async () => {
     if (!eventData || !deviceLabel.trim()) {
       toastService.error({
@@ -248,12 +364,12 @@ const validateEventCode = async (codeOverride?: string) => {
         },
         body: {
           eventId: eventData.id,
-          deviceLabel: deviceLabel.trim(),
-          eventCode: eventCode.toUpperCase()
+          deviceLabel: deviceLabel.trim()
         }
       });
 
       if (error) throw error;
+      if (data?.error) throw new Error(data.error);
 
       toastService.event.cameraConnected(deviceLabel.trim());
 
@@ -267,8 +383,9 @@ const validateEventCode = async (codeOverride?: string) => {
       });
     } catch (error) {
       console.error('Error registering camera:', error);
+      // Only the event's crew can join by event code; everyone else needs a camera invite
       toastService.error({
-        description: "Failed to register camera. Please try again.",
+        description: "Failed to register camera. Camera operators should scan the QR code for their camera slot.",
       });
       setLoading(false);
     }
@@ -330,6 +447,41 @@ const validateEventCode = async (codeOverride?: string) => {
               </div>
 
               {/* Event Connection */}
+              {joinToken ? (
+                <div className="space-y-6">
+                  {cameraInvite ? (
+                    <div className="space-y-4 p-4 bg-muted rounded-lg">
+                      <h4 className="font-semibold">Camera Invite</h4>
+                      <div className="space-y-2 text-sm">
+                        <p><strong>Event:</strong> {cameraInvite.eventName}</p>
+                        <p><strong>Camera:</strong> {cameraInvite.deviceLabel}</p>
+                        <p><strong>Status:</strong> {cameraInvite.eventStatus}</p>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                      {loading ? (
+                        <>
+                          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                          Checking camera invite...
+                        </>
+                      ) : (
+                        "This camera invite can't be used. Ask the director for a new QR code."
+                      )}
+                    </div>
+                  )}
+
+                  <LoadingButton
+                    onClick={joinWithInvite}
+                    className="w-full"
+                    loading={loading && !!cameraInvite}
+                    loadingText="Connecting..."
+                    disabled={!cameraInvite || !stream || !isOnline}
+                  >
+                    {!isOnline ? "Offline - Cannot Join Event" : `Join as ${cameraInvite?.deviceLabel ?? "Camera"}`}
+                  </LoadingButton>
+                </div>
+              ) : (
               <div className="space-y-6">
                 <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
                   <TabsList className="grid w-full grid-cols-2">
@@ -418,6 +570,21 @@ const validateEventCode = async (codeOverride?: string) => {
                     placeholder="e.g., Left Corner Cam, Center Field"
                     required
                   />
+                  {eventData?.camera_labels?.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {eventData.camera_labels.map((label: string) => (
+                        <Button
+                          key={label}
+                          type="button"
+                          variant={deviceLabel === label ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setDeviceLabel(label)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <LoadingButton 
@@ -430,6 +597,7 @@ const validateEventCode = async (codeOverride?: string) => {
                   {!isOnline ? "Offline - Cannot Join Event" : "Join Event as Camera"}
                 </LoadingButton>
               </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -1,18 +1,21 @@
 import React from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, CalendarClock, CalendarX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { LiveKitCameraStream } from '@/components/LiveKitCameraStream';
 import AppHeader from '@/components/AppHeader';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useEventSchedule } from '@/hooks/useEventSchedule';
 
 export function LiveKitCameraPage() {
   const { eventId } = useParams<{ eventId: string }>();
   const location = useLocation();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { startTime, cancelled, rescheduled } = useEventSchedule({ eventId: eventId || '' });
   
-  const { eventName, deviceLabel } = location.state || {};
+  const { eventName, deviceLabel, cameraId, sessionToken } = location.state || {};
 
   if (!eventId || !deviceLabel) {
     navigate('/join-camera');
@@ -45,10 +48,31 @@ export function LiveKitCameraPage() {
           </div>
         </div>
 
-        <LiveKitCameraStream 
-          eventId={eventId}
-          deviceLabel={deviceLabel}
-        />
+        {rescheduled && startTime && !cancelled && (
+          <Alert className="mb-4">
+            <CalendarClock className="h-4 w-4" />
+            <AlertTitle>Event rescheduled</AlertTitle>
+            <AlertDescription>
+              The event now starts {new Date(startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {cancelled ? (
+          <Alert variant="destructive">
+            <CalendarX className="h-4 w-4" />
+            <AlertTitle>Event cancelled</AlertTitle>
+            <AlertDescription>
+              The organizer cancelled this event, so the camera has been disconnected. You can close this page.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <LiveKitCameraStream 
+            eventId={eventId}
+            deviceLabel={deviceLabel}
+            cameraSession={cameraId && sessionToken ? { cameraId, sessionToken } : undefined}
+          />
+        )}
       </div>
     </div>
   );
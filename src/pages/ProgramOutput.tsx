@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Room, RoomEvent } from 'livekit-client';
+import { ProgramComposition } from '@/components/ProgramComposition';
+import { ScoreboardOverlay } from '@/components/ScoreboardOverlay';
+import { useProgramLayout, useRoomVideoTracks } from '@/hooks/useProgramFeed';
+import { useScoreboard } from '@/hooks/useScoreboard';
+import { isProgramSource, resolveLayout } from '@/lib/program-layout';
+
+// Custom LiveKit egress template: the egress recorder opens this page with `url` and `token`
+// query parameters and captures whatever it renders as the program output.
+export default function ProgramOutput() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [searchParams] = useSearchParams();
+  const [room, setRoom] = useState<Room | null>(null);
+  const { layout: programLayout, transition } = useProgramLayout({ eventId: eventId || '', room });
+  const videoTracks = useRoomVideoTracks(room);
+  const { scoreboard, rules: sportRules } = useScoreboard({ eventId: eventId || '' });
+
+  const wsUrl = searchParams.get('url');
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    if (!wsUrl || !token) {
+      console.error('ProgramOutput: missing url or token');
+      return;
+    }
+
+    const newRoom = new Room({ adaptiveStream: false });
+
+    // The egress recorder watches the console for these markers
+    newRoom.on(RoomEvent.Disconnected, () => {
+      console.log('END_RECORDING');
+    });
+
+    newRoom.connect(wsUrl, token)
+      .then(() => {
+        setRoom(newRoom);
+        console.log('START_RECORDING');
+      })
+      .catch(error => {
+        console.error('ProgramOutput failed to connect:', error);
+      });
+
+    return () => {
+      newRoom.disconnect();
+    };
+  }, [wsUrl, token]);
+
+  const liveCameras = Array.from(videoTracks.keys()).filter(isProgramSource);
+  const layout = resolveLayout(programLayout, liveCameras);
+
+  return (
+    <div className="fixed inset-0 bg-black">
+      <ProgramComposition layout={layout} videoTracks={videoTracks} transition={transition} />
+      <ScoreboardOverlay scoreboard={scoreboard} rules={sportRules} className="absolute top-[4%] left-[3%] z-20 text-lg" />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, GanttChart, RefreshCw } from "lucide-react";
+import { toastService } from "@/lib/toast-service";
+import { formatClock } from "@/lib/scoreboard";
+import {
+  DEFAULT_EXPORT_FRAME_RATE,
+  EXPORT_FRAME_RATES,
+  exportEdl,
+  exportFcpxml
+} from "@/lib/timeline-export";
+import { useProgramTimeline } from "@/hooks/useProgramTimeline";
+import { ProgramTimelineBar } from "@/components/ProgramTimelineBar";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import ErrorMessage from "@/components/error/ErrorMessage";
+import AppHeader from "@/components/AppHeader";
+
+const formatOffset = (seconds: number) => formatClock(Math.floor(seconds));
+
+const downloadFile = (fileName: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const a = document.createElement("a");
+  a.download = fileName;
+  a.href = url;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const TimelinePage = () => {
+  const { eventId } = useParams();
+  const { event, timeline, loading, error, refetch } = useProgramTimeline({ eventId: eventId || "" });
+  const [frameRate, setFrameRate] = useState(DEFAULT_EXPORT_FRAME_RATE);
+
+  const handleExport = (format: "edl" | "fcpxml") => {
+    if (!event || !timeline) return;
+
+    try {
+      const baseName = event.name.replace(/[^\w-]+/g, "_");
+      if (format === "edl") {
+        downloadFile(`${baseName}.edl`, exportEdl(event.name, timeline, frameRate), "text/plain");
+      } else {
+        downloadFile(`${baseName}.fcpxml`, exportFcpxml(event.name, timeline, frameRate), "application/xml");
+      }
+    } catch (error) {
+      console.error("Error exporting timeline:", error);
+      toastService.error({ description: error.message || "Failed to export the timeline." });
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen text="Loading timeline..." />;
+  }
+
+  if (error || !event) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <ErrorMessage
+          title="Unable to load timeline"
+          message={error || "Event not found"}
+          onRetry={refetch}
+          className="max-w-md"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+      <div className="p-4">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to={`/director/${event.id}`}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Director Dashboard
+            </Link>
+          </Button>
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <GanttChart className="h-6 w-6" />
+                    {event.name} Timeline
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-4 flex-wrap">
+                    <span>Sport: {event.sport}</span>
+                    <Badge variant="secondary">{event.status}</Badge>
+                    {timeline && (
+                      <span>
+                        {timeline.segments.length} shot{timeline.segments.length === 1 ? "" : "s"} ·{" "}
+                        {formatOffset(timeline.durationSeconds)}
+                      </span>
+                    )}
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={refetch}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {timeline ? (
+                <>
+                  <ProgramTimelineBar timeline={timeline} />
+
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="w-28 space-y-1">
+                      <Label className="text-xs">Frame rate</Label>
+                      <Select value={String(frameRate)} onValueChange={value => setFrameRate(Number(value))}>
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EXPORT_FRAME_RATES.map(rate => (
+                            <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button variant="outline" onClick={() => handleExport("edl")}>
+                      <Download className="h-4 w-4 mr-2" />
+                      EDL (CMX3600)
+                    </Button>
+                    <Button variant="outline" onClick={() => handleExport("fcpxml")}>
+                      <Download className="h-4 w-4 mr-2" />
+                      FCPXML
+                    </Button>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">#</TableHead>
+                        <TableHead>Camera</TableHead>
+                        <TableHead>In</TableHead>
+                        <TableHead>Out</TableHead>
+                        <TableHead>Duration</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {timeline.segments.map((segment, index) => (
+                        <TableRow key={`${segment.cameraId}-${segment.startSeconds}`}>
+                          <TableCell className="tabular-nums">{index + 1}</TableCell>
+                          <TableCell>{segment.cameraLabel}</TableCell>
+                          <TableCell className="tabular-nums">{formatOffset(segment.startSeconds)}</TableCell>
+                          <TableCell className="tabular-nums">{formatOffset(segment.endSeconds)}</TableCell>
+                          <TableCell className="tabular-nums">
+                            {formatOffset(segment.endSeconds - segment.startSeconds)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No camera switches have been logged for this event yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePage;
@@ -8,12 +8,16 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
 import { supabase } from '@/integrations/supabase/client';
 import { toastService } from '@/lib/toast-service';
 import AppHeader from '@/components/AppHeader';
 import LoadingButton from '@/components/ui/LoadingButton';
 import ErrorMessage from '@/components/error/ErrorMessage';
+import { SwitcherShortcutsSettings } from '@/components/SwitcherShortcutsSettings';
+import { CameraRecordingsList } from '@/components/CameraRecordingsList';
+import { EventLifecycleActions } from '@/components/EventLifecycleActions';
 import { useNavigate } from 'react-router-dom';
 import { 
   User, 
@@ -31,6 +35,10 @@ import {
 
 const UserProfile = () => {
   const { user, profile, userRoles, loading: authLoading } = useAuth();
+  const { activeOrganization, activeRole } = useOrganization();
+  // In an organization, only owners and producers manage events and camera operators don't direct
+  const canManageEvents = !activeOrganization || activeRole === 'owner' || activeRole === 'producer';
+  const canDirectEvents = !activeOrganization || activeRole !== 'camera_operator';
   const { handleAsyncError } = useErrorHandler();
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -66,7 +74,7 @@ const UserProfile = () => {
       });
     }
     loadUserActivity();
-  }, [profile, user]);
+  }, [profile, user, activeOrganization?.id]);
 
   const loadUserActivity = async () => {
     if (!user) {
@@ -77,10 +85,13 @@ const UserProfile = () => {
     console.log('Loading events for user:', user.id);
     setLoadingEvents(true);
     try {
-      const { data: events, error } = await supabase
+      // An organization's events are shared by its members; personal events stay with their owner
+      const query = supabase
         .from('events')
-        .select('id, name, sport, status, created_at')
-        .eq('owner_id', user.id)
+        .select('id, name, sport, status, created_at, start_time, expected_duration');
+      const { data: events, error } = await (activeOrganization
+        ? query.eq('organization_id', activeOrganization.id)
+        : query.eq('owner_id', user.id).is('organization_id', null))
         .order('created_at', { ascending: false })
         .limit(5);
 
@@ -300,10 +311,11 @@ const UserProfile = () => {
 
           {/* Profile Tabs */}
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="security">Security</TabsTrigger>
               <TabsTrigger value="activity">Activity</TabsTrigger>
+              <TabsTrigger value="shortcuts">Shortcuts</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
 
@@ -472,37 +484,40 @@ const UserProfile = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    <h3 className="font-medium">Recent Events Created</h3>
+                    <h3 className="font-medium">{activeOrganization ? `Recent ${activeOrganization.name} Events` : 'Recent Events Created'}</h3>
                     {loadingEvents ? (
                       <p className="text-sm text-muted-foreground">Loading events...</p>
                     ) : userEvents.length > 0 ? (
                       <div className="space-y-3">
                         {userEvents.map((event: any) => (
-                          <div 
-                            key={event.id} 
-                            className={`flex items-center justify-between p-3 border rounded-lg transition-colors ${
-                              event.status === 'live' || event.status === 'scheduled' 
-                                ? 'hover:bg-muted/50 cursor-pointer' 
-                                : 'opacity-60'
-                            }`}
-                            onClick={() => {
-                              if (event.status === 'live' || event.status === 'scheduled') {
-                                navigate(`/director/${event.id}`);
-                              }
-                            }}
-                          >
-                            <div className="flex items-center space-x-3">
-                              <Eye className="h-4 w-4 text-muted-foreground" />
-                              <div>
-                                <p className="font-medium">{event.name}</p>
-                                <p className="text-sm text-muted-foreground">
-                                  {event.sport} • {new Date(event.created_at).toLocaleDateString()}
-                                </p>
+                          <div key={event.id} className="space-y-1">
+                            <div 
+                              className={`flex items-center justify-between p-3 border rounded-lg transition-colors ${
+                                canDirectEvents && (event.status === 'live' || event.status === 'paused' || event.status === 'scheduled')
+                                  ? 'hover:bg-muted/50 cursor-pointer' 
+                                  : 'opacity-60'
+                              }`}
+                              onClick={() => {
+                                if (canDirectEvents && (event.status === 'live' || event.status === 'paused' || event.status === 'scheduled')) {
+                                  navigate(`/director/${event.id}`);
+                                }
+                              }}
+                            >
+                              <div className="flex items-center space-x-3">
+                                <Eye className="h-4 w-4 text-muted-foreground" />
+                                <div>
+                                  <p className="font-medium">{event.name}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    {event.sport} • {new Date(event.created_at).toLocaleDateString()}
+                                  </p>
+                                </div>
                               </div>
+                              <Badge variant={event.status === 'live' ? 'default' : 'secondary'}>
+                                {event.status}
+                              </Badge>
                             </div>
-                            <Badge variant={event.status === 'live' ? 'default' : 'secondary'}>
-                              {event.status}
-                            </Badge>
+                            {event.status === 'ended' && <CameraRecordingsList eventId={event.id} />}
+                            {canManageEvents && <EventLifecycleActions event={event} onChanged={loadUserActivity} />}
                           </div>
                         ))}
                       </div>
@@ -514,6 +529,11 @@ const UserProfile = () => {
               </Card>
             </TabsContent>
 
+            {/* Shortcuts Tab */}
+            <TabsContent value="shortcuts">
+              <SwitcherShortcutsSettings />
+            </TabsContent>
+
             {/* Settings Tab */}
             <TabsContent value="settings">
               <Card>
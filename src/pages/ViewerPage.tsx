@@ -1,15 +1,22 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
-import { useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
-import { Play, Users, Wifi, Eye, Youtube, Twitch, ExternalLink, MessageCircle } from "lucide-react";
+import { Play, Users, Wifi, Eye, Youtube, Twitch, ExternalLink, MessageCircle, Film, Star, Video } from "lucide-react";
 import Hls from "hls.js";
 import LoadingSkeleton from "@/components/ui/LoadingSkeleton";
 import LoadingSpinner from "@/components/ui/LoadingSpinner";
 import { useRealtimePresence } from "@/hooks/useRealtimePresence";
 import { useRealtimeEventUpdates } from "@/hooks/useRealtimeEventUpdates";
+import { usePublicEvent } from "@/hooks/usePublicEvent";
+import { useScoreboard } from "@/hooks/useScoreboard";
+import { useReplayChapters } from "@/hooks/useReplayChapters";
+import { ScoreboardOverlay } from "@/components/ScoreboardOverlay";
+import { ReplayPlayer } from "@/components/ReplayPlayer";
+import { formatClock } from "@/lib/scoreboard";
+import { getChapterAt } from "@/lib/replay-chapters";
 
 import LiveKitViewer from "@/components/LiveKitViewer";
 import AppHeader from "@/components/AppHeader";
@@ -24,6 +31,9 @@ interface EventData {
   streaming_type?: string;
   youtube_key?: string;
   twitch_key?: string;
+  recording_url?: string | null;
+  recording_started_at?: string | null;
+  recording_duration_seconds?: number | null;
 }
 
 const ViewerPage = () => {
@@ -38,6 +48,7 @@ const ViewerPage = () => {
     eventId: eventId || '', 
     userId: currentUserId 
   });
+  const { scoreboard, rules: sportRules } = useScoreboard({ eventId: eventId || '' });
 
   const initializePlayer = useCallback(() => {
     if (!videoRef.current) return;
@@ -101,6 +112,19 @@ const ViewerPage = () => {
     };
   }, []);
 
+  // Ended events with a recording play it back as a replay, with chapters from the switch log and highlights.
+  // Viewers cannot read ended events, so the replay comes from the event's public details.
+  const { event: publicEvent, loading: publicEventLoading } = usePublicEvent({ eventId: eventId || '' });
+  const replayEvent = publicEvent?.status === 'ended' && publicEvent.recording_url ? publicEvent : null;
+  const replayVideoRef = useRef<HTMLVideoElement>(null);
+  const [replaySeconds, setReplaySeconds] = useState(0);
+  const replayUrl = replayEvent?.recording_url ?? null;
+  const { chapters } = useReplayChapters({
+    eventId: replayUrl ? eventId || '' : '',
+    recordingStartedAt: replayEvent?.recording_started_at ?? null,
+    recordingDurationSeconds: replayEvent?.recording_duration_seconds ?? null
+  });
+
   useEffect(() => {
     if (event?.program_url && videoRef.current) {
       videoRef.current.dataset.programUrl = event.program_url;
@@ -108,7 +132,7 @@ const ViewerPage = () => {
     }
   }, [event?.program_url, initializePlayer]);
 
-  if (loading) {
+  if (loading || publicEventLoading) {
     return (
       <div className="min-h-screen bg-background">
         {/* Header Skeleton */}
@@ -151,7 +175,7 @@ const ViewerPage = () => {
     );
   }
 
-  if (!event) {
+  if (!event && !replayEvent) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Card className="max-w-md">
@@ -216,6 +240,97 @@ const ViewerPage = () => {
     );
   }, [onlineUsers.length]);
 
+  if (replayUrl) {
+    const activeChapter = getChapterAt(chapters, replaySeconds);
+    const seekTo = (seconds: number) => {
+      if (!replayVideoRef.current) return;
+      replayVideoRef.current.currentTime = seconds;
+      replayVideoRef.current.play().catch(() => {});
+    };
+
+    return (
+      <div className="min-h-screen bg-background">
+        <AppHeader />
+        <div className="relative">
+          <ReplayPlayer
+            videoRef={replayVideoRef}
+            recordingUrl={replayUrl}
+            chapters={chapters}
+            durationSeconds={replayEvent.recording_duration_seconds}
+            onTimeUpdate={setReplaySeconds}
+          />
+          <div className="absolute top-4 left-4">
+            <Badge variant="secondary" className="bg-black/50 text-white">
+              <Play className="h-3 w-3 mr-1" />
+              REPLAY
+            </Badge>
+          </div>
+        </div>
+
+        <div className="container mx-auto px-4 py-6">
+          <div className={`grid gap-6 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-3'}`}>
+            <div className={isMobile ? '' : 'lg:col-span-2'}>
+              <Card>
+                <CardHeader>
+                  <CardTitle className={`flex items-center justify-between ${isMobile ? 'flex-col gap-3 items-start' : ''}`}>
+                    <span>{replayEvent.name}</span>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/highlights/${replayEvent.id}`}>
+                        <Film className="h-4 w-4 mr-2" />
+                        Highlights
+                      </Link>
+                    </Button>
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-4">
+                    <span>Sport: {replayEvent.sport}</span>
+                    <Badge variant="secondary">{replayEvent.status}</Badge>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">
+                    This event has ended. Watch the full recording, jump between camera angles and highlights
+                    with the chapter list, or hover the timeline to preview any moment.
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Chapters</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 max-h-96 overflow-y-auto">
+                {chapters.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No chapters for this recording.</p>
+                ) : (
+                  chapters.map(chapter => (
+                    <button
+                      key={`${chapter.kind}-${chapter.seconds}`}
+                      type="button"
+                      onClick={() => seekTo(chapter.seconds)}
+                      className={`w-full flex items-center gap-3 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted ${
+                        chapter === activeChapter ? 'bg-muted font-medium' : ''
+                      }`}
+                    >
+                      {chapter.kind === 'highlight' ? (
+                        <Star className="h-4 w-4 shrink-0 fill-amber-400 text-amber-400" />
+                      ) : (
+                        <Video className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="flex-1 truncate">{chapter.title}</span>
+                      <span className="text-xs text-muted-foreground tabular-nums">
+                        {formatClock(Math.floor(chapter.seconds))}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <AppHeader />
@@ -304,15 +419,27 @@ const ViewerPage = () => {
                   <div className="text-center text-white">
                     <Play className="h-16 w-16 mx-auto mb-4 opacity-50" />
                     <h3 className="text-xl font-semibold mb-2">
-                      {event.status === 'scheduled' ? 'Stream Starting Soon' : 'Stream Offline'}
+                      {event.status === 'scheduled'
+                        ? 'Stream Starting Soon'
+                        : event.status === 'paused' ? 'Reconnecting...' : 'Stream Offline'}
                     </h3>
                     <p className="opacity-75 mb-4">
                       {event.status === 'scheduled' 
                         ? 'The event will begin shortly. Stay tuned!' 
-                        : 'This stream has ended.'}
+                        : event.status === 'paused'
+                          ? 'The broadcast was interrupted and will resume shortly.'
+                          : 'This stream has ended.'}
                     </p>
                     {/* Platform Links */}
                     <div className="flex gap-2 justify-center">
+                      {event.status === 'ended' && (
+                        <Button variant="outline" size="sm" asChild>
+                          <Link to={`/highlights/${event.id}`}>
+                            <Film className="h-4 w-4 mr-2" />
+                            Highlights
+                          </Link>
+                        </Button>
+                      )}
                       {event.youtube_key && (
                         <Button
                           variant="outline"
@@ -418,7 +545,9 @@ const ViewerPage = () => {
                     </Badge>
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  {/* Embedded YouTube/Twitch/HLS players carry no overlay of their own */}
+                  <ScoreboardOverlay scoreboard={scoreboard} rules={sportRules} className="w-fit" />
                   <p className="text-muted-foreground">
                     Experience the action from multiple camera angles with our live multi-camera sports streaming.
                     Professional-grade coverage with real-time camera switching for the best viewing experience.
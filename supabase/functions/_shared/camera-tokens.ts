@@ -0,0 +1,74 @@
+// Shared helpers for camera invite tokens and the camera sessions they start
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * What a camera may publish: the sources in its LiveKit grant, and the track names the
+ * camera page gives them. livekit-webhook mutes any other track a camera publishes.
+ */
+export const CAMERA_TRACK_SOURCES = ['camera', 'microphone'];
+export const CAMERA_TRACK_NAMES = ['camera', 'microphone'];
+
+/**
+ * What anyone may publish in the talkback room: their intercom microphone only.
+ */
+export const TALKBACK_TRACK_SOURCES = ['microphone'];
+
+/**
+ * LiveKit identity for a camera slot. Must match the identity the camera page derives
+ * from its device label, since livekit-webhook maps identities back to cameras rows.
+ */
+export function getCameraIdentity(deviceLabel: string) {
+  return `camera_${deviceLabel.toLowerCase().replace(/\s+/g, '_')}`;
+}
+
+/**
+ * Random, URL-safe secret for invite links and camera sessions.
+ */
+export function generateSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether a camera invite can still be used to join: not revoked, not expired and,
+ * for single-use invites, not used yet.
+ */
+export function isJoinTokenUsable(joinToken: {
+  revoked_at: string | null;
+  expires_at: string;
+  single_use: boolean;
+  used_at: string | null;
+}) {
+  if (joinToken.revoked_at) return false;
+  if (new Date(joinToken.expires_at) <= new Date()) return false;
+  return !(joinToken.single_use && joinToken.used_at);
+}
+
+/**
+ * The camera slot a session token was issued for, or null when the session is unknown,
+ * revoked or its invite has expired.
+ */
+export async function verifyCameraSession(
+  supabase: SupabaseClient,
+  eventId: string,
+  cameraId: string,
+  sessionToken: string
+) {
+  const { data: joinToken } = await supabase
+    .from('camera_join_tokens')
+    .select('camera_id, expires_at, revoked_at, cameras(device_label)')
+    .eq('event_id', eventId)
+    .eq('camera_id', cameraId)
+    .eq('session_token', sessionToken)
+    .maybeSingle();
+
+  if (!joinToken || joinToken.revoked_at || new Date(joinToken.expires_at) <= new Date()) {
+    return null;
+  }
+
+  return {
+    cameraId: joinToken.camera_id as string,
+    deviceLabel: joinToken.cameras?.device_label as string
+  };
+}
@@ -0,0 +1,83 @@
+// Shared helpers for cutting highlight clips from an event recording
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Lead-in and follow-through around a marked highlight
+export const CLIP_PRE_ROLL_SECONDS = 10;
+export const CLIP_POST_ROLL_SECONDS = 5;
+
+// Wall-clock span of one stretch of recording; Mux lists several when the stream reconnected
+export interface RecordingTime {
+  started_at: string;
+  duration: number;
+}
+
+interface Highlight {
+  id: string;
+  label: string | null;
+  marked_at: string;
+}
+
+/**
+ * Offset into the recording asset for a wall-clock time, skipping gaps between
+ * recording stretches. Null when the time falls outside the recording.
+ */
+export function getRecordingOffset(recordingTimes: RecordingTime[], at: Date): number | null {
+  let offset = 0;
+
+  for (const stretch of recordingTimes) {
+    const startedAt = new Date(stretch.started_at).getTime();
+    const elapsed = (at.getTime() - startedAt) / 1000;
+
+    if (elapsed >= 0 && elapsed <= stretch.duration) {
+      return offset + elapsed;
+    }
+    offset += stretch.duration;
+  }
+
+  return null;
+}
+
+/**
+ * Creates a clip for every highlight of the event that falls inside the recording.
+ * Highlights that already have a clip are left alone, so this is safe to re-run.
+ */
+export async function createHighlightClips(supabase: SupabaseClient, eventId: string, recordingTimes: RecordingTime[]) {
+  const { data: highlights, error } = await supabase
+    .from('highlights')
+    .select('id, label, marked_at')
+    .eq('event_id', eventId)
+    .order('marked_at');
+
+  if (error) {
+    console.error('Error loading highlights:', error);
+    throw new Error('Failed to load highlights');
+  }
+
+  const totalDuration = recordingTimes.reduce((total, stretch) => total + stretch.duration, 0);
+  const clips = ((highlights ?? []) as Highlight[]).flatMap((highlight, index) => {
+    const offset = getRecordingOffset(recordingTimes, new Date(highlight.marked_at));
+    if (offset === null) return [];
+
+    return [{
+      event_id: eventId,
+      highlight_id: highlight.id,
+      title: highlight.label || `Highlight ${index + 1}`,
+      start_seconds: Math.max(0, offset - CLIP_PRE_ROLL_SECONDS),
+      end_seconds: Math.min(totalDuration, offset + CLIP_POST_ROLL_SECONDS)
+    }];
+  });
+
+  if (clips.length === 0) return 0;
+
+  const { error: insertError } = await supabase
+    .from('event_clips')
+    .upsert(clips, { onConflict: 'highlight_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    console.error('Error creating highlight clips:', insertError);
+    throw new Error('Failed to create highlight clips');
+  }
+
+  return clips.length;
+}
@@ -0,0 +1,81 @@
+// Shared helpers for per-event simulcast destinations
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface StreamDestination {
+  id: string;
+  name: string;
+  rtmp_url: string;
+  stream_key: string;
+  mux_simulcast_target_id: string | null;
+}
+
+interface StreamDestinationRow {
+  id: string;
+  name: string;
+  rtmp_url: string;
+  mux_simulcast_target_id: string | null;
+  stream_destination_keys: { stream_key: string } | null;
+}
+
+/**
+ * Full RTMP(S) publish URL for a destination, as pushed by LiveKit egress.
+ */
+export function getDestinationUrl(rtmpUrl: string, streamKey: string) {
+  return `${rtmpUrl.replace(/\/+$/, '')}/${streamKey}`;
+}
+
+/**
+ * Enabled destinations for an event joined with their server-side stream keys.
+ */
+export async function loadEnabledDestinations(supabase: SupabaseClient, eventId: string): Promise<StreamDestination[]> {
+  const { data, error } = await supabase
+    .from('stream_destinations')
+    .select('id, name, rtmp_url, mux_simulcast_target_id, stream_destination_keys(stream_key)')
+    .eq('event_id', eventId)
+    .eq('enabled', true)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error loading stream destinations:', error);
+    throw new Error('Failed to load stream destinations');
+  }
+
+  return ((data ?? []) as StreamDestinationRow[])
+    .filter(destination => destination.stream_destination_keys?.stream_key)
+    .map(destination => ({
+      id: destination.id,
+      name: destination.name,
+      rtmp_url: destination.rtmp_url,
+      stream_key: destination.stream_destination_keys.stream_key,
+      mux_simulcast_target_id: destination.mux_simulcast_target_id
+    }));
+}
+
+/**
+ * Removes a destination's Mux simulcast target so the stream stops pushing to it. Returns
+ * false when Mux could not remove it; a target Mux no longer knows counts as removed.
+ */
+export async function removeMuxSimulcastTarget(muxStreamId: string, simulcastTargetId: string) {
+  const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
+  const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
+  if (!muxTokenId || !muxSecretKey) {
+    console.warn('Mux credentials not configured, cannot remove simulcast target:', simulcastTargetId);
+    return false;
+  }
+
+  const auth = btoa(`${muxTokenId}:${muxSecretKey}`);
+  const muxResponse = await fetch(
+    `https://api.mux.com/video/v1/live-streams/${muxStreamId}/simulcast-targets/${simulcastTargetId}`,
+    {
+      method: 'DELETE',
+      headers: { 'Authorization': `Basic ${auth}` }
+    }
+  );
+
+  if (!muxResponse.ok && muxResponse.status !== 404) {
+    console.warn('Failed to remove Mux simulcast target:', await muxResponse.text());
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,75 @@
+// Shared helpers for changing events.status. Every edge function goes through the
+// `transition_event_status` database function, which rejects illegal transitions.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type EventStatus = 'scheduled' | 'live' | 'paused' | 'ended' | 'cancelled';
+
+/**
+ * Raised when the database rejects a status change, e.g. ended -> live. Callers acting for a
+ * director surface it as a 409; webhooks log it and move on.
+ */
+export class EventStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventStatusError';
+  }
+}
+
+// SQLSTATE raised by the enforce_event_status_transition trigger
+const ILLEGAL_TRANSITION_CODE = '23514';
+
+/**
+ * Moves an event to `status` and returns the updated event row. Moving to the current status
+ * is a no-op, so repeated webhooks and retries are safe.
+ */
+export async function transitionEventStatus(supabase: SupabaseClient, eventId: string, status: EventStatus) {
+  const { data, error } = await supabase.rpc('transition_event_status', {
+    _event_id: eventId,
+    _status: status
+  });
+
+  if (error) {
+    if (error.code === ILLEGAL_TRANSITION_CODE) {
+      throw new EventStatusError(error.message);
+    }
+    console.error('Event status transition error:', error);
+    throw new Error(`Failed to update event status: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Like `transitionEventStatus`, for webhooks: a rejected transition is logged and reported as
+ * false instead of thrown, so a late or out-of-order webhook never revives or ends an event.
+ */
+export async function tryTransitionEventStatus(supabase: SupabaseClient, eventId: string, status: EventStatus) {
+  try {
+    await transitionEventStatus(supabase, eventId, status);
+    return true;
+  } catch (error) {
+    console.warn('Event status not changed:', eventId, status, error.message);
+    return false;
+  }
+}
+
+/**
+ * Fails with an EventStatusError when `from` -> `to` is not a legal transition. Lets callers
+ * reject a request before side effects such as enabling the Mux stream.
+ */
+export async function assertEventStatusTransition(supabase: SupabaseClient, from: EventStatus, to: EventStatus) {
+  const { data: allowed, error } = await supabase.rpc('can_transition_event_status', {
+    _from: from,
+    _to: to
+  });
+
+  if (error) {
+    console.error('Event status check error:', error);
+    throw new Error(`Failed to check event status: ${error.message}`);
+  }
+
+  if (!allowed) {
+    throw new EventStatusError(`Illegal event status transition from ${from} to ${to}`);
+  }
+}
@@ -0,0 +1,207 @@
+// Shared helpers for isolated (ISO) camera recordings: one track egress per camera video track
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getRoomName } from './livekit.ts';
+
+// Private storage bucket the egress uploads to, with a folder per event
+export const ISO_RECORDINGS_BUCKET = 'iso-recordings';
+
+// Recordings LiveKit may still be writing
+export const ACTIVE_RECORDING_STATUSES = ['starting', 'active'];
+
+// Calls a LiveKit server API method, e.g. `Egress/StopEgress`
+type LiveKitApi = (method: string, body: Record<string, unknown>) => Promise<Response>;
+
+interface CameraRecording {
+  id: string;
+  egress_id: string;
+}
+
+/**
+ * S3 upload settings for ISO files. Uploads go to the Supabase storage S3 endpoint unless
+ * `ISO_RECORDING_S3_ENDPOINT` overrides it. Null when ISO recording is not configured.
+ */
+export function getIsoStorageConfig() {
+  const accessKey = Deno.env.get('ISO_RECORDING_S3_ACCESS_KEY');
+  const secret = Deno.env.get('ISO_RECORDING_S3_SECRET');
+  if (!accessKey || !secret) {
+    return null;
+  }
+
+  return {
+    access_key: accessKey,
+    secret,
+    region: Deno.env.get('ISO_RECORDING_S3_REGION') ?? 'us-east-1',
+    endpoint: Deno.env.get('ISO_RECORDING_S3_ENDPOINT') ?? `${Deno.env.get('SUPABASE_URL')}/storage/v1/s3`,
+    bucket: ISO_RECORDINGS_BUCKET,
+    force_path_style: true
+  };
+}
+
+/**
+ * Whether a LiveKit track from an API response or webhook payload is video.
+ * Track types arrive as enum names (`VIDEO`), so compare case-insensitively.
+ */
+export function isVideoTrack(track: { type?: string | number } | null | undefined) {
+  return String(track?.type).toUpperCase() === 'VIDEO';
+}
+
+/**
+ * Camera row for a LiveKit camera identity (`camera_<device label>`), or null.
+ */
+async function findCameraForIdentity(supabase: SupabaseClient, eventId: string, identity: string) {
+  const { data: cameras, error } = await supabase
+    .from('cameras')
+    .select('id, device_label')
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error('Error loading cameras:', error);
+    return null;
+  }
+
+  return ((cameras ?? []) as { id: string; device_label: string }[]).find(camera =>
+    camera.device_label.toLowerCase().replace(/\s+/g, '_') === identity.replace('camera_', '')
+  ) ?? null;
+}
+
+/**
+ * Starts a track egress recording one camera video track to the ISO bucket, unless the
+ * track is already being recorded. Returns the egress id, or null when ISO is not configured.
+ */
+export async function startCameraRecording(
+  supabase: SupabaseClient,
+  callApi: LiveKitApi,
+  eventId: string,
+  identity: string,
+  trackSid: string
+) {
+  const storage = getIsoStorageConfig();
+  if (!storage) {
+    return null;
+  }
+
+  const { data: existing } = await supabase
+    .from('camera_recordings')
+    .select('egress_id')
+    .eq('track_sid', trackSid)
+    .in('status', ACTIVE_RECORDING_STATUSES)
+    .maybeSingle();
+
+  if (existing) {
+    return existing.egress_id;
+  }
+
+  // LiveKit fills in the timestamp and the file extension for the track's codec
+  const response = await callApi('Egress/StartTrackEgress', {
+    room_name: getRoomName(eventId),
+    track_id: trackSid,
+    file: {
+      filepath: `${eventId}/${identity}-{time}`,
+      s3: storage
+    }
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('ISO recording start failed:', identity, errorText);
+    throw new Error(`Failed to start ISO recording: ${errorText}`);
+  }
+
+  const egress = await response.json();
+  const camera = await findCameraForIdentity(supabase, eventId, identity);
+
+  const { error } = await supabase
+    .from('camera_recordings')
+    .insert({
+      event_id: eventId,
+      camera_id: camera?.id ?? null,
+      participant_identity: identity,
+      track_sid: trackSid,
+      egress_id: egress.egress_id,
+      status: 'starting',
+      started_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error saving camera recording:', error);
+    throw new Error('Failed to save camera recording');
+  }
+
+  console.log('ISO recording started:', identity, egress.egress_id);
+  return egress.egress_id as string;
+}
+
+/**
+ * Starts ISO recordings for every camera video track in the event's room. Failures are
+ * logged per camera, so one bad track stops neither the other cameras nor the program egress.
+ */
+export async function startCameraRecordings(supabase: SupabaseClient, callApi: LiveKitApi, eventId: string) {
+  if (!getIsoStorageConfig()) {
+    console.log('ISO recording storage not configured; skipping camera recordings');
+    return [];
+  }
+
+  const response = await callApi('RoomService/ListParticipants', { room: getRoomName(eventId) });
+  if (!response.ok) {
+    console.error('Participant lookup for ISO recordings failed:', await response.text());
+    return [];
+  }
+
+  const { participants = [] } = await response.json();
+  const egressIds: string[] = [];
+
+  for (const participant of participants) {
+    if (!participant.identity?.startsWith('camera_')) continue;
+
+    for (const track of participant.tracks ?? []) {
+      if (!isVideoTrack(track)) continue;
+
+      try {
+        const egressId = await startCameraRecording(supabase, callApi, eventId, participant.identity, track.sid);
+        if (egressId) egressIds.push(egressId);
+      } catch (error) {
+        console.error('ISO recording not started for', participant.identity, error);
+      }
+    }
+  }
+
+  return egressIds;
+}
+
+/**
+ * Stops the event's running ISO recordings. The egress_ended webhook records the files.
+ */
+export async function stopCameraRecordings(supabase: SupabaseClient, callApi: LiveKitApi, eventId: string) {
+  const { data: recordings, error } = await supabase
+    .from('camera_recordings')
+    .select('id, egress_id')
+    .eq('event_id', eventId)
+    .in('status', ACTIVE_RECORDING_STATUSES);
+
+  if (error) {
+    console.error('Camera recording lookup error:', error);
+    return [];
+  }
+
+  for (const recording of (recordings ?? []) as CameraRecording[]) {
+    const response = await callApi('Egress/StopEgress', { egress_id: recording.egress_id });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('ISO recording stop failed:', recording.egress_id, errorText);
+      await supabase
+        .from('camera_recordings')
+        .update({ status: 'failed', error: errorText, ended_at: new Date().toISOString() })
+        .eq('id', recording.id);
+      continue;
+    }
+
+    await supabase
+      .from('camera_recordings')
+      .update({ status: 'ending' })
+      .eq('id', recording.id);
+  }
+
+  return ((recordings ?? []) as CameraRecording[]).map(recording => recording.egress_id);
+}
@@ -0,0 +1,88 @@
+// Shared program layout helpers for edge functions; mirrors src/lib/program-layout.ts
+
+export type ProgramLayoutType = 'single' | 'pip' | 'side_by_side' | 'grid';
+
+export interface ProgramLayout {
+  type: ProgramLayoutType;
+  cameras: string[];
+  pipPosition?: string;
+}
+
+const LAYOUT_SLOTS: Record<ProgramLayoutType, number> = {
+  single: 1,
+  pip: 2,
+  side_by_side: 2,
+  grid: 4,
+};
+
+const PIP_POSITIONS = ['top_left', 'top_right', 'bottom_left', 'bottom_right'];
+
+// LiveKit built-in templates for the layouts they can compose. Picture-in-picture and
+// side-by-side have no built-in equivalent and need the custom egress template.
+const BUILT_IN_EGRESS_LAYOUTS: Partial<Record<ProgramLayoutType, string>> = {
+  single: 'single-speaker',
+  grid: 'grid',
+};
+
+/**
+ * Validated program layout from a request body, or null when it is malformed.
+ */
+export function parseProgramLayout(value: unknown): ProgramLayout | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { type, cameras, pipPosition } = value as Record<string, unknown>;
+
+  if (typeof type !== 'string' || !(type in LAYOUT_SLOTS)) {
+    return null;
+  }
+
+  const layoutType = type as ProgramLayoutType;
+
+  if (
+    !Array.isArray(cameras) ||
+    cameras.length === 0 ||
+    cameras.length > LAYOUT_SLOTS[layoutType] ||
+    !cameras.every(camera => typeof camera === 'string' && camera.length > 0)
+  ) {
+    return null;
+  }
+
+  if (pipPosition !== undefined && !PIP_POSITIONS.includes(pipPosition as string)) {
+    return null;
+  }
+
+  return {
+    type: layoutType,
+    cameras,
+    ...(layoutType === 'pip' && pipPosition ? { pipPosition: pipPosition as string } : {}),
+  };
+}
+
+/**
+ * Layout types the program egress can compose: all of them with a custom template, otherwise
+ * only those LiveKit has a built-in template for.
+ */
+export function getSupportedLayoutTypes(hasCustomTemplate: boolean): ProgramLayoutType[] {
+  const types = Object.keys(LAYOUT_SLOTS) as ProgramLayoutType[];
+  return hasCustomTemplate ? types : types.filter(type => type in BUILT_IN_EGRESS_LAYOUTS);
+}
+
+/**
+ * Layout name to hand to LiveKit egress. A custom template renders every layout itself
+ * from the `layout_update` data messages, so it only needs the layout type. Throws for
+ * layouts the built-in templates cannot compose rather than sending a different one.
+ */
+export function getEgressLayout(layout: ProgramLayout | null, hasCustomTemplate: boolean) {
+  const type = layout?.type || 'single';
+  if (hasCustomTemplate) {
+    return type;
+  }
+
+  const builtInLayout = BUILT_IN_EGRESS_LAYOUTS[type];
+  if (!builtInLayout) {
+    throw new Error(`The ${type} layout needs the custom egress template (LIVEKIT_EGRESS_TEMPLATE_URL)`);
+  }
+  return builtInLayout;
+}
@@ -0,0 +1,162 @@
+// Shared LiveKit helpers for edge functions
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * LiveKit room name for an event. Token, egress, ingress and webhook handlers
+ * must all go through this pair of helpers so room names map back to events.
+ */
+export function getRoomName(eventId: string) {
+  return eventId;
+}
+
+/**
+ * LiveKit room for an event's crew talkback. Kept apart from the program room so
+ * intercom audio never reaches egress or viewers; getEventIdFromRoomName does not
+ * map it back to the event, so webhook handlers leave it alone.
+ */
+export function getTalkbackRoomName(eventId: string) {
+  return `${eventId}_talkback`;
+}
+
+/**
+ * Event id for a LiveKit room name, or null when the room does not belong to an event.
+ */
+export function getEventIdFromRoomName(roomName: string | null | undefined) {
+  if (!roomName || !UUID_PATTERN.test(roomName)) {
+    return null;
+  }
+  return roomName;
+}
+
+function base64UrlEncode(value: string | Uint8Array) {
+  const binary = typeof value === 'string'
+    ? value
+    : String.fromCharCode(...value);
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+/**
+ * Signs a LiveKit access token (HS256) for the given claims. Server API calls use
+ * the API key as subject; participant tokens pass their identity and grants.
+ */
+export async function createLiveKitToken(
+  apiKey: string,
+  apiSecret: string,
+  claims: Record<string, unknown>,
+  ttlSeconds = 3600
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify({
+    iss: apiKey,
+    sub: apiKey,
+    nbf: now,
+    iat: now,
+    exp: now + ttlSeconds,
+    ...claims
+  }));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(apiSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * HTTPS base URL of the LiveKit server API for a configured `wss://` URL.
+ */
+export function getLiveKitApiUrl(wsUrl: string) {
+  return wsUrl.replace(/^wss:\/\//, 'https://').replace(/^ws:\/\//, 'http://').replace(/\/$/, '');
+}
+
+/**
+ * Calls a LiveKit server API method (Twirp over HTTPS), e.g. `Egress/StartTrackEgress`.
+ * The token needs the grants the method requires.
+ */
+export function callLiveKitApi(wsUrl: string, token: string, method: string, body: Record<string, unknown>) {
+  return fetch(`${getLiveKitApiUrl(wsUrl)}/twirp/livekit.${method}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+/**
+ * Verifies the signed JWT LiveKit sends in the webhook `Authorization` header.
+ * The token is signed with the API secret and carries a base64 sha256 of the body.
+ */
+export async function verifyWebhookAuthorization(
+  authHeader: string | null,
+  body: string,
+  apiKey: string,
+  apiSecret: string
+) {
+  if (!authHeader) {
+    return false;
+  }
+
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(apiSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  const isValidSignature = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  if (!isValidSignature) {
+    return false;
+  }
+
+  let claims: { iss?: string; exp?: number; nbf?: number; sha256?: string };
+  try {
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+  } catch {
+    return false;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.iss !== apiKey || (claims.exp && claims.exp < now) || (claims.nbf && claims.nbf > now)) {
+    return false;
+  }
+
+  const bodyHash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  const expectedHash = btoa(String.fromCharCode(...new Uint8Array(bodyHash)));
+
+  return claims.sha256 === expectedHash;
+}
@@ -0,0 +1,58 @@
+// Shared helper for in-app notifications shown in the app header
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Adds a notification for an event's owner. Failures are logged rather than thrown so a
+ * missed notification never fails the action it reports on.
+ */
+export async function notifyEventOwner(
+  supabase: SupabaseClient,
+  event: { id: string; owner_id: string | null },
+  type: string,
+  title: string,
+  body?: string
+) {
+  if (!event.owner_id) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: event.owner_id,
+      event_id: event.id,
+      type,
+      title,
+      body: body ?? null
+    });
+
+  if (error) {
+    console.error('Error saving notification:', type, error);
+  }
+}
+
+/**
+ * Adds a notification for any user, optionally linking to an app path instead of the
+ * event's director dashboard. Failures are logged like notifyEventOwner.
+ */
+export async function notifyUser(
+  supabase: SupabaseClient,
+  userId: string,
+  notification: { eventId?: string; type: string; title: string; body?: string; link?: string }
+) {
+  const { error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: userId,
+      event_id: notification.eventId ?? null,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body ?? null,
+      link: notification.link ?? null
+    });
+
+  if (error) {
+    console.error('Error saving notification:', notification.type, error);
+  }
+}
@@ -0,0 +1,140 @@
+// Shared helpers for creating events from an event template
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface TemplateDestination {
+  name: string;
+  rtmp_url: string;
+  stream_key: string;
+  enabled: boolean;
+}
+
+export interface EventTemplate {
+  id: string;
+  owner_id: string;
+  name: string;
+  sport: string;
+  expected_duration: number;
+  description: string | null;
+  auto_start: boolean;
+  auto_end: boolean;
+  end_grace_minutes: number;
+  home_name: string;
+  away_name: string;
+  home_color: string;
+  away_color: string;
+  camera_labels: string[];
+  destinations: TemplateDestination[];
+}
+
+interface TemplateDestinationRow {
+  name: string;
+  rtmp_url: string;
+  enabled: boolean;
+  created_at: string;
+  event_template_destination_keys: { stream_key: string } | null;
+}
+
+/**
+ * A template with its destinations joined to their server-side stream keys, or null when
+ * it does not exist or the user may not use it.
+ */
+export async function loadEventTemplate(supabase: SupabaseClient, templateId: string, userId: string): Promise<EventTemplate | null> {
+  const { data: template, error } = await supabase
+    .from('event_templates')
+    .select('*, event_template_destinations(name, rtmp_url, enabled, created_at, event_template_destination_keys(stream_key))')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading event template:', error);
+    throw new Error('Failed to load event template');
+  }
+  if (!template) {
+    return null;
+  }
+
+  if (template.owner_id !== userId) {
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+    if (!isAdmin) {
+      return null;
+    }
+  }
+
+  const { event_template_destinations: destinations, ...fields } = template;
+
+  return {
+    ...fields,
+    destinations: ((destinations ?? []) as TemplateDestinationRow[])
+      .filter(destination => destination.event_template_destination_keys?.stream_key)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(destination => ({
+        name: destination.name,
+        rtmp_url: destination.rtmp_url,
+        stream_key: destination.event_template_destination_keys.stream_key,
+        enabled: destination.enabled
+      }))
+  };
+}
+
+/**
+ * Gives a new event the template's scoreboard teams and simulcast destinations. The sport's
+ * clock and state defaults come from the client, which owns the sport rules. Each part is
+ * attempted on its own; the names of the parts that failed are returned.
+ */
+export async function applyEventTemplate(
+  supabase: SupabaseClient,
+  eventId: string,
+  template: EventTemplate,
+  scoreboardDefaults: Record<string, unknown> = {}
+): Promise<string[]> {
+  const failures: string[] = [];
+
+  const { error: scoreboardError } = await supabase
+    .from('event_scoreboards')
+    .insert({
+      ...scoreboardDefaults,
+      event_id: eventId,
+      home_name: template.home_name,
+      away_name: template.away_name,
+      home_color: template.home_color,
+      away_color: template.away_color
+    });
+
+  if (scoreboardError) {
+    console.error('Error creating scoreboard from template:', scoreboardError);
+    failures.push('scoreboard');
+  }
+
+  for (const templateDestination of template.destinations) {
+    const { data: destination, error: destinationError } = await supabase
+      .from('stream_destinations')
+      .insert({
+        event_id: eventId,
+        name: templateDestination.name,
+        rtmp_url: templateDestination.rtmp_url,
+        stream_key_hint: templateDestination.stream_key.slice(-4),
+        enabled: templateDestination.enabled
+      })
+      .select('id')
+      .single();
+
+    if (destinationError) {
+      console.error('Error creating destination from template:', destinationError);
+      failures.push(templateDestination.name);
+      continue;
+    }
+
+    const { error: keyError } = await supabase
+      .from('stream_destination_keys')
+      .insert({ destination_id: destination.id, stream_key: templateDestination.stream_key });
+
+    if (keyError) {
+      console.error('Error storing destination key from template:', keyError);
+      await supabase.from('stream_destinations').delete().eq('id', destination.id);
+      failures.push(templateDestination.name);
+    }
+  }
+
+  return failures;
+}
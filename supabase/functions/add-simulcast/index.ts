@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { loadEnabledDestinations } from "../_shared/destinations.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -47,60 +48,84 @@ serve(async (req) => {
     }
 
     const auth = btoa(`${muxTokenId}:${muxSecretKey}`);
-    const simulcastTargets = [];
+    const simulcastTargetsUrl = `https://api.mux.com/video/v1/live-streams/${eventData.mux_stream_id}/simulcast-targets`;
+
+    // Remove Mux targets for destinations that were disabled since the last sync
+    const { data: disabledDestinations } = await supabase
+      .from('stream_destinations')
+      .select('id, mux_simulcast_target_id')
+      .eq('event_id', eventId)
+      .eq('enabled', false)
+      .not('mux_simulcast_target_id', 'is', null);
+
+    for (const destination of disabledDestinations ?? []) {
+      const muxResponse = await fetch(`${simulcastTargetsUrl}/${destination.mux_simulcast_target_id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Basic ${auth}` }
+      });
 
-    // Get streaming keys from secure environment variables
-    const youtubeKey = Deno.env.get('YOUTUBE_STREAM_KEY');
-    const twitchKey = Deno.env.get('TWITCH_STREAM_KEY');
+      if (!muxResponse.ok && muxResponse.status !== 404) {
+        console.error('Mux Simulcast Error:', await muxResponse.text());
+        continue;
+      }
 
-    // Add YouTube simulcast target if key provided
-    if (youtubeKey) {
-      simulcastTargets.push({
-        url: "rtmp://a.rtmp.youtube.com/live2",
-        stream_key: youtubeKey
-      });
+      await supabase
+        .from('stream_destinations')
+        .update({ mux_simulcast_target_id: null, status: 'idle', last_error: null })
+        .eq('id', destination.id);
     }
 
-    // Add Twitch simulcast target if key provided
-    if (twitchKey) {
-      simulcastTargets.push({
-        url: "rtmp://live.twitch.tv/app",
-        stream_key: twitchKey
-      });
-    }
+    const destinations = await loadEnabledDestinations(supabase, eventId);
 
-    if (simulcastTargets.length === 0) {
-      throw new Error('No simulcast keys provided');
+    if (destinations.length === 0) {
+      throw new Error('No streaming destinations configured for this event');
     }
 
-    // Add simulcast targets to Mux
-    for (const target of simulcastTargets) {
-      const muxResponse = await fetch(
-        `https://api.mux.com/video/v1/live-streams/${eventData.mux_stream_id}/simulcast-targets`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${auth}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(target)
-        }
-      );
+    // Add a Mux simulcast target for each enabled destination not yet registered
+    const added: string[] = [];
+    for (const destination of destinations) {
+      if (destination.mux_simulcast_target_id) {
+        continue;
+      }
+
+      const muxResponse = await fetch(simulcastTargetsUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${auth}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url: destination.rtmp_url,
+          stream_key: destination.stream_key,
+          passthrough: destination.id
+        })
+      });
 
       if (!muxResponse.ok) {
         const error = await muxResponse.text();
         console.error('Mux Simulcast Error:', error);
-        throw new Error(`Failed to add simulcast target: ${target.url}`);
+        await supabase
+          .from('stream_destinations')
+          .update({ status: 'error', last_error: 'Failed to add simulcast target' })
+          .eq('id', destination.id);
+        throw new Error(`Failed to add simulcast target: ${destination.name}`);
       }
 
-      console.log('Added simulcast target:', target.url);
+      const muxData = await muxResponse.json();
+      await supabase
+        .from('stream_destinations')
+        .update({ mux_simulcast_target_id: muxData.data.id, status: 'idle', last_error: null })
+        .eq('id', destination.id);
+
+      added.push(destination.name);
+      console.log('Added simulcast target:', destination.name);
     }
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: `Added ${simulcastTargets.length} simulcast target(s)`,
-        targets: simulcastTargets.map(t => t.url)
+        message: `Added ${added.length} simulcast target(s)`,
+        targets: destinations.map(destination => destination.name)
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -0,0 +1,310 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callLiveKitApi, createLiveKitToken, getRoomName } from "../_shared/livekit.ts";
+import { generateSecret, getCameraIdentity, isJoinTokenUsable } from "../_shared/camera-tokens.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEVICE_LABEL_PATTERN = /^[a-zA-Z0-9\s-]{3,50}$/;
+const DEFAULT_VALID_HOURS = 12;
+const MAX_VALID_HOURS = 72;
+
+// Everything but the session token, which only the camera phone holds
+const INVITE_COLUMNS = 'id, camera_id, token, single_use, expires_at, used_at, revoked_at, created_at, cameras(device_label, is_live)';
+
+// Disconnects whoever is publishing as the camera slot from the event's LiveKit room
+async function removeCameraParticipant(eventId: string, deviceLabel: string) {
+  const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+  const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+  const livekitUrl = Deno.env.get('LIVEKIT_WS_URL');
+
+  if (!livekitApiKey || !livekitApiSecret || !livekitUrl) {
+    return;
+  }
+
+  const roomName = getRoomName(eventId);
+  const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
+    video: { roomAdmin: true, room: roomName }
+  });
+
+  const response = await callLiveKitApi(livekitUrl, token, 'RoomService/RemoveParticipant', {
+    room: roomName,
+    identity: getCameraIdentity(deviceLabel)
+  });
+
+  // Nothing to do when the camera is not connected
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to remove camera from LiveKit room: ${await response.text()}`);
+  }
+}
+
+function toInvite(joinToken) {
+  const expired = new Date(joinToken.expires_at).getTime() <= Date.now();
+  return {
+    id: joinToken.id,
+    cameraId: joinToken.camera_id,
+    deviceLabel: joinToken.cameras?.device_label ?? null,
+    token: joinToken.token,
+    singleUse: joinToken.single_use,
+    expiresAt: joinToken.expires_at,
+    usedAt: joinToken.used_at,
+    revokedAt: joinToken.revoked_at,
+    isLive: Boolean(joinToken.cameras?.is_live) && !joinToken.revoked_at && !expired,
+    usable: isJoinTokenUsable(joinToken),
+    createdAt: joinToken.created_at
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, eventId, joinToken, deviceLabel, singleUse, validHours, inviteId } = await req.json();
+
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Resolving only needs the secret token from the QR code: camera operators are not on the event's crew
+    if (action === 'resolve') {
+      if (!joinToken) {
+        throw new Error('Missing joinToken');
+      }
+
+      const { data: invite } = await supabase
+        .from('camera_join_tokens')
+        .select('event_id, single_use, expires_at, used_at, revoked_at, cameras(device_label), events(name, status)')
+        .eq('token', joinToken)
+        .maybeSingle();
+
+      if (!invite || !invite.events || !invite.cameras) {
+        return new Response(JSON.stringify({ error: 'This camera invite does not exist' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          invite: {
+            eventId: invite.event_id,
+            eventName: invite.events.name,
+            eventStatus: invite.events.status,
+            deviceLabel: invite.cameras.device_label,
+            usable: isJoinTokenUsable(invite)
+          }
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get user from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!eventId) {
+      throw new Error('Missing eventId');
+    }
+
+    // Camera invites are handed out from the control room
+    const { data: canDirect } = await supabase.rpc('can_access_event', {
+      event_id: eventId,
+      user_id: user.id
+    });
+
+    if (!canDirect) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    switch (action) {
+      case 'list': {
+        const { data: invites, error: listError } = await supabase
+          .from('camera_join_tokens')
+          .select(INVITE_COLUMNS)
+          .eq('event_id', eventId)
+          .is('revoked_at', null)
+          .order('created_at');
+
+        if (listError) {
+          console.error('Error loading camera invites:', listError);
+          throw new Error('Failed to load camera invites');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, invites: (invites ?? []).map(toInvite) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'mint': {
+        const label = typeof deviceLabel === 'string' ? deviceLabel.trim() : '';
+        if (!DEVICE_LABEL_PATTERN.test(label)) {
+          throw new Error('Camera label must be 3-50 letters, numbers, spaces or dashes');
+        }
+
+        const hours = validHours === undefined ? DEFAULT_VALID_HOURS : Number(validHours);
+        if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_VALID_HOURS) {
+          throw new Error(`Camera invites can be valid for at most ${MAX_VALID_HOURS} hours`);
+        }
+
+        const { data: event } = await supabase
+          .from('events')
+          .select('id, mux_stream_id, status')
+          .eq('id', eventId)
+          .maybeSingle();
+
+        if (!event) {
+          return new Response(JSON.stringify({ error: 'Event not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+        if (event.status === 'ended' || event.status === 'cancelled') {
+          throw new Error(`Cannot invite cameras to an event that is ${event.status}`);
+        }
+
+        // Camera identities come from their labels, so two open slots cannot share one
+        const { data: openInvites } = await supabase
+          .from('camera_join_tokens')
+          .select('id, cameras(device_label)')
+          .eq('event_id', eventId)
+          .is('revoked_at', null)
+          .gt('expires_at', new Date().toISOString());
+
+        const labelTaken = (openInvites ?? []).some(
+          (invite) => invite.cameras?.device_label?.toLowerCase() === label.toLowerCase()
+        );
+        if (labelTaken) {
+          throw new Error(`There is already a camera invite for "${label}"`);
+        }
+
+        // The slot's cameras row exists up front; it goes live when a phone joins with the invite
+        const streamKeySuffix = Math.random().toString(36).substring(2, 8);
+        const { data: camera, error: cameraError } = await supabase
+          .from('cameras')
+          .insert({
+            event_id: eventId,
+            device_label: label,
+            stream_key: `${event.mux_stream_id}-${streamKeySuffix}`,
+            is_live: false,
+            is_active: false,
+            stream_url: null
+          })
+          .select('id')
+          .single();
+
+        if (cameraError) {
+          console.error('Camera slot insert error:', cameraError);
+          throw new Error('Failed to create camera slot');
+        }
+
+        const { data: invite, error: inviteError } = await supabase
+          .from('camera_join_tokens')
+          .insert({
+            event_id: eventId,
+            camera_id: camera.id,
+            token: generateSecret(),
+            single_use: Boolean(singleUse),
+            expires_at: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+            created_by: user.id
+          })
+          .select(INVITE_COLUMNS)
+          .single();
+
+        if (inviteError) {
+          console.error('Camera invite insert error:', inviteError);
+          await supabase.from('cameras').delete().eq('id', camera.id);
+          throw new Error('Failed to create camera invite');
+        }
+
+        console.log('Camera invite created:', eventId, label, singleUse ? '(single use)' : '');
+
+        return new Response(
+          JSON.stringify({ success: true, invite: toInvite(invite) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'revoke': {
+        if (!inviteId) {
+          throw new Error('Missing inviteId');
+        }
+
+        const { data: invite, error: revokeError } = await supabase
+          .from('camera_join_tokens')
+          .update({ revoked_at: new Date().toISOString(), session_token: null })
+          .eq('id', inviteId)
+          .eq('event_id', eventId)
+          .is('revoked_at', null)
+          .select('camera_id, cameras(device_label)')
+          .maybeSingle();
+
+        if (revokeError) {
+          console.error('Camera invite revoke error:', revokeError);
+          throw new Error('Failed to revoke camera invite');
+        }
+        if (!invite) {
+          throw new Error('Camera invite not found');
+        }
+
+        // Revoking also takes a connected phone off the air; its session no longer gets LiveKit tokens
+        await supabase
+          .from('cameras')
+          .update({ is_live: false, is_active: false })
+          .eq('id', invite.camera_id);
+
+        if (invite.cameras?.device_label) {
+          try {
+            await removeCameraParticipant(eventId, invite.cameras.device_label);
+          } catch (error) {
+            console.error('Error disconnecting revoked camera:', error);
+          }
+        }
+
+        console.log('Camera invite revoked:', inviteId);
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action. Use "resolve", "list", "mint" or "revoke"');
+    }
+  } catch (error) {
+    console.error('Error in camera-tokens function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -1,10 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { applyEventTemplate, loadEventTemplate } from "../_shared/templates.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// A season's worth of games; each one gets its own Mux stream and YouTube broadcast
+const MAX_SERIES_EVENTS = 40;
+
+// Same format validate_event_code() enforces
+function generateEventCode() {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  return Array.from(crypto.getRandomValues(new Uint8Array(6)), (value) => alphabet[value % alphabet.length]).join('');
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -38,11 +48,57 @@ serve(async (req) => {
       });
     }
 
-    const { name, sport, startTime, expectedDuration, eventCode, streamingType, description, thumbnail } = await req.json();
+    const { name, sport, startTime, expectedDuration, eventCode, streamingType, description, thumbnail, autoStart, autoEnd, endGraceMinutes, templateId, scoreboardDefaults, series, organizationId } = await req.json();
+
+    console.log('Creating event:', { name, sport, startTime, expectedDuration, eventCode, streamingType, description: description?.substring(0, 50), templateId, organizationId, seriesEvents: series?.startTimes?.length });
+
+    // Organization events can only be created by its owners and producers
+    if (organizationId) {
+      const { data: canCreate } = await supabase.rpc('has_org_role', {
+        _org_id: organizationId,
+        _user_id: user.id,
+        _roles: ['owner', 'producer']
+      });
 
-    console.log('Creating event:', { name, sport, startTime, expectedDuration, eventCode, streamingType, description: description?.substring(0, 50) });
+      if (!canCreate) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
 
-    if (!name || !sport || !startTime || !expectedDuration || !eventCode || !streamingType) {
+    // Template values fill in whatever the request leaves out
+    let template = null;
+    if (templateId) {
+      template = await loadEventTemplate(supabase, templateId, user.id);
+      if (!template) {
+        return new Response(JSON.stringify({ error: 'Event template not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const eventSport = sport ?? template?.sport;
+    const eventDuration = expectedDuration ?? template?.expected_duration;
+    const eventDescription = description ?? template?.description ?? undefined;
+    const eventAutoStart = autoStart ?? template?.auto_start;
+    const eventAutoEnd = autoEnd ?? template?.auto_end;
+    const eventEndGraceMinutes = endGraceMinutes ?? template?.end_grace_minutes;
+
+    if (series) {
+      // Series events get server-generated codes, so no eventCode is needed
+      if (!name || !eventSport || !eventDuration || !streamingType) {
+        throw new Error('Missing required fields: name, sport, expectedDuration and streamingType are required');
+      }
+      if (!['daily', 'weekly'].includes(series.frequency) || !Array.isArray(series.startTimes) || series.startTimes.length === 0) {
+        throw new Error('A series needs a daily or weekly frequency and at least one start time');
+      }
+      if (series.startTimes.length > MAX_SERIES_EVENTS) {
+        throw new Error(`A series can have at most ${MAX_SERIES_EVENTS} events`);
+      }
+    } else if (!name || !eventSport || !startTime || !eventDuration || !eventCode || !streamingType) {
       throw new Error('Missing required fields: name, sport, startTime, expectedDuration, eventCode, and streamingType are required');
     }
 
@@ -55,43 +111,6 @@ serve(async (req) => {
 
     const hasYouTubeConnected = userProfile?.youtube_access_token && userProfile?.youtube_channel_id;
 
-    let telegramChannelData = null;
-
-    // Handle Telegram integration if selected
-    if (streamingType === 'telegram') {
-      console.log('Setting up Telegram channel for event...');
-      
-      try {
-        const telegramResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/telegram-bot`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
-          },
-          body: JSON.stringify({
-            action: 'createChannel',
-            eventName: name,
-            eventCode
-          })
-        });
-
-        if (!telegramResponse.ok) {
-          const errorText = await telegramResponse.text();
-          console.error('Telegram channel creation failed:', errorText);
-          console.warn('Proceeding without Telegram channel - will create event with basic setup');
-          // Don't fail the whole operation, just proceed without Telegram integration
-        } else {
-          const telegramResult = await telegramResponse.json();
-          telegramChannelData = telegramResult.data;
-          console.log('Telegram channel created:', telegramChannelData);
-        }
-      } catch (error) {
-        console.error('Error setting up Telegram channel:', error);
-        console.warn('Proceeding without Telegram channel - will create event with basic setup');
-        // Don't fail the whole operation, just proceed without Telegram integration
-      }
-    }
-
     // Streaming keys are now stored securely in environment variables
     // and retrieved by the add-simulcast function when needed
 
@@ -103,152 +122,281 @@ serve(async (req) => {
       throw new Error('Mux credentials not configured');
     }
 
-    // Create Mux Live Stream
-    const auth = btoa(`${muxTokenId}:${muxSecretKey}`);
-    const muxResponse = await fetch('https://api.mux.com/video/v1/live-streams', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        playback_policy: ['public'],
-        new_asset_settings: { 
-          playback_policy: ['public'] 
+    // Sets up the streams for one event and inserts it; a series calls this once per game
+    const createSingleEvent = async (eventName: string, eventStartTime: string, requestedCode: string, seriesId: string | null) => {
+      let telegramChannelData = null;
+
+      // Handle Telegram integration if selected
+      if (streamingType === 'telegram') {
+        console.log('Setting up Telegram channel for event...');
+        
+        try {
+          const telegramResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/telegram-bot`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+            },
+            body: JSON.stringify({
+              action: 'createChannel',
+              eventName,
+              eventCode: requestedCode
+            })
+          });
+
+          if (!telegramResponse.ok) {
+            const errorText = await telegramResponse.text();
+            console.error('Telegram channel creation failed:', errorText);
+            console.warn('Proceeding without Telegram channel - will create event with basic setup');
+            // Don't fail the whole operation, just proceed without Telegram integration
+          } else {
+            const telegramResult = await telegramResponse.json();
+            telegramChannelData = telegramResult.data;
+            console.log('Telegram channel created:', telegramChannelData);
+          }
+        } catch (error) {
+          console.error('Error setting up Telegram channel:', error);
+          console.warn('Proceeding without Telegram channel - will create event with basic setup');
+          // Don't fail the whole operation, just proceed without Telegram integration
+        }
+      }
+
+      // Create Mux Live Stream
+      const auth = btoa(`${muxTokenId}:${muxSecretKey}`);
+      const muxResponse = await fetch('https://api.mux.com/video/v1/live-streams', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${auth}`,
+          'Content-Type': 'application/json',
         },
-        reconnect_window: 60,
-        latency_mode: 'low', // Use low latency mode for 5-15s glass-to-glass
-        reduced_latency: true // Deprecated but kept for compatibility
-      })
-    });
+        body: JSON.stringify({
+          playback_policy: ['public'],
+          new_asset_settings: { 
+            playback_policy: ['public'] 
+          },
+          reconnect_window: 60,
+          latency_mode: 'low', // Use low latency mode for 5-15s glass-to-glass
+          reduced_latency: true // Deprecated but kept for compatibility
+        })
+      });
 
-    if (!muxResponse.ok) {
-      const error = await muxResponse.text();
-      console.error('Mux API Error:', error);
-      throw new Error('Failed to create Mux live stream');
-    }
+      if (!muxResponse.ok) {
+        const error = await muxResponse.text();
+        console.error('Mux API Error:', error);
+        throw new Error('Failed to create Mux live stream');
+      }
 
-    const muxData = await muxResponse.json();
-    console.log('Mux stream created:', muxData.data.id);
+      const muxData = await muxResponse.json();
+      console.log('Mux stream created:', muxData.data.id);
 
-    // Generate Mux playback URL
-    const playbackId = muxData?.data?.playback_ids?.[0]?.id ?? null;
-    const muxPlaybackUrl = playbackId ? `https://stream.mux.com/${playbackId}.m3u8` : null;
+      // Generate Mux playback URL
+      const playbackId = muxData?.data?.playback_ids?.[0]?.id ?? null;
+      const muxPlaybackUrl = playbackId ? `https://stream.mux.com/${playbackId}.m3u8` : null;
 
-    // Always start events as 'scheduled' - require manual start
-    const initialStatus = 'scheduled';
+      // Always start events as 'scheduled' - require manual start
+      const initialStatus = 'scheduled';
 
-    // Create YouTube live stream if user has YouTube connected
-    let youtubeStreamData = null;
-    if (hasYouTubeConnected) {
-      console.log('Creating YouTube live stream for event...');
-      try {
-        const youtubeResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/youtube-stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            action: 'createStream',
-            eventId: 'temp', // We'll update this after event creation
-            title: name,
-            description: description || `Live streaming ${name} - ${sport} event. Join us for this exciting match!`,
-            sportType: sport,
-            thumbnail: thumbnail
-          })
-        });
+      // Create YouTube live stream if user has YouTube connected
+      let youtubeStreamData = null;
+      if (hasYouTubeConnected) {
+        console.log('Creating YouTube live stream for event...');
+        try {
+          const youtubeResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/youtube-stream`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`
+            },
+            body: JSON.stringify({
+              action: 'createStream',
+              eventId: 'temp', // We'll update this after event creation
+              title: eventName,
+              description: eventDescription || `Live streaming ${eventName} - ${eventSport} event. Join us for this exciting match!`,
+              sportType: eventSport,
+              thumbnail: thumbnail
+            })
+          });
 
-        if (youtubeResponse.ok) {
-          youtubeStreamData = await youtubeResponse.json();
-          console.log('YouTube stream created:', youtubeStreamData.broadcast?.id);
-        } else {
-          const errorText = await youtubeResponse.text();
-          console.warn('YouTube stream creation failed:', errorText);
+          if (youtubeResponse.ok) {
+            youtubeStreamData = await youtubeResponse.json();
+            console.log('YouTube stream created:', youtubeStreamData.broadcast?.id);
+          } else {
+            const errorText = await youtubeResponse.text();
+            console.warn('YouTube stream creation failed:', errorText);
+            // Don't fail the whole operation, just proceed without YouTube
+          }
+        } catch (error) {
+          console.error('Error creating YouTube stream:', error);
           // Don't fail the whole operation, just proceed without YouTube
         }
-      } catch (error) {
-        console.error('Error creating YouTube stream:', error);
-        // Don't fail the whole operation, just proceed without YouTube
       }
+
+      // Insert event into database, retrying with a fresh code if the random one is taken
+      let code = requestedCode;
+      let eventData = null;
+      for (let attempt = 1; !eventData; attempt++) {
+        const { data, error: dbError } = await supabase
+          .from('events')
+          .insert({
+            name: eventName,
+            sport: eventSport,
+            start_time: eventStartTime,
+            expected_duration: eventDuration,
+            event_code: code,
+            mux_stream_id: muxData.data.id,
+            program_url: streamingType === 'telegram' && telegramChannelData
+              ? `https://t.me/${telegramChannelData.channelUsername}`
+              : muxPlaybackUrl,
+            status: initialStatus,
+            owner_id: user.id,
+            organization_id: organizationId ?? null,
+            streaming_type: streamingType,
+            youtube_broadcast_id: youtubeStreamData?.broadcast?.id || null,
+            youtube_stream_id: youtubeStreamData?.stream?.id || null,
+            youtube_stream_key: youtubeStreamData?.stream?.streamName || null,
+            // Scheduling options; omitted ones keep the column defaults
+            auto_start: eventAutoStart ?? undefined,
+            auto_end: eventAutoEnd ?? undefined,
+            end_grace_minutes: eventEndGraceMinutes ?? undefined,
+            template_id: template?.id ?? null,
+            series_id: seriesId,
+            camera_labels: template?.camera_labels ?? []
+          })
+          .select()
+          .maybeSingle();
+
+        if (dbError?.code === '23505' && dbError.message?.includes('event_code') && attempt < 5) {
+          console.warn('Event code already taken, retrying:', code);
+          code = generateEventCode();
+          continue;
+        }
+
+        if (dbError) {
+          console.error('Database error:', dbError);
+          console.error('Insert payload was:', {
+            name: eventName,
+            sport: eventSport,
+            start_time: eventStartTime,
+            expected_duration: eventDuration,
+            event_code: code,
+            mux_stream_id: muxData.data.id,
+            status: initialStatus,
+            owner_id: user.id,
+            streaming_type: streamingType
+          });
+          throw new Error('Failed to create event in database');
+        }
+
+        eventData = data;
+      }
+
+      console.log('Event created successfully:', eventData.id);
+
+      // The event exists either way; anything the template could not add is reported back
+      const templateFailures = template ? await applyEventTemplate(supabase, eventData.id, template, scoreboardDefaults) : [];
+
+      // Send welcome notification to Telegram channel if applicable
+      if (streamingType === 'telegram' && telegramChannelData) {
+        try {
+          await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/telegram-bot`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+            },
+            body: JSON.stringify({
+              action: 'sendNotification',
+              channelId: telegramChannelData.channelId,
+              eventName,
+              eventCode: code
+            })
+          });
+        } catch (error) {
+          console.error('Failed to send Telegram notification:', error);
+          // Don't fail the event creation if notification fails
+        }
+      }
+
+      return { eventData, eventCode: code, muxStreamId: muxData.data.id, telegramChannelData, youtubeStreamData, templateFailures };
+    };
+
+    if (!series) {
+      const created = await createSingleEvent(name, startTime, eventCode, null);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          eventId: created.eventData.id,
+          eventCode: created.eventCode,
+          streamId: created.muxStreamId,
+          programUrl: created.eventData.program_url,
+          telegramChannel: created.telegramChannelData,
+          youtubeStream: created.youtubeStreamData ? {
+            broadcastId: created.youtubeStreamData.broadcast?.id,
+            watchUrl: created.youtubeStreamData.broadcast?.watchUrl,
+            streamKey: created.youtubeStreamData.stream?.streamName
+          } : null,
+          hasYouTubeConnected,
+          templateFailures: created.templateFailures
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
     }
 
-    // Insert event into database
-    const { data: eventData, error: dbError } = await supabase
-      .from('events')
+    // Record the series first so each of its events can point at it
+    const { data: seriesData, error: seriesError } = await supabase
+      .from('event_series')
       .insert({
-        name,
-        sport,
-        start_time: startTime,
-        expected_duration: expectedDuration,
-        event_code: eventCode,
-        mux_stream_id: muxData.data.id,
-        program_url: streamingType === 'telegram' && telegramChannelData
-          ? `https://t.me/${telegramChannelData.channelUsername}`
-          : muxPlaybackUrl,
-        status: initialStatus,
         owner_id: user.id,
-        streaming_type: streamingType,
-        youtube_broadcast_id: youtubeStreamData?.broadcast?.id || null,
-        youtube_stream_id: youtubeStreamData?.stream?.id || null,
-        youtube_stream_key: youtubeStreamData?.stream?.streamName || null
+        template_id: template?.id ?? null,
+        name,
+        frequency: series.frequency,
+        repeat_interval: series.repeatInterval ?? 1,
+        occurrences: series.startTimes.length,
+        first_start_time: series.startTimes[0]
       })
       .select()
-      .maybeSingle();
+      .single();
 
-    if (dbError) {
-      console.error('Database error:', dbError);
-      console.error('Insert payload was:', {
-        name,
-        sport,
-        start_time: startTime,
-        expected_duration: expectedDuration,
-        event_code: eventCode,
-        mux_stream_id: muxData.data.id,
-        status: initialStatus,
-        owner_id: user.id,
-        streaming_type: streamingType
-      });
-      throw new Error('Failed to create event in database');
+    if (seriesError) {
+      console.error('Series insert error:', seriesError);
+      throw new Error('Failed to create event series');
     }
 
-    console.log('Event created successfully:', eventData.id);
-
-    // Send welcome notification to Telegram channel if applicable
-    if (streamingType === 'telegram' && telegramChannelData) {
+    // Games are created one at a time; a failed game is reported and the rest still go ahead
+    const events = [];
+    const failures = [];
+    for (const [index, seriesStartTime] of series.startTimes.entries()) {
       try {
-        await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/telegram-bot`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
-          },
-          body: JSON.stringify({
-            action: 'sendNotification',
-            channelId: telegramChannelData.channelId,
-            eventName: name,
-            eventCode
-          })
+        const created = await createSingleEvent(`${name} #${index + 1}`, seriesStartTime, generateEventCode(), seriesData.id);
+        events.push({
+          eventId: created.eventData.id,
+          eventCode: created.eventCode,
+          name: created.eventData.name,
+          startTime: created.eventData.start_time,
+          templateFailures: created.templateFailures
         });
       } catch (error) {
-        console.error('Failed to send Telegram notification:', error);
-        // Don't fail the event creation if notification fails
+        console.error('Error creating series event:', seriesStartTime, error);
+        failures.push({ startTime: seriesStartTime, error: error.message || 'Failed to create event' });
       }
     }
 
+    if (events.length === 0) {
+      await supabase.from('event_series').delete().eq('id', seriesData.id);
+      throw new Error(failures[0]?.error || 'Failed to create event series');
+    }
+
+    console.log('Event series created:', seriesData.id, `${events.length}/${series.startTimes.length} events`);
+
     return new Response(
       JSON.stringify({
         success: true,
-        eventId: eventData.id,
-        eventCode,
-        streamId: muxData.data.id,
-        programUrl: eventData.program_url,
-        telegramChannel: telegramChannelData,
-        youtubeStream: youtubeStreamData ? {
-          broadcastId: youtubeStreamData.broadcast?.id,
-          watchUrl: youtubeStreamData.broadcast?.watchUrl,
-          streamKey: youtubeStreamData.stream?.streamName
-        } : null,
+        seriesId: seriesData.id,
+        events,
+        failures,
         hasYouTubeConnected
       }),
       {
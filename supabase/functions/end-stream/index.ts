@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { assertEventStatusTransition, EventStatusError, transitionEventStatus } from "../_shared/event-status.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,7 +25,7 @@ serve(async (req) => {
     // Get event data
     const { data: eventData, error: eventError } = await supabase
       .from('events')
-      .select('mux_stream_id')
+      .select('mux_stream_id, status')
       .eq('id', eventId)
       .single();
 
@@ -32,6 +33,9 @@ serve(async (req) => {
       throw new Error('Event not found');
     }
 
+    // Only live or paused events can end; cancelling a scheduled one is separate
+    await assertEventStatusTransition(supabase, eventData.status, 'ended');
+
     // Initialize Mux client
     const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
     const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
@@ -58,19 +62,8 @@ serve(async (req) => {
 
     console.log('Mux stream stopped for event:', eventId);
 
-    // Update event status to 'ended'
-    const { error: statusError } = await supabase
-      .from('events')
-      .update({ 
-        status: 'ended',
-        updated_at: new Date().toISOString() 
-      })
-      .eq('id', eventId);
-
-    if (statusError) {
-      console.error('Failed to update event status:', statusError);
-      throw new Error('Failed to update event status to ended');
-    }
+    // Update event status to 'ended'; the transition stamps ended_at
+    await transitionEventStatus(supabase, eventId, 'ended');
 
     console.log('Event status updated to ended for:', eventId);
 
@@ -92,7 +85,7 @@ serve(async (req) => {
         error: error.message || 'Internal server error' 
       }),
       {
-        status: 500,
+        status: error instanceof EventStatusError ? 409 : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
@@ -0,0 +1,419 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { notifyEventOwner, notifyUser } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EVENT_ROLES = ['producer', 'director'];
+
+const ROLE_LABELS: Record<string, string> = {
+  producer: 'producer',
+  director: 'co-director'
+};
+
+// The secret in an invite's acceptance link: 32 random bytes, hex encoded
+function generateInviteToken() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), (value) => value.toString(16).padStart(2, '0')).join('');
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create Supabase client first to validate auth
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { action, eventId, email, role, inviteId, userId, inviteToken } = await req.json();
+
+    const forbidden = (message = 'Forbidden') => new Response(JSON.stringify({ error: message }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+    // Accepting only needs the secret token from the link
+    if (action === 'get' || action === 'accept') {
+      if (!inviteToken) {
+        throw new Error('Missing inviteToken');
+      }
+
+      const { data: invite } = await supabase
+        .from('event_invites')
+        .select('id, event_id, email, role, invited_by, expires_at, accepted_at, accepted_by, events(id, name, start_time, status, owner_id)')
+        .eq('token', inviteToken)
+        .maybeSingle();
+
+      if (!invite || !invite.events) {
+        return new Response(JSON.stringify({ error: 'This invite does not exist or was revoked' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const emailMatches = invite.email.toLowerCase() === user.email?.toLowerCase();
+      const expired = new Date(invite.expires_at).getTime() < Date.now();
+
+      if (action === 'get') {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            invite: {
+              eventId: invite.event_id,
+              eventName: invite.events.name,
+              startTime: invite.events.start_time,
+              role: invite.role,
+              email: invite.email,
+              emailMatches,
+              expired,
+              accepted: Boolean(invite.accepted_at)
+            }
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Opening the link again after accepting just takes the user to the event
+      if (invite.accepted_at) {
+        if (invite.accepted_by === user.id) {
+          return new Response(
+            JSON.stringify({ success: true, eventId: invite.event_id, role: invite.role }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        throw new Error('This invite has already been used');
+      }
+      if (expired) {
+        throw new Error('This invite has expired. Ask for a new one.');
+      }
+      if (!emailMatches) {
+        return forbidden(`This invite was sent to ${invite.email}. Sign in with that address to accept it.`);
+      }
+
+      // Keep a producer who is also invited as co-director a producer
+      const { data: existing } = await supabase
+        .from('event_members')
+        .select('role')
+        .eq('event_id', invite.event_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!existing || (existing.role === 'director' && invite.role === 'producer')) {
+        const { error: memberError } = await supabase
+          .from('event_members')
+          .upsert({
+            event_id: invite.event_id,
+            user_id: user.id,
+            role: invite.role,
+            invited_by: invite.invited_by
+          }, { onConflict: 'event_id,user_id' });
+
+        if (memberError) {
+          console.error('Error adding event member:', memberError);
+          throw new Error('Failed to accept invite');
+        }
+      }
+
+      const { error: acceptError } = await supabase
+        .from('event_invites')
+        .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+        .eq('id', invite.id);
+
+      if (acceptError) {
+        console.error('Error marking invite accepted:', acceptError);
+      }
+
+      await notifyEventOwner(
+        supabase,
+        invite.events,
+        'invite_accepted',
+        `${user.email} joined ${invite.events.name}`,
+        `They accepted your invite as ${ROLE_LABELS[invite.role]}.`
+      );
+
+      console.log('Event invite accepted:', invite.id, user.id);
+
+      return new Response(
+        JSON.stringify({ success: true, eventId: invite.event_id, role: invite.role }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!eventId) {
+      throw new Error('Missing eventId');
+    }
+
+    // Managing the crew is for the event owner and its producers
+    const { data: actorRole } = await supabase.rpc('get_event_role', {
+      _event_id: eventId,
+      _user_id: user.id
+    });
+    const canManage = actorRole === 'owner' || actorRole === 'producer';
+
+    // Any crew member can take themselves off an event
+    if (!canManage && !(action === 'removeMember' && userId === user.id)) {
+      return forbidden();
+    }
+
+    switch (action) {
+      case 'list': {
+        const [{ data: members, error: membersError }, { data: invites, error: invitesError }] = await Promise.all([
+          supabase
+            .from('event_members')
+            .select('user_id, role, created_at')
+            .eq('event_id', eventId)
+            .order('created_at'),
+          supabase
+            .from('event_invites')
+            .select('id, email, role, expires_at, created_at')
+            .eq('event_id', eventId)
+            .is('accepted_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at')
+        ]);
+
+        if (membersError || invitesError) {
+          console.error('Error loading event crew:', membersError || invitesError);
+          throw new Error('Failed to load event crew');
+        }
+
+        // Profiles are private to their user, so names and emails are joined here
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, email, full_name')
+          .in('id', (members ?? []).map((member) => member.user_id));
+
+        const profilesById = new Map((profiles ?? []).map((profile) => [profile.id, profile]));
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            role: actorRole,
+            members: (members ?? []).map((member) => ({
+              userId: member.user_id,
+              role: member.role,
+              email: profilesById.get(member.user_id)?.email ?? null,
+              fullName: profilesById.get(member.user_id)?.full_name ?? null,
+              joinedAt: member.created_at
+            })),
+            invites: (invites ?? []).map((invite) => ({
+              id: invite.id,
+              email: invite.email,
+              role: invite.role,
+              expiresAt: invite.expires_at,
+              createdAt: invite.created_at
+            }))
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'invite': {
+        if (!email?.trim() || !EVENT_ROLES.includes(role)) {
+          throw new Error('Missing required fields: email and a producer or director role are required');
+        }
+        // Producers bring in co-directors; only the owner adds more producers
+        if (role === 'producer' && actorRole !== 'owner') {
+          return forbidden('Only the event owner can invite producers');
+        }
+
+        const inviteEmail = email.trim().toLowerCase();
+
+        const { data: event } = await supabase
+          .from('events')
+          .select('id, name, status')
+          .eq('id', eventId)
+          .maybeSingle();
+
+        if (!event) {
+          return new Response(JSON.stringify({ error: 'Event not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+        if (event.status === 'ended' || event.status === 'cancelled') {
+          throw new Error(`Cannot invite crew to an event that is ${event.status}`);
+        }
+
+        // A new invite to the same address replaces the open one
+        await supabase
+          .from('event_invites')
+          .delete()
+          .eq('event_id', eventId)
+          .eq('email', inviteEmail)
+          .is('accepted_at', null);
+
+        const inviteToken = generateInviteToken();
+        const { data: invite, error: inviteError } = await supabase
+          .from('event_invites')
+          .insert({
+            event_id: eventId,
+            email: inviteEmail,
+            role,
+            token: inviteToken,
+            invited_by: user.id
+          })
+          .select('id, email, role, expires_at, created_at')
+          .single();
+
+        if (inviteError) {
+          console.error('Event invite insert error:', inviteError);
+          throw new Error('Failed to create invite');
+        }
+
+        // The link opens the app the invite was sent from
+        const appUrl = req.headers.get('origin') ?? Deno.env.get('SITE_URL') ?? '';
+        const invitePath = `/invite/${inviteToken}`;
+        const inviteUrl = `${appUrl}${invitePath}`;
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('id')
+          .ilike('email', inviteEmail)
+          .maybeSingle();
+
+        // Existing accounts get a sign-in link that lands on the invite, new addresses get
+        // Supabase's invite email, which creates the account on the way
+        const { error: emailError } = profile
+          ? await supabase.auth.signInWithOtp({
+              email: inviteEmail,
+              options: { shouldCreateUser: false, emailRedirectTo: inviteUrl }
+            })
+          : await supabase.auth.admin.inviteUserByEmail(inviteEmail, { redirectTo: inviteUrl });
+
+        if (emailError) {
+          console.error('Error sending invite email:', emailError);
+        }
+
+        if (profile) {
+          await notifyUser(supabase, profile.id, {
+            eventId,
+            type: 'event_invite',
+            title: `You're invited to ${event.name}`,
+            body: `Join as ${ROLE_LABELS[role]}.`,
+            link: invitePath
+          });
+        }
+
+        console.log('Event invite created:', eventId, inviteEmail, role, emailError ? '(email failed)' : '');
+
+        // The link is returned too, so it can be shared by hand if the email does not arrive
+        return new Response(
+          JSON.stringify({
+            success: true,
+            emailSent: !emailError,
+            inviteUrl,
+            invite: {
+              id: invite.id,
+              email: invite.email,
+              role: invite.role,
+              expiresAt: invite.expires_at,
+              createdAt: invite.created_at
+            }
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'revoke': {
+        if (!inviteId) {
+          throw new Error('Missing inviteId');
+        }
+
+        const { error: deleteError } = await supabase
+          .from('event_invites')
+          .delete()
+          .eq('id', inviteId)
+          .eq('event_id', eventId)
+          .is('accepted_at', null);
+
+        if (deleteError) {
+          console.error('Event invite delete error:', deleteError);
+          throw new Error('Failed to revoke invite');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'removeMember': {
+        if (!userId) {
+          throw new Error('Missing userId');
+        }
+
+        const { data: member } = await supabase
+          .from('event_members')
+          .select('role')
+          .eq('event_id', eventId)
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (!member) {
+          throw new Error('Member not found');
+        }
+        if (userId !== user.id && member.role === 'producer' && actorRole !== 'owner') {
+          return forbidden('Only the event owner can remove producers');
+        }
+
+        const { error: deleteError } = await supabase
+          .from('event_members')
+          .delete()
+          .eq('event_id', eventId)
+          .eq('user_id', userId);
+
+        if (deleteError) {
+          console.error('Event member delete error:', deleteError);
+          throw new Error('Failed to remove member');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action. Use "get", "accept", "list", "invite", "revoke" or "removeMember"');
+    }
+
+  } catch (error) {
+    console.error('Error in event-invites function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
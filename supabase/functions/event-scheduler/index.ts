@@ -0,0 +1,321 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { callLiveKitApi, createLiveKitToken, getRoomName } from "../_shared/livekit.ts";
+import { notifyEventOwner } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How long before start_time the Mux stream and LiveKit room are readied
+const PREWARM_LEAD_MINUTES = 10;
+
+// Pre-warmed rooms stay open this long without participants, covering the lead time
+const PREWARM_ROOM_EMPTY_TIMEOUT_SECONDS = 45 * 60;
+
+const EVENT_COLUMNS = 'id, name, owner_id, start_time, expected_duration, auto_start, auto_end, end_grace_minutes, mux_stream_id, recording_started_at';
+
+const minutesFrom = (iso: string, minutes: number) => new Date(iso).getTime() + minutes * 60 * 1000;
+
+/**
+ * When a live event is auto-ended: expected_duration plus grace, counted from start_time or
+ * from when recording started if the event went live late. Null when there is no duration.
+ */
+function getAutoEndTime(event: {
+  start_time: string;
+  expected_duration: number | null;
+  end_grace_minutes: number | null;
+  recording_started_at: string | null;
+}) {
+  if (!event.expected_duration) {
+    return null;
+  }
+
+  const startedAt = event.recording_started_at && event.recording_started_at > event.start_time
+    ? event.recording_started_at
+    : event.start_time;
+
+  return minutesFrom(startedAt, event.expected_duration + (event.end_grace_minutes ?? 0));
+}
+
+// Calls another edge function with the service role, as the director dashboard would
+async function invokeFunction(name: string, body: Record<string, unknown>) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${name} failed: ${errorText}`);
+  }
+
+  return response.json();
+}
+
+// Enables the Mux live stream so it accepts the egress as soon as the event starts
+async function enableMuxStream(muxStreamId: string) {
+  const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
+  const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
+
+  if (!muxTokenId || !muxSecretKey) {
+    throw new Error('Mux credentials not configured');
+  }
+
+  const response = await fetch(`https://api.mux.com/video/v1/live-streams/${muxStreamId}/enable`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Basic ${btoa(`${muxTokenId}:${muxSecretKey}`)}`,
+      'Content-Type': 'application/json',
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to enable Mux live stream: ${await response.text()}`);
+  }
+}
+
+// Creates the event's LiveKit room ahead of time so cameras and the director join an open room
+async function createLiveKitRoom(eventId: string) {
+  const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+  const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+  const livekitUrl = Deno.env.get('LIVEKIT_WS_URL');
+
+  if (!livekitApiKey || !livekitApiSecret || !livekitUrl) {
+    throw new Error('Missing LiveKit configuration');
+  }
+
+  const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
+    video: { roomCreate: true }
+  });
+
+  const response = await callLiveKitApi(livekitUrl, token, 'RoomService/CreateRoom', {
+    name: getRoomName(eventId),
+    empty_timeout: PREWARM_ROOM_EMPTY_TIMEOUT_SECONDS
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create LiveKit room: ${await response.text()}`);
+  }
+}
+
+/**
+ * Readies events starting within the lead time. Each event is claimed by setting
+ * prewarmed_at first, so overlapping runs never pre-warm it twice.
+ */
+async function prewarmEvents(supabase: SupabaseClient, now: number) {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('status', 'scheduled')
+    .is('prewarmed_at', null)
+    .lte('start_time', new Date(now + PREWARM_LEAD_MINUTES * 60 * 1000).toISOString());
+
+  if (error) {
+    console.error('Error loading events to pre-warm:', error);
+    return [];
+  }
+
+  const prewarmed: string[] = [];
+
+  for (const event of events ?? []) {
+    const { data: claimed } = await supabase
+      .from('events')
+      .update({ prewarmed_at: new Date(now).toISOString() })
+      .eq('id', event.id)
+      .is('prewarmed_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) continue;
+
+    try {
+      if (event.mux_stream_id) {
+        await enableMuxStream(event.mux_stream_id);
+      }
+      await createLiveKitRoom(event.id);
+
+      console.log('Event pre-warmed:', event.id);
+      prewarmed.push(event.id);
+
+      await notifyEventOwner(
+        supabase,
+        event,
+        'event_prewarmed',
+        `${event.name} starts soon`,
+        event.auto_start
+          ? 'The stream is ready and will go live at the start time once a camera is live.'
+          : 'The stream is ready. Open the director dashboard to go live.'
+      );
+    } catch (error) {
+      console.error('Pre-warm failed for event:', event.id, error);
+      await notifyEventOwner(supabase, event, 'event_prewarm_failed', `${event.name} could not be readied`, error.message);
+    }
+  }
+
+  return prewarmed;
+}
+
+/**
+ * Starts auto-start events whose start time has passed once at least one camera is live,
+ * the same way the director's Start button does. Events past their planned end are skipped.
+ */
+async function autoStartEvents(supabase: SupabaseClient, now: number) {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('status', 'scheduled')
+    .eq('auto_start', true)
+    .lte('start_time', new Date(now).toISOString());
+
+  if (error) {
+    console.error('Error loading events to auto-start:', error);
+    return [];
+  }
+
+  const started: string[] = [];
+
+  for (const event of events ?? []) {
+    const autoEndTime = getAutoEndTime(event);
+    if (autoEndTime !== null && autoEndTime <= now) continue;
+
+    const { count } = await supabase
+      .from('cameras')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', event.id)
+      .eq('is_live', true);
+
+    if (!count) continue;
+
+    try {
+      await invokeFunction('start-stream', { eventId: event.id });
+
+      try {
+        await invokeFunction('livekit-egress', { eventId: event.id, action: 'start', muxStreamId: event.mux_stream_id });
+      } catch (egressError) {
+        console.error('Egress start failed for auto-started event:', event.id, egressError);
+      }
+
+      console.log('Event auto-started:', event.id);
+      started.push(event.id);
+
+      await notifyEventOwner(
+        supabase,
+        event,
+        'event_auto_started',
+        `${event.name} is live`,
+        `Started automatically with ${count} camera${count === 1 ? '' : 's'} live.`
+      );
+    } catch (error) {
+      console.error('Auto-start failed for event:', event.id, error);
+      await notifyEventOwner(supabase, event, 'event_auto_start_failed', `${event.name} could not be started`, error.message);
+    }
+  }
+
+  return started;
+}
+
+/**
+ * Ends live events that have run past their expected duration plus grace period, stopping
+ * the egress first just as the director's End button does.
+ */
+async function autoEndEvents(supabase: SupabaseClient, now: number) {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .in('status', ['live', 'paused'])
+    .eq('auto_end', true)
+    .not('expected_duration', 'is', null);
+
+  if (error) {
+    console.error('Error loading events to auto-end:', error);
+    return [];
+  }
+
+  const ended: string[] = [];
+
+  for (const event of events ?? []) {
+    const autoEndTime = getAutoEndTime(event);
+    if (autoEndTime === null || autoEndTime > now) continue;
+
+    try {
+      try {
+        await invokeFunction('livekit-egress', { eventId: event.id, action: 'stop' });
+      } catch (egressError) {
+        console.warn('Egress stop failed for auto-ended event:', event.id, egressError);
+      }
+
+      await invokeFunction('end-stream', { eventId: event.id });
+
+      console.log('Event auto-ended:', event.id);
+      ended.push(event.id);
+
+      await notifyEventOwner(
+        supabase,
+        event,
+        'event_auto_ended',
+        `${event.name} was ended`,
+        `Ended automatically after its ${event.expected_duration} minute duration and ${event.end_grace_minutes} minute grace period.`
+      );
+    } catch (error) {
+      console.error('Auto-end failed for event:', event.id, error);
+      await notifyEventOwner(supabase, event, 'event_auto_end_failed', `${event.name} could not be ended`, error.message);
+    }
+  }
+
+  return ended;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Invoked every minute by pg_cron with the shared scheduler secret
+    const schedulerSecret = Deno.env.get('SCHEDULER_SECRET');
+    const authHeader = req.headers.get('Authorization');
+
+    if (!schedulerSecret || authHeader !== `Bearer ${schedulerSecret}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = Date.now();
+    const prewarmed = await prewarmEvents(supabase, now);
+    const started = await autoStartEvents(supabase, now);
+    const ended = await autoEndEvents(supabase, now);
+
+    return new Response(
+      JSON.stringify({ success: true, prewarmed, started, ended }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in event-scheduler function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
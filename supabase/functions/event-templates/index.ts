@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RTMP_URL_PATTERN = /^rtmps?:\/\/[^\s/]+(\/\S*)?$/i;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create Supabase client first to validate auth
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { action, templateId, destinationId, name, rtmpUrl, streamKey, enabled } = await req.json();
+
+    if (!templateId) {
+      throw new Error('Missing templateId');
+    }
+
+    // Only the template owner or an admin can manage its destinations
+    const { data: template } = await supabase
+      .from('event_templates')
+      .select('owner_id')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+
+    if (!template || (template.owner_id !== user.id && !isAdmin)) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    switch (action) {
+      case 'addDestination': {
+        if (!name?.trim() || !rtmpUrl || !streamKey?.trim()) {
+          throw new Error('Missing required fields: name, rtmpUrl and streamKey are required');
+        }
+        if (!RTMP_URL_PATTERN.test(rtmpUrl)) {
+          throw new Error('Destination URL must start with rtmp:// or rtmps://');
+        }
+
+        const { data: destination, error: insertError } = await supabase
+          .from('event_template_destinations')
+          .insert({
+            template_id: templateId,
+            name: name.trim(),
+            rtmp_url: rtmpUrl.trim(),
+            stream_key_hint: streamKey.trim().slice(-4),
+            enabled: enabled ?? true
+          })
+          .select()
+          .single();
+
+        if (insertError) {
+          console.error('Template destination insert error:', insertError);
+          throw new Error('Failed to add destination');
+        }
+
+        const { error: keyError } = await supabase
+          .from('event_template_destination_keys')
+          .insert({ destination_id: destination.id, stream_key: streamKey.trim() });
+
+        if (keyError) {
+          console.error('Template destination key insert error:', keyError);
+          await supabase.from('event_template_destinations').delete().eq('id', destination.id);
+          throw new Error('Failed to store destination stream key');
+        }
+
+        console.log('Template destination added:', destination.id);
+
+        return new Response(
+          JSON.stringify({ success: true, destination }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'removeDestination': {
+        if (!destinationId) {
+          throw new Error('Missing destinationId');
+        }
+
+        // Events already created from the template keep their own copy
+        const { error: deleteError } = await supabase
+          .from('event_template_destinations')
+          .delete()
+          .eq('id', destinationId)
+          .eq('template_id', templateId);
+
+        if (deleteError) {
+          console.error('Template destination delete error:', deleteError);
+          throw new Error('Failed to remove destination');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action. Use "addDestination" or "removeDestination"');
+    }
+
+  } catch (error) {
+    console.error('Error in event-templates function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
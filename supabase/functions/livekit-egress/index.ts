@@ -1,18 +1,26 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLiveKitApi, createLiveKitToken, getRoomName } from "../_shared/livekit.ts"
+import { getDestinationUrl, loadEnabledDestinations } from "../_shared/destinations.ts"
+import { getEgressLayout, getSupportedLayoutTypes, parseProgramLayout } from "../_shared/layouts.ts"
+import { startCameraRecordings, stopCameraRecordings } from "../_shared/iso-recordings.ts"
+import { assertEventStatusTransition, EventStatusError, transitionEventStatus } from "../_shared/event-status.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Egress sessions that LiveKit may still be running
+const ACTIVE_EGRESS_STATUSES = ['starting', 'active']
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
   try {
-    const { eventId, action, activeCamera } = await req.json()
+    const { eventId, action, activeCamera, layout } = await req.json()
     
     if (!eventId) {
       throw new Error('Missing eventId')
@@ -21,6 +29,8 @@ serve(async (req) => {
     const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY')
     const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET')
     const livekitUrl = Deno.env.get('LIVEKIT_WS_URL')
+    // Optional app page (/program-output) that renders PiP, split and grid compositions for the egress
+    const egressTemplateUrl = Deno.env.get('LIVEKIT_EGRESS_TEMPLATE_URL')
     
     // Get event-specific stream keys from database, fallback to global keys
     const supabase = createClient(
@@ -28,9 +38,40 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
     
+    // Starting and stopping drive the event status, so only the event scheduler (with the
+    // service role key) or the event's crew may call this
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (!authToken) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (authToken !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      const { data: { user } } = await supabase.auth.getUser(authToken)
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: canAccess } = await supabase.rpc('can_access_event', {
+        event_id: eventId,
+        user_id: user.id
+      })
+      if (!canAccess) {
+        return new Response(
+          JSON.stringify({ error: 'Forbidden' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
     const { data: eventData } = await supabase
       .from('events')
-      .select('youtube_stream_key')
+      .select('youtube_stream_key, program_layout, status')
       .eq('id', eventId)
       .single()
     
@@ -40,65 +81,109 @@ serve(async (req) => {
       throw new Error('Missing LiveKit configuration')
     }
 
-    // Generate JWT for LiveKit API
-    const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
-    const now = Math.floor(Date.now() / 1000)
-    const payload = btoa(JSON.stringify({
-      iss: livekitApiKey,
-      sub: livekitApiKey,
-      iat: now,
-      exp: now + 3600,
+    const roomName = getRoomName(eventId)
+
+    // Lets the director disable layouts the program egress cannot compose
+    if (action === 'layouts') {
+      return new Response(
+        JSON.stringify({ success: true, layouts: getSupportedLayoutTypes(!!egressTemplateUrl) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Requested layout, accepting the older single-camera form
+    const requestedLayout = parseProgramLayout(layout) ||
+      (activeCamera ? { type: 'single' as const, cameras: [activeCamera] } : null)
+
+    // Generate JWT for LiveKit API; room admin lists camera tracks for ISO recordings
+    const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
       video: {
-        room: eventId,
+        room: roomName,
         roomCreate: true,
+        roomRecord: true,
+        roomAdmin: true,
         canPublish: true,
         canSubscribe: true
       }
-    }))
-
-    const signature = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(livekitApiSecret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    )
-
-    const signatureBytes = await crypto.subtle.sign(
-      'HMAC',
-      signature,
-      new TextEncoder().encode(`${header}.${payload}`)
-    )
+    })
+
+    const callApi = (method: string, body: Record<string, unknown>) =>
+      callLiveKitApi(livekitUrl, token, method, body)
+
+    // Call a LiveKit Egress service method
+    const callEgressApi = (method: string, body: Record<string, unknown>) =>
+      callApi(`Egress/${method}`, body)
+
+    // Most recent egress that is still running for this event
+    const getActiveSession = async () => {
+      const { data: session, error: sessionError } = await supabase
+        .from('egress_sessions')
+        .select('id, egress_id')
+        .eq('event_id', eventId)
+        .in('status', ACTIVE_EGRESS_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (sessionError) {
+        console.error('Egress session lookup error:', sessionError)
+        throw new Error(`Egress session lookup failed: ${sessionError.message}`)
+      }
 
-    const token = `${header}.${payload}.${btoa(String.fromCharCode(...new Uint8Array(signatureBytes)))}`
+      return session
+    }
 
     if (action === 'start') {
-      // Start egress stream to YouTube only
-      if (!youtubeKey) {
-        throw new Error('No YouTube stream key available for this event')
-      }
+      // Program output only runs for events that are, or are going, live
+      await assertEventStatusTransition(supabase, eventData?.status, 'live')
 
-      const streamOutputs = [{
-        urls: [`rtmp://a.rtmp.youtube.com/live2/${youtubeKey}`]
-      }]
-      
-      console.log('YouTube streaming configured with key:', youtubeKey.substring(0, 8) + '...')
-
-      const egressResponse = await fetch(`${livekitUrl.replace('wss://', 'https://')}/egress/start`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          room_name: eventId,
-          layout: 'single-speaker',
-          stream_outputs: streamOutputs,
-          layout_options: {
-            logo_text: '',
-            background_color: '#000000'
+      const existingSession = await getActiveSession()
+      if (existingSession) {
+        console.log('Egress already running for event:', existingSession.egress_id)
+        return new Response(
+          JSON.stringify({
+            success: true,
+            egressId: existingSession.egress_id,
+            status: 'already_started'
+          }),
+          { 
+            headers: { 
+              ...corsHeaders, 
+              'Content-Type': 'application/json' 
+            } 
           }
-        })
+        )
+      }
+
+      // Fan out to every enabled destination plus the event's YouTube stream, if any
+      const destinations = await loadEnabledDestinations(supabase, eventId)
+      const targetUrls = destinations.map(destination =>
+        getDestinationUrl(destination.rtmp_url, destination.stream_key)
+      )
+
+      if (youtubeKey) {
+        targetUrls.push(`rtmp://a.rtmp.youtube.com/live2/${youtubeKey}`)
+        console.log('YouTube streaming configured with key:', youtubeKey.substring(0, 8) + '...')
+      }
+
+      if (targetUrls.length === 0) {
+        throw new Error('No streaming destinations configured for this event')
+      }
+
+      const initialLayout = requestedLayout || parseProgramLayout(eventData?.program_layout)
+
+      const egressResponse = await callEgressApi('StartRoomCompositeEgress', {
+        room_name: roomName,
+        layout: getEgressLayout(initialLayout, !!egressTemplateUrl),
+        ...(egressTemplateUrl ? { custom_base_url: `${egressTemplateUrl.replace(/\/+$/, '')}/${eventId}` } : {}),
+        stream_outputs: [{
+          protocol: 'RTMP',
+          urls: targetUrls
+        }],
+        layout_options: {
+          logo_text: '',
+          background_color: '#000000'
+        }
       })
 
       if (!egressResponse.ok) {
@@ -108,27 +193,41 @@ serve(async (req) => {
       }
 
       const egressData = await egressResponse.json()
-      console.log('LiveKit egress started:', egressData)
-
-      // Update event status using existing supabase instance
-
-      const { error: updateError } = await supabase
-        .from('events')
-        .update({ 
-          status: 'live',
-          updated_at: new Date().toISOString()
+      console.log('LiveKit egress started:', egressData.egress_id)
+
+      // Persist the egress so layout updates and stop can find it later
+      const { error: sessionError } = await supabase
+        .from('egress_sessions')
+        .insert({
+          event_id: eventId,
+          egress_id: egressData.egress_id,
+          target_urls: targetUrls,
+          status: 'starting',
+          started_at: new Date().toISOString()
         })
-        .eq('id', eventId)
 
-      if (updateError) {
-        console.error('Database update error:', updateError)
-        throw new Error(`Database update failed: ${updateError.message}`)
+      if (sessionError) {
+        console.error('Egress session insert error:', sessionError)
+        throw new Error(`Database update failed: ${sessionError.message}`)
+      }
+
+      if (destinations.length > 0) {
+        await supabase
+          .from('stream_destinations')
+          .update({ status: 'connecting', last_error: null })
+          .in('id', destinations.map(destination => destination.id))
       }
 
+      // Record every camera on its own alongside the program output
+      const isoEgressIds = await startCameraRecordings(supabase, callApi, eventId)
+
+      await transitionEventStatus(supabase, eventId, 'live')
+
       return new Response(
         JSON.stringify({
           success: true,
           egressId: egressData.egress_id,
+          isoEgressIds,
           status: 'started'
         }),
         { 
@@ -141,24 +240,31 @@ serve(async (req) => {
 
     } else if (action === 'update_layout') {
       // Update egress layout in real-time
-      if (!activeCamera) {
-        throw new Error('Missing activeCamera for layout update')
+      if (!requestedLayout) {
+        throw new Error('Missing or invalid layout for layout update')
       }
+      // Checked before persisting, so the stored layout is always one the egress can compose
+      const egressLayout = getEgressLayout(requestedLayout, !!egressTemplateUrl)
 
-      // Use existing supabase instance
-
-      // Get current event to find egress ID
-      const { data: event, error: eventError } = await supabase
+      // Persist the layout so viewers and the egress template can pick it up when they join
+      const { error: layoutError } = await supabase
         .from('events')
-        .select('mux_stream_id')
+        .update({ program_layout: requestedLayout })
         .eq('id', eventId)
-        .single()
 
-      if (eventError || !event?.mux_stream_id) {
+      if (layoutError) {
+        console.error('Program layout update error:', layoutError)
+        throw new Error(`Database update failed: ${layoutError.message}`)
+      }
+
+      const session = await getActiveSession()
+
+      if (!session) {
         console.log('No active egress found for layout update')
         return new Response(
           JSON.stringify({
             success: true,
+            layout: requestedLayout,
             message: 'No active egress to update'
           }),
           { 
@@ -171,19 +277,12 @@ serve(async (req) => {
       }
 
       // Update layout via LiveKit API
-      const layoutResponse = await fetch(`${livekitUrl.replace('wss://', 'https://')}/egress/layout`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          egress_id: event.mux_stream_id,
-          layout: 'single-speaker',
-          layout_options: {
-            active_speaker_identity: activeCamera
-          }
-        })
+      const layoutResponse = await callEgressApi('UpdateLayout', {
+        egress_id: session.egress_id,
+        layout: egressLayout,
+        layout_options: {
+          active_speaker_identity: requestedLayout.cameras[0]
+        }
       })
 
       if (!layoutResponse.ok) {
@@ -192,12 +291,14 @@ serve(async (req) => {
         // Don't throw - layout updates can be best effort
       }
 
-      console.log('Layout updated for camera:', activeCamera)
+      console.log('Layout updated:', requestedLayout.type, requestedLayout.cameras)
 
       return new Response(
         JSON.stringify({
           success: true,
-          activeCamera,
+          activeCamera: requestedLayout.cameras[0],
+          layout: requestedLayout,
+          egressId: session.egress_id,
           status: 'layout_updated'
         }),
         { 
@@ -209,25 +310,51 @@ serve(async (req) => {
       )
 
     } else if (action === 'stop') {
-      // Stop egress - use existing supabase instance
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('egress_sessions')
+        .select('id, egress_id')
+        .eq('event_id', eventId)
+        .in('status', ACTIVE_EGRESS_STATUSES)
+
+      if (sessionsError) {
+        console.error('Egress session lookup error:', sessionsError)
+        throw new Error(`Egress session lookup failed: ${sessionsError.message}`)
+      }
 
-      // Update event status to ended
-      const { error: updateError } = await supabase
-        .from('events')
-        .update({ 
-          status: 'ended',
-          updated_at: new Date().toISOString()
+      // Stop every running egress; the egress_ended webhook marks them ended
+      for (const session of sessions ?? []) {
+        const stopResponse = await callEgressApi('StopEgress', {
+          egress_id: session.egress_id
         })
-        .eq('id', eventId)
 
-      if (updateError) {
-        console.error('Database update error:', updateError)
-        throw new Error(`Database update failed: ${updateError.message}`)
+        if (!stopResponse.ok) {
+          const errorText = await stopResponse.text()
+          console.error('LiveKit egress stop failed:', session.egress_id, errorText)
+          await supabase
+            .from('egress_sessions')
+            .update({ status: 'failed', error: errorText, ended_at: new Date().toISOString() })
+            .eq('id', session.id)
+          continue
+        }
+
+        await supabase
+          .from('egress_sessions')
+          .update({ status: 'ending' })
+          .eq('id', session.id)
+
+        console.log('LiveKit egress stopping:', session.egress_id)
       }
 
+      const stoppedIsoEgresses = await stopCameraRecordings(supabase, callApi, eventId)
+
+      // Update event status to ended; the transition stamps ended_at
+      await transitionEventStatus(supabase, eventId, 'ended')
+
       return new Response(
         JSON.stringify({
           success: true,
+          stoppedEgresses: (sessions ?? []).map(session => session.egress_id),
+          stoppedIsoEgresses,
           status: 'stopped'
         }),
         { 
@@ -239,7 +366,7 @@ serve(async (req) => {
       )
     }
 
-    throw new Error('Invalid action. Use "start", "stop", or "update_layout"')
+    throw new Error('Invalid action. Use "start", "stop", "update_layout" or "layouts"')
 
   } catch (error) {
     console.error('LiveKit egress error:', error)
@@ -249,7 +376,7 @@ serve(async (req) => {
         success: false 
       }),
       { 
-        status: 500,
+        status: error instanceof EventStatusError ? 409 : 500,
         headers: { 
           ...corsHeaders, 
           'Content-Type': 'application/json' 
@@ -257,4 +384,4 @@ serve(async (req) => {
       }
     )
   }
-})
\ No newline at end of file
+})
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRoomName } from "../_shared/livekit.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,6 +27,8 @@ serve(async (req) => {
       throw new Error('Missing LiveKit configuration')
     }
 
+    const roomName = getRoomName(eventId)
+
     // Generate JWT for LiveKit API
     const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
     const now = Math.floor(Date.now() / 1000)
@@ -35,7 +38,7 @@ serve(async (req) => {
       iat: now,
       exp: now + 3600,
       video: {
-        room: eventId,
+        room: roomName,
         roomCreate: true,
         canPublish: true,
         canSubscribe: true
@@ -67,7 +70,7 @@ serve(async (req) => {
       },
       body: JSON.stringify({
         input_type: 'WHIP_INPUT',
-        room_name: eventId,
+        room_name: roomName,
         participant_identity: `camera_${deviceLabel.toLowerCase().replace(/\s+/g, '_')}`,
         name: `Camera ${deviceLabel}`
       })
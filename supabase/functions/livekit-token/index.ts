@@ -1,118 +1,228 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createLiveKitToken, getRoomName, getTalkbackRoomName } from "../_shared/livekit.ts"
+import {
+  CAMERA_TRACK_SOURCES,
+  TALKBACK_TRACK_SOURCES,
+  getCameraIdentity,
+  verifyCameraSession
+} from "../_shared/camera-tokens.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Short-lived on purpose: clients refresh before expiry, so revoking a role or camera
+// invite takes effect within minutes
+const TOKEN_TTL_SECONDS = 600
+
+type ParticipantRole = 'director' | 'camera' | 'viewer'
+
+// Least-privilege grants per role. Directors run the room; cameras only publish their own
+// camera and microphone, plus data to acknowledge the director's remote control commands;
+// viewers only watch and stay out of participant lists.
+function getVideoGrant(role: ParticipantRole, roomName: string) {
+  switch (role) {
+    case 'director':
+      return {
+        room: roomName,
+        roomJoin: true,
+        canPublish: true,
+        canSubscribe: true,
+        canPublishData: true,
+        roomAdmin: true
+      }
+    case 'camera':
+      return {
+        room: roomName,
+        roomJoin: true,
+        canPublish: true,
+        canPublishSources: CAMERA_TRACK_SOURCES,
+        canSubscribe: false,
+        canPublishData: true
+      }
+    default:
+      return {
+        room: roomName,
+        roomJoin: true,
+        canPublish: false,
+        canSubscribe: true,
+        canPublishData: false,
+        hidden: true
+      }
+  }
+}
+
+// The crew talkback room: everyone talks and listens on their microphone only. Directors
+// also send data to pick which cameras hear them.
+function getTalkbackGrant(role: ParticipantRole, roomName: string) {
+  return {
+    room: roomName,
+    roomJoin: true,
+    canPublish: true,
+    canPublishSources: TALKBACK_TRACK_SOURCES,
+    canSubscribe: true,
+    canPublishData: role === 'director'
+  }
+}
+
+// Directors may join under any identity (director, replay source, their own camera). Viewers
+// are kept to their prefix so they cannot pose as a director or a camera.
+function scopeIdentity(role: ParticipantRole, requestedIdentity: string) {
+  if (role === 'director') return requestedIdentity
+  return requestedIdentity.startsWith('viewer_') ? requestedIdentity : `viewer_${requestedIdentity}`
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
   try {
-    const { eventId, participantName, participantIdentity } = await req.json()
-    
+    const { eventId, participantName, participantIdentity, cameraId, cameraSessionToken, talkback } = await req.json()
+
     if (!eventId || !participantName || !participantIdentity) {
       throw new Error('Missing required parameters: eventId, participantName, participantIdentity')
     }
 
     const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY')
     const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET')
+    const livekitUrl = Deno.env.get('LIVEKIT_WS_URL')
 
     if (!livekitApiKey || !livekitApiSecret) {
       throw new Error('Missing LiveKit configuration')
     }
+    if (!livekitUrl) {
+      throw new Error('Missing LIVEKIT_WS_URL configuration')
+    }
 
-    // Generate JWT for LiveKit room access with base64url encoding
-    const headerBase64 = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '')
-    
-    const now = Math.floor(Date.now() / 1000)
-    const exp = now + 3600 // 1 hour expiry
-    
-    const payloadBase64 = btoa(JSON.stringify({
-      iss: livekitApiKey,
-      sub: participantIdentity,
-      iat: now,
-      exp: exp,
-      name: participantName,
-      video: {
-        room: eventId,
-        roomJoin: true,
-        canPublish: true,
-        canSubscribe: true,
-        canPublishData: true,
-        roomRecord: false,
-        roomAdmin: participantIdentity.includes('director')
-      }
-    })).replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '')
-
-    // Create signature using proper base64url encoding
-    const signatureKey = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(livekitApiSecret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    )
+    const roomName = talkback ? getTalkbackRoomName(eventId) : getRoomName(eventId)
 
-    const signatureBytes = await crypto.subtle.sign(
-      'HMAC',
-      signatureKey,
-      new TextEncoder().encode(`${headerBase64}.${payloadBase64}`)
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Convert to base64url format (replace +/= with -/_ and remove padding)
-    const signatureBase64 = btoa(String.fromCharCode(...new Uint8Array(signatureBytes)))
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '')
+    // The role comes from the database, never from what the caller asks for: a camera
+    // session from a slot invite, or the signed-in user's role on the event
+    let role: ParticipantRole
+    let identity: string
 
-    const token = `${headerBase64}.${payloadBase64}.${signatureBase64}`
+    if (cameraId && cameraSessionToken) {
+      const camera = await verifyCameraSession(supabase, eventId, cameraId, cameraSessionToken)
+      if (!camera) {
+        return new Response(
+          JSON.stringify({ error: 'This camera invite was revoked or has expired', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      // The slot decides the identity, so a camera cannot pose as another camera
+      role = 'camera'
+      identity = getCameraIdentity(camera.deviceLabel)
+    } else {
+      const authHeader = req.headers.get('Authorization')
+      const { data: { user } } = authHeader
+        ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+        : { data: { user: null } }
 
-    const livekitUrl = Deno.env.get('LIVEKIT_WS_URL')
-    if (!livekitUrl) {
-      throw new Error('Missing LIVEKIT_WS_URL configuration')
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: 'Sign in or use a camera invite to join this room', success: false }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: eventRole } = await supabase.rpc('get_event_role', {
+        _event_id: eventId,
+        _user_id: user.id
+      })
+
+      // Owners, producers and directors run the room; camera operators on the crew join as cameras
+      role = eventRole === 'camera_operator'
+        ? 'camera'
+        : eventRole
+          ? 'director'
+          : 'viewer'
+
+      if (role === 'camera') {
+        // Camera operators only publish as a slot they registered themselves, so they cannot
+        // pose as another camera
+        const { data: cameras } = await supabase
+          .from('cameras')
+          .select('device_label')
+          .eq('event_id', eventId)
+          .eq('operator_id', user.id)
+
+        const camera = (cameras ?? []).find(
+          (camera: { device_label: string }) => getCameraIdentity(camera.device_label) === participantIdentity
+        )
+        if (!camera) {
+          return new Response(
+            JSON.stringify({ error: 'Register your camera with this event before joining', success: false }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+        identity = getCameraIdentity(camera.device_label)
+      } else {
+        identity = scopeIdentity(role, participantIdentity)
+      }
+    }
+
+    if (talkback) {
+      if (role === 'viewer') {
+        return new Response(
+          JSON.stringify({ error: 'Only the event crew can join talkback', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      // Cameras tell directors apart by identity in the talkback room
+      if (role === 'director' && !identity.startsWith('director_')) {
+        identity = `director_${identity}`
+      }
     }
 
-    console.log(`Generated JWT token for participant: ${participantName} (${participantIdentity}) in room: ${eventId}`)
+    const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
+      sub: identity,
+      name: participantName,
+      video: talkback ? getTalkbackGrant(role, roomName) : getVideoGrant(role, roomName)
+    }, TOKEN_TTL_SECONDS)
+
+    console.log(`Generated ${role} token for participant: ${participantName} (${identity}) in room: ${roomName}`)
 
     return new Response(
       JSON.stringify({
         success: true,
         token,
         wsUrl: livekitUrl,
-        roomName: eventId,
+        roomName,
+        role,
         participantName,
-        participantIdentity
+        participantIdentity: identity,
+        expiresAt: new Date(Date.now() + TOKEN_TTL_SECONDS * 1000).toISOString()
       }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
       }
     )
 
   } catch (error) {
     console.error('LiveKit JWT generation error:', error)
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: error.message,
-        success: false 
+        success: false
       }),
-      { 
+      {
         status: 500,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
       }
     )
   }
-})
\ No newline at end of file
+})
@@ -1,4 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  callLiveKitApi,
+  createLiveKitToken,
+  getEventIdFromRoomName,
+  getRoomName,
+  verifyWebhookAuthorization
+} from "../_shared/livekit.ts";
+import { getDestinationUrl, loadEnabledDestinations } from "../_shared/destinations.ts";
+import { getIsoStorageConfig, isVideoTrack, startCameraRecording } from "../_shared/iso-recordings.ts";
+import { tryTransitionEventStatus } from "../_shared/event-status.ts";
+import { CAMERA_TRACK_NAMES } from "../_shared/camera-tokens.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,12 +24,38 @@ serve(async (req) => {
   }
 
   try {
-    const webhookEvent = await req.json();
+    const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+    const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+
+    if (!livekitApiKey || !livekitApiSecret) {
+      throw new Error('Missing LiveKit configuration');
+    }
+
+    const webhookBody = await req.text();
+    const isAuthorized = await verifyWebhookAuthorization(
+      req.headers.get('Authorization'),
+      webhookBody,
+      livekitApiKey,
+      livekitApiSecret
+    );
+
+    if (!isAuthorized) {
+      console.warn('Rejected LiveKit webhook with invalid authorization');
+      return new Response(
+        JSON.stringify({ error: 'Invalid webhook authorization' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const webhookEvent = JSON.parse(webhookBody);
     console.log('LiveKit webhook received:', {
       event: webhookEvent.event,
       room: webhookEvent.room?.name,
       participant: webhookEvent.participant?.identity,
-      egress: webhookEvent.egress?.egress_id,
+      egress: webhookEvent.egressInfo?.egressId ?? webhookEvent.egress?.egress_id,
       timestamp: new Date().toISOString()
     });
 
@@ -50,6 +88,10 @@ serve(async (req) => {
         await handleEgressStarted(supabase, webhookEvent);
         break;
         
+      case 'egress_updated':
+        await handleEgressUpdated(supabase, webhookEvent);
+        break;
+        
       case 'egress_ended':
         await handleEgressEnded(supabase, webhookEvent);
         break;
@@ -90,32 +132,18 @@ serve(async (req) => {
 async function handleRoomStarted(supabase: any, event: any) {
   console.log('Room started:', event.room.name);
   
-  // Extract event ID from room name (assuming format like "event_<eventId>")
-  const eventId = event.room.name.replace('event_', '');
-  
-  // Update event status
-  await supabase
-    .from('events')
-    .update({ 
-      status: 'live',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', eventId);
+  // A room opens when the first camera joins or the scheduler pre-warms it; that is not going
+  // live, so the event status is left to the stream start and the egress webhooks
 }
 
 async function handleRoomFinished(supabase: any, event: any) {
   console.log('Room finished:', event.room.name);
   
-  const eventId = event.room.name.replace('event_', '');
+  const eventId = getEventIdFromRoomName(event.room?.name);
+  if (!eventId) return;
   
-  // Update event status and clean up
-  await supabase
-    .from('events')
-    .update({ 
-      status: 'ended',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', eventId);
+  // Ends a live or paused event; a pre-warmed room closing unused leaves it scheduled
+  await tryTransitionEventStatus(supabase, eventId, 'ended');
     
   // Mark all cameras as inactive
   await supabase
@@ -132,7 +160,8 @@ async function handleParticipantJoined(supabase: any, event: any) {
   console.log('Participant joined:', event.participant.identity);
   
   const identity = event.participant.identity;
-  const eventId = event.room.name.replace('event_', '');
+  const eventId = getEventIdFromRoomName(event.room?.name);
+  if (!eventId) return;
   
   // If it's a camera participant, update camera status
   if (identity.startsWith('camera_')) {
@@ -153,7 +182,8 @@ async function handleParticipantLeft(supabase: any, event: any) {
   console.log('Participant left:', event.participant.identity);
   
   const identity = event.participant.identity;
-  const eventId = event.room.name.replace('event_', '');
+  const eventId = getEventIdFromRoomName(event.room?.name);
+  if (!eventId) return;
   
   // If it's a camera participant, update camera status
   if (identity.startsWith('camera_')) {
@@ -171,34 +201,184 @@ async function handleParticipantLeft(supabase: any, event: any) {
   }
 }
 
+interface LiveKitStreamResult {
+  url?: string;
+  status?: string;
+  error?: string;
+}
+
+interface LiveKitFileResult {
+  filename?: string;
+  size?: string | number;
+  duration?: string | number;
+}
+
+// Egress details as LiveKit sends them; older payloads use snake_case fields
+interface LiveKitEgressPayload {
+  egressId?: string;
+  egress_id?: string;
+  roomName?: string;
+  room_name?: string;
+  status?: string;
+  error?: string;
+  streamResults?: LiveKitStreamResult[];
+  stream_results?: LiveKitStreamResult[];
+  fileResults?: LiveKitFileResult[];
+  file_results?: LiveKitFileResult[];
+  file?: LiveKitFileResult;
+}
+
+interface LiveKitEgressEvent {
+  room?: { name?: string };
+  egressInfo?: LiveKitEgressPayload;
+  egress?: LiveKitEgressPayload;
+}
+
+// LiveKit sends egress details as `egressInfo`; older payloads used `egress`
+function getEgressInfo(event: LiveKitEgressEvent) {
+  const egress: LiveKitEgressPayload = event.egressInfo ?? event.egress ?? {};
+  return {
+    egressId: egress.egressId ?? egress.egress_id,
+    roomName: egress.roomName ?? egress.room_name ?? event.room?.name,
+    status: egress.status,
+    error: egress.error || null,
+    streamResults: egress.streamResults ?? egress.stream_results ?? [],
+    fileResults: egress.fileResults ?? egress.file_results ?? (egress.file ? [egress.file] : [])
+  };
+}
+
+// LiveKit per-output stream states mapped to stream destination health
+const EGRESS_STREAM_STATUS: Record<string, string> = {
+  ACTIVE: 'active',
+  FINISHED: 'idle',
+  FAILED: 'error'
+};
+
+// Report per-destination health from the egress stream results
+async function updateDestinationHealth(supabase: SupabaseClient, eventId: string, streamResults: LiveKitStreamResult[]) {
+  if (streamResults.length === 0) return;
+
+  const destinations = await loadEnabledDestinations(supabase, eventId);
+  for (const result of streamResults) {
+    // LiveKit may redact stream keys in result URLs, so fall back to the server URL
+    const destination = destinations.find(d => getDestinationUrl(d.rtmp_url, d.stream_key) === result.url)
+      ?? destinations.find(d => result.url?.startsWith(d.rtmp_url.replace(/\/+$/, '')));
+    if (!destination) continue;
+
+    await supabase
+      .from('stream_destinations')
+      .update({
+        status: EGRESS_STREAM_STATUS[result.status] ?? 'connecting',
+        last_error: result.error || null
+      })
+      .eq('id', destination.id);
+  }
+}
+
+// Mark the stored egress session and return its event id
+async function updateEgressSession(supabase: SupabaseClient, egressId: string, updates: Record<string, unknown>) {
+  const { data: session, error } = await supabase
+    .from('egress_sessions')
+    .update(updates)
+    .eq('egress_id', egressId)
+    .select('event_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating egress session:', error);
+  }
+
+  return session?.event_id ?? null;
+}
+
+// Mark a camera's ISO recording; null when the egress is not an ISO recording
+async function updateCameraRecording(supabase: SupabaseClient, egressId: string, updates: Record<string, unknown>) {
+  const { data: recording, error } = await supabase
+    .from('camera_recordings')
+    .update(updates)
+    .eq('egress_id', egressId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating camera recording:', error);
+  }
+
+  return recording;
+}
+
 async function handleEgressStarted(supabase: any, event: any) {
-  console.log('Egress started:', event.egress.egress_id);
+  const egress = getEgressInfo(event);
+  console.log('Egress started:', egress.egressId);
+
+  // ISO recordings have their own rows and never change the event status
+  if (await updateCameraRecording(supabase, egress.egressId, { status: 'active' })) return;
   
-  const eventId = event.room.name.replace('event_', '');
+  const sessionEventId = await updateEgressSession(supabase, egress.egressId, {
+    status: 'active',
+    started_at: new Date().toISOString()
+  });
+
+  const eventId = sessionEventId ?? getEventIdFromRoomName(egress.roomName);
+  if (!eventId) return;
   
-  // Update event with egress info
-  await supabase
-    .from('events')
-    .update({ 
-      status: 'live',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', eventId);
+  // Program output is running again, e.g. after a failed egress was restarted
+  await tryTransitionEventStatus(supabase, eventId, 'live');
+}
+
+async function handleEgressUpdated(supabase: SupabaseClient, event: LiveKitEgressEvent) {
+  const egress = getEgressInfo(event);
+  console.log('Egress updated:', egress.egressId, egress.status);
+
+  const { data: session } = await supabase
+    .from('egress_sessions')
+    .select('event_id')
+    .eq('egress_id', egress.egressId)
+    .maybeSingle();
+
+  const eventId = session?.event_id ?? getEventIdFromRoomName(egress.roomName);
+  if (!eventId) return;
+
+  await updateDestinationHealth(supabase, eventId, egress.streamResults);
 }
 
 async function handleEgressEnded(supabase: any, event: any) {
-  console.log('Egress ended:', event.egress.egress_id);
-  
-  const eventId = event.room.name.replace('event_', '');
+  const egress = getEgressInfo(event);
+  console.log('Egress ended:', egress.egressId, egress.status);
   
-  // Update event status
+  const failed = egress.status === 'EGRESS_FAILED' || egress.status === 'EGRESS_ABORTED';
+
+  // A camera dropping out ends its ISO recording, not the event
+  const file = egress.fileResults[0];
+  const isoRecording = await updateCameraRecording(supabase, egress.egressId, {
+    status: failed ? 'failed' : 'ended',
+    error: egress.error,
+    ended_at: new Date().toISOString(),
+    file_path: file?.filename ?? null,
+    size_bytes: file?.size ? Number(file.size) : null,
+    // LiveKit reports durations in nanoseconds
+    duration_seconds: file?.duration ? Number(file.duration) / 1e9 : null
+  });
+  if (isoRecording) return;
+
+  const sessionEventId = await updateEgressSession(supabase, egress.egressId, {
+    status: failed ? 'failed' : 'ended',
+    error: egress.error,
+    ended_at: new Date().toISOString()
+  });
+
+  const eventId = sessionEventId ?? getEventIdFromRoomName(egress.roomName);
+  if (!eventId) return;
+
+  // Destinations are no longer being pushed to once the egress is gone
   await supabase
-    .from('events')
-    .update({ 
-      status: 'ended',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', eventId);
+    .from('stream_destinations')
+    .update({ status: failed ? 'error' : 'idle', last_error: egress.error })
+    .eq('event_id', eventId)
+    .in('status', ['connecting', 'active']);
+  
+  // A failed egress pauses the event until the director restarts the stream
+  await tryTransitionEventStatus(supabase, eventId, failed ? 'paused' : 'ended');
 }
 
 async function handleTrackPublished(supabase: any, event: any) {
@@ -206,10 +386,23 @@ async function handleTrackPublished(supabase: any, event: any) {
     participant: event.participant.identity,
     track: event.track.type
   });
+
+  // Camera grants are limited to camera and microphone sources; also hold cameras to the
+  // track names the camera page uses. Talkback rooms are not event rooms and are skipped.
+  if (
+    event.participant.identity.startsWith('camera_') &&
+    getEventIdFromRoomName(event.room?.name) &&
+    !CAMERA_TRACK_NAMES.includes(event.track.name)
+  ) {
+    console.warn('Muting unexpected camera track:', event.participant.identity, event.track.name);
+    await muteParticipantTrack(event.room?.name, event.participant.identity, event.track.sid);
+    return;
+  }
   
   // Update camera stream status when video track is published
-  if (event.track.type === 'video' && event.participant.identity.startsWith('camera_')) {
-    const eventId = event.room.name.replace('event_', '');
+  if (isVideoTrack(event.track) && event.participant.identity.startsWith('camera_')) {
+    const eventId = getEventIdFromRoomName(event.room?.name);
+    if (!eventId) return;
     const deviceLabel = event.participant.identity.replace('camera_', '').replace(/_/g, ' ');
     
     await supabase
@@ -220,6 +413,64 @@ async function handleTrackPublished(supabase: any, event: any) {
       })
       .eq('event_id', eventId)
       .ilike('device_label', `%${deviceLabel}%`);
+
+    await startLateCameraRecording(supabase, eventId, event.participant.identity, event.track.sid);
+  }
+}
+
+async function muteParticipantTrack(roomName: string | undefined, identity: string, trackSid: string) {
+  const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+  const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+  const livekitUrl = Deno.env.get('LIVEKIT_WS_URL');
+  if (!livekitApiKey || !livekitApiSecret || !livekitUrl || !roomName) return;
+
+  const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
+    video: { room: roomName, roomAdmin: true }
+  });
+
+  const response = await callLiveKitApi(livekitUrl, token, 'RoomService/MutePublishedTrack', {
+    room: roomName,
+    identity,
+    track_sid: trackSid,
+    muted: true
+  });
+
+  if (!response.ok) {
+    console.error('Failed to mute track:', identity, trackSid, await response.text());
+  }
+}
+
+// Cameras that join or republish while the program egress runs get an ISO recording too
+async function startLateCameraRecording(supabase: SupabaseClient, eventId: string, identity: string, trackSid: string) {
+  const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+  const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+  const livekitUrl = Deno.env.get('LIVEKIT_WS_URL');
+  if (!livekitApiKey || !livekitApiSecret || !livekitUrl || !getIsoStorageConfig()) return;
+
+  const { data: session } = await supabase
+    .from('egress_sessions')
+    .select('id')
+    .eq('event_id', eventId)
+    .in('status', ['starting', 'active'])
+    .limit(1)
+    .maybeSingle();
+
+  if (!session) return;
+
+  const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
+    video: { room: getRoomName(eventId), roomRecord: true }
+  });
+
+  try {
+    await startCameraRecording(
+      supabase,
+      (method, body) => callLiveKitApi(livekitUrl, token, method, body),
+      eventId,
+      identity,
+      trackSid
+    );
+  } catch (error) {
+    console.error('ISO recording not started for', identity, error);
   }
 }
 
@@ -230,8 +481,9 @@ async function handleTrackUnpublished(supabase: any, event: any) {
   });
   
   // Update camera stream status when video track is unpublished
-  if (event.track.type === 'video' && event.participant.identity.startsWith('camera_')) {
-    const eventId = event.room.name.replace('event_', '');
+  if (isVideoTrack(event.track) && event.participant.identity.startsWith('camera_')) {
+    const eventId = getEventIdFromRoomName(event.room?.name);
+    if (!eventId) return;
     const deviceLabel = event.participant.identity.replace('camera_', '').replace(/_/g, ' ');
     
     await supabase
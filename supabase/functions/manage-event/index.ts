@@ -0,0 +1,316 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLiveKitApi, createLiveKitToken, getRoomName } from "../_shared/livekit.ts";
+import { assertEventStatusTransition, EventStatusError, transitionEventStatus } from "../_shared/event-status.ts";
+import { notifyUser } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Deletes the Mux live stream created for the event; its stream key stops working
+async function deleteMuxStream(muxStreamId: string) {
+  const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
+  const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
+
+  if (!muxTokenId || !muxSecretKey) {
+    throw new Error('Mux credentials not configured');
+  }
+
+  const response = await fetch(`https://api.mux.com/video/v1/live-streams/${muxStreamId}`, {
+    method: 'DELETE',
+    headers: { 'Authorization': `Basic ${btoa(`${muxTokenId}:${muxSecretKey}`)}` }
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete Mux live stream: ${await response.text()}`);
+  }
+}
+
+// Closes the event's LiveKit room, disconnecting any camera that joined early
+async function deleteLiveKitRoom(eventId: string) {
+  const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+  const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+  const livekitUrl = Deno.env.get('LIVEKIT_WS_URL');
+
+  if (!livekitApiKey || !livekitApiSecret || !livekitUrl) {
+    return;
+  }
+
+  const token = await createLiveKitToken(livekitApiKey, livekitApiSecret, {
+    video: { roomCreate: true }
+  });
+
+  const response = await callLiveKitApi(livekitUrl, token, 'RoomService/DeleteRoom', {
+    room: getRoomName(eventId)
+  });
+
+  // The room only exists if it was pre-warmed or a camera joined
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete LiveKit room: ${await response.text()}`);
+  }
+}
+
+// Calls youtube-stream as the signed-in owner, the same way create-event does
+async function invokeYouTubeStream(authHeader: string, body: Record<string, unknown>) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/youtube-stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': authHeader
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`YouTube request failed: ${await response.text()}`);
+  }
+}
+
+// Camera operators usually have no role on the event, so events RLS hides a cancelled event's
+// row from them and its realtime UPDATE never reaches their page; tell them over broadcast
+async function broadcastScheduleUpdate(supabase: SupabaseClient, eventId: string, schedule: { status: string; start_time: string }) {
+  const { error } = await supabase
+    .channel(`event_schedule_${eventId}`)
+    .send({ type: 'broadcast', event: 'schedule_update', payload: schedule });
+
+  if (error) {
+    console.error('Error broadcasting schedule update:', error);
+  }
+}
+
+// Notifies everyone who may be operating a camera: crew camera operators and whoever registered
+// one of the event's cameras. Reaches operators who do not have the camera page open.
+async function notifyCameraOperators(supabase: SupabaseClient, event: { id: string; name: string }) {
+  const [{ data: members }, { data: cameras }] = await Promise.all([
+    supabase
+      .from('event_members')
+      .select('user_id')
+      .eq('event_id', event.id)
+      .eq('role', 'camera_operator'),
+    supabase
+      .from('cameras')
+      .select('operator_id')
+      .eq('event_id', event.id)
+      .not('operator_id', 'is', null)
+  ]);
+
+  const operatorIds = new Set<string>([
+    ...(members ?? []).map((member: { user_id: string }) => member.user_id),
+    ...(cameras ?? []).map((camera: { operator_id: string }) => camera.operator_id)
+  ]);
+
+  for (const operatorId of operatorIds) {
+    await notifyUser(supabase, operatorId, {
+      eventId: event.id,
+      type: 'event_cancelled',
+      title: `${event.name} was cancelled`,
+      body: 'You no longer need to join with your camera.',
+      link: '/'
+    });
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create Supabase client first to validate auth
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { action, eventId, startTime, expectedDuration } = await req.json();
+
+    if (!eventId) {
+      throw new Error('Missing eventId');
+    }
+
+    // Only the event owner, an admin or an organization owner or producer can cancel or reschedule
+    const { data: canManage } = await supabase.rpc('can_manage_event', {
+      _event_id: eventId,
+      _user_id: user.id
+    });
+
+    if (!canManage) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, name, status, start_time, mux_stream_id, youtube_broadcast_id, youtube_stream_id')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError || !event) {
+      throw new Error('Event not found');
+    }
+
+    switch (action) {
+      case 'cancel': {
+        await assertEventStatusTransition(supabase, event.status, 'cancelled');
+
+        // Cancel first so the scheduler cannot start the event during teardown; this also
+        // releases any pooled YouTube stream key
+        await transitionEventStatus(supabase, eventId, 'cancelled');
+        await broadcastScheduleUpdate(supabase, eventId, { status: 'cancelled', start_time: event.start_time });
+        await notifyCameraOperators(supabase, event);
+
+        // Teardown is best effort: the event stays cancelled and failures are reported back
+        const failures: string[] = [];
+
+        if (event.mux_stream_id) {
+          try {
+            await deleteMuxStream(event.mux_stream_id);
+          } catch (error) {
+            console.error('Mux teardown failed:', error);
+            failures.push('mux');
+          }
+        }
+
+        if (event.youtube_broadcast_id) {
+          try {
+            await invokeYouTubeStream(authHeader, {
+              action: 'deleteStream',
+              eventId,
+              streamId: event.youtube_broadcast_id,
+              ingestStreamId: event.youtube_stream_id
+            });
+          } catch (error) {
+            console.error('YouTube teardown failed:', error);
+            failures.push('youtube');
+          }
+        }
+
+        try {
+          await deleteLiveKitRoom(eventId);
+        } catch (error) {
+          console.error('LiveKit teardown failed:', error);
+          failures.push('livekit');
+        }
+
+        const { error: clearError } = await supabase
+          .from('events')
+          .update({
+            mux_stream_id: failures.includes('mux') ? event.mux_stream_id : null,
+            youtube_broadcast_id: failures.includes('youtube') ? event.youtube_broadcast_id : null,
+            youtube_stream_id: failures.includes('youtube') ? event.youtube_stream_id : null,
+            youtube_stream_key: null
+          })
+          .eq('id', eventId);
+
+        if (clearError) {
+          console.error('Error clearing cancelled event streams:', clearError);
+        }
+
+        await supabase
+          .from('cameras')
+          .update({ is_live: false, is_active: false })
+          .eq('event_id', eventId);
+
+        console.log('Event cancelled:', eventId, failures.length ? `teardown failed for ${failures.join(', ')}` : '');
+
+        return new Response(
+          JSON.stringify({ success: true, teardownFailures: failures }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'reschedule': {
+        if (event.status !== 'scheduled') {
+          throw new EventStatusError(`Only scheduled events can be rescheduled; this event is ${event.status}`);
+        }
+
+        const start = new Date(startTime);
+        if (!startTime || Number.isNaN(start.getTime())) {
+          throw new Error('A valid startTime is required');
+        }
+        if (expectedDuration !== undefined && !(Number(expectedDuration) >= 1)) {
+          throw new Error('Expected duration must be at least 1 minute');
+        }
+
+        // Clearing prewarmed_at lets the scheduler ready the stream again before the new time
+        const { data: updated, error: updateError } = await supabase
+          .from('events')
+          .update({
+            start_time: start.toISOString(),
+            expected_duration: expectedDuration !== undefined ? Number(expectedDuration) : undefined,
+            prewarmed_at: null
+          })
+          .eq('id', eventId)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error('Event reschedule error:', updateError);
+          throw new Error('Failed to reschedule event');
+        }
+
+        let youtubeUpdated = true;
+        if (event.youtube_broadcast_id) {
+          try {
+            await invokeYouTubeStream(authHeader, {
+              action: 'rescheduleStream',
+              eventId,
+              streamId: event.youtube_broadcast_id,
+              scheduledStartTime: start.toISOString()
+            });
+          } catch (error) {
+            console.error('YouTube reschedule failed:', error);
+            youtubeUpdated = false;
+          }
+        }
+
+        console.log('Event rescheduled:', eventId, start.toISOString());
+
+        return new Response(
+          JSON.stringify({ success: true, event: updated, youtubeUpdated }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action. Use "cancel" or "reschedule"');
+    }
+
+  } catch (error) {
+    console.error('Error in manage-event function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        status: error instanceof EventStatusError ? 409 : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
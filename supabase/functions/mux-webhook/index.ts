@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createHighlightClips, type RecordingTime } from "../_shared/clips.ts";
+import { tryTransitionEventStatus, type EventStatus } from "../_shared/event-status.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,15 +23,38 @@ serve(async (req) => {
       bodyLength: webhookBody.length
     });
 
-    // TODO: Verify webhook signature using Mux webhook secret
-    // const isValidSignature = verifyMuxSignature(webhookBody, signature);
-    // if (!isValidSignature) {
-    //   return new Response('Invalid signature', { status: 401 });
-    // }
+    const webhookSecret = Deno.env.get('MUX_WEBHOOK_SECRET');
+    if (!webhookSecret) {
+      throw new Error('Mux webhook secret not configured');
+    }
+
+    const isValidSignature = await verifyMuxSignature(webhookBody, signature, webhookSecret);
+    if (!isValidSignature) {
+      console.warn('Rejected Mux webhook with invalid signature');
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
 
     const webhookData = JSON.parse(webhookBody);
     console.log('Mux webhook event:', webhookData.type, webhookData.data?.id);
 
+    // Deliveries are deduplicated by event id, so a payload without one cannot be processed
+    if (!webhookData.id) {
+      console.warn('Rejected Mux webhook without an event id');
+      return new Response(
+        JSON.stringify({ error: 'Missing webhook event id' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     // Create Supabase client
     const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
     const supabase = createClient(
@@ -36,26 +62,67 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Process different webhook events
-    switch (webhookData.type) {
-      case 'video.live_stream.active':
-        await handleStreamActive(supabase, webhookData.data);
-        break;
-      
-      case 'video.live_stream.idle':
-        await handleStreamIdle(supabase, webhookData.data);
-        break;
-      
-      case 'video.live_stream.recording':
-        await handleStreamRecording(supabase, webhookData.data);
-        break;
-      
-      case 'video.asset.live_stream_completed':
-        await handleStreamCompleted(supabase, webhookData.data);
-        break;
-      
-      default:
-        console.log('Unhandled webhook type:', webhookData.type);
+    // Record the delivery before processing; Mux reuses the event id on retries
+    const { error: deliveryError } = await supabase
+      .from('mux_webhook_deliveries')
+      .insert({
+        id: webhookData.id,
+        event_type: webhookData.type,
+        object_id: webhookData.data?.id ?? null
+      });
+
+    if (deliveryError) {
+      if (deliveryError.code === '23505') {
+        console.log('Skipping already processed Mux webhook:', webhookData.id);
+        return new Response(
+          JSON.stringify({ received: true, duplicate: true }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      console.error('Error recording Mux webhook delivery:', deliveryError);
+      throw new Error('Failed to record webhook delivery');
+    }
+
+    try {
+      // Process different webhook events
+      switch (webhookData.type) {
+        case 'video.live_stream.active':
+          await handleStreamActive(supabase, webhookData.data);
+          break;
+        
+        case 'video.live_stream.idle':
+          await handleStreamIdle(supabase, webhookData.data);
+          break;
+        
+        case 'video.live_stream.recording':
+          await handleStreamRecording(supabase, webhookData.data);
+          break;
+        
+        case 'video.asset.live_stream_completed':
+          await handleStreamCompleted(supabase, webhookData.data);
+          break;
+
+        case 'video.live_stream.simulcast_target.idle':
+        case 'video.live_stream.simulcast_target.starting':
+        case 'video.live_stream.simulcast_target.broadcasting':
+        case 'video.live_stream.simulcast_target.errored':
+        case 'video.live_stream.simulcast_target.deleted':
+          await handleSimulcastTargetUpdate(supabase, webhookData.type, webhookData.data);
+          break;
+        
+        default:
+          console.log('Unhandled webhook type:', webhookData.type);
+      }
+    } catch (processingError) {
+      // Forget the delivery so the Mux retry is processed again
+      await supabase
+        .from('mux_webhook_deliveries')
+        .delete()
+        .eq('id', webhookData.id);
+      throw processingError;
     }
 
     return new Response(
@@ -79,21 +146,91 @@ serve(async (req) => {
   }
 });
 
-async function handleStreamActive(supabase: any, streamData: any) {
-  console.log('Stream went active:', streamData.id);
+// Mux signs `${timestamp}.${body}` with HMAC-SHA256 and sends `t=<timestamp>,v1=<hex digest>`
+const MUX_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+async function verifyMuxSignature(body: string, signatureHeader: string | null, secret: string) {
+  if (!signatureHeader) {
+    return false;
+  }
+
+  let timestamp: string | null = null;
+  const signatures: string[] = [];
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (key === 't') {
+      timestamp = value;
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    return false;
+  }
+
+  const timestampSeconds = Number(timestamp);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > MUX_SIGNATURE_TOLERANCE_SECONDS) {
+    console.warn('Mux webhook timestamp outside tolerance:', timestamp);
+    return false;
+  }
 
-  // Update event status to live
-  const { error: statusError } = await supabase
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const digest = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${timestamp}.${body}`)
+  );
+
+  const expected = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return signatures.some(candidate => timingSafeEqual(candidate, expected));
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+// Moves every event on a Mux live stream to `status`, skipping events where that is illegal
+async function transitionStreamEvents(supabase: SupabaseClient, muxStreamId: string, status: EventStatus) {
+  const { data: events, error } = await supabase
     .from('events')
-    .update({ 
-      status: 'live',
-      started_at: new Date().toISOString()
-    })
-    .eq('mux_stream_id', streamData.id);
+    .select('id')
+    .eq('mux_stream_id', muxStreamId);
+
+  if (error) {
+    console.error('Error loading events for stream:', error);
+    return;
+  }
 
-  if (statusError) {
-    console.error('Error updating event status to live:', statusError);
+  for (const event of events ?? []) {
+    await tryTransitionEventStatus(supabase, event.id, status);
   }
+}
+
+async function handleStreamActive(supabase: any, streamData: any) {
+  console.log('Stream went active:', streamData.id);
+
+  // Update event status to live, resuming a paused event; ended events stay ended
+  await transitionStreamEvents(supabase, streamData.id, 'live');
 
   // Also set program_url from Mux playback ID if available
   try {
@@ -142,76 +279,132 @@ async function handleStreamActive(supabase: any, streamData: any) {
 async function handleStreamIdle(supabase: any, streamData: any) {
   console.log('Stream went idle:', streamData.id);
   
-  // Update event status back to scheduled if it was live
-  const { error } = await supabase
-    .from('events')
-    .update({ 
-      status: 'scheduled',
-      ended_at: new Date().toISOString()
-    })
-    .eq('mux_stream_id', streamData.id);
-
-  if (error) {
-    console.error('Error updating event status to idle:', error);
-  }
+  // The feed dropped while live: pause until it reconnects or the director ends the event.
+  // Idle after an ordinary end is rejected and leaves the event ended.
+  await transitionStreamEvents(supabase, streamData.id, 'paused');
 }
 
 async function handleStreamRecording(supabase: any, streamData: any) {
+  // Recording is not an event status; the recording itself arrives with the asset
   console.log('Stream recording started:', streamData.id);
-  
-  // Update event status to recording
-  const { error } = await supabase
-    .from('events')
-    .update({ status: 'recording' })
-    .eq('mux_stream_id', streamData.id);
-
-  if (error) {
-    console.error('Error updating event status to recording:', error);
-  }
 }
 
 async function handleStreamCompleted(supabase: any, assetData: any) {
   console.log('Stream completed, asset ready:', assetData.id);
 
   // Fetch asset details to get playback ID
-  try {
-    const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
-    const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
-    let recordingUrl: string | null = null;
-    if (muxTokenId && muxSecretKey) {
-      const auth = btoa(`${muxTokenId}:${muxSecretKey}`);
-      const assetRes = await fetch(`https://api.mux.com/video/v1/assets/${assetData.id}`, {
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      if (assetRes.ok) {
-        const assetJson = await assetRes.json();
-        const assetPlaybackId = assetJson?.data?.playback_ids?.find((p: any) => p.policy === 'public')?.id
-          || assetJson?.data?.playback_ids?.[0]?.id;
-        if (assetPlaybackId) {
-          recordingUrl = `https://stream.mux.com/${assetPlaybackId}.m3u8`;
-        }
+  const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
+  const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
+  let recordingUrl: string | null = null;
+  let asset: MuxAsset = assetData;
+  if (muxTokenId && muxSecretKey) {
+    const auth = btoa(`${muxTokenId}:${muxSecretKey}`);
+    const assetRes = await fetch(`https://api.mux.com/video/v1/assets/${assetData.id}`, {
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    if (assetRes.ok) {
+      const assetJson = await assetRes.json();
+      asset = assetJson?.data ?? assetData;
+      const assetPlaybackId = assetJson?.data?.playback_ids?.find((p: any) => p.policy === 'public')?.id
+        || assetJson?.data?.playback_ids?.[0]?.id;
+      if (assetPlaybackId) {
+        recordingUrl = `https://stream.mux.com/${assetPlaybackId}.m3u8`;
       }
-    } else {
-      console.warn('Mux credentials missing; cannot fetch asset playback URL');
     }
+  } else {
+    console.warn('Mux credentials missing; cannot fetch asset playback URL');
+  }
 
-    // Update event with completed asset information
-    const { error } = await supabase
-      .from('events')
-      .update({ 
-        status: 'ended',
-        recording_url: recordingUrl,
-        ended_at: new Date().toISOString()
-      })
-      .eq('mux_stream_id', assetData.live_stream_id);
+  const recordingTimes = getRecordingTimes(asset);
+
+  // Update event with completed asset information
+  const { data: events, error } = await supabase
+    .from('events')
+    .update({ 
+      recording_url: recordingUrl,
+      recording_started_at: recordingTimes[0]?.started_at ?? null,
+      recording_duration_seconds: asset?.duration ?? null
+    })
+    .eq('mux_stream_id', assetData.live_stream_id)
+    .select('id');
   
-    if (error) {
-      console.error('Error updating event with completed asset:', error);
-    }
-  } catch (e) {
-    console.error('Error fetching asset details:', e);
+  if (error) {
+    console.error('Error updating event with completed asset:', error);
+    throw new Error('Failed to update event with completed asset');
+  }
+
+  for (const event of events ?? []) {
+    // Usually already ended by the director; this ends events whose stream just stopped
+    await tryTransitionEventStatus(supabase, event.id, 'ended');
+
+    // Cut clips for the highlights the director marked during the event
+    const clipCount = await createHighlightClips(supabase, event.id, recordingTimes);
+    console.log(`Created ${clipCount} highlight clip(s) for event ${event.id}`);
   }
-}
\ No newline at end of file
+}
+
+// The parts of a Mux asset used to place highlight clips in the recording
+interface MuxAsset {
+  id: string;
+  duration?: number;
+  created_at?: string;
+  recording_times?: { started_at: string; duration: number | string }[];
+}
+
+// Wall-clock stretches covered by the asset; falls back to the asset creation time
+function getRecordingTimes(asset: MuxAsset): RecordingTime[] {
+  if (Array.isArray(asset?.recording_times) && asset.recording_times.length > 0) {
+    return asset.recording_times.map(stretch => ({
+      started_at: stretch.started_at,
+      duration: Number(stretch.duration) || 0
+    }));
+  }
+
+  if (asset?.created_at && asset?.duration) {
+    return [{
+      started_at: new Date(Number(asset.created_at) * 1000).toISOString(),
+      duration: Number(asset.duration)
+    }];
+  }
+
+  return [];
+}
+
+// Mux simulcast target states mapped to stream destination health
+const SIMULCAST_TARGET_STATUS: Record<string, string> = {
+  idle: 'idle',
+  starting: 'connecting',
+  broadcasting: 'active',
+  errored: 'error'
+};
+
+interface MuxSimulcastTarget {
+  id: string;
+  status?: string;
+  error_severity?: string;
+}
+
+async function handleSimulcastTargetUpdate(supabase: SupabaseClient, type: string, targetData: MuxSimulcastTarget) {
+  console.log('Simulcast target update:', type, targetData.id);
+
+  const updates = type === 'video.live_stream.simulcast_target.deleted'
+    ? { mux_simulcast_target_id: null, status: 'idle', last_error: null }
+    : {
+        status: SIMULCAST_TARGET_STATUS[targetData.status] ?? 'idle',
+        last_error: targetData.status === 'errored'
+          ? targetData.error_severity ?? 'Simulcast target errored'
+          : null
+      };
+
+  const { error } = await supabase
+    .from('stream_destinations')
+    .update(updates)
+    .eq('mux_simulcast_target_id', targetData.id);
+
+  if (error) {
+    console.error('Error updating stream destination health:', error);
+  }
+}
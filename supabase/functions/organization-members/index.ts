@@ -0,0 +1,241 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ORG_ROLES = ['owner', 'producer', 'director', 'camera_operator'];
+
+// Owners manage everyone; producers staff their events with directors and camera operators
+const MANAGEABLE_ROLES: Record<string, string[]> = {
+  owner: ORG_ROLES,
+  producer: ['director', 'camera_operator']
+};
+
+const canManageRole = (actorRole: string | null, role: string) =>
+  Boolean(actorRole && MANAGEABLE_ROLES[actorRole]?.includes(role));
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create Supabase client first to validate auth
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { action, organizationId, userId, email, role } = await req.json();
+
+    if (!organizationId) {
+      throw new Error('Missing organizationId');
+    }
+
+    // Only members can see or change an organization's members
+    const { data: actorRole } = await supabase.rpc('get_org_role', {
+      _org_id: organizationId,
+      _user_id: user.id
+    });
+
+    if (!actorRole) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const forbidden = () => new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+    // Role of the member being changed, which the caller must also be allowed to manage
+    const loadMemberRole = async () => {
+      if (!userId) {
+        throw new Error('Missing userId');
+      }
+
+      const { data: member } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!member) {
+        throw new Error('Member not found');
+      }
+      return member.role as string;
+    };
+
+    switch (action) {
+      case 'list': {
+        const { data: members, error: membersError } = await supabase
+          .from('organization_members')
+          .select('user_id, role, created_at')
+          .eq('organization_id', organizationId)
+          .order('created_at');
+
+        if (membersError) {
+          console.error('Error loading organization members:', membersError);
+          throw new Error('Failed to load members');
+        }
+
+        // Profiles are private to their user, so names and emails are joined here
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, email, full_name, avatar_url')
+          .in('id', (members ?? []).map((member) => member.user_id));
+
+        const profilesById = new Map((profiles ?? []).map((profile) => [profile.id, profile]));
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            role: actorRole,
+            members: (members ?? []).map((member) => ({
+              userId: member.user_id,
+              role: member.role,
+              email: profilesById.get(member.user_id)?.email ?? null,
+              fullName: profilesById.get(member.user_id)?.full_name ?? null,
+              avatarUrl: profilesById.get(member.user_id)?.avatar_url ?? null,
+              joinedAt: member.created_at
+            }))
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'add': {
+        if (!email?.trim() || !ORG_ROLES.includes(role)) {
+          throw new Error('Missing required fields: email and a valid role are required');
+        }
+        if (!canManageRole(actorRole, role)) {
+          return forbidden();
+        }
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('id')
+          .ilike('email', email.trim())
+          .maybeSingle();
+
+        if (!profile) {
+          return new Response(JSON.stringify({ error: 'No account uses that email address yet' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const { error: insertError } = await supabase
+          .from('organization_members')
+          .insert({ organization_id: organizationId, user_id: profile.id, role });
+
+        if (insertError) {
+          console.error('Organization member insert error:', insertError);
+          throw new Error(insertError.code === '23505'
+            ? 'That user is already a member'
+            : 'Failed to add member');
+        }
+
+        console.log('Organization member added:', organizationId, profile.id, role);
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'updateRole': {
+        if (!ORG_ROLES.includes(role)) {
+          throw new Error('Invalid role');
+        }
+
+        const currentRole = await loadMemberRole();
+        if (!canManageRole(actorRole, currentRole) || !canManageRole(actorRole, role)) {
+          return forbidden();
+        }
+
+        const { error: updateError } = await supabase
+          .from('organization_members')
+          .update({ role })
+          .eq('organization_id', organizationId)
+          .eq('user_id', userId);
+
+        if (updateError) {
+          console.error('Organization member update error:', updateError);
+          // The database refuses to demote the last owner
+          throw new Error(updateError.code === '23514' ? updateError.message : 'Failed to update member');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'remove': {
+        const currentRole = await loadMemberRole();
+        // Anyone can leave; removing someone else needs rights over their role
+        if (userId !== user.id && !canManageRole(actorRole, currentRole)) {
+          return forbidden();
+        }
+
+        const { error: deleteError } = await supabase
+          .from('organization_members')
+          .delete()
+          .eq('organization_id', organizationId)
+          .eq('user_id', userId);
+
+        if (deleteError) {
+          console.error('Organization member delete error:', deleteError);
+          throw new Error(deleteError.code === '23514' ? deleteError.message : 'Failed to remove member');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action. Use "list", "add", "updateRole" or "remove"');
+    }
+
+  } catch (error) {
+    console.error('Error in organization-members function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
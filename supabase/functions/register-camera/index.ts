@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { generateSecret, getCameraIdentity, isJoinTokenUsable } from "../_shared/camera-tokens.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const { eventId, deviceLabel, eventCode } = await req.json();
+    const { eventId, deviceLabel, joinToken } = await req.json();
 
     // Create Supabase client
     const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
@@ -21,16 +22,168 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    const errorResponse = (status: number, error: string) => new Response(
+      JSON.stringify({ error }),
+      {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+    // Phones join a camera slot with the invite token from its QR code
+    if (joinToken) {
+      const { data: invite } = await supabase
+        .from('camera_join_tokens')
+        .select('id, event_id, camera_id, single_use, expires_at, used_at, revoked_at, cameras(device_label, stream_key), events(status)')
+        .eq('token', joinToken)
+        .maybeSingle();
+
+      if (!invite || !invite.cameras || !invite.events) {
+        return errorResponse(404, 'This camera invite does not exist');
+      }
+      if (!isJoinTokenUsable(invite)) {
+        return errorResponse(410, invite.revoked_at
+          ? 'This camera invite was revoked'
+          : invite.used_at && invite.single_use
+            ? 'This camera invite has already been used'
+            : 'This camera invite has expired');
+      }
+      if (invite.events.status === 'cancelled') {
+        return errorResponse(403, 'This event has been cancelled');
+      }
+
+      // A new session replaces the previous phone's; only the latest one gets LiveKit tokens.
+      // Single-use invites are claimed atomically so two phones cannot both join.
+      const sessionToken = generateSecret();
+      let claim = supabase
+        .from('camera_join_tokens')
+        .update({ used_at: invite.used_at ?? new Date().toISOString(), session_token: sessionToken })
+        .eq('id', invite.id)
+        .is('revoked_at', null);
+      if (invite.single_use) {
+        claim = claim.is('used_at', null);
+      }
+
+      const { data: claimed, error: claimError } = await claim.select('id').maybeSingle();
+      if (claimError) {
+        console.error('Camera invite claim error:', claimError);
+        throw new Error('Failed to register camera');
+      }
+      if (!claimed) {
+        return errorResponse(410, 'This camera invite has already been used');
+      }
+
+      const { error: cameraError } = await supabase
+        .from('cameras')
+        .update({ is_live: true })
+        .eq('id', invite.camera_id);
+
+      if (cameraError) {
+        console.error('Database error:', cameraError);
+        throw new Error('Failed to register camera');
+      }
+
+      console.log('Camera joined with invite:', invite.camera_id);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          cameraId: invite.camera_id,
+          eventId: invite.event_id,
+          deviceLabel: invite.cameras.device_label,
+          sessionToken,
+          streamKey: invite.cameras.stream_key,
+          ingestUrl: `rtmp://global-live.mux.com:5222/app/${invite.cameras.stream_key}`,
+          message: 'Camera registered successfully'
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Without an invite, only the event's own crew can add a camera, e.g. the director's
+    // phone. Knowing the event code is no longer enough.
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = authHeader
+      ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      : { data: { user: null } };
+
+    const { data: isMember } = user
+      ? await supabase.rpc('is_event_member', { _event_id: eventId, _user_id: user.id })
+      : { data: false };
+
+    if (!isMember) {
+      return new Response(
+        JSON.stringify({ error: 'Scan the QR code for a camera slot to join this event as a camera' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     // Verify event exists and get Mux stream ID
     const { data: eventData, error: eventError } = await supabase
       .from('events')
-      .select('mux_stream_id, event_code')
+      .select('mux_stream_id, status')
       .eq('id', eventId)
-      .eq('event_code', eventCode)
       .single();
 
     if (eventError || !eventData) {
-      throw new Error('Invalid event or event code');
+      return errorResponse(404, 'Invalid event');
+    }
+
+    if (eventData.status === 'cancelled') {
+      return errorResponse(403, 'This event has been cancelled');
+    }
+
+    // The device label decides the LiveKit identity, so a label can only be taken once. A crew
+    // member coming back to their own camera picks up the slot they registered before.
+    const { data: existingCameras } = await supabase
+      .from('cameras')
+      .select('id, device_label, stream_key, operator_id')
+      .eq('event_id', eventId);
+
+    const existingCamera = (existingCameras ?? []).find(
+      camera => getCameraIdentity(camera.device_label) === getCameraIdentity(deviceLabel)
+    );
+
+    if (existingCamera) {
+      if (existingCamera.operator_id !== user.id) {
+        return new Response(
+          JSON.stringify({ error: `${existingCamera.device_label} is already taken by another camera` }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const { error: cameraError } = await supabase
+        .from('cameras')
+        .update({ is_live: true })
+        .eq('id', existingCamera.id);
+
+      if (cameraError) {
+        console.error('Database error:', cameraError);
+        throw new Error('Failed to register camera');
+      }
+
+      console.log('Camera re-registered:', existingCamera.id);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          cameraId: existingCamera.id,
+          streamKey: existingCamera.stream_key,
+          ingestUrl: `rtmp://global-live.mux.com:5222/app/${existingCamera.stream_key}`,
+          message: 'Camera registered successfully'
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
     }
 
     // Generate unique stream key for this camera
@@ -44,6 +197,7 @@ serve(async (req) => {
         event_id: eventId,
         device_label: deviceLabel,
         stream_key: streamKey,
+        operator_id: user.id,
         is_live: true, // Mark as live immediately when registering
         is_active: false,
         stream_url: null
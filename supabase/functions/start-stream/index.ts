@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { assertEventStatusTransition, EventStatusError, transitionEventStatus } from "../_shared/event-status.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,7 +27,7 @@ serve(async (req) => {
     // Get event data
     const { data: eventData, error: eventError } = await supabase
       .from('events')
-      .select('mux_stream_id, program_url')
+      .select('mux_stream_id, program_url, status')
       .eq('id', eventId)
       .single();
 
@@ -34,6 +35,9 @@ serve(async (req) => {
       throw new Error('Event not found');
     }
 
+    // Starting goes scheduled -> live, or resumes a paused event
+    await assertEventStatusTransition(supabase, eventData.status, 'live');
+
     // Initialize Mux client
     const muxTokenId = Deno.env.get('MUX_TOKEN_ID');
     const muxSecretKey = Deno.env.get('MUX_SECRET_KEY');
@@ -101,18 +105,7 @@ serve(async (req) => {
     }
 
     // Update event status to 'live'
-    const { error: statusError } = await supabase
-      .from('events')
-      .update({ 
-        status: 'live',
-        updated_at: new Date().toISOString() 
-      })
-      .eq('id', eventId);
-
-    if (statusError) {
-      console.error('Failed to update event status:', statusError);
-      throw new Error('Failed to update event status to live');
-    }
+    await transitionEventStatus(supabase, eventId, 'live');
 
     console.log('Event status updated to live for:', eventId);
 
@@ -134,7 +127,7 @@ serve(async (req) => {
         error: error.message || 'Internal server error' 
       }),
       {
-        status: 500,
+        status: error instanceof EventStatusError ? 409 : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
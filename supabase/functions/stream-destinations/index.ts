@@ -0,0 +1,233 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { removeMuxSimulcastTarget } from "../_shared/destinations.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RTMP_URL_PATTERN = /^rtmps?:\/\/[^\s/]+(\/\S*)?$/i;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Create Supabase client first to validate auth
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { action, eventId, destinationId, name, rtmpUrl, streamKey, enabled } = await req.json();
+
+    if (!eventId) {
+      throw new Error('Missing eventId');
+    }
+
+    // Only the event owner or an admin can manage destinations
+    const { data: canManage } = await supabase.rpc('can_access_event', {
+      event_id: eventId,
+      user_id: user.id
+    });
+
+    if (!canManage) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    switch (action) {
+      case 'create': {
+        if (!name?.trim() || !rtmpUrl || !streamKey?.trim()) {
+          throw new Error('Missing required fields: name, rtmpUrl and streamKey are required');
+        }
+        if (!RTMP_URL_PATTERN.test(rtmpUrl)) {
+          throw new Error('Destination URL must start with rtmp:// or rtmps://');
+        }
+
+        const { data: destination, error: insertError } = await supabase
+          .from('stream_destinations')
+          .insert({
+            event_id: eventId,
+            name: name.trim(),
+            rtmp_url: rtmpUrl.trim(),
+            stream_key_hint: streamKey.trim().slice(-4),
+            enabled: enabled ?? true
+          })
+          .select()
+          .single();
+
+        if (insertError) {
+          console.error('Destination insert error:', insertError);
+          throw new Error('Failed to create destination');
+        }
+
+        const { error: keyError } = await supabase
+          .from('stream_destination_keys')
+          .insert({ destination_id: destination.id, stream_key: streamKey.trim() });
+
+        if (keyError) {
+          console.error('Destination key insert error:', keyError);
+          await supabase.from('stream_destinations').delete().eq('id', destination.id);
+          throw new Error('Failed to store destination stream key');
+        }
+
+        console.log('Stream destination created:', destination.id);
+
+        return new Response(
+          JSON.stringify({ success: true, destination }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'update': {
+        if (!destinationId) {
+          throw new Error('Missing destinationId');
+        }
+
+        const updates: Record<string, unknown> = {};
+        if (name !== undefined) {
+          if (!name.trim()) throw new Error('Destination name cannot be empty');
+          updates.name = name.trim();
+        }
+        if (rtmpUrl !== undefined) {
+          if (!RTMP_URL_PATTERN.test(rtmpUrl)) {
+            throw new Error('Destination URL must start with rtmp:// or rtmps://');
+          }
+          updates.rtmp_url = rtmpUrl.trim();
+        }
+        if (enabled !== undefined) {
+          updates.enabled = Boolean(enabled);
+        }
+        if (streamKey?.trim()) {
+          updates.stream_key_hint = streamKey.trim().slice(-4);
+        }
+
+        // The Mux simulcast target still pushes to the old URL and key, and add-simulcast skips
+        // destinations that have one, so it is removed here and re-created on the next sync
+        if (updates.rtmp_url !== undefined || updates.stream_key_hint !== undefined) {
+          const { data: current } = await supabase
+            .from('stream_destinations')
+            .select('rtmp_url, mux_simulcast_target_id, events(mux_stream_id)')
+            .eq('id', destinationId)
+            .eq('event_id', eventId)
+            .single();
+
+          const credentialsChanged = updates.stream_key_hint !== undefined || updates.rtmp_url !== current?.rtmp_url;
+          if (current?.mux_simulcast_target_id && credentialsChanged) {
+            const muxStreamId = current.events?.mux_stream_id;
+            if (muxStreamId && !(await removeMuxSimulcastTarget(muxStreamId, current.mux_simulcast_target_id))) {
+              throw new Error('Failed to remove the simulcast target for the old URL and stream key');
+            }
+            updates.mux_simulcast_target_id = null;
+            updates.status = 'idle';
+            updates.last_error = null;
+          }
+        }
+
+        const { data: destination, error: updateError } = await supabase
+          .from('stream_destinations')
+          .update(updates)
+          .eq('id', destinationId)
+          .eq('event_id', eventId)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error('Destination update error:', updateError);
+          throw new Error('Failed to update destination');
+        }
+
+        if (streamKey?.trim()) {
+          const { error: keyError } = await supabase
+            .from('stream_destination_keys')
+            .upsert({ destination_id: destinationId, stream_key: streamKey.trim() });
+
+          if (keyError) {
+            console.error('Destination key update error:', keyError);
+            throw new Error('Failed to update destination stream key');
+          }
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, destination }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'delete': {
+        if (!destinationId) {
+          throw new Error('Missing destinationId');
+        }
+
+        const { data: destination } = await supabase
+          .from('stream_destinations')
+          .select('mux_simulcast_target_id, events(mux_stream_id)')
+          .eq('id', destinationId)
+          .eq('event_id', eventId)
+          .single();
+
+        // Remove the matching Mux simulcast target so the stream stops pushing to it
+        const muxStreamId = destination?.events?.mux_stream_id;
+        if (destination?.mux_simulcast_target_id && muxStreamId) {
+          await removeMuxSimulcastTarget(muxStreamId, destination.mux_simulcast_target_id);
+        }
+
+        const { error: deleteError } = await supabase
+          .from('stream_destinations')
+          .delete()
+          .eq('id', destinationId)
+          .eq('event_id', eventId);
+
+        if (deleteError) {
+          console.error('Destination delete error:', deleteError);
+          throw new Error('Failed to delete destination');
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      default:
+        throw new Error('Invalid action. Use "create", "update" or "delete"');
+    }
+
+  } catch (error) {
+    console.error('Error in stream-destinations function:', error);
+    return new Response(
+      JSON.stringify({ 
+        error: error.message || 'Internal server error' 
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -7,11 +7,14 @@ const corsHeaders = {
 };
 
 interface YouTubeStreamRequest {
-  action: 'createStream' | 'startStream' | 'stopStream' | 'getStreamStatus';
+  action: 'createStream' | 'startStream' | 'stopStream' | 'getStreamStatus' | 'rescheduleStream' | 'deleteStream';
   eventId: string;
   title?: string;
   description?: string;
   streamId?: string;
+  // YouTube live stream (ingest) bound to the broadcast, removed along with it
+  ingestStreamId?: string;
+  scheduledStartTime?: string;
   sportType?: string;
   thumbnail?: any;
 }
@@ -46,7 +49,7 @@ serve(async (req) => {
       });
     }
 
-    const { action, eventId, title, description, streamId, sportType, thumbnail }: YouTubeStreamRequest = await req.json();
+    const { action, eventId, title, description, streamId, ingestStreamId, scheduledStartTime, sportType, thumbnail }: YouTubeStreamRequest = await req.json();
 
     // Get YouTube credentials from environment variables (centralized account)
     const clientId = Deno.env.get('YOUTUBE_CLIENT_ID');
@@ -68,7 +71,7 @@ serve(async (req) => {
     if (eventId !== 'temp') {
       const { data: eventData, error: eventError } = await supabase
         .from('events')
-        .select('name, sport, start_time')
+        .select('name, sport, start_time, youtube_broadcast_id, youtube_stream_id')
         .eq('id', eventId)
         .single();
 
@@ -78,6 +81,30 @@ serve(async (req) => {
       event = eventData;
     }
 
+    // Rescheduling and deleting change the event's own broadcast, so only its owners and
+    // producers may do it, and only for the broadcast the event is bound to
+    if (action === 'rescheduleStream' || action === 'deleteStream') {
+      const { data: canManage } = await supabase.rpc('can_manage_event', {
+        _event_id: eventId,
+        _user_id: user.id
+      });
+
+      if (!event || !canManage) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (!streamId || streamId !== event.youtube_broadcast_id) {
+        throw new Error('YouTube broadcast does not belong to this event');
+      }
+
+      if (ingestStreamId && ingestStreamId !== event.youtube_stream_id) {
+        throw new Error('YouTube live stream does not belong to this event');
+      }
+    }
+
     const makeYouTubeRequest = async (url: string, options: RequestInit) => {
       let response = await fetch(url, {
         ...options,
@@ -290,6 +317,81 @@ serve(async (req) => {
       });
     }
 
+    if (action === 'rescheduleStream' && streamId && scheduledStartTime) {
+      // The update replaces the whole snippet, so start from the broadcast's current one
+      const currentResponse = await makeYouTubeRequest(
+        `https://www.googleapis.com/youtube/v3/liveBroadcasts?id=${streamId}&part=snippet`,
+        {
+          method: 'GET',
+        }
+      );
+
+      if (!currentResponse.ok) {
+        throw new Error('Failed to load YouTube broadcast');
+      }
+
+      const current = (await currentResponse.json()).items?.[0];
+      if (!current) {
+        throw new Error('YouTube broadcast not found');
+      }
+
+      const response = await makeYouTubeRequest(
+        'https://www.googleapis.com/youtube/v3/liveBroadcasts?part=snippet',
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: streamId,
+            snippet: {
+              title: current.snippet.title,
+              description: current.snippet.description,
+              scheduledStartTime
+            }
+          })
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to reschedule YouTube broadcast');
+      }
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'deleteStream' && streamId) {
+      // Delete the broadcast, then the ingest stream it was bound to
+      const response = await makeYouTubeRequest(
+        `https://www.googleapis.com/youtube/v3/liveBroadcasts?id=${streamId}`,
+        {
+          method: 'DELETE',
+        }
+      );
+
+      // Already gone counts as deleted
+      if (!response.ok && response.status !== 404) {
+        throw new Error('Failed to delete YouTube broadcast');
+      }
+
+      if (ingestStreamId) {
+        const streamResponse = await makeYouTubeRequest(
+          `https://www.googleapis.com/youtube/v3/liveStreams?id=${ingestStreamId}`,
+          {
+            method: 'DELETE',
+          }
+        );
+
+        if (!streamResponse.ok && streamResponse.status !== 404) {
+          console.warn('Failed to delete YouTube live stream:', await streamResponse.text());
+        }
+      }
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
     throw new Error('Invalid action');
 
   } catch (error) {
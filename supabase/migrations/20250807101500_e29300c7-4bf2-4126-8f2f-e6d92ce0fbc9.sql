@@ -0,0 +1,18 @@
+-- Track processed Mux webhook deliveries so retried deliveries are only handled once
+CREATE TABLE public.mux_webhook_deliveries (
+  id TEXT NOT NULL PRIMARY KEY, -- Mux webhook event id, stable across retries
+  event_type TEXT NOT NULL,
+  object_id TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (edge functions use the service role and bypass it)
+ALTER TABLE public.mux_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can inspect webhook deliveries
+CREATE POLICY "Admins can view Mux webhook deliveries" 
+ON public.mux_webhook_deliveries 
+FOR SELECT 
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_mux_webhook_deliveries_processed_at ON public.mux_webhook_deliveries(processed_at);
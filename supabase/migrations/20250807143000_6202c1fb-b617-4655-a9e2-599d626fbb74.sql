@@ -0,0 +1,39 @@
+-- Track LiveKit egresses per event so layout updates and stop target the right egress
+CREATE TABLE public.egress_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  egress_id TEXT NOT NULL UNIQUE,
+  target_urls TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'starting' CHECK (status IN ('starting', 'active', 'ending', 'ended', 'failed')),
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (edge functions use the service role and bypass it)
+ALTER TABLE public.egress_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Target URLs embed stream keys, so only event owners and admins can read sessions
+CREATE POLICY "Event owners and admins can view egress sessions" 
+ON public.egress_sessions 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = egress_sessions.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+CREATE TRIGGER update_egress_sessions_updated_at
+  BEFORE UPDATE ON public.egress_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_egress_sessions_event_id ON public.egress_sessions(event_id);
+CREATE INDEX idx_egress_sessions_status ON public.egress_sessions(status);
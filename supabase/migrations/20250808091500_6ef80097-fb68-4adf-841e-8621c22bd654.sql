@@ -0,0 +1,58 @@
+-- Per-event simulcast destinations managed from the director dashboard
+CREATE TABLE public.stream_destinations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rtmp_url TEXT NOT NULL CHECK (rtmp_url ~* '^rtmps?://'),
+  stream_key_hint TEXT, -- last characters of the key, for display only
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'idle' CHECK (status IN ('idle', 'connecting', 'active', 'error')),
+  last_error TEXT,
+  mux_simulcast_target_id TEXT UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Stream keys are kept apart so they never leave the server
+CREATE TABLE public.stream_destination_keys (
+  destination_id UUID NOT NULL PRIMARY KEY REFERENCES public.stream_destinations(id) ON DELETE CASCADE,
+  stream_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (writes go through the stream-destinations edge function)
+ALTER TABLE public.stream_destinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stream_destination_keys ENABLE ROW LEVEL SECURITY;
+
+-- Event owners and admins can see destinations and their health
+CREATE POLICY "Event owners and admins can view stream destinations" 
+ON public.stream_destinations 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = stream_destinations.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+-- No policies on stream_destination_keys: only the service role can read keys
+
+CREATE TRIGGER update_stream_destinations_updated_at
+  BEFORE UPDATE ON public.stream_destinations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_stream_destination_keys_updated_at
+  BEFORE UPDATE ON public.stream_destination_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_stream_destinations_event_id ON public.stream_destinations(event_id);
+
+-- Destination health is pushed to the director dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.stream_destinations;
@@ -0,0 +1,3 @@
+-- Program layout currently on air, so late joiners and the egress template start in sync
+ALTER TABLE public.events
+ADD COLUMN program_layout JSONB;
@@ -0,0 +1,3 @@
+-- Director keyboard and MIDI switcher bindings, null means the built-in defaults
+ALTER TABLE public.profiles
+ADD COLUMN switcher_keymap JSONB;
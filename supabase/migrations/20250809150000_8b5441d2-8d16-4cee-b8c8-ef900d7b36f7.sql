@@ -0,0 +1,127 @@
+-- On-stream scoreboard and game clock, one per event
+CREATE TABLE public.event_scoreboards (
+  event_id UUID NOT NULL PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  home_name TEXT NOT NULL DEFAULT 'Home',
+  away_name TEXT NOT NULL DEFAULT 'Away',
+  home_color TEXT NOT NULL DEFAULT '#1d4ed8',
+  away_color TEXT NOT NULL DEFAULT '#dc2626',
+  home_score INTEGER NOT NULL DEFAULT 0 CHECK (home_score >= 0),
+  away_score INTEGER NOT NULL DEFAULT 0 CHECK (away_score >= 0),
+  period INTEGER NOT NULL DEFAULT 1 CHECK (period >= 0),
+  -- Clock value when it was last stopped or set; while running, elapsed time since
+  -- clock_started_at is added (counting up) or subtracted (counting down)
+  clock_seconds INTEGER NOT NULL DEFAULT 0 CHECK (clock_seconds >= 0),
+  clock_running BOOLEAN NOT NULL DEFAULT false,
+  clock_started_at TIMESTAMP WITH TIME ZONE,
+  clock_direction TEXT NOT NULL DEFAULT 'up' CHECK (clock_direction IN ('up', 'down')),
+  clock_duration_seconds INTEGER NOT NULL DEFAULT 0 CHECK (clock_duration_seconds >= 0), -- reset value when counting down
+  visible BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.event_scoreboards ENABLE ROW LEVEL SECURITY;
+
+-- Viewers and the egress template render the scoreboard, so it is public like events
+CREATE POLICY "Scoreboards are viewable by everyone" 
+ON public.event_scoreboards 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Event owners and admins can create scoreboards" 
+ON public.event_scoreboards 
+FOR INSERT 
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = event_scoreboards.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+CREATE POLICY "Event owners and admins can update scoreboards" 
+ON public.event_scoreboards 
+FOR UPDATE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = event_scoreboards.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+-- Game clock control on database time so every viewer computes the same value.
+-- Runs as the caller, so the update policy above still applies.
+CREATE OR REPLACE FUNCTION public.control_scoreboard_clock(
+  _event_id UUID,
+  _action TEXT,
+  _seconds INTEGER DEFAULT NULL
+)
+RETURNS public.event_scoreboards
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  board public.event_scoreboards;
+  current_seconds INTEGER;
+BEGIN
+  SELECT * INTO board FROM public.event_scoreboards WHERE event_id = _event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scoreboard not found for event %', _event_id;
+  END IF;
+
+  current_seconds := board.clock_seconds;
+  IF board.clock_running AND board.clock_started_at IS NOT NULL THEN
+    current_seconds := GREATEST(
+      0,
+      board.clock_seconds
+        + (CASE WHEN board.clock_direction = 'down' THEN -1 ELSE 1 END)
+        * floor(extract(epoch FROM now() - board.clock_started_at))::integer
+    );
+  END IF;
+
+  IF _action = 'start' THEN
+    UPDATE public.event_scoreboards
+    SET clock_running = true, clock_seconds = current_seconds, clock_started_at = now()
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'stop' THEN
+    UPDATE public.event_scoreboards
+    SET clock_running = false, clock_seconds = current_seconds, clock_started_at = NULL
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'set' AND _seconds IS NOT NULL AND _seconds >= 0 THEN
+    -- A running clock keeps running from the new value
+    UPDATE public.event_scoreboards
+    SET clock_seconds = _seconds, clock_started_at = CASE WHEN clock_running THEN now() ELSE NULL END
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'reset' THEN
+    UPDATE public.event_scoreboards
+    SET clock_running = false,
+        clock_started_at = NULL,
+        clock_seconds = CASE WHEN clock_direction = 'down' THEN clock_duration_seconds ELSE 0 END
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSE
+    RAISE EXCEPTION 'Invalid clock action: %', _action;
+  END IF;
+
+  RETURN board;
+END;
+$$;
+
+CREATE TRIGGER update_event_scoreboards_updated_at
+  BEFORE UPDATE ON public.event_scoreboards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Score and clock changes are pushed to viewers, the director and the egress template
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_scoreboards;
@@ -0,0 +1,94 @@
+-- Sport-specific scoreboard state: baseball count, tennis games and sets, volleyball sets,
+-- plus the last scoring snapshot so an operator can undo a mistaken entry
+ALTER TABLE public.event_scoreboards
+  ADD COLUMN sport_state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Shot clock runs and stops with the game clock; NULL when the sport has none
+  ADD COLUMN shot_clock_seconds INTEGER CHECK (shot_clock_seconds >= 0),
+  ADD COLUMN shot_clock_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Game and shot clock control on database time so every viewer computes the same value.
+-- Runs as the caller, so the update policy on event_scoreboards still applies.
+CREATE OR REPLACE FUNCTION public.control_scoreboard_clock(
+  _event_id UUID,
+  _action TEXT,
+  _seconds INTEGER DEFAULT NULL
+)
+RETURNS public.event_scoreboards
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  board public.event_scoreboards;
+  current_seconds INTEGER;
+  current_shot_seconds INTEGER;
+BEGIN
+  SELECT * INTO board FROM public.event_scoreboards WHERE event_id = _event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scoreboard not found for event %', _event_id;
+  END IF;
+
+  current_seconds := board.clock_seconds;
+  current_shot_seconds := board.shot_clock_seconds;
+  IF board.clock_running AND board.clock_started_at IS NOT NULL THEN
+    current_seconds := GREATEST(
+      0,
+      board.clock_seconds
+        + (CASE WHEN board.clock_direction = 'down' THEN -1 ELSE 1 END)
+        * floor(extract(epoch FROM now() - board.clock_started_at))::integer
+    );
+  END IF;
+  IF board.clock_running AND board.shot_clock_started_at IS NOT NULL THEN
+    current_shot_seconds := GREATEST(
+      0,
+      board.shot_clock_seconds - floor(extract(epoch FROM now() - board.shot_clock_started_at))::integer
+    );
+  END IF;
+
+  IF _action = 'start' THEN
+    UPDATE public.event_scoreboards
+    SET clock_running = true,
+        clock_seconds = current_seconds,
+        clock_started_at = now(),
+        shot_clock_seconds = current_shot_seconds,
+        shot_clock_started_at = CASE WHEN current_shot_seconds IS NULL THEN NULL ELSE now() END
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'stop' THEN
+    UPDATE public.event_scoreboards
+    SET clock_running = false,
+        clock_seconds = current_seconds,
+        clock_started_at = NULL,
+        shot_clock_seconds = current_shot_seconds,
+        shot_clock_started_at = NULL
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'set' AND _seconds IS NOT NULL AND _seconds >= 0 THEN
+    -- A running clock keeps running from the new value
+    UPDATE public.event_scoreboards
+    SET clock_seconds = _seconds, clock_started_at = CASE WHEN clock_running THEN now() ELSE NULL END
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'reset' THEN
+    UPDATE public.event_scoreboards
+    SET clock_running = false,
+        clock_started_at = NULL,
+        clock_seconds = CASE WHEN clock_direction = 'down' THEN clock_duration_seconds ELSE 0 END,
+        shot_clock_seconds = current_shot_seconds,
+        shot_clock_started_at = NULL
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSIF _action = 'shot_set' AND (_seconds IS NULL OR _seconds >= 0) THEN
+    -- NULL turns the shot clock off
+    UPDATE public.event_scoreboards
+    SET shot_clock_seconds = _seconds,
+        shot_clock_started_at = CASE WHEN clock_running AND _seconds IS NOT NULL THEN now() ELSE NULL END
+    WHERE event_id = _event_id
+    RETURNING * INTO board;
+  ELSE
+    RAISE EXCEPTION 'Invalid clock action: %', _action;
+  END IF;
+
+  RETURN board;
+END;
+$$;
@@ -0,0 +1,103 @@
+-- When the recording asset starts and how long it runs, used to place highlights in it
+ALTER TABLE public.events
+  ADD COLUMN recording_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN recording_duration_seconds NUMERIC;
+
+-- Highlight moments marked live by the director, logged like camera switches
+CREATE TABLE public.highlights (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL, -- camera on program when marked
+  label TEXT,
+  marked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Clips cut from the event recording, by offset into the recording asset
+CREATE TABLE public.event_clips (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  highlight_id UUID UNIQUE REFERENCES public.highlights(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  start_seconds NUMERIC NOT NULL CHECK (start_seconds >= 0),
+  end_seconds NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_seconds > start_seconds)
+);
+
+ALTER TABLE public.highlights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_clips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event owners and admins can view highlights" 
+ON public.highlights 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = highlights.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+CREATE POLICY "Event owners and admins can mark highlights" 
+ON public.highlights 
+FOR INSERT 
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = highlights.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+CREATE POLICY "Event owners and admins can delete highlights" 
+ON public.highlights 
+FOR DELETE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = highlights.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+-- Clips are shared publicly on the highlights page
+CREATE POLICY "Clips are viewable by everyone" 
+ON public.event_clips 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Event owners and admins can manage clips" 
+ON public.event_clips 
+FOR ALL 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = event_clips.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+CREATE TRIGGER update_event_clips_updated_at
+  BEFORE UPDATE ON public.event_clips
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_highlights_event_id ON public.highlights(event_id, marked_at);
+CREATE INDEX idx_event_clips_event_id ON public.event_clips(event_id, start_seconds);
+
+-- Highlights show up on every director's dashboard as they are marked
+ALTER PUBLICATION supabase_realtime ADD TABLE public.highlights;
@@ -0,0 +1,6 @@
+-- When the event went off air; the webhooks already write it, and the program timeline ends there
+ALTER TABLE public.events
+  ADD COLUMN ended_at TIMESTAMP WITH TIME ZONE;
+
+-- The timeline reads an event's switches in order
+CREATE INDEX IF NOT EXISTS idx_switch_logs_event_timestamp ON public.switch_logs(event_id, timestamp);
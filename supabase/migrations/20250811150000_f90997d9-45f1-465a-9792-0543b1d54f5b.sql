@@ -0,0 +1,64 @@
+-- Isolated (ISO) recordings: one LiveKit track egress per camera, started with the program egress
+CREATE TABLE public.camera_recordings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL,
+  participant_identity TEXT NOT NULL,
+  track_sid TEXT NOT NULL,
+  egress_id TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'starting' CHECK (status IN ('starting', 'active', 'ending', 'ended', 'failed')),
+  file_path TEXT, -- object path in the iso-recordings storage bucket, set when the egress ends
+  size_bytes BIGINT,
+  duration_seconds NUMERIC,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (edge functions use the service role and bypass it)
+ALTER TABLE public.camera_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event owners and admins can view camera recordings" 
+ON public.camera_recordings 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id = camera_recordings.event_id 
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+CREATE TRIGGER update_camera_recordings_updated_at
+  BEFORE UPDATE ON public.camera_recordings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_camera_recordings_event_id ON public.camera_recordings(event_id);
+CREATE INDEX idx_camera_recordings_status ON public.camera_recordings(status);
+
+-- Private bucket the egress uploads ISO files to (S3 protocol), under a folder per event
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('iso-recordings', 'iso-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Owners download their event's ISO files through signed URLs
+CREATE POLICY "Event owners and admins can read ISO recordings" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'iso-recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.events 
+    WHERE id::text = (storage.foldername(storage.objects.name))[1]
+    AND (
+      owner_id = auth.uid() 
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
@@ -0,0 +1,26 @@
+-- Chapter markers for the replay of an ended event: camera switches with the camera's label,
+-- and highlights. Runs as definer so viewers get camera labels without reading the cameras table.
+CREATE OR REPLACE FUNCTION public.get_replay_markers(_event_id UUID)
+RETURNS TABLE (kind TEXT, label TEXT, marked_at TIMESTAMP WITH TIME ZONE, camera_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT markers.kind, markers.label, markers.marked_at, markers.camera_id
+  FROM (
+    SELECT 'switch'::TEXT AS kind, c.device_label AS label, s.timestamp AS marked_at, s.camera_id
+    FROM public.switch_logs s
+    JOIN public.cameras c ON c.id = s.camera_id
+    WHERE s.event_id = _event_id
+    UNION ALL
+    SELECT 'highlight'::TEXT, h.label, h.marked_at, h.camera_id
+    FROM public.highlights h
+    WHERE h.event_id = _event_id
+  ) markers
+  WHERE EXISTS (
+    SELECT 1 FROM public.events
+    WHERE id = _event_id AND status = 'ended'
+  )
+  ORDER BY markers.marked_at;
+$$;
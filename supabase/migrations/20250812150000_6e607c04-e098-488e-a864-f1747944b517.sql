@@ -0,0 +1,64 @@
+-- Scheduling options read by the event-scheduler function
+ALTER TABLE public.events
+  ADD COLUMN auto_start BOOLEAN NOT NULL DEFAULT false, -- go live at start_time once a camera is live
+  ADD COLUMN auto_end BOOLEAN NOT NULL DEFAULT true, -- end after expected_duration plus the grace period
+  ADD COLUMN end_grace_minutes INTEGER NOT NULL DEFAULT 15 CHECK (end_grace_minutes >= 0),
+  ADD COLUMN prewarmed_at TIMESTAMP WITH TIME ZONE; -- when the Mux stream and LiveKit room were readied
+
+-- The scheduler looks up upcoming and live events by start time
+CREATE INDEX IF NOT EXISTS idx_events_status_start_time ON public.events(status, start_time);
+
+-- In-app notifications, e.g. the scheduler telling an owner their event went live or was ended
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (edge functions use the service role and bypass it)
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_notifications_user_created_at ON public.notifications(user_id, created_at DESC);
+
+-- Enable realtime so the header bell updates as notifications arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Run the scheduler every minute. The project URL and the SCHEDULER_SECRET value are read
+-- from Vault secrets named 'project_url' and 'scheduler_secret'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'event-scheduler',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/event-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'scheduler_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,77 @@
+-- Live events whose program output dropped (egress failed, Mux went idle) and may reconnect
+ALTER TYPE public.event_status ADD VALUE IF NOT EXISTS 'paused' AFTER 'live';
+
+-- Legal event status changes: scheduled -> live -> ended, live <-> paused, paused -> ended,
+-- and cancelled from scheduled only. Compared as text so the new enum value can be used
+-- in the same migration.
+CREATE OR REPLACE FUNCTION public.can_transition_event_status(_from public.event_status, _to public.event_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT _from::TEXT = _to::TEXT OR (_from::TEXT, _to::TEXT) IN (
+    ('scheduled', 'live'),
+    ('scheduled', 'cancelled'),
+    ('live', 'paused'),
+    ('live', 'ended'),
+    ('paused', 'live'),
+    ('paused', 'ended')
+  );
+$$;
+
+-- Reject illegal status changes from any writer, including direct table updates
+CREATE OR REPLACE FUNCTION public.enforce_event_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT public.can_transition_event_status(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal event status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_events_status_transition
+  BEFORE UPDATE OF status ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_event_status_transition();
+
+-- The one way edge functions change an event's status. Locks the row, stamps ended_at on the
+-- way to ended, and returns the event; moving to the current status is a no-op.
+CREATE OR REPLACE FUNCTION public.transition_event_status(_event_id UUID, _status public.event_status)
+RETURNS public.events
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id;
+  END IF;
+
+  IF _event.status = _status THEN
+    RETURN _event;
+  END IF;
+
+  UPDATE public.events
+  SET
+    status = _status,
+    ended_at = CASE WHEN _status::TEXT = 'ended' THEN now() ELSE ended_at END,
+    updated_at = now()
+  WHERE id = _event_id
+  RETURNING * INTO _event;
+
+  RETURN _event;
+END;
+$$;
+
+-- Only edge functions (service role) drive status changes through the function
+REVOKE EXECUTE ON FUNCTION public.transition_event_status(UUID, public.event_status) FROM PUBLIC, anon, authenticated;
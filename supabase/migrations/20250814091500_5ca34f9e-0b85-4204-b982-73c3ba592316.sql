@@ -0,0 +1,125 @@
+-- Reusable event setups: everything create-event needs apart from the name and start time
+CREATE TABLE public.event_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sport TEXT NOT NULL,
+  expected_duration INTEGER NOT NULL DEFAULT 180 CHECK (expected_duration > 0),
+  description TEXT,
+  auto_start BOOLEAN NOT NULL DEFAULT false,
+  auto_end BOOLEAN NOT NULL DEFAULT true,
+  end_grace_minutes INTEGER NOT NULL DEFAULT 15 CHECK (end_grace_minutes >= 0),
+  home_name TEXT NOT NULL DEFAULT 'Home',
+  away_name TEXT NOT NULL DEFAULT 'Away',
+  home_color TEXT NOT NULL DEFAULT '#1d4ed8',
+  away_color TEXT NOT NULL DEFAULT '#dc2626',
+  camera_labels TEXT[] NOT NULL DEFAULT '{}', -- offered to camera operators in this order
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Simulcast destinations copied onto every event created from the template
+CREATE TABLE public.event_template_destinations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.event_templates(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rtmp_url TEXT NOT NULL CHECK (rtmp_url ~* '^rtmps?://'),
+  stream_key_hint TEXT, -- last characters of the key, for display only
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Stream keys are kept apart so they never leave the server
+CREATE TABLE public.event_template_destination_keys (
+  destination_id UUID NOT NULL PRIMARY KEY REFERENCES public.event_template_destinations(id) ON DELETE CASCADE,
+  stream_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A recurring schedule, e.g. every league game of a season; its events are created up front
+CREATE TABLE public.event_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.event_templates(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  repeat_interval INTEGER NOT NULL DEFAULT 1 CHECK (repeat_interval > 0),
+  occurrences INTEGER NOT NULL CHECK (occurrences > 0),
+  first_start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Where an event came from, and the camera labels its operators pick from
+ALTER TABLE public.events
+  ADD COLUMN template_id UUID REFERENCES public.event_templates(id) ON DELETE SET NULL,
+  ADD COLUMN series_id UUID REFERENCES public.event_series(id) ON DELETE SET NULL,
+  ADD COLUMN camera_labels TEXT[] NOT NULL DEFAULT '{}';
+
+-- Enable RLS (template destinations are written by the event-templates edge function)
+ALTER TABLE public.event_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_template_destinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_template_destination_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and admins can view event templates"
+ON public.event_templates
+FOR SELECT
+USING (owner_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can create their own event templates"
+ON public.event_templates
+FOR INSERT
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners and admins can update event templates"
+ON public.event_templates
+FOR UPDATE
+USING (owner_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Owners and admins can delete event templates"
+ON public.event_templates
+FOR DELETE
+USING (owner_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Template owners and admins can view template destinations"
+ON public.event_template_destinations
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.event_templates
+    WHERE id = event_template_destinations.template_id
+    AND (
+      owner_id = auth.uid()
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+);
+
+-- No policies on event_template_destination_keys: only the service role can read keys
+
+-- Series are created by create-event; owners can list them
+CREATE POLICY "Owners and admins can view event series"
+ON public.event_series
+FOR SELECT
+USING (owner_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_event_templates_updated_at
+  BEFORE UPDATE ON public.event_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_event_template_destinations_updated_at
+  BEFORE UPDATE ON public.event_template_destinations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_event_template_destination_keys_updated_at
+  BEFORE UPDATE ON public.event_template_destination_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_event_templates_owner_id ON public.event_templates(owner_id);
+CREATE INDEX idx_event_template_destinations_template_id ON public.event_template_destinations(template_id);
+CREATE INDEX idx_events_series_id ON public.events(series_id);
@@ -0,0 +1,343 @@
+-- Team workspaces: an organization's members share its events according to their role
+CREATE TYPE public.org_role AS ENUM ('owner', 'producer', 'director', 'camera_operator');
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role org_role NOT NULL DEFAULT 'camera_operator',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Events without an organization stay personal to owner_id. Deleting an organization
+-- hands its events back to the members who created them.
+ALTER TABLE public.events
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+-- Role of a user in an organization, NULL when they are not a member
+CREATE OR REPLACE FUNCTION public.get_org_role(_org_id UUID, _user_id UUID)
+RETURNS org_role
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = _org_id AND user_id = _user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_org_id UUID, _user_id UUID, _roles org_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(get_org_role(_org_id, _user_id) = ANY(_roles), false);
+$$;
+
+-- A user's role on an event: the event's owner and admins act as owners, organization
+-- members have their organization role, everyone else has none (NULL)
+CREATE OR REPLACE FUNCTION public.get_event_role(_event_id UUID, _user_id UUID)
+RETURNS org_role
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT CASE
+    WHEN e.owner_id = _user_id OR has_role(_user_id, 'admin'::app_role) THEN 'owner'::org_role
+    ELSE get_org_role(e.organization_id, _user_id)
+  END
+  FROM public.events e
+  WHERE e.id = _event_id;
+$$;
+
+-- Running an event (switching, scoreboard, highlights, destinations): owners, producers and directors
+CREATE OR REPLACE FUNCTION public.can_access_event(event_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(get_event_role(event_id, user_id) IN ('owner', 'producer', 'director'), false);
+$$;
+
+-- Changing what an event is (cancel, reschedule): owners and producers
+CREATE OR REPLACE FUNCTION public.can_manage_event(_event_id UUID, _user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(get_event_role(_event_id, _user_id) IN ('owner', 'producer'), false);
+$$;
+
+-- Any role on the event, including camera operators
+CREATE OR REPLACE FUNCTION public.is_event_member(_event_id UUID, _user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT get_event_role(_event_id, _user_id) IS NOT NULL;
+$$;
+
+-- Creates an organization with the caller as its first owner
+CREATE OR REPLACE FUNCTION public.create_organization(_name TEXT)
+RETURNS public.organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  org public.organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (trim(_name), auth.uid())
+  RETURNING * INTO org;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (org.id, auth.uid(), 'owner');
+
+  RETURN org;
+END;
+$$;
+
+-- Every organization keeps at least one owner; deleting the organization itself is fine
+CREATE OR REPLACE FUNCTION public.protect_last_organization_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role != 'owner')
+     AND EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.organization_members
+       WHERE organization_id = OLD.organization_id
+       AND role = 'owner'
+       AND user_id != OLD.user_id
+     ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_last_organization_owner
+  BEFORE UPDATE OF role OR DELETE ON public.organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_last_organization_owner();
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at
+  BEFORE UPDATE ON public.organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS (organizations are created through create_organization, members are managed
+-- by the organization-members edge function)
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view organizations"
+ON public.organizations
+FOR SELECT
+USING (get_org_role(id, auth.uid()) IS NOT NULL OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Organization owners can update organizations"
+ON public.organizations
+FOR UPDATE
+USING (has_org_role(id, auth.uid(), '{owner}'));
+
+CREATE POLICY "Organization owners can delete organizations"
+ON public.organizations
+FOR DELETE
+USING (has_org_role(id, auth.uid(), '{owner}'));
+
+CREATE POLICY "Members can view their organization's members"
+ON public.organization_members
+FOR SELECT
+USING (get_org_role(organization_id, auth.uid()) IS NOT NULL OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Members can leave organizations"
+ON public.organization_members
+FOR DELETE
+USING (user_id = auth.uid());
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+CREATE INDEX idx_events_organization_id ON public.events(organization_id);
+
+-- Event policies, rewritten around membership. Anyone with a role on the event sees it;
+-- others only see events that are scheduled or on air, as before (now including paused).
+DROP POLICY IF EXISTS "Authenticated users can view events" ON public.events;
+DROP POLICY IF EXISTS "Event creators can create events" ON public.events;
+DROP POLICY IF EXISTS "Event owners and admins can update events" ON public.events;
+
+CREATE POLICY "Authenticated users can view events"
+ON public.events
+FOR SELECT
+TO authenticated
+USING (
+  is_event_member(id, auth.uid())
+  OR status IN ('scheduled'::event_status, 'live'::event_status, 'paused'::event_status)
+);
+
+-- Personal events need an event creator role; organization events need an owner or producer
+CREATE POLICY "Event creators can create events"
+ON public.events
+FOR INSERT
+WITH CHECK (
+  auth.uid() IS NOT NULL
+  AND owner_id = auth.uid()
+  AND (
+    (
+      organization_id IS NULL
+      AND (
+        has_role(auth.uid(), 'event_creator'::app_role)
+        OR has_role(auth.uid(), 'director'::app_role)
+        OR has_role(auth.uid(), 'admin'::app_role)
+      )
+    )
+    OR has_org_role(organization_id, auth.uid(), '{owner,producer}')
+  )
+);
+
+-- Events can only be moved into organizations the user belongs to
+CREATE POLICY "Event crew can update events"
+ON public.events
+FOR UPDATE
+USING (can_access_event(id, auth.uid()))
+WITH CHECK (
+  organization_id IS NULL
+  OR get_org_role(organization_id, auth.uid()) IS NOT NULL
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+-- "Event crew" below means owners, producers and directors of the event (can_access_event).
+-- This replaces the global director role, which used to reach every event's cameras and switches.
+DROP POLICY IF EXISTS "Event owners and directors can register cameras" ON public.cameras;
+DROP POLICY IF EXISTS "Event owners and directors can update cameras" ON public.cameras;
+DROP POLICY IF EXISTS "Event owners can delete cameras" ON public.cameras;
+
+CREATE POLICY "Event crew can register cameras"
+ON public.cameras
+FOR INSERT
+WITH CHECK (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can update cameras"
+ON public.cameras
+FOR UPDATE
+USING (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can delete cameras"
+ON public.cameras
+FOR DELETE
+TO authenticated
+USING (can_access_event(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event owners and directors can create switch logs" ON public.switch_logs;
+DROP POLICY IF EXISTS "Event participants can view switch logs" ON public.switch_logs;
+
+CREATE POLICY "Event crew can create switch logs"
+ON public.switch_logs
+FOR INSERT
+WITH CHECK (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can view switch logs"
+ON public.switch_logs
+FOR SELECT
+USING (can_access_event(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event owners and admins can view egress sessions" ON public.egress_sessions;
+
+CREATE POLICY "Event crew can view egress sessions"
+ON public.egress_sessions
+FOR SELECT
+USING (can_access_event(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event owners and admins can view stream destinations" ON public.stream_destinations;
+
+CREATE POLICY "Event crew can view stream destinations"
+ON public.stream_destinations
+FOR SELECT
+USING (can_access_event(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event owners and admins can create scoreboards" ON public.event_scoreboards;
+DROP POLICY IF EXISTS "Event owners and admins can update scoreboards" ON public.event_scoreboards;
+
+CREATE POLICY "Event crew can create scoreboards"
+ON public.event_scoreboards
+FOR INSERT
+WITH CHECK (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can update scoreboards"
+ON public.event_scoreboards
+FOR UPDATE
+USING (can_access_event(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event owners and admins can view highlights" ON public.highlights;
+DROP POLICY IF EXISTS "Event owners and admins can mark highlights" ON public.highlights;
+DROP POLICY IF EXISTS "Event owners and admins can delete highlights" ON public.highlights;
+DROP POLICY IF EXISTS "Event owners and admins can manage clips" ON public.event_clips;
+
+CREATE POLICY "Event crew can view highlights"
+ON public.highlights
+FOR SELECT
+USING (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can mark highlights"
+ON public.highlights
+FOR INSERT
+WITH CHECK (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can delete highlights"
+ON public.highlights
+FOR DELETE
+USING (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can manage clips"
+ON public.event_clips
+FOR ALL
+USING (can_access_event(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event owners and admins can view camera recordings" ON public.camera_recordings;
+DROP POLICY IF EXISTS "Event owners and admins can read ISO recordings" ON storage.objects;
+
+CREATE POLICY "Event crew can view camera recordings"
+ON public.camera_recordings
+FOR SELECT
+USING (can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event crew can read ISO recordings"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'iso-recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.events
+    WHERE id::text = (storage.foldername(storage.objects.name))[1]
+    AND can_access_event(id, auth.uid())
+  )
+);
@@ -0,0 +1,74 @@
+-- Per-event crew: producers and co-directors invited to a single event, on top of
+-- whatever role they have through the event's organization
+CREATE TABLE public.event_members (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role org_role NOT NULL CHECK (role IN ('producer', 'director')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+-- Email invites. The token is the secret in the acceptance link; an invite can only be
+-- accepted once, by the account with the invited email address, before it expires.
+CREATE TABLE public.event_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role org_role NOT NULL CHECK (role IN ('producer', 'director')),
+  token TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open invite per address and event; inviting again replaces it
+CREATE UNIQUE INDEX idx_event_invites_pending_email
+  ON public.event_invites(event_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+CREATE INDEX idx_event_members_user_id ON public.event_members(user_id);
+
+-- Notifications can point somewhere other than the event's director dashboard,
+-- such as an invite's acceptance page
+ALTER TABLE public.notifications ADD COLUMN link TEXT;
+
+-- The event role now also counts event crew. org_role values are declared from most to
+-- least privileged, so LEAST picks the stronger of the organization and event roles.
+CREATE OR REPLACE FUNCTION public.get_event_role(_event_id UUID, _user_id UUID)
+RETURNS org_role
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT CASE
+    WHEN e.owner_id = _user_id OR has_role(_user_id, 'admin'::app_role) THEN 'owner'::org_role
+    ELSE LEAST(
+      get_org_role(e.organization_id, _user_id),
+      (SELECT m.role FROM public.event_members m WHERE m.event_id = e.id AND m.user_id = _user_id)
+    )
+  END
+  FROM public.events e
+  WHERE e.id = _event_id;
+$$;
+
+-- Enable RLS (invites are created and accepted through the event-invites edge function)
+ALTER TABLE public.event_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event crew can view event members"
+ON public.event_members
+FOR SELECT
+USING (user_id = auth.uid() OR can_access_event(event_id, auth.uid()));
+
+CREATE POLICY "Event managers can remove event members"
+ON public.event_members
+FOR DELETE
+USING (user_id = auth.uid() OR can_manage_event(event_id, auth.uid()));
+
+CREATE POLICY "Event managers can view event invites"
+ON public.event_invites
+FOR SELECT
+USING (can_manage_event(event_id, auth.uid()));
@@ -0,0 +1,26 @@
+-- Camera invites: a secret token per camera slot, embedded in the slot's QR code. Each
+-- token is bound to one cameras row, so a phone that joins with it takes over that slot
+-- rather than registering a new camera. Tokens are time-boxed and can be single-use.
+CREATE TABLE public.camera_join_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  camera_id UUID NOT NULL REFERENCES public.cameras(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  single_use BOOLEAN NOT NULL DEFAULT false,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  -- Issued by register-camera when a phone joins; livekit-token only grants the slot's
+  -- publish permissions to whoever holds it
+  session_token TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_camera_join_tokens_event_id ON public.camera_join_tokens(event_id);
+CREATE INDEX idx_camera_join_tokens_camera_id ON public.camera_join_tokens(camera_id);
+
+-- Enable RLS (tokens are minted, listed and revoked through the camera-tokens edge function)
+ALTER TABLE public.camera_join_tokens ENABLE ROW LEVEL SECURITY;
+
+-- No policies on camera_join_tokens: only the service role can read tokens
@@ -0,0 +1,51 @@
+-- Event updates from the client are for owners and producers only. Directors run the event
+-- through edge functions (switching, layouts, streaming) and no longer update the row itself.
+DROP POLICY IF EXISTS "Event crew can update events" ON public.events;
+
+CREATE POLICY "Event owners and producers can update events"
+ON public.events
+FOR UPDATE
+USING (can_manage_event(id, auth.uid()))
+WITH CHECK (can_manage_event(id, auth.uid()));
+
+-- Ownership and streaming credentials are only changed by edge functions (service role),
+-- and events only move into organizations where the user is an owner or producer
+CREATE OR REPLACE FUNCTION public.protect_event_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.event_code IS DISTINCT FROM OLD.event_code
+    OR NEW.mux_stream_id IS DISTINCT FROM OLD.mux_stream_id
+    OR NEW.youtube_stream_key IS DISTINCT FROM OLD.youtube_stream_key
+    OR NEW.youtube_broadcast_id IS DISTINCT FROM OLD.youtube_broadcast_id
+    OR NEW.youtube_stream_id IS DISTINCT FROM OLD.youtube_stream_id
+  THEN
+    RAISE EXCEPTION 'Event owner and stream credentials cannot be changed directly'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    AND NEW.organization_id IS NOT NULL
+    AND NOT has_org_role(NEW.organization_id, auth.uid(), '{owner,producer}')
+    AND NOT has_role(auth.uid(), 'admin'::app_role)
+  THEN
+    RAISE EXCEPTION 'Only organization owners and producers can move events into an organization'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_event_columns
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_event_columns();
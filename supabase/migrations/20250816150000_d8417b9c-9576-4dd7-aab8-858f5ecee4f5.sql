@@ -0,0 +1,31 @@
+-- Public details of an event for its viewer and highlights pages. Runs as definer because events
+-- RLS only shows scheduled and on-air events to non-members, which hides ended events and their
+-- recordings. Only public columns are returned, the recording only once the event has ended, and
+-- nothing for cancelled events.
+CREATE OR REPLACE FUNCTION public.get_public_event(_event_id UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  sport TEXT,
+  status event_status,
+  recording_url TEXT,
+  recording_started_at TIMESTAMP WITH TIME ZONE,
+  recording_duration_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT
+    e.id,
+    e.name,
+    e.sport,
+    e.status,
+    CASE WHEN e.status = 'ended' THEN e.recording_url END,
+    e.recording_started_at,
+    e.recording_duration_seconds
+  FROM public.events e
+  WHERE e.id = _event_id
+    AND e.status <> 'cancelled'::event_status;
+$$;
@@ -0,0 +1,9 @@
+-- Highlights follow the same crew access as the rest of the event; crew could mark and
+-- delete highlights but not relabel them
+DROP POLICY IF EXISTS "Event crew can update highlights" ON public.highlights;
+
+CREATE POLICY "Event crew can update highlights"
+ON public.highlights
+FOR UPDATE
+USING (can_access_event(event_id, auth.uid()))
+WITH CHECK (can_access_event(event_id, auth.uid()));
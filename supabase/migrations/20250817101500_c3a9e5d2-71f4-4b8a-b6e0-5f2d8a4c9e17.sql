@@ -0,0 +1,5 @@
+-- Crew camera operators join as the camera slot they registered. Slots opened from an invite
+-- have no operator; their camera session decides who may publish as them.
+ALTER TABLE public.cameras ADD COLUMN operator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cameras_operator_id ON public.cameras(operator_id);
@@ -0,0 +1,34 @@
+-- The program layout is public too: the egress template (/program-output) runs as an anonymous
+-- client and must pick up the director's layout when an egress starts or restarts. The return
+-- type changes, so the function is recreated.
+DROP FUNCTION IF EXISTS public.get_public_event(UUID);
+
+CREATE FUNCTION public.get_public_event(_event_id UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  sport TEXT,
+  status event_status,
+  recording_url TEXT,
+  recording_started_at TIMESTAMP WITH TIME ZONE,
+  recording_duration_seconds NUMERIC,
+  program_layout JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT
+    e.id,
+    e.name,
+    e.sport,
+    e.status,
+    CASE WHEN e.status = 'ended' THEN e.recording_url END,
+    e.recording_started_at,
+    e.recording_duration_seconds,
+    e.program_layout
+  FROM public.events e
+  WHERE e.id = _event_id
+    AND e.status <> 'cancelled'::event_status;
+$$;